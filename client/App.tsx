@@ -4,7 +4,13 @@ import { HashRouter, Routes, Route, Navigate, useNavigate, useLocation } from 'r
 import { AuthProvider, useAuth } from './context/AuthContext';
 import { ToastProvider, useToast } from './context/ToastContext';
 import { LayoutProvider } from './context/LayoutContext';
+import { NotificationProvider } from './context/NotificationContext';
+import { TimeTrackingProvider } from './context/TimeTrackingContext';
+import { AutomationProvider } from './context/AutomationContext';
+import { PermissionProvider, usePermission, usePermissions } from './context/PermissionContext';
+import { ConcurrencyProvider } from './context/ConcurrencyContext';
 import { CRMPage } from './pages/CRMPage';
+import { InvoicesPage } from './pages/InvoicesPage';
 import { CompaniesPage } from './pages/CompaniesPage';
 import { TasksPage } from './pages/TasksPage';
 import { LoginPage } from './pages/LoginPage';
@@ -13,16 +19,26 @@ import { ClientTrackerPage } from './pages/ClientTrackerPage';
 import { ClientDetailsPage } from './pages/ClientDetailsPage';
 import { AdminPerformancePage } from './pages/AdminPerformancePage';
 import { AdminUserManagementPage } from './pages/AdminUserManagementPage';
+import { AdminPermissionsPage } from './pages/AdminPermissionsPage';
+import { AuditLogPage } from './pages/AuditLogPage';
 import { MeetingTrackerPage } from './pages/MeetingTrackerPage';
+import { TimesheetPage } from './pages/TimesheetPage';
+import { ContentCalendarPage } from './pages/ContentCalendarPage';
+import { PlaybooksPage } from './pages/PlaybooksPage';
+import { AutomationsPage } from './pages/AutomationsPage';
 import { UniversalCalendarPage } from './pages/UniversalCalendarPage';
 import { MyDashboardPage } from './pages/MyDashboardPage';
 import { ClientPortalPage } from './pages/ClientPortalPage';
 import { GamePage } from './pages/GamePage';
 import { ProfilePage } from './pages/ProfilePage';
+import { NotificationsPage } from './pages/NotificationsPage';
 import { NotFoundPage } from './pages/NotFoundPage';
 import { UnauthorizedPage } from './pages/UnauthorizedPage';
 import { ForgotPasswordPage } from './pages/ForgotPasswordPage';
 import { Screensaver } from './components/ui/Screensaver';
+import { ImpersonationBanner } from './components/layout/ImpersonationBanner';
+import { isSessionIdle, recordActivity } from './services/session';
+import { Permission } from './types';
 
 // --- Session Monitor Component ---
 const SessionMonitor: React.FC = () => {
@@ -54,22 +70,11 @@ const SessionMonitor: React.FC = () => {
             }
         }, 15 * 60 * 1000); 
 
-        // Auto Logout Check (3 hours)
+        // Idle sign-out: any input in any tab keeps the session alive
+        const activityEvents = ['mousedown', 'keydown', 'scroll', 'touchstart'];
+        activityEvents.forEach(name => window.addEventListener(name, recordActivity, { passive: true }));
         const checkSession = () => {
-            const loginTimeStr = localStorage.getItem('loginTimestamp');
-            if (loginTimeStr) {
-                const loginTime = parseInt(loginTimeStr, 10);
-                const now = Date.now();
-                const sessionLimit = 3 * 60 * 60 * 1000; // 3 hours
-                
-                if (now - loginTime > sessionLimit) {
-                    logout();
-                    // Toast notification removed as requested
-                }
-            } else {
-                // If missing (legacy login), set it to now to start timer
-                localStorage.setItem('loginTimestamp', String(Date.now()));
-            }
+            if (isSessionIdle()) logout('idle');
         };
 
         const interval = setInterval(checkSession, 60 * 1000); // Check every minute
@@ -78,80 +83,92 @@ const SessionMonitor: React.FC = () => {
         return () => {
             if (timerRef.current) clearTimeout(timerRef.current);
             clearInterval(interval);
+            activityEvents.forEach(name => window.removeEventListener(name, recordActivity));
         };
     }, [isAuthenticated, showToast, navigate, location.pathname, logout]);
 
     return null;
 };
 
-// 1. Super Admin Only Route
-const SuperAdminRoute: React.FC<{ children: React.ReactElement }> = ({ children }) => {
-    const { isAuthenticated, user } = useAuth();
-    if (!isAuthenticated) return <Navigate to="/login" replace />;
-    
-    if (user?.role !== 'ROLE_SUPER_ADMIN') {
-        return <Navigate to="/unauthorized" replace />;
-    }
-    return children;
+// Where a signed-in user lands: the team workspace, else the client portal
+const useHomePath = () => {
+    const canUseWorkspace = usePermission('workspace.view');
+    const canUsePortal = usePermission('portal.view');
+    if (canUseWorkspace) return '/dashboard';
+    return canUsePortal ? '/portal' : '/unauthorized';
 };
 
-// 2. Admin Route (Super Admin + Admin) - For CRM
-const AdminRoute: React.FC<{ children: React.ReactElement }> = ({ children }) => {
-    const { isAuthenticated, user } = useAuth();
+// 1. Permission Route - access comes from the role-to-capability matrix
+const PermissionRoute: React.FC<{ permission: Permission; children: React.ReactElement }> = ({ permission, children }) => {
+    const { isAuthenticated } = useAuth();
+    const { isLoaded } = usePermissions();
+    const allowed = usePermission(permission);
     if (!isAuthenticated) return <Navigate to="/login" replace />;
-    
-    if (user?.role === 'ROLE_SUPER_ADMIN' || user?.role === 'ROLE_ADMIN') {
-        return children;
+    if (!isLoaded) return null;
+
+    if (!allowed) {
+        return <Navigate to="/unauthorized" replace />;
     }
-    return <Navigate to="/unauthorized" replace />;
+    return children;
 };
 
-// 3. Operational Route (SA + Admin + Employee)
+// 2. Operational Route (workspace.view: SA + Admin + Employee by default)
 const OperationalRoute: React.FC<{ children: React.ReactElement }> = ({ children }) => {
-    const { isAuthenticated, user } = useAuth();
+    const { isAuthenticated } = useAuth();
+    const { isLoaded } = usePermissions();
+    const allowed = usePermission('workspace.view');
+    const home = useHomePath();
     if (!isAuthenticated) return <Navigate to="/login" replace />;
-    
-    if (user?.role === 'ROLE_CLIENT') {
-        return <Navigate to="/portal" replace />;
+    if (!isLoaded) return null;
+
+    if (!allowed) {
+        return <Navigate to={home} replace />;
     }
     return children;
 };
 
-// 4. Client Route (Client Only)
+// 3. Client Route (portal.view: Client by default)
 const ClientRoute: React.FC<{ children: React.ReactElement }> = ({ children }) => {
-    const { isAuthenticated, user } = useAuth();
+    const { isAuthenticated } = useAuth();
+    const { isLoaded } = usePermissions();
+    const allowed = usePermission('portal.view');
+    const home = useHomePath();
     if (!isAuthenticated) return <Navigate to="/login" replace />;
-    
-    if (user?.role !== 'ROLE_CLIENT') {
-        return <Navigate to="/dashboard" replace />;
+    if (!isLoaded) return null;
+
+    if (!allowed) {
+        return <Navigate to={home} replace />;
     }
     return children;
 };
 
-// 5. Public Route (Redirects to dashboard if already logged in)
+// 4. Public Route (Redirects home if already logged in)
 const PublicRoute: React.FC<{ children: React.ReactElement }> = ({ children }) => {
-    const { isAuthenticated, user } = useAuth();
+    const { isAuthenticated } = useAuth();
+    const { isLoaded } = usePermissions();
+    const home = useHomePath();
     if (isAuthenticated) {
-        if (user?.role === 'ROLE_CLIENT') return <Navigate to="/portal" replace />;
-        return <Navigate to="/dashboard" replace />;
+        return isLoaded ? <Navigate to={home} replace /> : null;
     }
     return children;
 };
 
-// 6. Generic Private Route (Any Authenticated User)
+// 5. Generic Private Route (Any Authenticated User)
 const PrivateRoute: React.FC<{ children: React.ReactElement }> = ({ children }) => {
     const { isAuthenticated } = useAuth();
     if (!isAuthenticated) return <Navigate to="/login" replace />;
     return children;
 };
 
-// 7. Root Redirect Logic
+// 6. Root Redirect Logic
 const RootRedirect: React.FC = () => {
-    const { isAuthenticated, user } = useAuth();
+    const { isAuthenticated } = useAuth();
+    const { isLoaded } = usePermissions();
+    const home = useHomePath();
     if (!isAuthenticated) return <Navigate to="/login" replace />;
-    
-    if (user?.role === 'ROLE_CLIENT') return <Navigate to="/portal" replace />;
-    return <Navigate to="/dashboard" replace />;
+    if (!isLoaded) return null;
+
+    return <Navigate to={home} replace />;
 };
 
 const AppRoutes = () => {
@@ -159,6 +176,7 @@ const AppRoutes = () => {
         <>
             <SessionMonitor />
             <Screensaver />
+            <ImpersonationBanner />
             <Routes>
                 {/* Public Routes */}
                 <Route path="/login" element={
@@ -193,12 +211,33 @@ const AppRoutes = () => {
                         <ProfilePage />
                     </PrivateRoute>
                 } />
+
+                {/* Notification Archive (Accessible by all logged in users) */}
+                <Route path="/notifications" element={
+                    <PrivateRoute>
+                        <NotificationsPage />
+                    </PrivateRoute>
+                } />
                 
-                {/* CRM (Super Admin + Admin) */}
+                {/* CRM */}
                 <Route path="/crm" element={
-                    <AdminRoute>
+                    <PermissionRoute permission="crm.view">
                         <CRMPage />
-                    </AdminRoute>
+                    </PermissionRoute>
+                } />
+
+                {/* Invoicing */}
+                <Route path="/invoices" element={
+                    <PermissionRoute permission="invoices.manage">
+                        <InvoicesPage />
+                    </PermissionRoute>
+                } />
+
+                {/* Workflow Automation */}
+                <Route path="/automations" element={
+                    <PermissionRoute permission="automations.manage">
+                        <AutomationsPage />
+                    </PermissionRoute>
                 } />
                 
                 {/* Operational Apps (SA + Admin + Employee) */}
@@ -222,6 +261,21 @@ const AppRoutes = () => {
                         <UniversalCalendarPage />
                     </OperationalRoute>
                 } />
+                <Route path="/timesheet" element={
+                    <OperationalRoute>
+                        <TimesheetPage />
+                    </OperationalRoute>
+                } />
+                <Route path="/content" element={
+                    <OperationalRoute>
+                        <ContentCalendarPage />
+                    </OperationalRoute>
+                } />
+                <Route path="/playbooks" element={
+                    <OperationalRoute>
+                        <PlaybooksPage />
+                    </OperationalRoute>
+                } />
                 <Route path="/client-tracker" element={
                     <OperationalRoute>
                         <ClientTrackerPage />
@@ -239,21 +293,31 @@ const AppRoutes = () => {
                     </OperationalRoute>
                 } />
                 
-                {/* Analytics & User Management (Super Admin Only) */}
+                {/* Analytics & Administration */}
                 <Route path="/reports" element={
-                    <SuperAdminRoute>
+                    <PermissionRoute permission="analytics.view">
                         <AnalyticsPage title="Reports" />
-                    </SuperAdminRoute>
+                    </PermissionRoute>
                 } />
                  <Route path="/admin/performance" element={
-                    <SuperAdminRoute>
+                    <PermissionRoute permission="analytics.view">
                         <AdminPerformancePage />
-                    </SuperAdminRoute>
+                    </PermissionRoute>
                 } />
                 <Route path="/admin/users" element={
-                    <SuperAdminRoute>
+                    <PermissionRoute permission="users.manage">
                         <AdminUserManagementPage />
-                    </SuperAdminRoute>
+                    </PermissionRoute>
+                } />
+                <Route path="/admin/permissions" element={
+                    <PermissionRoute permission="permissions.manage">
+                        <AdminPermissionsPage />
+                    </PermissionRoute>
+                } />
+                <Route path="/admin/audit" element={
+                    <PermissionRoute permission="audit.view">
+                        <AuditLogPage />
+                    </PermissionRoute>
                 } />
 
                 {/* System Routes */}
@@ -270,13 +334,23 @@ const AppRoutes = () => {
 const App: React.FC = () => {
   return (
     <AuthProvider>
-        <ToastProvider>
-            <LayoutProvider>
-                <HashRouter>
-                    <AppRoutes />
-                </HashRouter>
-            </LayoutProvider>
-        </ToastProvider>
+        <PermissionProvider>
+            <ToastProvider>
+                <ConcurrencyProvider>
+                    <NotificationProvider>
+                        <TimeTrackingProvider>
+                            <AutomationProvider>
+                                <LayoutProvider>
+                                    <HashRouter>
+                                        <AppRoutes />
+                                    </HashRouter>
+                                </LayoutProvider>
+                            </AutomationProvider>
+                        </TimeTrackingProvider>
+                    </NotificationProvider>
+                </ConcurrencyProvider>
+            </ToastProvider>
+        </PermissionProvider>
     </AuthProvider>
   );
 };
@@ -5,6 +5,7 @@ import { authApi, crmApi } from '../../services/api';
 import { useToast } from '../../context/ToastContext';
 import { CustomSelect } from '../ui/CustomSelect';
 import { CRMEntry } from '../../types';
+import { useAuth } from '../../context/AuthContext';
 
 interface CreateUserModalProps {
   isOpen: boolean;
@@ -20,6 +21,7 @@ const ROLE_OPTIONS = [
 ];
 
 export const CreateUserModal: React.FC<CreateUserModalProps> = ({ isOpen, onClose, onSuccess }) => {
+  const { isReadOnly } = useAuth();
   const { showToast } = useToast();
   const [formData, setFormData] = useState({
       name: '',
@@ -181,7 +183,7 @@ export const CreateUserModal: React.FC<CreateUserModalProps> = ({ isOpen, onClos
                     </button>
                     <button 
                         type="submit" 
-                        disabled={isLoading}
+                        disabled={isLoading || isReadOnly}
                         className="px-6 py-3 text-sm text-white bg-brand-600 hover:bg-brand-700 rounded-xl font-bold shadow-lg shadow-brand-500/30 flex items-center gap-2 transition-all active:scale-95 disabled:opacity-70"
                     >
                         {isLoading ? (
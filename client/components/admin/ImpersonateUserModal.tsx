@@ -0,0 +1,86 @@
+import React, { useState, useEffect } from 'react';
+import { X, Eye, ShieldAlert } from 'lucide-react';
+import { User } from '../../types';
+import { ROLE_LABELS } from '../../services/permissions';
+
+interface ImpersonateUserModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  user: User | null;
+  onConfirm: (options: { reason?: string; allowWrites: boolean }) => Promise<void>;
+}
+
+export const ImpersonateUserModal: React.FC<ImpersonateUserModalProps> = ({ isOpen, onClose, user, onConfirm }) => {
+  const [reason, setReason] = useState('');
+  const [allowWrites, setAllowWrites] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setReason('');
+      setAllowWrites(false);
+      setIsStarting(false);
+    }
+  }, [isOpen]);
+
+  if (!isOpen || !user) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsStarting(true);
+    try {
+      await onConfirm({ reason: reason.trim() || undefined, allowWrites });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const labelClass = "block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1";
+  const inputClass = "w-full px-5 py-3.5 bg-white border border-gray-200 rounded-2xl text-sm font-bold focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none shadow-inner";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-950/40 backdrop-blur-md p-6 animate-in fade-in duration-300" onClick={onClose}>
+      <div className="bg-white/90 backdrop-blur-3xl rounded-[3rem] shadow-2xl w-full max-w-lg border border-white/60 relative max-h-[90vh] overflow-y-auto custom-scrollbar" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-6 right-6 p-2 text-slate-400 hover:text-slate-900 bg-white/50 hover:bg-white rounded-full transition-all">
+          <X className="h-5 w-5" />
+        </button>
+
+        <form className="p-10 space-y-6" onSubmit={handleSubmit}>
+          <div>
+            <p className="text-[10px] font-black text-indigo-600 uppercase tracking-widest mb-2 flex items-center gap-2">
+              <Eye className="h-3.5 w-3.5" /> View as User
+            </p>
+            <h3 className="text-2xl font-black text-slate-900 tracking-tight">{user.name}</h3>
+            <p className="text-xs font-medium text-slate-500 mt-1">{user.email} · {ROLE_LABELS[user.role]}</p>
+          </div>
+
+          <div>
+            <label className={labelClass}>Reason</label>
+            <textarea className={`${inputClass} h-24 resize-none font-medium`} placeholder="e.g. Reported they can't see their tasks" value={reason} onChange={e => setReason(e.target.value)} />
+          </div>
+
+          <label className={`flex items-start gap-4 p-5 rounded-2xl border cursor-pointer transition-all ${allowWrites ? 'bg-amber-50 border-amber-200' : 'bg-slate-50 border-slate-100'}`}>
+            <input type="checkbox" className="mt-1 h-4 w-4 accent-amber-600" checked={allowWrites} onChange={e => setAllowWrites(e.target.checked)} />
+            <div>
+              <p className="text-sm font-bold text-slate-900">Allow changes</p>
+              <p className="text-xs font-medium text-slate-500 mt-0.5">Saves are blocked by default. Anything you change is recorded against this session.</p>
+            </div>
+          </label>
+
+          <p className="flex items-center gap-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+            <ShieldAlert className="h-3.5 w-3.5" /> This session is added to the audit trail
+          </p>
+
+          <div className="flex gap-4">
+            <button type="button" onClick={onClose} className="flex-1 py-4 text-[11px] font-black uppercase tracking-widest text-slate-500 bg-slate-100 hover:bg-slate-200 rounded-2xl transition-colors">
+              Cancel
+            </button>
+            <button type="submit" disabled={isStarting} className="flex-1 py-4 text-[11px] font-black uppercase tracking-widest text-white bg-slate-950 hover:bg-slate-900 rounded-2xl shadow-xl transition-all active:scale-95 disabled:opacity-40">
+              {isStarting ? 'Starting...' : 'Start Viewing'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { X, User, Mail, Calendar, Shield, Trash2, MapPin, History } from 'lucide-react';
+import { X, User, Mail, Calendar, Shield, Trash2, MapPin, History, Eye } from 'lucide-react';
 import { User as UserType } from '../../types';
 import { useAuth } from '../../context/AuthContext';
 import { CustomSelect } from '../ui/CustomSelect';
@@ -12,6 +12,7 @@ interface UserProfileModalProps {
   user: UserType | null;
   onDeleteRequest: (user: UserType) => void;
   onRoleUpdate: (userId: number, newRole: string) => void;
+  onImpersonate?: (user: UserType) => void; // Only passed when the viewer may use "view as"
 }
 
 const ROLE_OPTIONS = [
@@ -21,12 +22,13 @@ const ROLE_OPTIONS = [
     { label: 'Client', value: 'ROLE_CLIENT' },
 ];
 
-export const UserProfileModal: React.FC<UserProfileModalProps> = ({ isOpen, onClose, user, onDeleteRequest, onRoleUpdate }) => {
+export const UserProfileModal: React.FC<UserProfileModalProps> = ({ isOpen, onClose, user, onDeleteRequest, onRoleUpdate, onImpersonate }) => {
   const { user: currentUser } = useAuth();
 
   if (!isOpen || !user) return null;
 
   const isSelf = currentUser?.id === user.id;
+  const canImpersonate = !!onImpersonate && !isSelf && user.role !== 'ROLE_SUPER_ADMIN';
 
   const getRoleBadge = (role: string) => {
       let styles = 'bg-gray-100 text-gray-600 border-gray-200';
@@ -124,7 +126,15 @@ export const UserProfileModal: React.FC<UserProfileModalProps> = ({ isOpen, onCl
             )}
 
             {/* Actions */}
-            <div className="pt-2 flex justify-end">
+            <div className="pt-2 flex justify-end gap-3">
+                {canImpersonate && (
+                    <button 
+                        onClick={() => onImpersonate?.(user)}
+                        className="flex items-center gap-2 px-5 py-2.5 bg-indigo-50 text-indigo-600 hover:bg-indigo-100 rounded-xl font-bold text-sm transition-colors border border-indigo-100"
+                    >
+                        <Eye className="h-4 w-4" /> View as User
+                    </button>
+                )}
                 {isSelf ? (
                     <div className="text-xs text-gray-400 italic">You cannot delete your own account.</div>
                 ) : (
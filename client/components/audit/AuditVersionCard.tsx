@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { ArrowRight, Eye, RotateCcw } from 'lucide-react';
+import { AUDIT_ENTITY_LABELS, AuditVersion, formatAuditValue } from '../../services/audit';
+import { formatDateTime } from '../../utils';
+
+interface AuditVersionCardProps {
+  version: AuditVersion;
+  showRecord?: boolean; // The global log names the record, a record's own history doesn't need to
+  onRevert?: () => Promise<void>;
+}
+
+const ACTION_LABELS = { create: 'created', update: 'changed', delete: 'deleted' } as const;
+
+const ACTION_STYLES = {
+  create: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+  update: 'bg-indigo-50 text-indigo-700 border-indigo-100',
+  delete: 'bg-rose-50 text-rose-700 border-rose-100'
+} as const;
+
+export const AuditVersionCard: React.FC<AuditVersionCardProps> = ({ version, showRecord, onRevert }) => {
+  const { entry, changes, isLatest } = version;
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [isReverting, setIsReverting] = useState(false);
+
+  const handleRevert = async () => {
+    if (!onRevert) return;
+    setIsReverting(true);
+    try {
+      await onRevert();
+    } finally {
+      setIsReverting(false);
+      setIsConfirming(false);
+    }
+  };
+
+  return (
+    <div className="p-5 bg-white/60 rounded-[1.5rem] border border-white shadow-sm">
+      <div className="flex items-start gap-4">
+        <div className="h-9 w-9 rounded-xl bg-slate-100 flex items-center justify-center text-xs font-black text-slate-500 uppercase shrink-0">
+          {entry.actorName.charAt(0)}
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex flex-wrap items-center gap-2">
+            <p className="text-sm font-bold text-slate-900">
+              {entry.actorName} <span className="font-medium text-slate-500">{ACTION_LABELS[entry.action]}</span>
+              {showRecord && <span className="font-medium text-slate-500"> {AUDIT_ENTITY_LABELS[entry.entity].toLowerCase()} </span>}
+              {showRecord && <span>{entry.recordLabel || `#${entry.recordId}`}</span>}
+            </p>
+            <span className={`px-2 py-0.5 rounded-lg text-[9px] font-black uppercase tracking-widest border ${ACTION_STYLES[entry.action]}`}>{entry.action}</span>
+            {isLatest && entry.action !== 'delete' && (
+              <span className="px-2 py-0.5 rounded-lg text-[9px] font-black uppercase tracking-widest border bg-slate-50 text-slate-500 border-slate-100">Current</span>
+            )}
+            {entry.impersonationId && (
+              <span className="px-2 py-0.5 rounded-lg text-[9px] font-black uppercase tracking-widest border bg-amber-50 text-amber-700 border-amber-100 flex items-center gap-1" title="Made while viewing as this user">
+                <Eye className="h-3 w-3" /> View As
+              </span>
+            )}
+          </div>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">{formatDateTime(entry.createdAt)}</p>
+
+          {changes.length > 0 && (
+            <div className="mt-4 space-y-2">
+              {changes.map(change => (
+                <div key={change.field} className="grid grid-cols-[120px_1fr] gap-3 text-xs">
+                  <span className="font-black text-slate-400 uppercase tracking-widest text-[10px] pt-0.5 truncate">{change.label}</span>
+                  <div className="flex flex-wrap items-center gap-2 min-w-0">
+                    <span className="px-2 py-0.5 rounded-md bg-rose-50 text-rose-700 line-through decoration-rose-300 break-all">{formatAuditValue(change.from)}</span>
+                    <ArrowRight className="h-3 w-3 text-slate-300 shrink-0" />
+                    <span className="px-2 py-0.5 rounded-md bg-emerald-50 text-emerald-700 font-bold break-all">{formatAuditValue(change.to)}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          {entry.action === 'update' && changes.length === 0 && (
+            <p className="mt-3 text-xs font-medium text-slate-400 italic">No tracked fields changed.</p>
+          )}
+        </div>
+
+        {onRevert && (
+          isConfirming ? (
+            <div className="flex items-center gap-2 shrink-0">
+              <button onClick={() => setIsConfirming(false)} className="px-3 py-2 text-[10px] font-black uppercase tracking-widest text-slate-500 bg-slate-100 hover:bg-slate-200 rounded-xl transition-colors">
+                Cancel
+              </button>
+              <button onClick={handleRevert} disabled={isReverting} className="px-3 py-2 text-[10px] font-black uppercase tracking-widest text-white bg-slate-950 hover:bg-slate-900 rounded-xl transition-all active:scale-95 disabled:opacity-40">
+                {isReverting ? 'Restoring...' : 'Confirm'}
+              </button>
+            </div>
+          ) : (
+            <button onClick={() => setIsConfirming(true)} className="flex items-center gap-1.5 px-3 py-2 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600 hover:bg-white rounded-xl border border-slate-100 transition-all shrink-0" title="Restore the record to this version">
+              <RotateCcw className="h-3.5 w-3.5" /> Restore
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
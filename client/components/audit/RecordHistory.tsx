@@ -0,0 +1,71 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { History } from 'lucide-react';
+import { AuditEntity } from '../../types';
+import { auditLogApi } from '../../services/api';
+import { AuditVersion, buildVersions, canRevertVersion } from '../../services/audit';
+import { AuditVersionCard } from './AuditVersionCard';
+import { usePermission } from '../../context/PermissionContext';
+import { useRevertVersion } from '../../hooks/useRevertVersion';
+
+interface RecordHistoryProps {
+  entity: AuditEntity;
+  recordId: number;
+  onReverted?: (patch: Record<string, unknown>) => void;
+}
+
+/**
+ * The "History" tab of a record: every saved version with what changed, newest first.
+ */
+export const RecordHistory: React.FC<RecordHistoryProps> = ({ entity, recordId, onReverted }) => {
+  const canRevert = usePermission('audit.revert');
+  const [versions, setVersions] = useState<AuditVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const load = async () => {
+    setIsLoading(true);
+    try {
+      setVersions(buildVersions(await auditLogApi.getForRecord(entity, recordId)));
+    } catch (e) {
+      console.error("Failed to load history", e);
+      setVersions([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => { load(); }, [entity, recordId]);
+
+  const revert = useRevertVersion(load);
+
+  const latest = useMemo(() => versions.find(v => v.isLatest), [versions]);
+
+  const handleRevert = async (version: AuditVersion) => {
+    const patch = await revert(version, latest);
+    if (patch) onReverted?.(patch);
+  };
+
+  if (isLoading) {
+    return <div className="py-16 text-center text-[10px] font-black text-slate-400 uppercase tracking-[0.4em] animate-pulse">Loading history...</div>;
+  }
+
+  if (versions.length === 0) {
+    return (
+      <div className="py-16 text-center">
+        <History className="h-8 w-8 text-slate-300 mx-auto mb-3" />
+        <p className="text-sm font-bold text-slate-500">No recorded changes yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 animate-premium">
+      {versions.map(version => (
+        <AuditVersionCard
+          key={version.entry.id}
+          version={version}
+          onRevert={canRevert && canRevertVersion(version, latest) ? () => handleRevert(version) : undefined}
+        />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import { FileText, History } from 'lucide-react';
+
+export type RecordTab = 'details' | 'history';
+
+interface RecordTabsProps {
+  value: RecordTab;
+  onChange: (tab: RecordTab) => void;
+}
+
+export const RecordTabs: React.FC<RecordTabsProps> = ({ value, onChange }) => (
+  <div className="flex items-center gap-2 p-1.5 bg-white/40 rounded-xl lg:rounded-2xl w-fit border border-white/60">
+    {([['details', 'Details', FileText], ['history', 'History', History]] as const).map(([tab, label, Icon]) => (
+      <button
+        key={tab}
+        type="button"
+        onClick={() => onChange(tab)}
+        className={`flex items-center gap-2 px-4 lg:px-5 py-2 rounded-lg lg:rounded-xl text-[10px] lg:text-xs font-black uppercase tracking-widest transition-all ${
+          value === tab ? 'bg-white text-brand-700 shadow-sm border border-gray-100' : 'text-gray-400 hover:text-gray-600'
+        }`}
+      >
+        <Icon className="h-3.5 w-3.5" /> {label}
+      </button>
+    ))}
+  </div>
+);
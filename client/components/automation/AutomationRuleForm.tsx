@@ -0,0 +1,308 @@
+import React, { useState, useEffect } from 'react';
+import { X, Plus, Trash2, Workflow, FlaskConical, Power } from 'lucide-react';
+import { AutomationAction, AutomationActionType, AutomationCondition, AutomationEntity, AutomationOperator, AutomationRecipient, AutomationRule, AutomationTrigger, AutomationTriggerType, User } from '../../types';
+import { AUTOMATION_ENTITY_LABELS, AUTOMATION_FIELDS, getAutomationField } from '../../services/automation';
+import { CustomSelect } from '../ui/CustomSelect';
+import { UserSelect } from '../ui/UserSelect';
+import { useAuth } from '../../context/AuthContext';
+
+interface AutomationRuleFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (data: Omit<AutomationRule, 'id' | 'createdAt'>) => void;
+  initialData?: AutomationRule;
+  users: User[];
+}
+
+const TRIGGER_LABELS: Record<AutomationTriggerType, string> = {
+  status_change: 'Status changes',
+  field_change: 'A field changes',
+  date_reached: 'A date is reached'
+};
+
+const OPERATOR_LABELS: Record<AutomationOperator, string> = {
+  is: 'is one of',
+  is_not: 'is not',
+  contains: 'contains',
+  is_empty: 'is empty',
+  is_not_empty: 'is not empty'
+};
+
+const ACTION_LABELS: Record<AutomationActionType, string> = {
+  set_field: 'Set a field',
+  create_task: 'Create a task',
+  assign: 'Assign to',
+  notify: 'Notify'
+};
+
+const RECIPIENT_LABELS: Record<AutomationRecipient, string> = {
+  assignee: 'Assignee',
+  account_owner: 'Account owner',
+  user: 'A specific person'
+};
+
+const defaultTrigger = (): AutomationTrigger => ({ type: 'status_change', toValue: '' });
+
+export const AutomationRuleForm: React.FC<AutomationRuleFormProps> = ({ isOpen, onClose, onSubmit, initialData, users }) => {
+  const { isReadOnly } = useAuth();
+  const [name, setName] = useState('');
+  const [entity, setEntity] = useState<AutomationEntity>('task');
+  const [trigger, setTrigger] = useState<AutomationTrigger>(defaultTrigger());
+  const [conditions, setConditions] = useState<AutomationCondition[]>([]);
+  const [actions, setActions] = useState<AutomationAction[]>([]);
+  const [isEnabled, setIsEnabled] = useState(true);
+  const [dryRun, setDryRun] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(initialData?.name || '');
+      setEntity(initialData?.entity || 'task');
+      setTrigger(initialData?.trigger || defaultTrigger());
+      setConditions(initialData?.conditions || []);
+      setActions(initialData?.actions.length ? initialData.actions : [{ type: 'notify', recipient: 'assignee' }]);
+      setIsEnabled(initialData ? initialData.isEnabled : true);
+      // New rules start in dry-run so their effect can be checked in the log first
+      setDryRun(initialData ? !!initialData.dryRun : true);
+    }
+  }, [isOpen, initialData]);
+
+  if (!isOpen) return null;
+
+  const fields = AUTOMATION_FIELDS[entity];
+  const dateFields = fields.filter(f => f.kind === 'date');
+  const settableFields = fields.filter(f => f.settable);
+  const fieldOptions = (list = fields) => list.map(f => ({ label: f.label, value: f.key }));
+  const watchedField = getAutomationField(entity, trigger.type === 'status_change' ? 'status' : trigger.field);
+
+  const changeEntity = (next: AutomationEntity) => {
+    if (next === entity) return;
+    // Field keys differ per record type, so anything pointing at a field starts over
+    setEntity(next);
+    setTrigger(defaultTrigger());
+    setConditions([]);
+    setActions(prev => prev.filter(a => a.type !== 'set_field'));
+  };
+
+  const updateCondition = (index: number, patch: Partial<AutomationCondition>) => {
+    setConditions(prev => prev.map((c, i) => i === index ? { ...c, ...patch } : c));
+  };
+
+  const updateAction = (index: number, patch: Partial<AutomationAction>) => {
+    setActions(prev => prev.map((a, i) => i === index ? { ...a, ...patch } : a));
+  };
+
+  const isActionValid = (action: AutomationAction) => {
+    if (action.type === 'set_field') return !!action.field && !!action.value?.trim();
+    if (action.type === 'assign') return !!action.assigneeId;
+    if (action.type === 'notify') return action.recipient !== 'user' || !!action.assigneeId;
+    return true;
+  };
+
+  const isTriggerValid = trigger.type === 'status_change' || !!trigger.field;
+  const canSubmit = !!name.trim() && isTriggerValid && actions.length > 0 && actions.every(isActionValid);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    onSubmit({
+      name: name.trim(),
+      entity,
+      trigger,
+      conditions: conditions.filter(c => c.field),
+      actions,
+      isEnabled,
+      dryRun
+    });
+  };
+
+  const labelClass = "block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1";
+  const inputClass = "w-full px-5 py-3.5 bg-white border border-gray-200 rounded-2xl text-sm font-bold focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none shadow-inner";
+
+  const renderValueInput = (fieldKey: string | undefined, value: string | undefined, onChange: (val: string) => void, label: string, placeholder: string) => {
+    const field = getAutomationField(entity, fieldKey);
+    if (field?.options) {
+      return <CustomSelect label={label} value={value || ''} onChange={onChange} options={[{ label: placeholder, value: '' }, ...field.options.map(o => ({ label: o, value: o }))]} placeholder={placeholder} />;
+    }
+    return (
+      <div>
+        <label className={labelClass}>{label}</label>
+        <input type="text" className={inputClass} placeholder={field?.kind === 'date' ? 'YYYY-MM-DD or +3d' : placeholder} value={value || ''} onChange={e => onChange(e.target.value)} />
+      </div>
+    );
+  };
+
+  const toggleRow = (active: boolean, onClick: () => void, Icon: React.ElementType, title: string, hint: string) => (
+    <button
+      type="button"
+      onClick={onClick}
+      className={`w-full p-5 rounded-[2rem] border flex items-center gap-4 text-left transition-all ${active ? 'bg-indigo-50 border-indigo-200' : 'bg-white border-slate-200'}`}
+    >
+      <div className={`p-3 rounded-2xl ${active ? 'bg-indigo-600 text-white shadow-lg' : 'bg-slate-100 text-slate-400'}`}>
+        <Icon className="h-5 w-5" />
+      </div>
+      <div className="flex-1">
+        <p className="text-[11px] font-black text-slate-900 uppercase tracking-widest">{title}</p>
+        <p className="text-[10px] text-slate-500 font-medium mt-0.5">{hint}</p>
+      </div>
+      <span className={`relative inline-flex h-7 w-12 items-center rounded-full transition-colors ${active ? 'bg-indigo-600' : 'bg-slate-300'}`}>
+        <span className={`inline-block h-5 w-5 transform rounded-full bg-white transition-transform duration-300 ${active ? 'translate-x-6' : 'translate-x-1'}`} />
+      </span>
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-950/40 backdrop-blur-md p-6 animate-in fade-in duration-300" onClick={onClose}>
+      <div className="bg-white/90 backdrop-blur-3xl rounded-[3rem] shadow-2xl w-full max-w-3xl border border-white/60 relative max-h-[90vh] overflow-y-auto custom-scrollbar" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-6 right-6 p-2 text-slate-400 hover:text-slate-900 bg-white/50 hover:bg-white rounded-full transition-all">
+          <X className="h-5 w-5" />
+        </button>
+
+        <form className="p-10 space-y-6" onSubmit={handleSubmit}>
+          <div>
+            <p className="text-[10px] font-black text-indigo-600 uppercase tracking-widest mb-2 flex items-center gap-2">
+              <Workflow className="h-3.5 w-3.5" /> Automation
+            </p>
+            <h3 className="text-2xl font-black text-slate-900 tracking-tight">{initialData ? 'Edit Rule' : 'New Rule'}</h3>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-2">
+              <label className={labelClass}>Name</label>
+              <input type="text" required className={inputClass} placeholder="e.g. Follow up after a quote" value={name} onChange={e => setName(e.target.value)} />
+            </div>
+            <CustomSelect
+              label="Applies To"
+              value={entity}
+              onChange={val => changeEntity(val as AutomationEntity)}
+              options={(Object.keys(AUTOMATION_ENTITY_LABELS) as AutomationEntity[]).map(e => ({ label: `${AUTOMATION_ENTITY_LABELS[e]}s`, value: e }))}
+            />
+          </div>
+
+          <div className="p-6 bg-slate-50/60 border border-slate-100 rounded-[2rem] space-y-4">
+            <p className="text-[10px] font-black text-slate-900 uppercase tracking-widest">When</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <CustomSelect
+                label="Trigger"
+                value={trigger.type}
+                onChange={val => setTrigger({ type: val as AutomationTriggerType, field: val === 'date_reached' ? dateFields[0]?.key : undefined, toValue: '', offsetDays: val === 'date_reached' ? 0 : undefined })}
+                options={(Object.keys(TRIGGER_LABELS) as AutomationTriggerType[]).map(t => ({ label: TRIGGER_LABELS[t], value: t }))}
+              />
+              {trigger.type === 'field_change' && (
+                <CustomSelect label="Field" value={trigger.field || ''} onChange={val => setTrigger({ ...trigger, field: val, toValue: '' })} options={fieldOptions()} placeholder="Select a field..." />
+              )}
+              {trigger.type === 'date_reached' && (
+                <CustomSelect label="Date" value={trigger.field || ''} onChange={val => setTrigger({ ...trigger, field: val })} options={fieldOptions(dateFields)} />
+              )}
+              {trigger.type !== 'date_reached' && watchedField && renderValueInput(watchedField.key, trigger.toValue, val => setTrigger({ ...trigger, toValue: val }), 'Becomes', 'Any value')}
+              {trigger.type === 'date_reached' && (
+                <div>
+                  <label className={labelClass}>Days after (negative for before)</label>
+                  <input type="number" className={inputClass} value={trigger.offsetDays || 0} onChange={e => setTrigger({ ...trigger, offsetDays: parseInt(e.target.value) || 0 })} />
+                  <p className="text-[10px] font-medium text-slate-400 mt-2 ml-1">Checked when a team member first opens the app that day.</p>
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="p-6 bg-slate-50/60 border border-slate-100 rounded-[2rem] space-y-4">
+            <p className="text-[10px] font-black text-slate-900 uppercase tracking-widest">Only If</p>
+            {conditions.length === 0 && <p className="text-xs font-medium text-slate-400 ml-1">Runs for every matching {AUTOMATION_ENTITY_LABELS[entity].toLowerCase()}.</p>}
+            {conditions.map((condition, index) => (
+              <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-3 items-end">
+                <CustomSelect label="Field" value={condition.field} onChange={val => updateCondition(index, { field: val, value: '' })} options={fieldOptions()} placeholder="Select a field..." />
+                <CustomSelect label="Operator" value={condition.operator} onChange={val => updateCondition(index, { operator: val as AutomationOperator })} options={(Object.keys(OPERATOR_LABELS) as AutomationOperator[]).map(o => ({ label: OPERATOR_LABELS[o], value: o }))} />
+                {['is_empty', 'is_not_empty'].includes(condition.operator) ? <div /> : (
+                  <div>
+                    <label className={labelClass}>Value</label>
+                    <input type="text" className={inputClass} placeholder={condition.operator === 'contains' ? 'Text' : 'Comma separated'} value={condition.value || ''} onChange={e => updateCondition(index, { value: e.target.value })} />
+                  </div>
+                )}
+                <button type="button" onClick={() => setConditions(prev => prev.filter((_, i) => i !== index))} className="p-3.5 text-slate-300 hover:text-rose-500 transition-colors">
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+            <button type="button" onClick={() => setConditions(prev => [...prev, { field: 'status', operator: 'is' }])} className="text-[10px] font-black text-indigo-600 uppercase tracking-widest flex items-center gap-1.5 ml-1 hover:underline">
+              <Plus className="h-3.5 w-3.5" /> Add Condition
+            </button>
+          </div>
+
+          <div className="p-6 bg-slate-50/60 border border-slate-100 rounded-[2rem] space-y-4">
+            <p className="text-[10px] font-black text-slate-900 uppercase tracking-widest">Then</p>
+            {actions.map((action, index) => (
+              <div key={index} className="p-4 bg-white border border-slate-100 rounded-[1.5rem] space-y-3">
+                <div className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto] gap-3 items-end">
+                  <CustomSelect
+                    label="Action"
+                    value={action.type}
+                    onChange={val => updateAction(index, { type: val as AutomationActionType, field: undefined, value: undefined, recipient: val === 'notify' ? 'assignee' : undefined })}
+                    options={(Object.keys(ACTION_LABELS) as AutomationActionType[]).map(a => ({ label: ACTION_LABELS[a], value: a }))}
+                  />
+                  {action.type === 'set_field' && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <CustomSelect label="Field" value={action.field || ''} onChange={val => updateAction(index, { field: val, value: '' })} options={fieldOptions(settableFields)} placeholder="Select a field..." />
+                      {renderValueInput(action.field, action.value, val => updateAction(index, { value: val }), 'To', 'Select a value...')}
+                    </div>
+                  )}
+                  {action.type === 'assign' && (
+                    <UserSelect label="Person" value={action.assigneeId || 'Unassigned'} onChange={(id, userName) => updateAction(index, { assigneeId: id, assignedTo: userName })} users={users} />
+                  )}
+                  {action.type === 'create_task' && (
+                    <div className="grid grid-cols-[2fr_1fr] gap-3">
+                      <div>
+                        <label className={labelClass}>Title</label>
+                        <input type="text" className={inputClass} placeholder="Follow up on {{title}}" value={action.title || ''} onChange={e => updateAction(index, { title: e.target.value })} />
+                      </div>
+                      <div>
+                        <label className={labelClass}>Due in days</label>
+                        <input type="number" min="0" className={inputClass} value={action.offsetDays || 0} onChange={e => updateAction(index, { offsetDays: Math.max(0, parseInt(e.target.value) || 0) })} />
+                      </div>
+                    </div>
+                  )}
+                  {action.type === 'notify' && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <CustomSelect label="Who" value={action.recipient || 'assignee'} onChange={val => updateAction(index, { recipient: val as AutomationRecipient })} options={(Object.keys(RECIPIENT_LABELS) as AutomationRecipient[]).map(r => ({ label: RECIPIENT_LABELS[r], value: r }))} />
+                      {action.recipient === 'user' ? (
+                        <UserSelect label="Person" value={action.assigneeId || 'Unassigned'} onChange={(id, userName) => updateAction(index, { assigneeId: id, assignedTo: userName })} users={users} />
+                      ) : <div />}
+                    </div>
+                  )}
+                  <button type="button" disabled={actions.length === 1} onClick={() => setActions(prev => prev.filter((_, i) => i !== index))} className="p-3.5 text-slate-300 hover:text-rose-500 transition-colors disabled:opacity-30">
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+                {action.type === 'create_task' && (
+                  <UserSelect label="Assignee" value={action.assigneeId || action.assignedTo || 'Unassigned'} onChange={(id, userName) => updateAction(index, { assigneeId: id, assignedTo: userName })} users={users} />
+                )}
+                {action.type === 'notify' && (
+                  <div>
+                    <label className={labelClass}>Message</label>
+                    <input type="text" className={inputClass} placeholder="{{title}} is ready for review" value={action.message || ''} onChange={e => updateAction(index, { message: e.target.value })} />
+                  </div>
+                )}
+              </div>
+            ))}
+            <button type="button" onClick={() => setActions(prev => [...prev, { type: 'notify', recipient: 'assignee' }])} className="text-[10px] font-black text-indigo-600 uppercase tracking-widest flex items-center gap-1.5 ml-1 hover:underline">
+              <Plus className="h-3.5 w-3.5" /> Add Action
+            </button>
+            <p className="text-[10px] font-medium text-slate-400 ml-1">Use {'{{field}}'} in titles and messages, e.g. {'{{title}}'}, {'{{company}}'} or {'{{status}}'}.</p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {toggleRow(isEnabled, () => setIsEnabled(!isEnabled), Power, 'Enabled', 'Paused rules are kept but never run.')}
+            {toggleRow(dryRun, () => setDryRun(!dryRun), FlaskConical, 'Dry run', 'Only log what would happen, change nothing.')}
+          </div>
+
+          <div className="flex gap-4">
+            <button type="button" onClick={onClose} className="flex-1 py-4 text-[11px] font-black uppercase tracking-widest text-slate-500 bg-slate-100 hover:bg-slate-200 rounded-2xl transition-colors">
+              Cancel
+            </button>
+            <button type="submit" disabled={!canSubmit || isReadOnly} className="flex-1 py-4 text-[11px] font-black uppercase tracking-widest text-white bg-slate-950 hover:bg-slate-900 rounded-2xl shadow-xl transition-all active:scale-95 disabled:opacity-40">
+              Save Rule
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { X, FlaskConical, ArrowRight } from 'lucide-react';
+import { AutomationRule } from '../../types';
+import { AUTOMATION_ENTITY_LABELS, RulePreview, describeRule } from '../../services/automation';
+
+interface RulePreviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  rule?: AutomationRule;
+  previews: RulePreview[];
+  isLoading: boolean;
+}
+
+const PREVIEW_LIMIT = 50;
+
+export const RulePreviewModal: React.FC<RulePreviewModalProps> = ({ isOpen, onClose, rule, previews, isLoading }) => {
+  if (!isOpen || !rule) return null;
+
+  const summary = describeRule(rule);
+  const noun = AUTOMATION_ENTITY_LABELS[rule.entity].toLowerCase();
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-950/40 backdrop-blur-md p-6 animate-in fade-in duration-300" onClick={onClose}>
+      <div className="bg-white/90 backdrop-blur-3xl rounded-[3rem] shadow-2xl w-full max-w-2xl border border-white/60 relative max-h-[90vh] overflow-y-auto custom-scrollbar" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-6 right-6 p-2 text-slate-400 hover:text-slate-900 bg-white/50 hover:bg-white rounded-full transition-all">
+          <X className="h-5 w-5" />
+        </button>
+
+        <div className="p-10 space-y-6">
+          <div>
+            <p className="text-[10px] font-black text-indigo-600 uppercase tracking-widest mb-2 flex items-center gap-2">
+              <FlaskConical className="h-3.5 w-3.5" /> Dry Run Preview
+            </p>
+            <h3 className="text-2xl font-black text-slate-900 tracking-tight pr-10">{rule.name}</h3>
+            <p className="text-xs font-medium text-slate-500 mt-2">
+              {rule.trigger.type === 'date_reached'
+                ? `Records whose date has been reached today. Nothing is changed.`
+                : `${summary.when}: records already in that state show what the rule would do on their next change. Nothing is changed.`}
+            </p>
+          </div>
+
+          {isLoading ? (
+            <div className="py-12 text-center text-[10px] font-black text-slate-400 uppercase tracking-[0.4em]">Evaluating...</div>
+          ) : previews.length === 0 ? (
+            <div className="p-8 text-center bg-slate-50 rounded-[2rem] border border-slate-100">
+              <p className="text-sm font-bold text-slate-500">No {noun} matches this rule right now.</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">{previews.length} {previews.length === 1 ? noun : `${noun}s`} would match</p>
+              {previews.slice(0, PREVIEW_LIMIT).map(preview => (
+                <div key={preview.record.id} className="px-5 py-4 bg-white border border-slate-100 rounded-2xl">
+                  <p className="text-sm font-bold text-slate-800 truncate">{preview.label}</p>
+                  <ul className="mt-2 space-y-1">
+                    {preview.effects.map((effect, i) => (
+                      <li key={i} className="flex items-center gap-2 text-xs font-medium text-slate-500">
+                        <ArrowRight className="h-3 w-3 text-indigo-400 shrink-0" /> {effect}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+              {previews.length > PREVIEW_LIMIT && <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">+{previews.length - PREVIEW_LIMIT} more</p>}
+            </div>
+          )}
+
+          <button type="button" onClick={onClose} className="w-full py-4 text-[11px] font-black uppercase tracking-widest text-slate-500 bg-slate-100 hover:bg-slate-200 rounded-2xl transition-colors">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,245 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { CheckSquare, Repeat, AlertTriangle } from 'lucide-react';
+import { CalendarItem, Meeting, Task } from '../../types';
+import { getMeetingWallClock } from '../../services/meetingSchedule';
+
+interface CalendarTimeGridProps {
+  days: string[]; // 'YYYY-MM-DD', one column each
+  items: CalendarItem[];
+  onEditTask: (task: Task) => void;
+  onEditMeeting: (meeting: Meeting) => void;
+  onCreateAt: (dateStr: string, time: string) => void;
+  conflictIds?: Set<number>; // Double-booked meetings get an overlap marker
+  // Dragging is only enabled when the caller can reschedule
+  onRescheduleTask?: (task: Task, dueDate: string) => void;
+  onRescheduleMeeting?: (meeting: Meeting, dateTime: string) => void;
+}
+
+const HOUR_HEIGHT = 56;
+const SLOT_MINUTES = 30;
+const DROP_SNAP_MINUTES = 15;
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const toMinutes = (wallClock: string) => {
+  const [h, m] = wallClock.slice(11, 16).split(':').map(Number);
+  return h * 60 + m;
+};
+
+const formatHour = (hour: number) => `${hour % 12 || 12} ${hour < 12 ? 'AM' : 'PM'}`;
+
+type PositionedMeeting = { item: CalendarItem; start: number; end: number; lane: number; lanes: number };
+
+// Side-by-side layout for overlapping meetings: each cluster of overlaps shares its lane count
+const layoutDay = (meetings: CalendarItem[]): PositionedMeeting[] => {
+  const sorted = meetings
+    .map(item => {
+      const meeting = item.data as Meeting;
+      const start = toMinutes(getMeetingWallClock(meeting.dateTime));
+      return { item, start, end: Math.min(24 * 60, start + (meeting.durationMinutes || 60)), lane: 0, lanes: 1 };
+    })
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  let cluster: PositionedMeeting[] = [];
+  let clusterEnd = -1;
+  const closeCluster = () => {
+    const lanes = Math.max(1, ...cluster.map(p => p.lane + 1));
+    cluster.forEach(p => { p.lanes = lanes; });
+    cluster = [];
+  };
+
+  sorted.forEach(p => {
+    if (p.start >= clusterEnd) closeCluster();
+    const taken = new Set(cluster.filter(c => c.end > p.start).map(c => c.lane));
+    while (taken.has(p.lane)) p.lane++;
+    cluster.push(p);
+    clusterEnd = Math.max(clusterEnd, p.end);
+  });
+  closeCluster();
+  return sorted;
+};
+
+export const CalendarTimeGrid: React.FC<CalendarTimeGridProps> = ({ days, items, onEditTask, onEditMeeting, onCreateAt, conflictIds, onRescheduleTask, onRescheduleMeeting }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [dragOverDate, setDragOverDate] = useState<string | null>(null);
+  // IST wall clock, refreshed every minute for the now indicator
+  const [now, setNow] = useState(() => getMeetingWallClock(new Date().toISOString()));
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(getMeetingWallClock(new Date().toISOString())), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Open on the working day rather than midnight
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = HOUR_HEIGHT * 8;
+  }, [days.length]);
+
+  const todayStr = now.slice(0, 10);
+  const nowMinutes = toMinutes(now);
+
+  const columns = useMemo(() => days.map(dateStr => ({
+    dateStr,
+    tasks: items.filter(i => i.type === 'task' && i.dateStr === dateStr),
+    meetings: layoutDay(items.filter(i => i.type === 'meeting' && i.dateStr === dateStr))
+  })), [days, items]);
+
+  const handleSlotClick = (e: React.MouseEvent<HTMLDivElement>, dateStr: string) => {
+    const offset = e.clientY - e.currentTarget.getBoundingClientRect().top;
+    const minutes = Math.floor((offset / HOUR_HEIGHT) * 60 / SLOT_MINUTES) * SLOT_MINUTES;
+    const clamped = Math.min(Math.max(minutes, 0), 24 * 60 - SLOT_MINUTES);
+    onCreateAt(dateStr, `${pad(Math.floor(clamped / 60))}:${pad(clamped % 60)}`);
+  };
+
+  const handleTaskDrop = (e: React.DragEvent, dateStr: string) => {
+    if (!onRescheduleTask) return;
+    e.preventDefault();
+    setDragOverDate(null);
+    const item = items.find(i => i.type === 'task' && (i.data as Task).id === parseInt(e.dataTransfer.getData("taskId")));
+    if (item && item.dateStr !== dateStr) onRescheduleTask(item.data as Task, dateStr);
+  };
+
+  // The grab offset keeps the meeting's top edge where it was relative to the cursor
+  const handleMeetingDrop = (e: React.DragEvent<HTMLDivElement>, dateStr: string) => {
+    if (!onRescheduleMeeting) return;
+    e.preventDefault();
+    setDragOverDate(null);
+    const item = items.find(i => i.type === 'meeting' && (i.data as Meeting).id === parseInt(e.dataTransfer.getData("meetingId")));
+    if (!item) return;
+    const meeting = item.data as Meeting;
+    const grabOffset = parseFloat(e.dataTransfer.getData("grabOffset")) || 0;
+    const offset = e.clientY - e.currentTarget.getBoundingClientRect().top - grabOffset;
+    const duration = meeting.durationMinutes || 60;
+    const minutes = Math.round((offset / HOUR_HEIGHT) * 60 / DROP_SNAP_MINUTES) * DROP_SNAP_MINUTES;
+    const clamped = Math.min(Math.max(minutes, 0), 24 * 60 - Math.min(duration, 24 * 60 - DROP_SNAP_MINUTES));
+    const dateTime = `${dateStr}T${pad(Math.floor(clamped / 60))}:${pad(clamped % 60)}`;
+    if (dateTime !== getMeetingWallClock(meeting.dateTime)) onRescheduleMeeting(meeting, dateTime);
+  };
+
+  const gridCols = { gridTemplateColumns: `64px repeat(${days.length}, minmax(0, 1fr))` };
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Day headers */}
+      <div className="grid bg-slate-50/30 border-b border-slate-100/60" style={gridCols}>
+        <div />
+        {days.map(dateStr => {
+          const [y, m, d] = dateStr.split('-').map(Number);
+          const date = new Date(y, m - 1, d);
+          const isToday = dateStr === todayStr;
+          return (
+            <div key={dateStr} className="py-4 text-center border-l border-slate-100/60">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em]">{date.toLocaleDateString('en-US', { weekday: 'short' })}</p>
+              <p className={`mt-1 mx-auto w-9 h-9 flex items-center justify-center rounded-xl text-sm font-black ${isToday ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-500/30' : 'text-slate-900'}`}>{d}</p>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* All-day row for task deadlines */}
+      <div className="grid border-b border-slate-100/60 bg-white/30" style={gridCols}>
+        <div className="py-3 pr-2 text-right text-[8px] font-black text-slate-400 uppercase tracking-widest self-center">All day</div>
+        {columns.map(col => (
+          <div
+            key={col.dateStr}
+            onDragOver={(e) => { if (onRescheduleTask && e.dataTransfer.types.includes('taskid')) { e.preventDefault(); setDragOverDate(col.dateStr); } }}
+            onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setDragOverDate(null); }}
+            onDrop={(e) => handleTaskDrop(e, col.dateStr)}
+            className={`p-1.5 space-y-1 border-l border-slate-100/60 min-h-[44px] max-h-[108px] overflow-y-auto no-scrollbar transition-colors ${dragOverDate === col.dateStr ? 'bg-indigo-50/60' : ''}`}
+          >
+            {col.tasks.map(item => (
+              <button
+                key={item.id}
+                onClick={() => onEditTask(item.data as Task)}
+                draggable={!!onRescheduleTask}
+                onDragStart={(e) => {
+                  e.dataTransfer.setData("taskId", (item.data as Task).id.toString());
+                  e.dataTransfer.effectAllowed = "move";
+                }}
+                className="w-full flex items-center gap-1.5 p-1.5 rounded-lg border bg-white/80 border-slate-100 text-slate-700 text-[9px] font-black uppercase tracking-tight truncate shadow-sm hover:border-indigo-200 transition-all"
+              >
+                <CheckSquare className="h-2.5 w-2.5 text-slate-400 shrink-0" />
+                <span className="truncate">{item.title}</span>
+              </button>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {/* Hourly grid */}
+      <div ref={scrollRef} className="flex-1 overflow-y-auto custom-scrollbar max-h-[640px]">
+        <div className="grid relative" style={gridCols}>
+          <div>
+            {HOURS.map(hour => (
+              <div key={hour} className="relative text-right pr-2" style={{ height: HOUR_HEIGHT }}>
+                {hour > 0 && <span className="absolute -top-2 right-2 text-[9px] font-black text-slate-400 uppercase tracking-widest">{formatHour(hour)}</span>}
+              </div>
+            ))}
+          </div>
+
+          {columns.map(col => (
+            <div
+              key={col.dateStr}
+              className={`relative border-l border-slate-100/60 cursor-pointer ${col.dateStr === todayStr ? 'bg-indigo-50/10' : ''}`}
+              style={{ height: HOUR_HEIGHT * 24 }}
+              onClick={(e) => handleSlotClick(e, col.dateStr)}
+              onDragOver={(e) => { if (onRescheduleMeeting && e.dataTransfer.types.includes('meetingid')) e.preventDefault(); }}
+              onDrop={(e) => handleMeetingDrop(e, col.dateStr)}
+              title="Click to schedule a meeting"
+            >
+              {HOURS.map(hour => (
+                <div key={hour} className="border-b border-slate-100/60 hover:bg-white/40 transition-colors" style={{ height: HOUR_HEIGHT }}>
+                  <div className="border-b border-dashed border-slate-100/40" style={{ height: HOUR_HEIGHT / 2 }} />
+                </div>
+              ))}
+
+              {col.meetings.map(({ item, start, end, lane, lanes }) => {
+                const meeting = item.data as Meeting;
+                const height = Math.max(((end - start) / 60) * HOUR_HEIGHT, 22);
+                const hasConflict = !!conflictIds?.has(meeting.id);
+                return (
+                  <button
+                    key={item.id}
+                    onClick={(e) => { e.stopPropagation(); onEditMeeting(meeting); }}
+                    draggable={!!onRescheduleMeeting}
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData("meetingId", meeting.id.toString());
+                      e.dataTransfer.setData("grabOffset", String(e.clientY - e.currentTarget.getBoundingClientRect().top));
+                      e.dataTransfer.effectAllowed = "move";
+                    }}
+                    className={`absolute ${onRescheduleMeeting ? 'cursor-grab active:cursor-grabbing' : ''} rounded-xl border px-2 py-1 text-left overflow-hidden shadow-sm hover:shadow-md hover:z-20 transition-all ${meeting.status === 'Cancelled' ? 'bg-slate-50/90 border-slate-200 text-slate-400 line-through' : hasConflict ? 'bg-rose-50/95 border-rose-200 text-rose-700' : 'bg-indigo-50/95 border-indigo-100 text-indigo-700'}`}
+                    style={{
+                      top: (start / 60) * HOUR_HEIGHT,
+                      height,
+                      left: `calc(${(lane / lanes) * 100}% + 2px)`,
+                      width: `calc(${100 / lanes}% - 4px)`
+                    }}
+                  >
+                    <p className="text-[10px] font-black uppercase tracking-tight truncate flex items-center gap-1">
+                      {hasConflict && <span title="Double-booked"><AlertTriangle className="h-2.5 w-2.5 shrink-0" /></span>}
+                      {meeting.recurrence && <Repeat className="h-2.5 w-2.5 shrink-0" />}
+                      {item.title}
+                    </p>
+                    {height > 34 && (
+                      <p className="text-[9px] font-bold opacity-70 truncate">
+                        {pad(Math.floor(start / 60))}:{pad(start % 60)} – {pad(Math.floor(end / 60) % 24)}:{pad(end % 60)}
+                      </p>
+                    )}
+                  </button>
+                );
+              })}
+
+              {col.dateStr === todayStr && (
+                <div className="absolute left-0 right-0 z-30 pointer-events-none flex items-center" style={{ top: (nowMinutes / 60) * HOUR_HEIGHT }}>
+                  <div className="h-2.5 w-2.5 -ml-1.5 rounded-full bg-rose-500 shadow-[0_0_8px_rgba(244,63,94,0.8)]" />
+                  <div className="flex-1 h-[2px] bg-rose-500" />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,32 +1,49 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { X, Save, Calendar, AlignLeft, Flag, Link as LinkIcon, Edit2, Maximize2, Minimize2, CheckCircle, FileText, ExternalLink, Globe, Layout } from 'lucide-react';
-import { Task, TaskPriority, TaskType } from '../../types';
+import { X, Save, Calendar, AlignLeft, Flag, Link as LinkIcon, Edit2, Maximize2, Minimize2, CheckCircle, FileText, ExternalLink, Globe, Layout, Repeat, Video } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Task, TaskPriority, TaskType, RecurrenceScope, Subtask, User, SocialLinks } from '../../types';
 import { formatDate, formatDateTime } from '../../utils';
+import { describeRecurrence } from '../../services/recurrence';
+import { isContentTask, getClientPlatforms } from '../../services/contentCalendar';
 import { CustomSelect } from '../ui/CustomSelect';
 import { CustomDatePicker } from '../ui/CustomDatePicker';
+import { RecurrenceEditor } from '../tasks/RecurrenceEditor';
+import { SubtaskChecklist } from '../tasks/SubtaskChecklist';
+import { TaskActivityFeed } from '../tasks/TaskActivityFeed';
+import { DependencyPicker } from '../tasks/DependencyPicker';
+import { ContentDetailsEditor } from '../content/ContentDetailsEditor';
+import { usersApi } from '../../services/api';
+import { useAuth } from '../../context/AuthContext';
 
 interface ClientTaskFormProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (data: Partial<Task>) => void;
+  onSubmit: (data: Partial<Task>, scope?: RecurrenceScope) => void;
   initialData?: Task;
   companyId: number;
   isClientView?: boolean;
+  socials?: SocialLinks; // Limits the publishing platforms to the ones the client is on
+  tasks?: Task[]; // The client's other tasks, offered as blockers
 }
 
 const PRIORITIES: TaskPriority[] = ['Low', 'Medium', 'High'];
 const TYPES: TaskType[] = ['General', 'Reel', 'Post', 'Story', 'Carousel', 'Video'];
 
-export const ClientTaskForm: React.FC<ClientTaskFormProps> = ({ isOpen, onClose, onSubmit, initialData, companyId, isClientView = false }) => {
+export const ClientTaskForm: React.FC<ClientTaskFormProps> = ({ isOpen, onClose, onSubmit, initialData, companyId, isClientView = false, socials, tasks = [] }) => {
+  const { isReadOnly } = useAuth();
   const [formData, setFormData] = useState<Partial<Task>>({});
   const [mode, setMode] = useState<'view' | 'edit'>('view');
   const [isNotesExpanded, setIsNotesExpanded] = useState(false);
+  const [scope, setScope] = useState<RecurrenceScope>('this');
+  const [users, setUsers] = useState<User[]>([]);
   
   // Removed editorRef auto-resize logic
 
   useEffect(() => {
     if (isOpen) {
+      setScope('this');
+      if (!isClientView) usersApi.getAll().then(setUsers).catch(() => setUsers([]));
       if (initialData) {
         setFormData(initialData);
         setMode(isClientView && !initialData.id ? 'edit' : 'view');
@@ -56,16 +73,23 @@ export const ClientTaskForm: React.FC<ClientTaskFormProps> = ({ isOpen, onClose,
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.title) return;
-    onSubmit(formData);
+    onSubmit(formData, initialData?.seriesId ? scope : undefined);
     onClose();
   };
 
+  // Ticking items in view mode saves straight away without leaving the modal
+  const handleChecklistToggle = (subtasks: Subtask[]) => {
+    const next = { ...formData, subtasks };
+    setFormData(next);
+    onSubmit(next, initialData?.seriesId ? 'this' : undefined);
+  };
+
   const renderView = () => (
       <div className="space-y-8 animate-premium">
           <div className="bg-slate-50/50 rounded-[2.5rem] p-8 border border-slate-100 shadow-inner relative overflow-hidden group">
               <div className="absolute top-0 right-0 w-32 h-32 bg-indigo-500/5 rounded-full blur-3xl -mr-16 -mt-16" />
               
-              <div className="flex items-center gap-3 mb-4 relative z-10">
+              <div className="flex flex-wrap items-center gap-3 mb-4 relative z-10">
                   <span className={`px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border ${
                       formData.priority === 'High' ? 'border-rose-100 bg-white text-rose-600 shadow-sm' :
                       formData.priority === 'Medium' ? 'border-amber-100 bg-white text-amber-600 shadow-sm' :
@@ -81,6 +105,26 @@ export const ClientTaskForm: React.FC<ClientTaskFormProps> = ({ isOpen, onClose,
                   <span className="px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border border-slate-100 bg-slate-50 text-slate-500">
                       {formData.status}
                   </span>
+                  {formData.status === 'Approved' && formData.approvedBy && (
+                      <span className="px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border border-teal-100 bg-teal-50 text-teal-700">
+                          Approved by {formData.approvedBy}{formData.approvedAt ? ` • ${formatDateTime(formData.approvedAt)}` : ''}
+                      </span>
+                  )}
+                  {(formData.revisionCount || 0) > 0 && (
+                      <span className="px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border border-amber-100 bg-amber-50 text-amber-700">
+                          {formData.revisionCount} {formData.revisionCount === 1 ? 'Revision' : 'Revisions'}
+                      </span>
+                  )}
+                  {formData.recurrence && (
+                      <span className="px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border border-violet-100 bg-violet-50 text-violet-700 flex items-center gap-1.5">
+                          <Repeat className="h-3 w-3" /> {describeRecurrence(formData.recurrence)}
+                      </span>
+                  )}
+                  {!isClientView && formData.sourceMeetingId && (
+                      <Link to="/meetings" state={{ openMeetingId: formData.sourceMeetingId }} onClick={onClose} className="px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border border-purple-100 bg-purple-50 text-purple-700 flex items-center gap-1.5 hover:bg-purple-100 transition-colors">
+                          <Video className="h-3 w-3" /> From meeting
+                      </Link>
+                  )}
               </div>
               
               <h2 className="text-3xl font-black text-slate-900 tracking-tighter leading-none mb-8 relative z-10">{formData.title}</h2>
@@ -89,6 +133,7 @@ export const ClientTaskForm: React.FC<ClientTaskFormProps> = ({ isOpen, onClose,
                 <div>
                     <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Target Date</p>
                     <p className="text-xl font-black text-slate-900">{formatDate(formData.dueDate || '')}</p>
+                    {formData.startDate && <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">Starts {formatDate(formData.startDate)}</p>}
                 </div>
                 <div>
                     <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Context</p>
@@ -114,6 +159,10 @@ export const ClientTaskForm: React.FC<ClientTaskFormProps> = ({ isOpen, onClose,
               </div>
           )}
 
+          {isContentTask(formData) && <ContentDetailsEditor value={formData.content} onChange={() => {}} platforms={getClientPlatforms(socials)} readOnly />}
+
+          <DependencyPicker taskId={formData.id} dueDate={formData.dueDate} value={formData.blockedBy || []} onChange={() => {}} tasks={tasks} readOnly />
+
           <div>
               <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-4 ml-1 flex items-center gap-2">
                 <AlignLeft className="h-4 w-4 text-indigo-500" /> Deliverable Briefing
@@ -123,6 +172,10 @@ export const ClientTaskForm: React.FC<ClientTaskFormProps> = ({ isOpen, onClose,
               </div>
           </div>
           
+          <SubtaskChecklist subtasks={formData.subtasks || []} onChange={handleChecklistToggle} readOnly disableToggle={isClientView} />
+
+          {initialData?.id ? <TaskActivityFeed taskId={initialData.id} isClientView={isClientView} /> : null}
+
            {formData.lastUpdatedAt && (
                <div className="pt-6 border-t border-slate-100 text-[9px] font-black text-slate-400 uppercase tracking-[0.2em] text-right">
                     Last updated on {formatDateTime(formData.lastUpdatedAt)}
@@ -147,11 +200,32 @@ export const ClientTaskForm: React.FC<ClientTaskFormProps> = ({ isOpen, onClose,
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 p-8 bg-slate-50/50 rounded-[2.5rem] border border-slate-100 shadow-inner">
                 <CustomSelect label="Category" value={formData.taskType || 'General'} onChange={(val) => setFormData({...formData, taskType: val as TaskType})} options={TYPES.map(t => ({ label: t, value: t }))} />
                 <CustomSelect label="Mission Priority" value={formData.priority || 'Medium'} onChange={(val) => setFormData({...formData, priority: val as TaskPriority})} options={PRIORITIES.map(p => ({ label: p, value: p }))} />
-                <div className="col-span-1 md:col-span-2">
-                   <CustomDatePicker label="Target Delivery" value={formData.dueDate || ''} onChange={date => setFormData({...formData, dueDate: date})} />
-                </div>
+                <CustomDatePicker label="Work Starts" value={formData.startDate || ''} onChange={date => setFormData({...formData, startDate: date})} placeholder="Same as delivery" />
+                <CustomDatePicker label="Target Delivery" value={formData.dueDate || ''} onChange={date => setFormData({...formData, dueDate: date})} />
             </div>
 
+            {!isClientView && isContentTask(formData) && (
+                <ContentDetailsEditor value={formData.content} onChange={content => setFormData({...formData, content})} platforms={getClientPlatforms(socials)} />
+            )}
+
+            {!isClientView && (
+                <DependencyPicker taskId={formData.id} dueDate={formData.dueDate} value={formData.blockedBy || []} onChange={blockedBy => setFormData({...formData, blockedBy})} tasks={tasks} />
+            )}
+
+            {!isClientView && (
+                <SubtaskChecklist subtasks={formData.subtasks || []} onChange={subtasks => setFormData({...formData, subtasks})} users={users} />
+            )}
+
+            {!isClientView && (
+                <RecurrenceEditor
+                    value={formData.recurrence}
+                    startDate={formData.dueDate || ''}
+                    onChange={rule => setFormData({...formData, recurrence: rule})}
+                    scope={initialData?.seriesId ? scope : undefined}
+                    onScopeChange={setScope}
+                />
+            )}
+
             <div className="p-6 bg-indigo-50/50 border border-indigo-100 rounded-[2rem] flex items-center justify-between group transition-all hover:bg-indigo-50">
                 <div className="flex items-center gap-4">
                     <div className={`p-3 rounded-2xl transition-all duration-500 ${formData.isVisibleOnMainBoard ? 'bg-indigo-600 text-white shadow-lg' : 'bg-white text-slate-400 border border-slate-200'}`}>
@@ -200,7 +274,7 @@ export const ClientTaskForm: React.FC<ClientTaskFormProps> = ({ isOpen, onClose,
 
             <div className="flex justify-end gap-4 pt-8 border-t border-slate-100">
                 <button type="button" onClick={() => initialData ? setMode('view') : onClose()} className="px-8 py-4 text-[11px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-900 transition-colors">Discard</button>
-                <button type="submit" className="px-10 py-4 bg-slate-950 text-white rounded-[1.5rem] text-[11px] font-black uppercase tracking-widest shadow-2xl active:scale-95 transition-all flex items-center gap-3">
+                <button type="submit" disabled={isReadOnly} className="px-10 py-4 bg-slate-950 text-white rounded-[1.5rem] text-[11px] font-black uppercase tracking-widest shadow-2xl active:scale-95 transition-all flex items-center gap-3 disabled:opacity-40">
                     <Save className="h-4 w-4 text-indigo-400" /> Commit Identity
                 </button>
             </div>
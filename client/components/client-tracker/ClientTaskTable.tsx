@@ -1,8 +1,8 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Task, TaskPriority, TaskStatus, TaskType } from '../../types';
-import { formatDate, isRecentlyUpdated } from '../../utils';
-import { Edit2, Trash2, Paperclip, Check, ChevronDown, ExternalLink, Layout, Flag, Globe } from 'lucide-react';
+import { Task, TaskPriority, TaskStatus, TaskType, ReviewDecision } from '../../types';
+import { formatDate, formatDateTime, isRecentlyUpdated } from '../../utils';
+import { Edit2, Trash2, Paperclip, Check, ChevronDown, ExternalLink, Layout, Flag, Globe, RotateCcw, Hourglass } from 'lucide-react';
 import { createPortal } from 'react-dom';
 
 interface ClientTaskTableProps {
@@ -12,6 +12,7 @@ interface ClientTaskTableProps {
   onStatusChange?: (task: Task, newStatus: TaskStatus) => void;
   onPriorityChange?: (task: Task, newPriority: TaskPriority) => void;
   onToggleVisibility?: (task: Task) => void;
+  onReview?: (task: Task, decision: ReviewDecision) => void;
   isClientView?: boolean;
   userAvatarMap?: Record<string, string>;
   readOnly?: boolean;
@@ -23,6 +24,7 @@ const getStatusStyles = (status: string) => {
         case 'Completed': return 'bg-emerald-500/10 text-emerald-600 border-emerald-500/20';
         case 'Posted': return 'bg-sky-500/10 text-sky-600 border-sky-500/20';
         case 'In Review': return 'bg-purple-500/10 text-purple-600 border-purple-500/20';
+        case 'Approved': return 'bg-teal-500/10 text-teal-600 border-teal-500/20';
         case 'Dropped': 
         case 'drop': return 'bg-rose-500/10 text-rose-600 border-rose-500/20';
         case 'In Progress': return 'bg-amber-500/10 text-amber-600 border-amber-500/20';
@@ -127,12 +129,23 @@ export const ClientTaskTable: React.FC<ClientTaskTableProps> = ({
     onStatusChange, 
     onPriorityChange, 
     onToggleVisibility, 
+    onReview,
     isClientView = false,
     userAvatarMap,
     readOnly = false
 }) => {
+  // Deliverables waiting on the client float to the top
+  const pendingCount = tasks.filter(t => t.status === 'In Review').length;
+  const sortedTasks = [...tasks].sort((a, b) => Number(b.status === 'In Review') - Number(a.status === 'In Review'));
+
   return (
     <div className="relative w-full">
+        {pendingCount > 0 && (
+            <div className="flex items-center gap-2 px-6 py-3 bg-purple-50/60 border-t border-purple-100 text-[10px] font-black text-purple-600 uppercase tracking-widest">
+                <Hourglass className="h-3.5 w-3.5" />
+                {pendingCount} {pendingCount === 1 ? 'deliverable' : 'deliverables'} awaiting {isClientView ? 'your' : 'client'} approval
+            </div>
+        )}
         {/* Reinforced internal scroll with explicit viewport capture */}
         <div className="overflow-x-auto overflow-y-auto h-[450px] custom-scrollbar border-t border-gray-100">
             <table className="min-w-[1000px] w-full text-left border-collapse whitespace-nowrap">
@@ -148,16 +161,17 @@ export const ClientTaskTable: React.FC<ClientTaskTableProps> = ({
                     </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-50 z-10">
-                    {tasks.map(task => {
+                    {sortedTasks.map(task => {
                         const isCompleted = (task.status === 'Completed' || task.status === 'Done');
                         const shouldAnimate = isCompleted && isRecentlyUpdated(task.lastUpdatedAt, 10);
+                        const isPendingReview = task.status === 'In Review';
 
                         return (
                         <tr 
                             key={task.id} 
-                            className={`group hover:bg-white transition-all duration-300 ${shouldAnimate ? 'animate-task-complete' : ''}`}
+                            className={`group hover:bg-white transition-all duration-300 ${shouldAnimate ? 'animate-task-complete' : ''} ${isPendingReview ? 'bg-purple-50/30' : ''}`}
                         >
-                            <td className="px-6 py-5 bg-white group-hover:bg-white transition-colors border-r border-transparent group-hover:border-gray-50">
+                            <td className={`px-6 py-5 group-hover:bg-white transition-colors border-r border-transparent group-hover:border-gray-50 ${isPendingReview ? 'bg-purple-50/30 border-l-4 !border-l-purple-400' : 'bg-white'}`}>
                                  <div className="flex flex-col gap-1">
                                     <button 
                                         onClick={() => onEdit?.(task)} 
@@ -169,6 +183,11 @@ export const ClientTaskTable: React.FC<ClientTaskTableProps> = ({
                                             </span>
                                         )}
                                         {task.title}
+                                        {(task.revisionCount || 0) > 0 && (
+                                            <span title={`Sent back ${task.revisionCount} time(s)`} className="flex items-center gap-0.5 text-[9px] font-black text-amber-600 bg-amber-50 px-1.5 py-0.5 rounded border border-amber-100">
+                                                <RotateCcw className="h-2.5 w-2.5" /> R{task.revisionCount}
+                                            </span>
+                                        )}
                                     </button>
                                     <p className="text-[10px] text-gray-400 font-medium italic truncate max-w-[200px]">
                                         {task.description || 'No additional details'}
@@ -181,6 +200,19 @@ export const ClientTaskTable: React.FC<ClientTaskTableProps> = ({
                                     <span className="w-1.5 h-1.5 rounded-full bg-current opacity-60"></span>
                                     {task.status}
                                 </span>
+                                {task.status === 'Approved' && task.approvedBy && (
+                                    <p className="text-[9px] font-bold text-gray-400 mt-1.5">by {task.approvedBy}{task.approvedAt ? ` • ${formatDateTime(task.approvedAt)}` : ''}</p>
+                                )}
+                                {isPendingReview && onReview && (
+                                    <div className="flex items-center gap-1.5 mt-2">
+                                        <button onClick={() => onReview(task, 'approve')} className="px-2.5 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest bg-teal-600 text-white shadow-sm hover:bg-teal-700 active:scale-95 transition-all">
+                                            Approve
+                                        </button>
+                                        <button onClick={() => onReview(task, 'request_changes')} className="px-2.5 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest bg-white text-amber-600 border border-amber-200 hover:bg-amber-50 active:scale-95 transition-all">
+                                            Request changes
+                                        </button>
+                                    </div>
+                                )}
                             </td>
 
                             <td className="px-6 py-5">
@@ -225,9 +257,11 @@ export const ClientTaskTable: React.FC<ClientTaskTableProps> = ({
                                         >
                                             <Layout className={`h-4 w-4 ${task.isVisibleOnMainBoard ? 'drop-shadow-[0_0_8px_rgba(99,102,241,0.5)]' : ''}`} />
                                         </button>
-                                        <button onClick={() => onDelete?.(task.id)} className="p-2 text-gray-400 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-colors">
-                                            <Trash2 className="h-4 w-4" />
-                                        </button>
+                                        {onDelete && (
+                                            <button onClick={() => onDelete(task.id)} className="p-2 text-gray-400 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-colors">
+                                                <Trash2 className="h-4 w-4" />
+                                            </button>
+                                        )}
                                     </div>
                                 </td>
                             )}
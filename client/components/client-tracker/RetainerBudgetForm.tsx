@@ -0,0 +1,115 @@
+import React, { useState, useEffect } from 'react';
+import { Gauge, X } from 'lucide-react';
+import { RetainerBudget, TaskType } from '../../types';
+import { useAuth } from '../../context/AuthContext';
+
+interface RetainerBudgetFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (retainer: RetainerBudget) => void;
+  initialData?: RetainerBudget;
+  companyName: string;
+}
+
+const TASK_TYPES: TaskType[] = ['Reel', 'Post', 'Story', 'Carousel', 'Video', 'General'];
+
+const toNumber = (value: string) => {
+  const parsed = parseFloat(value);
+  return parsed > 0 ? parsed : undefined;
+};
+
+export const RetainerBudgetForm: React.FC<RetainerBudgetFormProps> = ({ isOpen, onClose, onSubmit, initialData, companyName }) => {
+  const { isReadOnly } = useAuth();
+  const [hours, setHours] = useState('');
+  const [quotas, setQuotas] = useState<Partial<Record<TaskType, string>>>({});
+  const [warnAt, setWarnAt] = useState('80');
+
+  useEffect(() => {
+    if (isOpen) {
+      setHours(initialData?.monthlyHours ? String(initialData.monthlyHours) : '');
+      const initialQuotas: Partial<Record<TaskType, string>> = {};
+      Object.entries(initialData?.deliverables || {}).forEach(([type, quota]) => { if (quota) initialQuotas[type as TaskType] = String(quota); });
+      setQuotas(initialQuotas);
+      setWarnAt(String(initialData?.warnAtPercent || 80));
+    }
+  }, [isOpen, initialData]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const deliverables: Partial<Record<TaskType, number>> = {};
+    TASK_TYPES.forEach(type => {
+      const quota = toNumber(quotas[type] || '');
+      if (quota) deliverables[type] = Math.round(quota);
+    });
+    const monthlyHours = toNumber(hours);
+    // Clearing every field saves an empty budget, which reads as "no retainer"
+    if (!monthlyHours && Object.keys(deliverables).length === 0) {
+      onSubmit({});
+      return;
+    }
+    onSubmit({ monthlyHours, deliverables, warnAtPercent: Math.min(100, Math.max(1, parseInt(warnAt) || 80)) });
+  };
+
+  const labelClass = "block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1";
+  const inputClass = "w-full px-5 py-3.5 bg-white border border-gray-200 rounded-2xl text-sm font-bold focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none shadow-inner";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-950/40 backdrop-blur-md p-6 animate-in fade-in duration-300" onClick={onClose}>
+      <div className="bg-white/90 backdrop-blur-3xl rounded-[3rem] shadow-2xl w-full max-w-xl border border-white/60 relative max-h-[90vh] overflow-y-auto custom-scrollbar" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-6 right-6 p-2 text-slate-400 hover:text-slate-900 bg-white/50 hover:bg-white rounded-full transition-all">
+          <X className="h-5 w-5" />
+        </button>
+
+        <form className="p-10 space-y-6" onSubmit={handleSubmit}>
+          <div>
+            <p className="text-[10px] font-black text-indigo-600 uppercase tracking-widest mb-2 flex items-center gap-2">
+              <Gauge className="h-3.5 w-3.5" /> Monthly Retainer
+            </p>
+            <h3 className="text-2xl font-black text-slate-900 tracking-tight pr-10">{companyName}</h3>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Hours / month</label>
+              <input type="number" min="0" step="0.5" className={inputClass} placeholder="e.g. 40" value={hours} onChange={e => setHours(e.target.value)} />
+            </div>
+            <div>
+              <label className={labelClass}>Warn at (%)</label>
+              <input type="number" min="1" max="100" className={inputClass} value={warnAt} onChange={e => setWarnAt(e.target.value)} />
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Deliverables / month</label>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {TASK_TYPES.map(type => (
+                <div key={type} className="flex items-center gap-2 px-4 py-2.5 bg-white border border-gray-200 rounded-2xl shadow-inner focus-within:ring-4 focus-within:ring-indigo-500/10 focus-within:border-indigo-500">
+                  <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex-1">{type}</span>
+                  <input
+                    type="number"
+                    min="0"
+                    className="w-12 bg-transparent text-sm font-black text-slate-900 text-right outline-none"
+                    placeholder="–"
+                    value={quotas[type] || ''}
+                    onChange={e => setQuotas(prev => ({ ...prev, [type]: e.target.value }))}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex gap-4">
+            <button type="button" onClick={onClose} className="flex-1 py-4 text-[11px] font-black uppercase tracking-widest text-slate-500 bg-slate-100 hover:bg-slate-200 rounded-2xl transition-colors">
+              Cancel
+            </button>
+            <button type="submit" disabled={isReadOnly} className="flex-1 py-4 text-[11px] font-black uppercase tracking-widest text-white bg-slate-950 hover:bg-slate-900 rounded-2xl shadow-xl transition-all active:scale-95 disabled:opacity-40">
+              Save Retainer
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Gauge, Pencil, AlertTriangle } from 'lucide-react';
+import { RetainerHealth, RetainerUsageLine } from '../../types';
+
+interface RetainerBurnDownProps {
+  lines: RetainerUsageLine[];
+  health: RetainerHealth;
+  monthLabel: string;
+  monthElapsed: number; // Percent of the month gone, drawn as the pace marker
+  warnAtPercent?: number;
+  onEdit?: () => void;
+}
+
+const LINE_LABELS: Record<string, string> = { hours: 'Hours', Story: 'Stories' };
+
+const barColor = (percent: number, elapsed: number, warnAt: number) => {
+  if (percent > 100) return 'bg-rose-500';
+  if (percent >= warnAt) return 'bg-amber-500';
+  return percent > elapsed ? 'bg-indigo-500' : 'bg-emerald-500';
+};
+
+export const RetainerBurnDown: React.FC<RetainerBurnDownProps> = ({ lines, health, monthLabel, monthElapsed, warnAtPercent = 80, onEdit }) => {
+  return (
+    <div className={`bg-white/40 backdrop-blur-3xl rounded-[3rem] p-8 lg:p-10 border shadow-premium ${health === 'over' ? 'border-rose-200 ring-2 ring-rose-100' : health === 'near' ? 'border-amber-200 ring-2 ring-amber-100' : 'border-white'}`}>
+      <div className="flex items-center justify-between gap-4 mb-8">
+        <div>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.4em] flex items-center gap-3">
+            <Gauge className="h-4 w-4 text-brand-500" /> Retainer Burn
+          </p>
+          <p className="text-sm font-bold text-slate-900 mt-2">{monthLabel} <span className="text-slate-400 font-medium">· {monthElapsed}% of month elapsed</span></p>
+        </div>
+        <div className="flex items-center gap-3">
+          {health === 'over' && (
+            <span className="px-3 py-1.5 rounded-xl bg-rose-50 border border-rose-200 text-[9px] font-black text-rose-600 uppercase tracking-widest flex items-center gap-1.5">
+              <AlertTriangle className="h-3 w-3" /> Over budget
+            </span>
+          )}
+          {health === 'near' && (
+            <span className="px-3 py-1.5 rounded-xl bg-amber-50 border border-amber-200 text-[9px] font-black text-amber-600 uppercase tracking-widest flex items-center gap-1.5">
+              <AlertTriangle className="h-3 w-3" /> Near limit
+            </span>
+          )}
+          {onEdit && (
+            <button onClick={onEdit} title="Edit retainer" className="p-2.5 bg-white border border-slate-100 rounded-xl text-slate-400 hover:text-brand-600 hover:shadow-md transition-all">
+              <Pencil className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {lines.length === 0 ? (
+        <p className="text-sm font-medium text-slate-400">No retainer set for this client yet.</p>
+      ) : (
+        <div className="space-y-5">
+          {lines.map(line => (
+            <div key={line.key}>
+              <div className="flex items-baseline justify-between mb-2">
+                <span className="text-xs font-black text-slate-700 uppercase tracking-widest">{LINE_LABELS[line.key] || `${line.key}s`}</span>
+                <span className="text-xs font-bold text-slate-500">
+                  <span className={`font-black ${line.percent > 100 ? 'text-rose-600' : 'text-slate-900'}`}>{line.used}</span> / {line.budget}
+                  {line.done !== undefined && <span className="text-slate-400"> · {line.done} delivered</span>}
+                </span>
+              </div>
+              <div className="relative h-2.5 w-full bg-slate-100 rounded-full shadow-inner">
+                <div className={`h-full rounded-full transition-all duration-700 ${barColor(line.percent, monthElapsed, warnAtPercent)}`} style={{ width: `${Math.min(line.percent, 100)}%` }} />
+                <div className="absolute -top-1 -bottom-1 w-0.5 bg-slate-900/40 rounded-full" style={{ left: `${monthElapsed}%` }} title="Even pace for today" />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
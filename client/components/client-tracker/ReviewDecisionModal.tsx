@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { CheckCircle, RotateCcw, X, ExternalLink } from 'lucide-react';
+import { Task, ReviewDecision } from '../../types';
+import { useAuth } from '../../context/AuthContext';
+
+interface ReviewDecisionModalProps {
+  task: Task | null;
+  initialDecision?: ReviewDecision;
+  onClose: () => void;
+  onConfirm: (task: Task, decision: ReviewDecision, note: string) => void;
+}
+
+export const ReviewDecisionModal: React.FC<ReviewDecisionModalProps> = ({ task, initialDecision = 'approve', onClose, onConfirm }) => {
+  const { isReadOnly } = useAuth();
+  const [decision, setDecision] = useState<ReviewDecision>(initialDecision);
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    if (task) {
+      setDecision(initialDecision);
+      setNote('');
+    }
+  }, [task, initialDecision]);
+
+  if (!task) return null;
+
+  const isApprove = decision === 'approve';
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center bg-slate-950/60 backdrop-blur-md p-6 animate-in fade-in duration-300" onClick={onClose}>
+      <div className="bg-white/90 backdrop-blur-3xl rounded-[3rem] shadow-2xl w-full max-w-lg overflow-hidden border border-white/60 relative" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-6 right-6 p-2 text-slate-400 hover:text-slate-900 bg-white/50 hover:bg-white rounded-full transition-all">
+          <X className="h-5 w-5" />
+        </button>
+
+        <form
+          className="p-10 space-y-6"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!note.trim()) return;
+            onConfirm(task, decision, note.trim());
+          }}
+        >
+          <div>
+            <p className="text-[10px] font-black text-purple-500 uppercase tracking-widest mb-2">
+              Review {(task.revisionCount || 0) > 0 ? `• Revision ${task.revisionCount}` : ''}
+            </p>
+            <h3 className="text-2xl font-black text-slate-900 tracking-tight pr-10">{task.title}</h3>
+            {task.taskLink && (
+              <a href={task.taskLink} target="_blank" rel="noopener noreferrer" className="mt-3 inline-flex items-center gap-2 text-xs font-bold text-blue-600 hover:underline">
+                <ExternalLink className="h-3.5 w-3.5" /> Open deliverable
+              </a>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              type="button"
+              onClick={() => setDecision('approve')}
+              className={`p-4 rounded-2xl border text-[11px] font-black uppercase tracking-widest flex items-center justify-center gap-2 transition-all ${isApprove ? 'bg-teal-600 text-white border-teal-600 shadow-xl shadow-teal-200' : 'bg-white text-slate-500 border-slate-200 hover:border-teal-300'}`}
+            >
+              <CheckCircle className="h-4 w-4" /> Approve
+            </button>
+            <button
+              type="button"
+              onClick={() => setDecision('request_changes')}
+              className={`p-4 rounded-2xl border text-[11px] font-black uppercase tracking-widest flex items-center justify-center gap-2 transition-all ${!isApprove ? 'bg-amber-500 text-white border-amber-500 shadow-xl shadow-amber-200' : 'bg-white text-slate-500 border-slate-200 hover:border-amber-300'}`}
+            >
+              <RotateCcw className="h-4 w-4" /> Request Changes
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">
+              {isApprove ? 'Approval note' : 'What needs to change?'} <span className="text-rose-500">*</span>
+            </label>
+            <textarea
+              required
+              autoFocus
+              className="w-full px-6 py-5 bg-white border border-gray-200 rounded-[1.5rem] text-sm font-medium focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none shadow-inner h-32 resize-none"
+              placeholder={isApprove ? 'Looks great, good to publish.' : 'Please swap the opening shot and tighten the caption...'}
+              value={note}
+              onChange={e => setNote(e.target.value)}
+            />
+          </div>
+
+          <div className="flex gap-4">
+            <button type="button" onClick={onClose} className="flex-1 py-4 text-[11px] font-black uppercase tracking-widest text-slate-500 bg-slate-100 hover:bg-slate-200 rounded-2xl transition-colors">
+              Cancel
+            </button>
+            <button type="submit" disabled={!note.trim() || isReadOnly} className="flex-1 py-4 text-[11px] font-black uppercase tracking-widest text-white bg-slate-950 hover:bg-slate-900 rounded-2xl shadow-xl transition-all active:scale-95 disabled:opacity-40">
+              Submit Decision
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,174 @@
+import React, { useMemo } from 'react';
+import { AlertTriangle, GanttChart } from 'lucide-react';
+import { Task } from '../../types';
+import { formatDate, getTaskStatusStyles, isTaskDone } from '../../utils';
+import { getBlockers, getDependencyConflicts } from '../../services/taskDependencies';
+
+interface TaskTimelineProps {
+  tasks: Task[];
+  onEdit: (task: Task) => void;
+}
+
+const DAY_WIDTH = 32;
+const ROW_HEIGHT = 48;
+const HEADER_HEIGHT = 56;
+const DAY_MS = 86400000;
+
+// Whole days since the epoch, so bar maths never touches the local timezone
+const toDayNumber = (dateStr: string) => {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return Math.round(Date.UTC(y, m - 1, d) / DAY_MS);
+};
+
+const fromDayNumber = (day: number) => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+export const TaskTimeline: React.FC<TaskTimelineProps> = ({ tasks, onEdit }) => {
+  const todayStr = useMemo(() => new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Kolkata' }).format(new Date()), []);
+
+  const rows = useMemo(() => tasks
+    .filter(t => !!t.dueDate && t.status !== 'Dropped')
+    .map(t => {
+      const end = toDayNumber(t.dueDate);
+      // A start date after the due date is treated as a single-day bar
+      const start = t.startDate ? Math.min(toDayNumber(t.startDate), end) : end;
+      return { task: t, start, end };
+    })
+    .sort((a, b) => a.start - b.start || a.end - b.end || a.task.id - b.task.id),
+  [tasks]);
+
+  const conflicts = useMemo(() => getDependencyConflicts(rows.map(r => r.task)), [rows]);
+
+  if (rows.length === 0) {
+    return (
+      <div className="py-20 text-center">
+        <p className="text-[10px] font-black text-slate-300 uppercase tracking-[0.4em]">No scheduled tasks to plot</p>
+      </div>
+    );
+  }
+
+  const today = toDayNumber(todayStr);
+  const rangeStart = Math.min(...rows.map(r => r.start), today) - 2;
+  const rangeEnd = Math.max(...rows.map(r => r.end), today) + 3;
+  const days = Array.from({ length: rangeEnd - rangeStart + 1 }, (_, i) => rangeStart + i);
+  const rowIndex = new Map<number, number>(rows.map((r, i) => [r.task.id, i]));
+
+  const arrows = rows.flatMap((row, i) => getBlockers(row.task, tasks)
+    .filter(blocker => rowIndex.has(blocker.id))
+    .map(blocker => {
+      const fromIndex = rowIndex.get(blocker.id) as number;
+      const x1 = (rows[fromIndex].end - rangeStart + 1) * DAY_WIDTH;
+      const y1 = fromIndex * ROW_HEIGHT + ROW_HEIGHT / 2;
+      const x2 = (row.start - rangeStart) * DAY_WIDTH;
+      const y2 = i * ROW_HEIGHT + ROW_HEIGHT / 2;
+      const isConflict = conflicts.some(c => c.task.id === row.task.id && c.blocker.id === blocker.id);
+      const bend = Math.max(24, Math.abs(x2 - x1) / 2);
+      return { key: `${blocker.id}-${row.task.id}`, path: `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`, isConflict };
+    }));
+
+  return (
+    <div className="bg-white/40 backdrop-blur-3xl rounded-[3rem] border border-white shadow-premium overflow-hidden">
+      <div className="flex items-center gap-4 p-8 border-b border-slate-100">
+        <div className="h-14 w-14 rounded-[1.75rem] bg-slate-950 flex items-center justify-center text-indigo-400 shadow-2xl ring-1 ring-white/10 shrink-0">
+          <GanttChart className="h-7 w-7" />
+        </div>
+        <div>
+          <h2 className="text-3xl font-black text-slate-900 tracking-tighter leading-none">Delivery Sequence</h2>
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.4em] mt-2">{formatDate(fromDayNumber(rangeStart + 2))} – {formatDate(fromDayNumber(rangeEnd - 3))}</p>
+        </div>
+      </div>
+
+      {conflicts.length > 0 && (
+        <div className="mx-8 mt-6 p-5 rounded-[2rem] bg-rose-50 border border-rose-100 space-y-2">
+          <p className="text-[10px] font-black text-rose-600 uppercase tracking-widest flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4" /> {conflicts.length} Sequencing {conflicts.length === 1 ? 'Conflict' : 'Conflicts'}
+          </p>
+          {conflicts.map(({ task, blocker }) => (
+            <button key={`${blocker.id}-${task.id}`} onClick={() => onEdit(task)} className="block text-left text-xs font-bold text-rose-700 hover:underline">
+              "{task.title}" is due {formatDate(task.dueDate)}, before its blocker "{blocker.title}" ({formatDate(blocker.dueDate)})
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex p-8">
+        <div className="w-64 shrink-0 border-r border-slate-100">
+          <div style={{ height: HEADER_HEIGHT }} className="flex items-end pb-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Task</div>
+          {rows.map(({ task }) => (
+            <button key={task.id} onClick={() => onEdit(task)} style={{ height: ROW_HEIGHT }} className="w-full flex items-center gap-2 pr-4 text-left border-t border-slate-100/70 group">
+              <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${isTaskDone(task) ? 'bg-emerald-500' : task.priority === 'High' ? 'bg-rose-500' : 'bg-slate-300'}`} />
+              <span className="text-sm font-bold text-slate-700 truncate group-hover:text-indigo-600 transition-colors">{task.title}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-x-auto custom-scrollbar">
+          <div className="relative" style={{ width: days.length * DAY_WIDTH }}>
+            <div className="flex" style={{ height: HEADER_HEIGHT }}>
+              {days.map(day => {
+                const dateStr = fromDayNumber(day);
+                const isFirst = dateStr.endsWith('-01') || day === rangeStart;
+                const weekday = new Date(day * DAY_MS).getUTCDay();
+                return (
+                  <div key={day} style={{ width: DAY_WIDTH }} className={`flex flex-col justify-end items-center pb-3 shrink-0 ${weekday === 0 || weekday === 6 ? 'bg-slate-50/60' : ''}`}>
+                    {isFirst && (
+                      <span className="text-[9px] font-black text-indigo-500 uppercase tracking-widest whitespace-nowrap">
+                        {new Date(day * DAY_MS).toLocaleDateString('en-US', { month: 'short', timeZone: 'UTC' })}
+                      </span>
+                    )}
+                    <span className={`text-[10px] font-black ${day === today ? 'text-white bg-indigo-600 rounded-lg px-1.5' : 'text-slate-400'}`}>{dateStr.slice(8)}</span>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="relative" style={{ height: rows.length * ROW_HEIGHT }}>
+              {days.map((day, i) => {
+                const weekday = new Date(day * DAY_MS).getUTCDay();
+                return (weekday === 0 || weekday === 6) ? <div key={day} className="absolute top-0 bottom-0 bg-slate-50/60" style={{ left: i * DAY_WIDTH, width: DAY_WIDTH }} /> : null;
+              })}
+              <div className="absolute top-0 bottom-0 w-px bg-indigo-400/60" style={{ left: (today - rangeStart) * DAY_WIDTH + DAY_WIDTH / 2 }} />
+
+              {rows.map(({ task, start, end }, i) => {
+                const hasConflict = conflicts.some(c => c.task.id === task.id);
+                return (
+                  <div key={task.id} className="absolute left-0 right-0 border-t border-slate-100/70" style={{ top: i * ROW_HEIGHT, height: ROW_HEIGHT }}>
+                    <button
+                      onClick={() => onEdit(task)}
+                      title={`${task.title} · ${task.startDate ? `${formatDate(task.startDate)} – ` : ''}${formatDate(task.dueDate)}`}
+                      className={`absolute top-2.5 bottom-2.5 rounded-xl border text-[9px] font-black uppercase tracking-tighter px-2 flex items-center shadow-sm transition-all hover:shadow-md hover:scale-[1.02] ${getTaskStatusStyles(task.status)} ${hasConflict ? 'ring-2 ring-rose-400' : ''}`}
+                      style={{ left: (start - rangeStart) * DAY_WIDTH + 2, width: (end - start + 1) * DAY_WIDTH - 4 }}
+                    >
+                      {end - start >= 2 && <span className="truncate">{task.status}</span>}
+                    </button>
+                  </div>
+                );
+              })}
+
+              <svg className="absolute inset-0 pointer-events-none overflow-visible" width={days.length * DAY_WIDTH} height={rows.length * ROW_HEIGHT}>
+                <defs>
+                  <marker id="timeline-arrow" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                    <path d="M 0 0 L 8 4 L 0 8 z" fill="#94a3b8" />
+                  </marker>
+                  <marker id="timeline-arrow-conflict" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                    <path d="M 0 0 L 8 4 L 0 8 z" fill="#f43f5e" />
+                  </marker>
+                </defs>
+                {arrows.map(arrow => (
+                  <path
+                    key={arrow.key}
+                    d={arrow.path}
+                    fill="none"
+                    stroke={arrow.isConflict ? '#f43f5e' : '#94a3b8'}
+                    strokeWidth={1.5}
+                    strokeDasharray={arrow.isConflict ? '4 3' : undefined}
+                    markerEnd={`url(#${arrow.isConflict ? 'timeline-arrow-conflict' : 'timeline-arrow'})`}
+                  />
+                ))}
+              </svg>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
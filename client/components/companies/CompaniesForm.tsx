@@ -3,6 +3,7 @@ import { X, Save, Building, Hash, Check, History, HardDrive, Globe, Linkedin, In
 import { CRMEntry, CRMStatus, SocialLinks } from '../../types';
 import { getWorkTypeStyles, formatDateTime } from '../../utils';
 import { CustomSelect } from '../ui/CustomSelect';
+import { useAuth } from '../../context/AuthContext';
 
 interface CompaniesFormProps {
   isOpen: boolean;
@@ -25,6 +26,7 @@ const STATUS_OPTIONS: { label: string; value: CRMStatus }[] = [
 ];
 
 export const CompaniesForm: React.FC<CompaniesFormProps> = ({ isOpen, onClose, onSubmit, initialData, onDelete }) => {
+  const { isReadOnly } = useAuth();
   const [formData, setFormData] = useState<Partial<CRMEntry>>({});
   const [customWork, setCustomWork] = useState('');
   
@@ -322,7 +324,7 @@ export const CompaniesForm: React.FC<CompaniesFormProps> = ({ isOpen, onClose, o
                         <button type="button" onClick={onClose} className="px-6 lg:px-8 py-3 lg:py-4 text-[10px] lg:text-[11px] font-black text-slate-500 uppercase tracking-widest hover:text-slate-900 transition-colors">
                             Discard
                         </button>
-                        <button type="submit" className="px-8 lg:px-10 py-3 lg:py-4 bg-slate-950 text-white rounded-2xl lg:rounded-[1.5rem] text-[10px] lg:text-[11px] font-black uppercase tracking-widest shadow-2xl active:scale-95 transition-all flex items-center gap-3">
+                        <button type="submit" disabled={isReadOnly} className="px-8 lg:px-10 py-3 lg:py-4 bg-slate-950 text-white rounded-2xl lg:rounded-[1.5rem] text-[10px] lg:text-[11px] font-black uppercase tracking-widest shadow-2xl active:scale-95 transition-all flex items-center gap-3 disabled:opacity-40">
                             <Save className="h-4 w-4 text-indigo-400" /> Committ
                         </button>
                     </div>
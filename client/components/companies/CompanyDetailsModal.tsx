@@ -1,17 +1,26 @@
 
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { X, Hash, User, Calendar, Tag, Clock, ExternalLink, HardDrive, Linkedin, Instagram, Facebook, Twitter, Globe, Link as LinkIcon, Edit2, Building, Mail, MapPin } from 'lucide-react';
 import { CRMEntry } from '../../types';
 import { getStatusStyles, getWorkTypeStyles, formatDate, formatDateTime } from '../../utils';
+import { RecordTabs, RecordTab } from '../audit/RecordTabs';
+import { RecordHistory } from '../audit/RecordHistory';
 
 interface CompanyDetailsModalProps {
   isOpen: boolean;
   onClose: () => void;
   onEdit?: (company: CRMEntry) => void;
   company?: CRMEntry;
+  onReverted?: (id: number, patch: Partial<CRMEntry>) => void; // A version was restored from the History tab
 }
 
-export const CompanyDetailsModal: React.FC<CompanyDetailsModalProps> = ({ isOpen, onClose, onEdit, company }) => {
+export const CompanyDetailsModal: React.FC<CompanyDetailsModalProps> = ({ isOpen, onClose, onEdit, company, onReverted }) => {
+  const [tab, setTab] = useState<RecordTab>('details');
+
+  useEffect(() => {
+    if (isOpen) setTab('details');
+  }, [isOpen, company?.id]);
+
   if (!isOpen || !company) return null;
 
   const hasSocials = company.socials && Object.values(company.socials).some(Boolean);
@@ -72,7 +81,14 @@ export const CompanyDetailsModal: React.FC<CompanyDetailsModalProps> = ({ isOpen
             </div>
         </div>
 
+        {tab === 'history' ? (
+        <div className="p-6 lg:p-8 overflow-y-auto custom-scrollbar max-h-[70vh] space-y-6 lg:space-y-8">
+            <RecordTabs value={tab} onChange={setTab} />
+            <RecordHistory entity="crm" recordId={company.id} onReverted={(patch) => onReverted?.(company.id, patch as Partial<CRMEntry>)} />
+        </div>
+        ) : (
         <div className="p-6 lg:p-8 overflow-y-auto custom-scrollbar max-h-[70vh] space-y-6 lg:space-y-8">
+            <RecordTabs value={tab} onChange={setTab} />
             
             {/* Contact & Location Grid */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 lg:gap-6">
@@ -185,6 +201,7 @@ export const CompanyDetailsModal: React.FC<CompanyDetailsModalProps> = ({ isOpen
             </div>
 
         </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,218 @@
+import React, { useState, useMemo } from 'react';
+import { ChevronLeft, ChevronRight, Megaphone, CalendarDays, LayoutGrid, Hash } from 'lucide-react';
+import { Task, SocialPlatform } from '../../types';
+import { getTaskStatusStyles } from '../../utils';
+import { isContentTask, getContentPublishDate } from '../../services/contentCalendar';
+import { PLATFORM_META, PlatformIcon } from './PlatformIcon';
+
+interface ContentCalendarProps {
+  tasks: Task[];
+  onOpen?: (task: Task) => void;
+  companyMap?: Record<number, string>; // Shown on each post when the calendar spans clients
+}
+
+type ContentViewMode = 'calendar' | 'feed';
+
+const IMAGE_URL = /\.(png|jpe?g|gif|webp|avif)(\?.*)?$/i;
+
+const publishTime = (task: Task) => task.content?.publishAt?.slice(11, 16);
+
+export const ContentCalendar: React.FC<ContentCalendarProps> = ({ tasks, onOpen, companyMap }) => {
+  const [viewMode, setViewMode] = useState<ContentViewMode>('calendar');
+  const [platformFilter, setPlatformFilter] = useState<SocialPlatform | 'all'>('all');
+  const [viewDate, setViewDate] = useState(() => {
+    const d = new Date();
+    return new Date(d.getFullYear(), d.getMonth(), 1);
+  });
+
+  const year = viewDate.getFullYear();
+  const month = viewDate.getMonth();
+  const monthKey = `${year}-${String(month + 1).padStart(2, '0')}`;
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  const firstDayIdx = new Date(year, month, 1).getDay();
+
+  const todayStr = useMemo(() => new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Kolkata' }).format(new Date()), []);
+
+  // Dropped posts are never published, so they stay off the plan
+  const contentTasks = useMemo(() => tasks.filter(t => isContentTask(t) && t.status !== 'Dropped'), [tasks]);
+
+  const monthPosts = useMemo(() => contentTasks
+    .filter(t => getContentPublishDate(t)?.startsWith(monthKey))
+    .filter(t => platformFilter === 'all' || t.content?.platform === platformFilter)
+    .sort((a, b) => `${getContentPublishDate(a)}T${publishTime(a) || '99:99'}`.localeCompare(`${getContentPublishDate(b)}T${publishTime(b) || '99:99'}`)),
+  [contentTasks, monthKey, platformFilter]);
+
+  const platformCounts = useMemo(() => {
+    const counts: Partial<Record<SocialPlatform, number>> = {};
+    contentTasks.filter(t => getContentPublishDate(t)?.startsWith(monthKey)).forEach(t => {
+      if (t.content?.platform) counts[t.content.platform] = (counts[t.content.platform] || 0) + 1;
+    });
+    return counts;
+  }, [contentTasks, monthKey]);
+
+  const renderCells = () => {
+    const cells = [];
+    for (let i = 0; i < firstDayIdx; i++) {
+      cells.push(<div key={`empty-prev-${i}`} className="bg-slate-50/10 border-b border-r border-slate-100/50 min-h-[110px]" />);
+    }
+
+    for (let day = 1; day <= daysInMonth; day++) {
+      const dateStr = `${monthKey}-${String(day).padStart(2, '0')}`;
+      const isToday = todayStr === dateStr;
+      const dayPosts = monthPosts.filter(t => getContentPublishDate(t) === dateStr);
+
+      cells.push(
+        <div key={day} className={`group border-b border-r border-slate-100 min-h-[110px] p-2.5 transition-all hover:bg-white/80 ${isToday ? 'bg-indigo-50/30' : 'bg-white/40'}`}>
+          <span className={`flex items-center justify-center w-7 h-7 mb-2 rounded-xl text-xs font-black ${isToday ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-200' : 'text-slate-400 group-hover:text-slate-900'}`}>
+            {day}
+          </span>
+          <div className="space-y-1.5">
+            {dayPosts.slice(0, 3).map(task => (
+              <button
+                key={task.id}
+                onClick={() => onOpen?.(task)}
+                disabled={!onOpen}
+                title={task.content?.caption || task.title}
+                className={`w-full text-left p-1.5 rounded-xl border text-[9px] font-black uppercase tracking-tighter shadow-sm transition-all enabled:hover:scale-[1.02] flex items-center gap-1.5 ${task.content?.platform ? PLATFORM_META[task.content.platform].className : 'bg-white/60 text-slate-500 border-slate-200'}`}
+              >
+                <PlatformIcon platform={task.content?.platform} className="h-2.5 w-2.5 shrink-0" />
+                {publishTime(task) && <span className="shrink-0 opacity-70">{publishTime(task)}</span>}
+                <span className="truncate">{task.title}</span>
+              </button>
+            ))}
+            {dayPosts.length > 3 && (
+              <p className="text-center text-[9px] font-black text-slate-400 uppercase tracking-widest">+{dayPosts.length - 3} Posts</p>
+            )}
+          </div>
+        </div>
+      );
+    }
+
+    const nextPadding = (7 - ((firstDayIdx + daysInMonth) % 7)) % 7;
+    for (let i = 0; i < nextPadding; i++) {
+      cells.push(<div key={`empty-next-${i}`} className="bg-slate-50/10 border-b border-r border-slate-100/50 min-h-[110px]" />);
+    }
+    return cells;
+  };
+
+  return (
+    <div className="bg-white/40 backdrop-blur-3xl rounded-[3rem] border border-white shadow-premium flex flex-col overflow-hidden">
+      <div className="flex flex-col xl:flex-row xl:items-center justify-between gap-6 p-8 border-b border-slate-100">
+        <div className="flex items-center gap-4">
+          <div className="h-14 w-14 rounded-[1.75rem] bg-slate-950 flex items-center justify-center text-pink-400 shadow-2xl ring-1 ring-white/10 shrink-0">
+            <Megaphone className="h-7 w-7" />
+          </div>
+          <div>
+            <h2 className="text-3xl font-black text-slate-900 tracking-tighter leading-none">
+              {viewDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+            </h2>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.4em] mt-2">{monthPosts.length} Planned Posts</p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex bg-slate-100/50 p-1.5 rounded-2xl border border-slate-200/40 shadow-inner">
+            {([['calendar', 'Calendar', CalendarDays], ['feed', 'Feed Preview', LayoutGrid]] as const).map(([mode, label, Icon]) => (
+              <button
+                key={mode}
+                onClick={() => setViewMode(mode)}
+                className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center gap-2 transition-all ${viewMode === mode ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+              >
+                <Icon className="h-3.5 w-3.5" /> {label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1 bg-slate-100/50 p-1.5 rounded-2xl border border-slate-200/40 shadow-inner">
+            <button onClick={() => setViewDate(new Date(year, month - 1, 1))} className="p-2 hover:bg-white text-slate-500 hover:text-indigo-600 rounded-xl transition-all active:scale-90">
+              <ChevronLeft className="h-5 w-5" />
+            </button>
+            <button
+              onClick={() => setViewDate(new Date(new Date().getFullYear(), new Date().getMonth(), 1))}
+              className="px-4 py-1 text-[10px] font-black text-slate-500 uppercase tracking-widest hover:text-indigo-600 transition-colors border-x border-slate-200/60"
+            >
+              This Month
+            </button>
+            <button onClick={() => setViewDate(new Date(year, month + 1, 1))} className="p-2 hover:bg-white text-slate-500 hover:text-indigo-600 rounded-xl transition-all active:scale-90">
+              <ChevronRight className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 px-8 py-4 border-b border-slate-100 bg-slate-50/30">
+        <button
+          onClick={() => setPlatformFilter('all')}
+          className={`px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all ${platformFilter === 'all' ? 'bg-slate-950 text-white border-slate-950' : 'bg-white text-slate-400 border-slate-200 hover:text-slate-600'}`}
+        >
+          All Platforms
+        </button>
+        {(Object.keys(PLATFORM_META) as SocialPlatform[]).map(platform => (
+          <button
+            key={platform}
+            onClick={() => setPlatformFilter(platformFilter === platform ? 'all' : platform)}
+            className={`px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border flex items-center gap-1.5 transition-all ${platformFilter === platform ? PLATFORM_META[platform].className : 'bg-white text-slate-400 border-slate-200 hover:text-slate-600'}`}
+          >
+            <PlatformIcon platform={platform} /> {PLATFORM_META[platform].label}
+            {platformCounts[platform] ? <span className="opacity-60">{platformCounts[platform]}</span> : null}
+          </button>
+        ))}
+      </div>
+
+      {viewMode === 'calendar' ? (
+        <>
+          <div className="grid grid-cols-7 border-b border-slate-100 bg-slate-50/30">
+            {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map(d => (
+              <div key={d} className="py-4 text-center text-[10px] font-black text-slate-400 uppercase tracking-[0.4em]">{d}</div>
+            ))}
+          </div>
+          <div className="grid grid-cols-7 border-l border-slate-100">
+            {renderCells()}
+          </div>
+        </>
+      ) : monthPosts.length === 0 ? (
+        <div className="py-20 text-center">
+          <p className="text-[10px] font-black text-slate-300 uppercase tracking-[0.4em]">No posts planned this month</p>
+        </div>
+      ) : (
+        <div className="p-6 lg:p-8 grid grid-cols-2 md:grid-cols-3 gap-3 max-w-3xl mx-auto w-full">
+          {monthPosts.map(task => {
+            const hasImage = !!task.taskLink && IMAGE_URL.test(task.taskLink);
+            return (
+              <button
+                key={task.id}
+                onClick={() => onOpen?.(task)}
+                disabled={!onOpen}
+                className="group relative aspect-square rounded-2xl overflow-hidden border border-white shadow-sm bg-gradient-to-br from-slate-100 to-indigo-50 text-left transition-all enabled:hover:shadow-xl"
+                style={hasImage ? { backgroundImage: `url(${task.taskLink})`, backgroundSize: 'cover', backgroundPosition: 'center' } : undefined}
+              >
+                <div className={`absolute inset-0 p-4 flex flex-col justify-between ${hasImage ? 'bg-gradient-to-t from-slate-950/80 via-slate-950/10 to-transparent text-white' : 'text-slate-700'}`}>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className={`px-2 py-0.5 rounded-lg text-[9px] font-black uppercase tracking-widest border flex items-center gap-1 ${task.content?.platform ? PLATFORM_META[task.content.platform].className : 'bg-white text-slate-500 border-slate-200'}`}>
+                      <PlatformIcon platform={task.content?.platform} className="h-2.5 w-2.5" /> {task.taskType}
+                    </span>
+                    <span className={`px-2 py-0.5 rounded-lg text-[8px] font-black uppercase tracking-widest border ${getTaskStatusStyles(task.status)}`}>{task.status}</span>
+                  </div>
+                  <div className="min-w-0">
+                    <p className="text-[10px] font-black uppercase tracking-widest opacity-70">
+                      {new Date(`${getContentPublishDate(task)}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}{publishTime(task) ? ` · ${publishTime(task)}` : ''}
+                    </p>
+                    <p className="text-sm font-black tracking-tight truncate">{task.title}</p>
+                    {companyMap && task.companyId && companyMap[task.companyId] && (
+                      <p className="text-[10px] font-bold opacity-70 truncate">{companyMap[task.companyId]}</p>
+                    )}
+                    {task.content?.caption && <p className="text-[11px] font-medium opacity-80 line-clamp-2 mt-1">{task.content.caption}</p>}
+                    {task.content?.hashtags && task.content.hashtags.length > 0 && (
+                      <p className={`text-[10px] font-bold mt-1 truncate flex items-center gap-0.5 ${hasImage ? 'text-pink-200' : 'text-indigo-500'}`}>
+                        <Hash className="h-2.5 w-2.5 shrink-0" />{task.content.hashtags.join(' #')}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Megaphone, Hash, X, Clock } from 'lucide-react';
+import { ContentDetails, SocialPlatform } from '../../types';
+import { CustomDatePicker } from '../ui/CustomDatePicker';
+import { PLATFORM_META, PlatformIcon } from './PlatformIcon';
+import { formatDateTime } from '../../utils';
+import { parseHashtags } from '../../services/contentCalendar';
+
+interface ContentDetailsEditorProps {
+  value?: ContentDetails;
+  onChange: (content: ContentDetails) => void;
+  platforms: SocialPlatform[];
+  readOnly?: boolean;
+}
+
+const CAPTION_LIMITS: Record<SocialPlatform, number> = { instagram: 2200, linkedin: 3000, facebook: 63206, twitter: 280 };
+
+export const ContentDetailsEditor: React.FC<ContentDetailsEditorProps> = ({ value: content, onChange, platforms, readOnly = false }) => {
+  const value: ContentDetails = content || {};
+  const [tagDraft, setTagDraft] = useState('');
+  const hashtags = value.hashtags || [];
+  const [publishDate, publishTime] = value.publishAt ? value.publishAt.split('T') : ['', ''];
+  const captionLimit = value.platform ? CAPTION_LIMITS[value.platform] : undefined;
+
+  const commitTags = () => {
+    const added = parseHashtags(tagDraft);
+    if (added.length) onChange({ ...value, hashtags: Array.from(new Set([...hashtags, ...added])) });
+    setTagDraft('');
+  };
+
+  if (readOnly) {
+    if (!value.platform && !value.publishAt && !value.caption && hashtags.length === 0) return null;
+    return (
+      <div className="p-6 bg-white/40 border border-white rounded-[2rem] shadow-sm space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-2 mr-auto">
+            <Megaphone className="h-4 w-4 text-indigo-500" /> Publishing Plan
+          </p>
+          {value.platform && (
+            <span className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border flex items-center gap-1.5 ${PLATFORM_META[value.platform].className}`}>
+              <PlatformIcon platform={value.platform} /> {PLATFORM_META[value.platform].label}
+            </span>
+          )}
+          {value.publishAt && (
+            <span className="px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border border-slate-100 bg-slate-50 text-slate-600 flex items-center gap-1.5">
+              <Clock className="h-3 w-3" /> {formatDateTime(value.publishAt)}
+            </span>
+          )}
+        </div>
+        {value.caption && <p className="text-sm font-medium text-slate-700 whitespace-pre-wrap leading-relaxed">{value.caption}</p>}
+        {hashtags.length > 0 && (
+          <p className="text-sm font-bold text-indigo-600">{hashtags.map(tag => `#${tag}`).join(' ')}</p>
+        )}
+      </div>
+    );
+  }
+
+  const labelClass = "block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1";
+
+  return (
+    <div className="space-y-6 p-6 lg:p-8 bg-indigo-50/30 border border-indigo-100 rounded-[2.5rem]">
+      <p className="text-[10px] font-black text-indigo-600 uppercase tracking-widest flex items-center gap-2">
+        <Megaphone className="h-4 w-4" /> Publishing Plan
+      </p>
+
+      <div>
+        <label className={labelClass}>Platform</label>
+        <div className="flex flex-wrap gap-2">
+          {platforms.map(platform => {
+            const isActive = value.platform === platform;
+            return (
+              <button
+                key={platform}
+                type="button"
+                onClick={() => onChange({ ...value, platform: isActive ? undefined : platform })}
+                className={`px-4 py-2.5 rounded-2xl text-[10px] font-black uppercase tracking-widest border flex items-center gap-2 transition-all ${isActive ? `${PLATFORM_META[platform].className} shadow-md` : 'bg-white border-slate-200 text-slate-400 hover:text-slate-600'}`}
+              >
+                <PlatformIcon platform={platform} className="h-3.5 w-3.5" /> {PLATFORM_META[platform].label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <CustomDatePicker
+          label="Publish Date"
+          value={publishDate}
+          onChange={date => onChange({ ...value, publishAt: date ? `${date}T${publishTime || '10:00'}` : undefined })}
+          placeholder="Uses the due date"
+        />
+        <div>
+          <label className={labelClass}>Publish Time (IST)</label>
+          <input
+            type="time"
+            disabled={!publishDate}
+            className="w-full px-6 py-4 bg-white border border-gray-200 rounded-[1.5rem] text-sm font-bold focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none shadow-inner disabled:opacity-50"
+            value={publishTime || ''}
+            onChange={e => onChange({ ...value, publishAt: `${publishDate}T${e.target.value || '10:00'}` })}
+          />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2 ml-1">
+          <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest">Caption</label>
+          {captionLimit && (
+            <span className={`text-[10px] font-black ${(value.caption || '').length > captionLimit ? 'text-rose-500' : 'text-slate-300'}`}>
+              {(value.caption || '').length} / {captionLimit}
+            </span>
+          )}
+        </div>
+        <textarea
+          className="w-full px-6 py-5 bg-white border border-gray-200 rounded-[1.5rem] text-sm font-medium focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none shadow-inner h-28 resize-none custom-scrollbar"
+          placeholder="Write the post copy..."
+          value={value.caption || ''}
+          onChange={e => onChange({ ...value, caption: e.target.value })}
+        />
+      </div>
+
+      <div>
+        <label className={labelClass}>Hashtags</label>
+        <div className="flex flex-wrap items-center gap-2 px-4 py-3 bg-white border border-gray-200 rounded-[1.5rem] shadow-inner focus-within:ring-4 focus-within:ring-indigo-500/10 focus-within:border-indigo-500">
+          {hashtags.map(tag => (
+            <span key={tag} className="pl-3 pr-1.5 py-1 rounded-xl bg-indigo-50 text-indigo-700 text-xs font-bold flex items-center gap-1">
+              #{tag}
+              <button type="button" onClick={() => onChange({ ...value, hashtags: hashtags.filter(t => t !== tag) })} className="p-0.5 text-indigo-300 hover:text-rose-500 transition-colors">
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+          <div className="flex items-center gap-1 flex-1 min-w-[140px]">
+            <Hash className="h-3.5 w-3.5 text-slate-300" />
+            <input
+              className="flex-1 bg-transparent text-sm font-bold outline-none placeholder-slate-300"
+              placeholder="Add tags, press Enter"
+              value={tagDraft}
+              onChange={e => setTagDraft(e.target.value)}
+              onBlur={commitTags}
+              onKeyDown={e => {
+                if (e.key === 'Enter' || e.key === ',' || e.key === ' ') { e.preventDefault(); commitTags(); }
+                if (e.key === 'Backspace' && !tagDraft && hashtags.length) onChange({ ...value, hashtags: hashtags.slice(0, -1) });
+              }}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
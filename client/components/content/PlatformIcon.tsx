@@ -0,0 +1,16 @@
+import React from 'react';
+import { Instagram, Linkedin, Facebook, Twitter } from 'lucide-react';
+import { SocialPlatform } from '../../types';
+
+export const PLATFORM_META: Record<SocialPlatform, { label: string; icon: React.ElementType; className: string }> = {
+  instagram: { label: 'Instagram', icon: Instagram, className: 'bg-pink-50 text-pink-600 border-pink-100' },
+  linkedin: { label: 'LinkedIn', icon: Linkedin, className: 'bg-blue-50 text-blue-700 border-blue-100' },
+  facebook: { label: 'Facebook', icon: Facebook, className: 'bg-indigo-50 text-indigo-600 border-indigo-100' },
+  twitter: { label: 'X / Twitter', icon: Twitter, className: 'bg-slate-100 text-slate-700 border-slate-200' }
+};
+
+export const PlatformIcon: React.FC<{ platform?: SocialPlatform; className?: string }> = ({ platform, className = 'h-3 w-3' }) => {
+  if (!platform) return null;
+  const Icon = PLATFORM_META[platform].icon;
+  return <Icon className={className} />;
+};
@@ -1,6 +1,7 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { X, Save, Edit2, User, Phone, Mail, Calendar, Briefcase, FileText, Tag, DollarSign, CheckCircle, Clock, AlertCircle, History, ExternalLink, HardDrive, Linkedin, Instagram, Facebook, Twitter, Globe, Link as LinkIcon, Maximize2, Minimize2, MapPin, Hash, Building, Megaphone, Plus, Image } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { X, Save, Edit2, User, Phone, Mail, Calendar, Briefcase, FileText, Tag, DollarSign, CheckCircle, Clock, AlertCircle, History, ExternalLink, HardDrive, Linkedin, Instagram, Facebook, Twitter, Globe, Link as LinkIcon, Maximize2, Minimize2, MapPin, Hash, Building, Megaphone, Plus, Image, Receipt } from 'lucide-react';
 import { CRMEntry, SocialLinks, CRMStatus, User as UserType } from '../../types';
 import { getStatusStyles, formatDate, getFollowUpColor, formatMoney, getWorkTypeStyles, formatDateTime } from '../../utils';
 import { CustomDatePicker } from '../ui/CustomDatePicker';
@@ -8,12 +9,16 @@ import { CustomSelect } from '../ui/CustomSelect';
 import { UserSelect } from '../ui/UserSelect';
 import { usersApi } from '../../services/api';
 import { useLayout } from '../../context/LayoutContext';
+import { RecordTabs, RecordTab } from '../audit/RecordTabs';
+import { RecordHistory } from '../audit/RecordHistory';
+import { useAuth } from '../../context/AuthContext';
 
 interface CRMFormProps {
   isOpen: boolean;
   onClose: () => void;
   onSubmit: (data: Partial<CRMEntry>) => void;
   initialData?: CRMEntry;
+  onReverted?: (id: number, patch: Partial<CRMEntry>) => void; // A version was restored from the History tab
 }
 
 const STATUS_OPTIONS: { label: string; value: CRMStatus }[] = [
@@ -38,12 +43,15 @@ const SOURCE_OPTIONS = [
 const PREDEFINED_TAGS = ['Lead', 'Customer', 'VIP', 'Follow-up', 'Cold', 'Hot', 'Inactive', 'Partner'];
 const PREDEFINED_WORK = ['branding', 'poster', 'video', 'design', 'ui ux', 'shopify', 'website', 'marketing', 'software', 'consulting', 'development'];
 
-export const CRMForm: React.FC<CRMFormProps> = ({ isOpen, onClose, onSubmit, initialData }) => {
+export const CRMForm: React.FC<CRMFormProps> = ({ isOpen, onClose, onSubmit, initialData, onReverted }) => {
+  const { isReadOnly } = useAuth();
   const { isSidebarCollapsed } = useLayout();
+  const navigate = useNavigate();
   const [formData, setFormData] = useState<Partial<CRMEntry>>({});
   const [mode, setMode] = useState<'view' | 'edit'>('edit');
   const [isNotesExpanded, setIsNotesExpanded] = useState(false);
   const [users, setUsers] = useState<UserType[]>([]);
+  const [tab, setTab] = useState<RecordTab>('details');
   
   const [customTag, setCustomTag] = useState('');
   const [customWork, setCustomWork] = useState('');
@@ -64,6 +72,7 @@ export const CRMForm: React.FC<CRMFormProps> = ({ isOpen, onClose, onSubmit, ini
 
   useEffect(() => {
     if (isOpen) {
+        setTab('details');
         if (initialData) {
             setFormData({
                 ...initialData,
@@ -437,7 +446,7 @@ export const CRMForm: React.FC<CRMFormProps> = ({ isOpen, onClose, onSubmit, ini
 
         <div className="flex flex-col sm:flex-row justify-end gap-3 md:gap-4 pt-8 border-t border-slate-100">
             <button type="button" onClick={onClose} className="w-full sm:w-auto px-8 py-4 text-[11px] font-black text-slate-400 uppercase tracking-[0.2em] hover:text-slate-900 transition-colors">Discard</button>
-            <button type="submit" className="w-full sm:w-auto px-10 py-4 bg-slate-950 text-white rounded-[1.25rem] md:rounded-[1.5rem] text-[11px] font-black uppercase tracking-[0.2em] shadow-2xl active:scale-95 transition-all flex items-center justify-center gap-3">
+            <button type="submit" disabled={isReadOnly} className="w-full sm:w-auto px-10 py-4 bg-slate-950 text-white rounded-[1.25rem] md:rounded-[1.5rem] text-[11px] font-black uppercase tracking-[0.2em] shadow-2xl active:scale-95 transition-all flex items-center justify-center gap-3 disabled:opacity-40">
                 <Save className="h-4 w-4 text-indigo-400" /> Commit Identity
             </button>
         </div>
@@ -486,12 +495,23 @@ export const CRMForm: React.FC<CRMFormProps> = ({ isOpen, onClose, onSubmit, ini
                 <div className="flex items-center justify-between p-5 sm:p-6 md:p-8 border-b border-slate-100 bg-white/40 sticky top-0 z-20">
                     <h2 className="text-lg md:text-xl font-black text-slate-900 tracking-tight truncate pr-4">{mode === 'view' ? 'Identity Overview' : (initialData ? 'Synchronize Record' : 'New Strategic Deal')}</h2>
                     <div className="flex items-center gap-2 md:gap-3 shrink-0">
+                        {mode === 'view' && initialData && <button onClick={() => navigate('/invoices', { state: { createInvoice: true, crmEntryId: initialData.id } })} className="px-4 py-2 md:px-6 md:py-2.5 bg-white text-slate-700 border border-slate-200 rounded-xl md:rounded-2xl flex items-center gap-2 text-[9px] md:text-[10px] font-black uppercase tracking-widest shadow-sm hover:bg-slate-50 transition-all active:scale-95"><Receipt className="h-3.5 w-3.5 text-indigo-500" /> Invoice</button>}
                         {mode === 'view' && <button onClick={() => setMode('edit')} className="px-4 py-2 md:px-6 md:py-2.5 bg-slate-950 text-white rounded-xl md:rounded-2xl flex items-center gap-2 text-[9px] md:text-[10px] font-black uppercase tracking-widest shadow-xl transition-all active:scale-95"><Edit2 className="h-3.5 w-3.5 text-indigo-400" /> Modify</button>}
                         <button onClick={onClose} className="p-2 md:p-3 text-slate-400 hover:text-slate-900 transition-all"><X className="h-6 w-6" /></button>
                     </div>
                 </div>
                 <div className="overflow-y-auto p-5 md:p-10 pb-20 flex-1 custom-scrollbar">
-                    {mode === 'view' ? renderView() : renderEdit()}
+                    {mode === 'view' && initialData && <div className="mb-6 md:mb-8"><RecordTabs value={tab} onChange={setTab} /></div>}
+                    {mode === 'view' && tab === 'history' && initialData ? (
+                        <RecordHistory
+                            entity="crm"
+                            recordId={initialData.id}
+                            onReverted={(patch) => {
+                                setFormData(prev => ({ ...prev, ...patch }));
+                                onReverted?.(initialData.id, patch as Partial<CRMEntry>);
+                            }}
+                        />
+                    ) : mode === 'view' ? renderView() : renderEdit()}
                 </div>
             </div>
         </div>
@@ -0,0 +1,486 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { X, Upload, FileSpreadsheet, ArrowRight, ArrowLeft, CheckCircle, AlertCircle, Copy, Download, Loader2 } from 'lucide-react';
+import { CRMEntry, CRMStatus, SocialLinks, User } from '../../types';
+import { CustomSelect } from '../ui/CustomSelect';
+import { crmApi, usersApi } from '../../services/api';
+import { exportToCSV } from '../../utils';
+import { readSpreadsheet } from '../../services/spreadsheet';
+import { useAuth } from '../../context/AuthContext';
+
+interface CRMImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  existingEntries: CRMEntry[];
+  onComplete: () => void;
+}
+
+type Step = 'upload' | 'map' | 'preview' | 'report';
+
+// Plain text columns copied onto the entry as they are
+type TextField = Extract<keyof CRMEntry, 'company' | 'contactName' | 'email' | 'phone' | 'address' | 'notes' | 'driveLink' | 'referenceId'>;
+type SocialField = `socials.${keyof SocialLinks}`;
+
+type ImportField =
+  | TextField | SocialField
+  | Extract<keyof CRMEntry, 'assignedTo' | 'status' | 'dealValue' | 'lastContact' | 'nextFollowUp' | 'tags' | 'work' | 'leadSources'>;
+
+interface ImportRow {
+  line: number; // Spreadsheet row number, header included
+  entry: Omit<CRMEntry, 'id'>;
+  errors: string[];
+  duplicateOf?: string;
+  result?: 'created' | 'failed' | 'skipped';
+  message?: string;
+}
+
+const FIELDS: { key: ImportField; label: string; aliases: string[] }[] = [
+  { key: 'company', label: 'Company *', aliases: ['company', 'company name', 'organization', 'organisation', 'business', 'brand'] },
+  { key: 'contactName', label: 'Contact Name', aliases: ['contact', 'contact name', 'name', 'full name', 'person'] },
+  { key: 'email', label: 'Email', aliases: ['email', 'e-mail', 'email address', 'mail'] },
+  { key: 'phone', label: 'Phone', aliases: ['phone', 'phone number', 'mobile', 'contact number', 'whatsapp'] },
+  { key: 'address', label: 'Address', aliases: ['address', 'location', 'city', 'hq'] },
+  { key: 'assignedTo', label: 'Assigned To', aliases: ['assigned to', 'assignee', 'owner', 'account manager'] },
+  { key: 'status', label: 'Status', aliases: ['status', 'stage', 'pipeline stage'] },
+  { key: 'dealValue', label: 'Deal Value', aliases: ['deal value', 'value', 'amount', 'budget', 'deal'] },
+  { key: 'lastContact', label: 'Last Contact', aliases: ['last contact', 'last contacted', 'last contact date'] },
+  { key: 'nextFollowUp', label: 'Next Follow Up', aliases: ['next follow up', 'follow up', 'followup', 'next followup'] },
+  { key: 'notes', label: 'Notes', aliases: ['notes', 'note', 'comments', 'remarks'] },
+  { key: 'tags', label: 'Tags (list)', aliases: ['tags', 'tag', 'labels'] },
+  { key: 'work', label: 'Work / Services (list)', aliases: ['work', 'services', 'service', 'work type'] },
+  { key: 'leadSources', label: 'Lead Sources (list)', aliases: ['lead source', 'lead sources', 'source', 'sources'] },
+  { key: 'driveLink', label: 'Drive Link', aliases: ['drive', 'drive link', 'folder'] },
+  { key: 'referenceId', label: 'Reference ID', aliases: ['reference', 'reference id', 'ref', 'ref id'] },
+  { key: 'socials.website', label: 'Website', aliases: ['website', 'site', 'url', 'web'] },
+  { key: 'socials.linkedin', label: 'LinkedIn', aliases: ['linkedin'] },
+  { key: 'socials.instagram', label: 'Instagram', aliases: ['instagram', 'insta'] },
+  { key: 'socials.facebook', label: 'Facebook', aliases: ['facebook', 'fb'] },
+  { key: 'socials.twitter', label: 'Twitter / X', aliases: ['twitter', 'x'] },
+  { key: 'socials.other', label: 'Other Social', aliases: ['other social', 'social'] },
+];
+
+const STATUSES: CRMStatus[] = ['lead', 'Quote Sent', 'on progress', 'onboarded', 'completed', 'drop'];
+const BATCH_SIZE = 10;
+const PREVIEW_LIMIT = 200;
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+const phoneKey = (phone: string) => phone.replace(/\D/g, '').slice(-10);
+const splitList = (value: string) => value.split(/[,;|]/).map(v => v.trim()).filter(Boolean);
+
+// Accepts ISO dates, Excel serial numbers and anything Date can parse
+const toDateString = (value: string): string | null => {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const date = /^\d{5}(\.\d+)?$/.test(value)
+    ? new Date(Math.round((parseFloat(value) - 25569) * 86400 * 1000))
+    : new Date(value);
+  if (isNaN(date.getTime())) return null;
+  return date.toISOString().split('T')[0];
+};
+
+const isSocialField = (field: ImportField): field is SocialField => field.startsWith('socials.');
+
+const setTextField = (entry: Omit<CRMEntry, 'id'>, field: TextField, value: string) => {
+  entry[field] = value;
+};
+
+const guessField = (header: string): ImportField | '' => {
+  const key = normalize(header);
+  const match = FIELDS.find(f => f.aliases.some(a => normalize(a) === key));
+  return match ? match.key : '';
+};
+
+export const CRMImportWizard: React.FC<CRMImportWizardProps> = ({ isOpen, onClose, existingEntries, onComplete }) => {
+  const { isReadOnly } = useAuth();
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<(ImportField | '')[]>([]);
+  const [parseError, setParseError] = useState('');
+  const [users, setUsers] = useState<User[]>([]);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [previewFilter, setPreviewFilter] = useState<'all' | 'ready' | 'invalid' | 'duplicate'>('all');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+        setStep('upload');
+        setFileName('');
+        setHeaders([]);
+        setDataRows([]);
+        setMapping([]);
+        setParseError('');
+        setRows([]);
+        setProgress(0);
+        setPreviewFilter('all');
+        usersApi.getAll().then(setUsers).catch(() => setUsers([]));
+    }
+  }, [isOpen]);
+
+  const summary = useMemo(() => ({
+      ready: rows.filter(r => r.errors.length === 0 && !r.duplicateOf).length,
+      invalid: rows.filter(r => r.errors.length > 0).length,
+      duplicate: rows.filter(r => r.errors.length === 0 && r.duplicateOf).length,
+      created: rows.filter(r => r.result === 'created').length,
+      failed: rows.filter(r => r.result === 'failed').length,
+      skipped: rows.filter(r => r.result === 'skipped').length,
+  }), [rows]);
+
+  if (!isOpen) return null;
+
+  const handleFile = async (file?: File) => {
+      if (!file) return;
+      setParseError('');
+      try {
+          const [headerRow, ...body] = await readSpreadsheet(file);
+          if (!headerRow || body.length === 0) throw new Error("The file needs a header row and at least one lead.");
+          const width = Math.max(headerRow.length, ...body.map(r => r.length));
+          const paddedHeaders = Array.from({ length: width }, (_, i) => headerRow[i]?.trim() || `Column ${i + 1}`);
+          setFileName(file.name);
+          setHeaders(paddedHeaders);
+          setDataRows(body);
+          setMapping(paddedHeaders.map(guessField));
+          setStep('map');
+      } catch (e: any) {
+          setParseError(e.message || "Could not read this file.");
+      }
+  };
+
+  const buildRows = (): ImportRow[] => {
+      const todayStr = new Date().toISOString().split('T')[0];
+      const seenEmails = new Map<string, string>();
+      const seenPhones = new Map<string, string>();
+      const seenCompanies = new Map<string, string>();
+      existingEntries.forEach(e => {
+          if (e.email) seenEmails.set(e.email.trim().toLowerCase(), `existing deal "${e.company}"`);
+          if (e.phone && phoneKey(e.phone).length >= 7) seenPhones.set(phoneKey(e.phone), `existing deal "${e.company}"`);
+          if (e.company) seenCompanies.set(normalize(e.company), `existing deal "${e.company}"`);
+      });
+
+      return dataRows.map((cells, index) => {
+          const errors: string[] = [];
+          const socials: SocialLinks = {};
+          const entry: Omit<CRMEntry, 'id'> = {
+              company: '', contactName: '', email: '', phone: '', address: '', status: 'lead',
+              assignedTo: 'Unassigned', dealValue: 0, tags: [], work: [], leadSources: [],
+              lastContact: todayStr, nextFollowUp: '', notes: '', driveLink: '', referenceId: ''
+          };
+
+          mapping.forEach((field, col) => {
+              const value = (cells[col] || '').trim();
+              if (!field || !value) return;
+              switch (field) {
+                  case 'tags': case 'work': case 'leadSources':
+                      entry[field] = Array.from(new Set([...entry[field], ...splitList(value)]));
+                      break;
+                  case 'status': {
+                      const status = STATUSES.find(s => normalize(s) === normalize(value));
+                      if (status) entry.status = status;
+                      else errors.push(`Unknown status "${value}"`);
+                      break;
+                  }
+                  case 'dealValue': {
+                      const amount = parseFloat(value.replace(/[^\d.-]/g, ''));
+                      if (isNaN(amount)) errors.push(`Deal value "${value}" is not a number`);
+                      else entry.dealValue = amount;
+                      break;
+                  }
+                  case 'lastContact': case 'nextFollowUp': {
+                      const date = toDateString(value);
+                      if (date) entry[field] = date;
+                      else errors.push(`Unreadable date "${value}"`);
+                      break;
+                  }
+                  case 'assignedTo': {
+                      const user = users.find(u => u.name.toLowerCase() === value.toLowerCase() || u.email?.toLowerCase() === value.toLowerCase());
+                      entry.assignedTo = user ? user.name : value;
+                      entry.assigneeId = user?.id;
+                      break;
+                  }
+                  default:
+                      if (isSocialField(field)) socials[field.slice(8) as keyof SocialLinks] = value;
+                      else setTextField(entry, field, value);
+              }
+          });
+          if (Object.keys(socials).length > 0) entry.socials = socials;
+
+          if (!entry.company) errors.push("Company name is missing");
+          if (entry.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(entry.email)) errors.push(`Invalid email "${entry.email}"`);
+          if (entry.phone) {
+              const digits = entry.phone.replace(/\D/g, '');
+              if (!/^[+\d\s().-]+$/.test(entry.phone) || digits.length < 7 || digits.length > 15) errors.push(`Invalid phone "${entry.phone}"`);
+          }
+
+          let duplicateOf: string | undefined;
+          if (errors.length === 0) {
+              const emailKey = entry.email.toLowerCase();
+              const phone = phoneKey(entry.phone);
+              const companyKey = normalize(entry.company);
+              if (emailKey && seenEmails.has(emailKey)) duplicateOf = `Email matches ${seenEmails.get(emailKey)}`;
+              else if (phone.length >= 7 && seenPhones.has(phone)) duplicateOf = `Phone matches ${seenPhones.get(phone)}`;
+              else if (seenCompanies.has(companyKey)) duplicateOf = `Company matches ${seenCompanies.get(companyKey)}`;
+
+              // Later rows in the same file are checked against earlier ones too
+              if (!duplicateOf) {
+                  const label = `row ${index + 2} of this file`;
+                  if (emailKey) seenEmails.set(emailKey, label);
+                  if (phone.length >= 7) seenPhones.set(phone, label);
+                  seenCompanies.set(companyKey, label);
+              }
+          }
+
+          return { line: index + 2, entry, errors, duplicateOf };
+      });
+  };
+
+  const handleImport = async () => {
+      setIsImporting(true);
+      setStep('report');
+      let next: ImportRow[] = rows.map(r => r.errors.length > 0
+          ? { ...r, result: 'skipped' as const, message: r.errors.join('; ') }
+          : r.duplicateOf ? { ...r, result: 'skipped' as const, message: `Duplicate: ${r.duplicateOf}` } : r);
+      const queue = next.filter(r => !r.result);
+
+      for (let i = 0; i < queue.length; i += BATCH_SIZE) {
+          const batch = queue.slice(i, i + BATCH_SIZE);
+          const results = await Promise.allSettled(batch.map(r => crmApi.create(r.entry)));
+          const outcomes = new Map<number, Pick<ImportRow, 'result' | 'message'>>(results.map((res, j) => [batch[j].line, {
+              result: res.status === 'fulfilled' ? 'created' : 'failed',
+              message: res.status === 'fulfilled' ? 'Imported' : (res.reason?.message || 'Request failed')
+          }]));
+          next = next.map(r => outcomes.has(r.line) ? { ...r, ...outcomes.get(r.line) } : r);
+          setProgress(Math.min(100, Math.round(((i + batch.length) / queue.length) * 100)));
+          setRows(next);
+      }
+
+      setRows(next);
+      setProgress(100);
+      setIsImporting(false);
+      if (queue.length > 0) onComplete();
+  };
+
+  const downloadReport = () => {
+      exportToCSV(rows.map(r => ({
+          row: r.line,
+          company: r.entry.company,
+          contact: r.entry.contactName,
+          email: r.entry.email,
+          phone: r.entry.phone,
+          result: r.result || 'pending',
+          details: r.message || ''
+      })), `crm-import-report-${fileName.replace(/\.[^.]+$/, '')}`);
+  };
+
+  const isCompanyMapped = mapping.includes('company');
+  const previewRows = rows.filter(r => {
+      if (previewFilter === 'ready') return r.errors.length === 0 && !r.duplicateOf;
+      if (previewFilter === 'invalid') return r.errors.length > 0;
+      if (previewFilter === 'duplicate') return r.errors.length === 0 && !!r.duplicateOf;
+      return true;
+  });
+  const stepIndex = ['upload', 'map', 'preview', 'report'].indexOf(step);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-950/40 backdrop-blur-md p-0 sm:p-4 animate-in fade-in duration-300" onClick={() => !isImporting && onClose()}>
+      <div className="bg-white/90 backdrop-blur-2xl rounded-[2rem] lg:rounded-[3rem] shadow-2xl w-full max-w-5xl max-h-[100vh] sm:max-h-[90vh] overflow-hidden flex flex-col border border-white/60" onClick={(e) => e.stopPropagation()}>
+
+        <div className="flex items-center justify-between p-6 lg:p-8 border-b border-gray-100 bg-white/40">
+            <div>
+                <h2 className="text-lg lg:text-xl font-black text-slate-900 tracking-tight">Bulk Lead Import</h2>
+                <div className="flex items-center gap-2 mt-2">
+                    {['Upload', 'Map Columns', 'Preview', 'Report'].map((label, i) => (
+                        <span key={label} className={`text-[9px] font-black uppercase tracking-widest ${i === stepIndex ? 'text-indigo-600' : i < stepIndex ? 'text-slate-500' : 'text-slate-300'}`}>
+                            {i > 0 && <span className="mx-1.5 text-slate-200">/</span>}{label}
+                        </span>
+                    ))}
+                </div>
+            </div>
+            <button onClick={onClose} disabled={isImporting} className="p-3 text-slate-400 hover:text-slate-900 hover:bg-white rounded-full transition-all disabled:opacity-30">
+                <X className="h-6 w-6" />
+            </button>
+        </div>
+
+        <div className="p-6 lg:p-8 overflow-y-auto custom-scrollbar flex-1">
+            {step === 'upload' && (
+                <div className="animate-premium">
+                    <div
+                        onClick={() => fileInputRef.current?.click()}
+                        onDragOver={(e) => e.preventDefault()}
+                        onDrop={(e) => { e.preventDefault(); handleFile(e.dataTransfer.files[0]); }}
+                        className="border-2 border-dashed border-slate-200 hover:border-indigo-400 hover:bg-indigo-50/30 rounded-[2rem] p-16 flex flex-col items-center gap-4 text-center cursor-pointer transition-all"
+                    >
+                        <div className="h-16 w-16 bg-indigo-50 text-indigo-600 rounded-[1.5rem] flex items-center justify-center">
+                            <Upload className="h-8 w-8" />
+                        </div>
+                        <p className="text-sm font-black text-slate-800">Drop a spreadsheet or click to browse</p>
+                        <p className="text-xs font-medium text-slate-400">.csv or .xlsx with a header row. Only the first worksheet is read.</p>
+                    </div>
+                    <input ref={fileInputRef} type="file" accept=".csv,.xlsx,.txt" className="hidden" onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }} />
+                    {parseError && (
+                        <div className="mt-6 flex items-center gap-3 p-4 bg-rose-50 border border-rose-100 rounded-2xl text-xs font-bold text-rose-600">
+                            <AlertCircle className="h-4 w-4 shrink-0" /> {parseError}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {step === 'map' && (
+                <div className="animate-premium space-y-4">
+                    <div className="flex items-center gap-3 text-xs font-bold text-slate-500">
+                        <FileSpreadsheet className="h-4 w-4 text-indigo-500" />
+                        <span>{fileName} • {dataRows.length} rows</span>
+                    </div>
+                    <div className="space-y-3">
+                        {headers.map((header, col) => (
+                            <div key={col} className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-center p-4 bg-white rounded-2xl border border-slate-100">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-black text-slate-800 truncate">{header}</p>
+                                    <p className="text-[10px] font-medium text-slate-400 truncate mt-0.5">e.g. {dataRows.find(r => r[col]?.trim())?.[col] || '—'}</p>
+                                </div>
+                                <CustomSelect
+                                    value={mapping[col] || ''}
+                                    onChange={(val) => setMapping(prev => prev.map((m, i) => i === col ? val as ImportField | '' : m))}
+                                    options={[{ label: 'Ignore this column', value: '' }, ...FIELDS.map(f => ({ label: f.label, value: f.key }))]}
+                                />
+                            </div>
+                        ))}
+                    </div>
+                    <p className="text-[10px] font-medium text-slate-400">List fields accept values separated by commas, semicolons or pipes.</p>
+                </div>
+            )}
+
+            {step === 'preview' && (
+                <div className="animate-premium space-y-6">
+                    <div className="flex flex-wrap gap-2">
+                        {([
+                            { id: 'all', label: `All (${rows.length})` },
+                            { id: 'ready', label: `Ready (${summary.ready})` },
+                            { id: 'invalid', label: `Invalid (${summary.invalid})` },
+                            { id: 'duplicate', label: `Duplicates (${summary.duplicate})` },
+                        ] as const).map(tab => (
+                            <button key={tab.id} onClick={() => setPreviewFilter(tab.id)} className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${previewFilter === tab.id ? 'bg-slate-950 text-white shadow-lg' : 'bg-white text-slate-500 border border-slate-100 hover:bg-slate-50'}`}>
+                                {tab.label}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="overflow-x-auto rounded-2xl border border-slate-100 bg-white">
+                        <table className="w-full text-left text-xs">
+                            <thead className="bg-slate-50 text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                                <tr>
+                                    <th className="px-4 py-3">Row</th>
+                                    <th className="px-4 py-3">Company</th>
+                                    <th className="px-4 py-3">Contact</th>
+                                    <th className="px-4 py-3">Email</th>
+                                    <th className="px-4 py-3">Phone</th>
+                                    <th className="px-4 py-3">Status</th>
+                                    <th className="px-4 py-3">Check</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-50">
+                                {previewRows.slice(0, PREVIEW_LIMIT).map(r => (
+                                    <tr key={r.line}>
+                                        <td className="px-4 py-3 font-mono text-slate-400">{r.line}</td>
+                                        <td className="px-4 py-3 font-bold text-slate-800">{r.entry.company || '—'}</td>
+                                        <td className="px-4 py-3 text-slate-600">{r.entry.contactName || '—'}</td>
+                                        <td className="px-4 py-3 text-slate-600">{r.entry.email || '—'}</td>
+                                        <td className="px-4 py-3 text-slate-600">{r.entry.phone || '—'}</td>
+                                        <td className="px-4 py-3 text-slate-600 capitalize">{r.entry.status}</td>
+                                        <td className="px-4 py-3">
+                                            {r.errors.length > 0 ? (
+                                                <span className="flex items-start gap-1.5 text-rose-600 font-bold"><AlertCircle className="h-3.5 w-3.5 shrink-0 mt-px" /> {r.errors.join('; ')}</span>
+                                            ) : r.duplicateOf ? (
+                                                <span className="flex items-start gap-1.5 text-amber-600 font-bold"><Copy className="h-3.5 w-3.5 shrink-0 mt-px" /> {r.duplicateOf}</span>
+                                            ) : (
+                                                <span className="flex items-center gap-1.5 text-emerald-600 font-bold"><CheckCircle className="h-3.5 w-3.5" /> Ready</span>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    {previewRows.length > PREVIEW_LIMIT && (
+                        <p className="text-[10px] font-medium text-slate-400">Showing the first {PREVIEW_LIMIT} of {previewRows.length} rows.</p>
+                    )}
+                    <p className="text-[10px] font-medium text-slate-400">Invalid rows and duplicates are skipped and listed in the import report.</p>
+                </div>
+            )}
+
+            {step === 'report' && (
+                <div className="animate-premium space-y-6">
+                    <div>
+                        <div className="flex justify-between text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">
+                            <span className="flex items-center gap-2">{isImporting && <Loader2 className="h-3 w-3 animate-spin" />} {isImporting ? 'Importing leads' : 'Import complete'}</span>
+                            <span>{progress}%</span>
+                        </div>
+                        <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                            <div className="h-full bg-indigo-500 transition-all duration-500" style={{ width: `${progress}%` }} />
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-3 gap-4">
+                        {[
+                            { label: 'Created', value: summary.created, color: 'text-emerald-600' },
+                            { label: 'Failed', value: summary.failed, color: 'text-rose-600' },
+                            { label: 'Skipped', value: summary.skipped, color: 'text-amber-600' },
+                        ].map(stat => (
+                            <div key={stat.label} className="p-5 bg-white rounded-2xl border border-slate-100 text-center">
+                                <p className={`text-2xl font-black ${stat.color}`}>{stat.value}</p>
+                                <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mt-1">{stat.label}</p>
+                            </div>
+                        ))}
+                    </div>
+                    {!isImporting && rows.some(r => r.result !== 'created') && (
+                        <div className="rounded-2xl border border-slate-100 bg-white divide-y divide-slate-50 max-h-72 overflow-y-auto custom-scrollbar">
+                            {rows.filter(r => r.result !== 'created').map(r => (
+                                <div key={r.line} className="flex items-start gap-4 px-4 py-3 text-xs">
+                                    <span className="font-mono text-slate-400 w-10 shrink-0">#{r.line}</span>
+                                    <span className="font-bold text-slate-800 w-40 truncate shrink-0">{r.entry.company || '—'}</span>
+                                    <span className={r.result === 'failed' ? 'text-rose-600 font-medium' : 'text-amber-600 font-medium'}>{r.message}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+
+        <div className="flex justify-between items-center p-6 lg:p-8 border-t border-gray-100 bg-white/40">
+            {step === 'map' || step === 'preview' ? (
+                <button onClick={() => setStep(step === 'map' ? 'upload' : 'map')} className="flex items-center gap-2 text-[10px] lg:text-[11px] font-black text-slate-500 uppercase tracking-widest">
+                    <ArrowLeft className="h-3.5 w-3.5" /> Back
+                </button>
+            ) : <div></div>}
+
+            {step === 'map' && (
+                <button
+                    onClick={() => { setRows(buildRows()); setStep('preview'); }}
+                    disabled={!isCompanyMapped}
+                    title={isCompanyMapped ? undefined : 'Map a column to Company to continue'}
+                    className="flex items-center gap-2 px-6 lg:px-8 py-3 lg:py-4 text-[10px] lg:text-[11px] font-black text-white bg-slate-950 hover:bg-slate-900 rounded-2xl shadow-2xl active:scale-95 transition-all disabled:opacity-40"
+                >
+                    Validate <ArrowRight className="h-3.5 w-3.5" />
+                </button>
+            )}
+            {step === 'preview' && (
+                <button
+                    onClick={handleImport}
+                    disabled={summary.ready === 0 || isReadOnly}
+                    className="flex items-center gap-2 px-6 lg:px-8 py-3 lg:py-4 text-[10px] lg:text-[11px] font-black text-white bg-slate-950 hover:bg-slate-900 rounded-2xl shadow-2xl active:scale-95 transition-all disabled:opacity-40"
+                >
+                    <Upload className="h-3.5 w-3.5 text-indigo-400" /> Import {summary.ready} Leads
+                </button>
+            )}
+            {step === 'report' && !isImporting && (
+                <div className="flex gap-4">
+                    <button onClick={downloadReport} className="flex items-center gap-2 text-[10px] lg:text-[11px] font-black text-slate-500 uppercase tracking-widest hover:text-slate-900">
+                        <Download className="h-3.5 w-3.5" /> Download Report
+                    </button>
+                    <button onClick={onClose} className="px-6 lg:px-8 py-3 lg:py-4 text-[10px] lg:text-[11px] font-black text-white bg-slate-950 hover:bg-slate-900 rounded-2xl shadow-2xl active:scale-95 transition-all">Done</button>
+                </div>
+            )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { CRMEntry, CRMStatus } from '../../types';
+import { formatMoney, formatDate, getFollowUpColor } from '../../utils';
+import { Clock, Building } from 'lucide-react';
+
+interface CRMPipelineBoardProps {
+  entries: CRMEntry[];
+  userAvatarMap?: Record<string, string>;
+  onView: (entry: CRMEntry) => void;
+  onStatusChange: (entry: CRMEntry, newStatus: CRMStatus) => void;
+  readOnly?: boolean;
+}
+
+interface PipelineColumnProps {
+    title: string;
+    status: CRMStatus;
+    entries: CRMEntry[];
+    color: string;
+    userAvatarMap?: Record<string, string>;
+    onView: (e: CRMEntry) => void;
+    onDrop: (entryId: number, newStatus: CRMStatus) => void;
+    readOnly?: boolean;
+}
+
+const PipelineColumn: React.FC<PipelineColumnProps> = ({ title, status, entries, color, userAvatarMap, onView, onDrop, readOnly }) => {
+    const [isDragOver, setIsDragOver] = useState(false);
+    const totalValue = entries.reduce((sum, e) => sum + (e.dealValue || 0), 0);
+
+    const handleDragLeave = (e: React.DragEvent) => {
+        e.preventDefault();
+        // Prevent flickering when dragging over child elements
+        if (e.currentTarget.contains(e.relatedTarget as Node)) return;
+        setIsDragOver(false);
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDragOver(false);
+        const entryId = e.dataTransfer.getData("entryId");
+        if (entryId) onDrop(parseInt(entryId), status);
+    };
+
+    return (
+        <div
+            className={`flex-1 min-w-[280px] rounded-2xl p-4 border flex flex-col h-full transition-all duration-200
+                ${isDragOver
+                    ? 'bg-brand-50/50 border-brand-300 shadow-[inset_0_0_0_2px_rgba(37,99,235,0.1)] scale-[1.01]'
+                    : 'bg-gray-50/50 border-gray-100 shadow-sm'
+                }
+            `}
+            onDragOver={(e) => { if (!readOnly) e.preventDefault(); }}
+            onDragEnter={(e) => { if (!readOnly) { e.preventDefault(); setIsDragOver(true); } }}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+        >
+            <div className="mb-4 px-1">
+                <div className="flex items-center gap-2">
+                    <span className={`h-2.5 w-2.5 rounded-full ${color}`} />
+                    <h3 className="font-bold text-gray-700 text-sm">{title}</h3>
+                    <span className="text-xs text-gray-400 font-medium ml-1">{entries.length}</span>
+                </div>
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1.5 ml-[18px]">{formatMoney(totalValue)}</p>
+            </div>
+
+            <div className={`space-y-3 flex-1 overflow-y-auto pr-1 pb-10 custom-scrollbar transition-opacity duration-200 ${isDragOver ? 'opacity-90' : ''}`}>
+                {entries.map(entry => {
+                    const userAvatarUrl = entry.assignedTo && userAvatarMap ? userAvatarMap[entry.assignedTo] : undefined;
+
+                    return (
+                    <div
+                        key={entry.id}
+                        draggable={!readOnly}
+                        onDragStart={(e) => {
+                            e.dataTransfer.setData("entryId", entry.id.toString());
+                            e.dataTransfer.effectAllowed = "move";
+                        }}
+                        onClick={() => onView(entry)}
+                        className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm transition-all group hover:shadow-md cursor-pointer active:cursor-grabbing hover:-translate-y-1"
+                    >
+                        <div className="flex items-start gap-3 mb-2">
+                            {entry.companyImageUrl ? (
+                                <img src={entry.companyImageUrl} alt={entry.company} className="h-8 w-8 rounded-lg object-cover border border-gray-100 shrink-0" />
+                            ) : (
+                                <div className="h-8 w-8 rounded-lg bg-slate-50 text-slate-400 flex items-center justify-center border border-gray-100 shrink-0">
+                                    <Building className="h-4 w-4" />
+                                </div>
+                            )}
+                            <div className="min-w-0">
+                                <h4 className="text-sm font-semibold text-gray-800 leading-snug truncate">{entry.company}</h4>
+                                {entry.contactName && <p className="text-xs text-gray-500 truncate">{entry.contactName}</p>}
+                            </div>
+                        </div>
+                        <p className="text-sm font-black text-slate-900 tracking-tight">{formatMoney(entry.dealValue || 0)}</p>
+                        <div className="flex items-center justify-between pt-2 border-t border-gray-50 mt-2">
+                            <div className={`flex items-center gap-1.5 text-xs font-medium ${entry.nextFollowUp ? getFollowUpColor(entry.nextFollowUp) : 'text-gray-400'}`}>
+                                <Clock className="h-3 w-3" />
+                                {entry.nextFollowUp ? formatDate(entry.nextFollowUp).split(',')[0] : 'No follow-up'}
+                            </div>
+                            {entry.assignedTo && entry.assignedTo !== 'Unassigned' && (
+                                <>
+                                    {userAvatarUrl ? (
+                                        <img src={userAvatarUrl} alt={entry.assignedTo} referrerPolicy="no-referrer" className="h-6 w-6 rounded-full object-cover border border-gray-100" />
+                                    ) : (
+                                        <div className="h-6 w-6 rounded-full bg-brand-50 text-brand-600 text-[10px] font-bold flex items-center justify-center border border-brand-100">
+                                            {entry.assignedTo.slice(0, 2).toUpperCase()}
+                                        </div>
+                                    )}
+                                </>
+                            )}
+                        </div>
+                    </div>
+                )})}
+
+                {isDragOver && (
+                    <div className="h-20 border-2 border-dashed border-brand-300/50 rounded-xl bg-brand-50/30 flex items-center justify-center text-brand-400 text-xs font-bold animate-pulse">
+                        Drop to move here
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export const CRMPipelineBoard: React.FC<CRMPipelineBoardProps> = ({ entries, userAvatarMap, onView, onStatusChange, readOnly }) => {
+    const handleDrop = (entryId: number, newStatus: CRMStatus) => {
+        const entry = entries.find(e => e.id === entryId);
+        if (entry && (entry.status || '').toLowerCase() !== newStatus.toLowerCase()) {
+            onStatusChange(entry, newStatus);
+        }
+    };
+
+    const columns: { title: string, status: CRMStatus, color: string }[] = [
+        { title: 'Lead', status: 'lead', color: 'bg-slate-400' },
+        { title: 'Quote Sent', status: 'Quote Sent', color: 'bg-sky-500' },
+        { title: 'On Progress', status: 'on progress', color: 'bg-amber-500' },
+        { title: 'Onboarded', status: 'onboarded', color: 'bg-emerald-500' },
+        { title: 'Completed', status: 'completed', color: 'bg-brand-500' },
+        { title: 'Dropped', status: 'drop', color: 'bg-rose-500' },
+    ];
+
+    return (
+        <div className="flex gap-4 h-full min-w-full w-fit">
+            {columns.map(col => (
+                <PipelineColumn
+                    key={col.status}
+                    title={col.title}
+                    status={col.status}
+                    entries={entries.filter(e => (e.status || '').toLowerCase() === col.status.toLowerCase())}
+                    color={col.color}
+                    userAvatarMap={userAvatarMap}
+                    onView={onView}
+                    onDrop={handleDrop}
+                    readOnly={readOnly}
+                />
+            ))}
+        </div>
+    );
+};
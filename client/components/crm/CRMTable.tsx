@@ -11,7 +11,7 @@ interface CRMTableProps {
   isLoading: boolean;
   userAvatarMap?: Record<string, string>;
   onView: (entry: CRMEntry) => void;
-  onDelete: (id: number) => void;
+  onDelete?: (id: number) => void;
   onStatusChange: (entry: CRMEntry, newStatus: CRMStatus) => void;
 }
 
@@ -314,9 +314,11 @@ export const CRMTable: React.FC<CRMTableProps> = ({ data, isLoading, userAvatarM
                         <button onClick={() => onView(row)} className="p-2 text-gray-400 hover:text-brand-600 hover:bg-brand-50 rounded-lg transition-colors" title="View Details">
                             <Eye className="h-4 w-4" />
                         </button>
-                        <button onClick={() => onDelete(row.id)} className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors" title="Delete">
-                            <Trash2 className="h-4 w-4" />
-                        </button>
+                        {onDelete && (
+                            <button onClick={() => onDelete(row.id)} className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors" title="Delete">
+                                <Trash2 className="h-4 w-4" />
+                            </button>
+                        )}
                     </div>
                 </td>
                 </tr>
@@ -0,0 +1,247 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Plus, Trash2, History, Receipt } from 'lucide-react';
+import { Invoice, InvoiceItem, CRMEntry } from '../../types';
+import { CustomSelect } from '../ui/CustomSelect';
+import { CustomDatePicker } from '../ui/CustomDatePicker';
+import { formatMoney, formatDateTime } from '../../utils';
+import { calculateInvoiceTotals } from '../../services/invoices';
+import { useAuth } from '../../context/AuthContext';
+
+interface InvoiceFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (data: Partial<Invoice>) => void;
+  onDelete?: (id: string) => void;
+  initialData?: Invoice;
+  crmEntries: CRMEntry[];
+  defaultEntryId?: number;
+}
+
+const DEFAULT_TAX_RATE = 18;
+const DEFAULT_TERMS_DAYS = 15;
+
+const newItem = (description = '', rate = 0): InvoiceItem => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+  description,
+  quantity: 1,
+  rate,
+  amount: rate
+});
+
+const addDays = (dateStr: string, days: number) => {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  const date = new Date(y, m - 1, d + days);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const InvoiceForm: React.FC<InvoiceFormProps> = ({ isOpen, onClose, onSubmit, onDelete, initialData, crmEntries, defaultEntryId }) => {
+  const { isReadOnly } = useAuth();
+  const [formData, setFormData] = useState<Partial<Invoice>>({});
+  const [items, setItems] = useState<InvoiceItem[]>([]);
+
+  const applyEntry = (entry: CRMEntry, current: Partial<Invoice>, currentItems: InvoiceItem[]) => {
+      setFormData({
+          ...current,
+          crmEntryId: entry.id,
+          clientName: entry.contactName || '',
+          clientCompany: entry.company || '',
+          clientAddress: entry.address || '',
+          clientEmail: entry.email || ''
+      });
+      // Seed the first line from the deal value when nothing has been entered yet
+      const isBlank = currentItems.every(i => !i.description && !i.rate);
+      if (isBlank && entry.dealValue) {
+          setItems([newItem(entry.work?.length ? entry.work.join(', ') : `Services for ${entry.company}`, entry.dealValue)]);
+      }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+        if (initialData) {
+            setFormData({ ...initialData });
+            setItems(initialData.items?.length ? initialData.items.map(i => ({ ...i })) : [newItem()]);
+        } else {
+            const today = new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Kolkata' }).format(new Date());
+            const blank: Partial<Invoice> = {
+                status: 'Draft', date: today, dueDate: addDays(today, DEFAULT_TERMS_DAYS),
+                clientName: '', clientCompany: '', clientAddress: '', clientEmail: '',
+                taxRate: DEFAULT_TAX_RATE, notes: ''
+            };
+            const blankItems = [newItem()];
+            setFormData(blank);
+            setItems(blankItems);
+            const entry = defaultEntryId ? crmEntries.find(e => e.id === defaultEntryId) : undefined;
+            if (entry) applyEntry(entry, blank, blankItems);
+        }
+    }
+  }, [isOpen, initialData]);
+
+  const totals = useMemo(() => calculateInvoiceTotals(items, formData.taxRate || 0), [items, formData.taxRate]);
+
+  if (!isOpen) return null;
+
+  const isLocked = !!initialData && initialData.status === 'Paid';
+
+  const handleEntryChange = (value: string) => {
+      const entry = crmEntries.find(e => e.id.toString() === value);
+      if (entry) applyEntry(entry, formData, items);
+  };
+
+  const updateItem = (id: string, patch: Partial<InvoiceItem>) => {
+      setItems(prev => prev.map(i => {
+          if (i.id !== id) return i;
+          const next = { ...i, ...patch };
+          return { ...next, amount: Math.round((next.quantity || 0) * (next.rate || 0) * 100) / 100 };
+      }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+      e.preventDefault();
+      const cleanItems = items.filter(i => i.description.trim());
+      onSubmit({ ...formData, items: cleanItems, ...calculateInvoiceTotals(cleanItems, formData.taxRate || 0) });
+      onClose();
+  };
+
+  const inputClass = "w-full px-5 py-3.5 bg-white border border-gray-200 rounded-2xl text-sm font-bold focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all shadow-inner disabled:bg-slate-50 disabled:text-slate-400";
+  const labelClass = "block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5 ml-1";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-950/40 backdrop-blur-md p-0 sm:p-4 animate-in fade-in duration-300" onClick={onClose}>
+      <div className="bg-white/90 backdrop-blur-2xl rounded-[2rem] lg:rounded-[3rem] shadow-2xl w-full max-w-3xl max-h-[100vh] sm:max-h-[90vh] overflow-hidden flex flex-col border border-white/60" onClick={(e) => e.stopPropagation()}>
+
+        <div className="flex items-center justify-between p-6 lg:p-8 border-b border-gray-100 bg-white/40">
+            <div className="flex items-center gap-4">
+                <div className="p-3 bg-indigo-50 text-indigo-600 rounded-2xl">
+                    <Receipt className="h-5 w-5" />
+                </div>
+                <div>
+                    <h2 className="text-lg lg:text-xl font-black text-slate-900 tracking-tight">
+                        {initialData ? 'Update Invoice' : 'Issue Invoice'}
+                    </h2>
+                    <p className="text-[10px] font-black text-indigo-600 uppercase tracking-widest mt-0.5">{formData.number || 'Numbered on save'}</p>
+                </div>
+            </div>
+            <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-900 hover:bg-white rounded-full transition-all">
+                <X className="h-6 w-6" />
+            </button>
+        </div>
+
+        <div className="p-6 lg:p-8 pb-20 overflow-y-auto custom-scrollbar flex-1">
+            <form onSubmit={handleSubmit} className="space-y-6 lg:space-y-8 animate-premium">
+                {!isLocked && (
+                    <CustomSelect
+                        label="Bill From Deal"
+                        value={formData.crmEntryId?.toString() || ''}
+                        onChange={handleEntryChange}
+                        options={crmEntries.map(e => ({ label: `${e.company}${e.contactName ? ` • ${e.contactName}` : ''}`, value: e.id.toString() }))}
+                        placeholder="Prefill client details from the pipeline..."
+                    />
+                )}
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                    <div>
+                        <label className={labelClass}>Client Name</label>
+                        <input type="text" required disabled={isLocked} className={inputClass} value={formData.clientName || ''} onChange={e => setFormData({...formData, clientName: e.target.value})} />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Company</label>
+                        <input type="text" required disabled={isLocked} className={inputClass} value={formData.clientCompany || ''} onChange={e => setFormData({...formData, clientCompany: e.target.value})} />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Billing Email</label>
+                        <input type="email" disabled={isLocked} className={inputClass} value={formData.clientEmail || ''} onChange={e => setFormData({...formData, clientEmail: e.target.value})} />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Billing Address</label>
+                        <input type="text" disabled={isLocked} className={inputClass} value={formData.clientAddress || ''} onChange={e => setFormData({...formData, clientAddress: e.target.value})} />
+                    </div>
+                </div>
+
+                <div className={`grid grid-cols-1 sm:grid-cols-2 gap-6 ${isLocked ? 'pointer-events-none opacity-60' : ''}`}>
+                    <CustomDatePicker label="Issue Date" value={formData.date || ''} onChange={(date) => setFormData({...formData, date})} />
+                    <CustomDatePicker label="Due Date" value={formData.dueDate || ''} onChange={(date) => setFormData({...formData, dueDate: date})} />
+                </div>
+
+                {/* Line Items */}
+                <div>
+                    <div className="flex items-center justify-between mb-3">
+                        <label className={labelClass}>Line Items</label>
+                        {!isLocked && (
+                            <button type="button" onClick={() => setItems(prev => [...prev, newItem()])} className="flex items-center gap-1.5 text-[10px] font-black text-indigo-600 uppercase tracking-widest hover:text-indigo-800">
+                                <Plus className="h-3.5 w-3.5" /> Add Line
+                            </button>
+                        )}
+                    </div>
+                    <div className="space-y-3">
+                        <div className="hidden sm:grid grid-cols-12 gap-3 px-2 text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                            <span className="col-span-6">Description</span>
+                            <span className="col-span-2">Qty</span>
+                            <span className="col-span-2">Rate</span>
+                            <span className="col-span-2 text-right">Amount</span>
+                        </div>
+                        {items.map(item => (
+                            <div key={item.id} className="grid grid-cols-12 gap-3 items-center">
+                                <input type="text" disabled={isLocked} placeholder="Deliverable" className={`col-span-12 sm:col-span-6 ${inputClass}`} value={item.description} onChange={e => updateItem(item.id, { description: e.target.value })} />
+                                <input type="number" min={0} step="any" disabled={isLocked} className={`col-span-4 sm:col-span-2 ${inputClass}`} value={item.quantity} onChange={e => updateItem(item.id, { quantity: parseFloat(e.target.value) || 0 })} />
+                                <input type="number" min={0} step="any" disabled={isLocked} className={`col-span-4 sm:col-span-2 ${inputClass}`} value={item.rate} onChange={e => updateItem(item.id, { rate: parseFloat(e.target.value) || 0 })} />
+                                <div className="col-span-4 sm:col-span-2 flex items-center justify-end gap-2">
+                                    <span className="text-xs font-black text-slate-800 truncate">{formatMoney(item.amount)}</span>
+                                    {!isLocked && items.length > 1 && (
+                                        <button type="button" onClick={() => setItems(prev => prev.filter(i => i.id !== item.id))} className="p-1.5 text-slate-300 hover:text-rose-500 transition-colors">
+                                            <Trash2 className="h-3.5 w-3.5" />
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 items-start">
+                    <div>
+                        <label className={labelClass}>Notes / Payment Terms</label>
+                        <textarea rows={4} disabled={isLocked} className={`${inputClass} resize-none font-medium`} value={formData.notes || ''} onChange={e => setFormData({...formData, notes: e.target.value})} placeholder="Bank details, terms, thank-you note..." />
+                    </div>
+                    <div className="bg-slate-50/80 rounded-[2rem] p-6 border border-slate-100 space-y-3">
+                        <div className="flex justify-between text-xs font-bold text-slate-500">
+                            <span>Subtotal</span><span className="text-slate-900">{formatMoney(totals.subtotal)}</span>
+                        </div>
+                        <div className="flex justify-between items-center text-xs font-bold text-slate-500 gap-4">
+                            <span className="flex items-center gap-2">
+                                Tax
+                                <input type="number" min={0} max={100} step="any" disabled={isLocked} className="w-16 px-2 py-1 bg-white border border-gray-200 rounded-lg text-xs font-black text-center outline-none focus:border-indigo-500" value={formData.taxRate ?? 0} onChange={e => setFormData({...formData, taxRate: parseFloat(e.target.value) || 0})} />
+                                %
+                            </span>
+                            <span className="text-slate-900">{formatMoney(totals.tax)}</span>
+                        </div>
+                        <div className="flex justify-between pt-3 border-t border-slate-200 text-sm font-black text-slate-900">
+                            <span className="uppercase tracking-widest text-[10px]">Total</span><span>{formatMoney(totals.total)}</span>
+                        </div>
+                    </div>
+                </div>
+
+                {formData.lastUpdatedBy && (
+                    <div className="flex items-center justify-end pt-4 border-t border-slate-100 text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                        <History className="h-3 w-3 mr-2" />
+                        <span>Last updated by <span className="text-indigo-600">{formData.lastUpdatedBy}</span> on {formatDateTime(formData.lastUpdatedAt || '')}</span>
+                    </div>
+                )}
+
+                <div className="flex justify-between items-center pt-6 lg:pt-8 border-t border-gray-100">
+                    {initialData?.id && onDelete && initialData.status === 'Draft' ? (
+                        <button type="button" onClick={() => onDelete(initialData.id)} className="text-[10px] font-black text-rose-500 uppercase tracking-widest hover:text-rose-700">Discard Draft</button>
+                    ) : <div></div>}
+                    <div className="flex gap-4">
+                        <button type="button" onClick={onClose} className="text-[10px] lg:text-[11px] font-black text-slate-500 uppercase tracking-widest">Cancel</button>
+                        {!isLocked && (
+                            <button type="submit" disabled={isReadOnly} className="px-6 lg:px-8 py-3 lg:py-4 text-[10px] lg:text-[11px] font-black text-white bg-slate-950 hover:bg-slate-900 rounded-2xl shadow-2xl active:scale-95 transition-all disabled:opacity-40">Save Invoice</button>
+                        )}
+                    </div>
+                </div>
+            </form>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+import { X, Printer } from 'lucide-react';
+import { Invoice } from '../../types';
+import { formatDate, formatMoney } from '../../utils';
+
+interface InvoicePrintViewProps {
+  invoice: Invoice | null;
+  onClose: () => void;
+}
+
+// Rendered on document.body so the print stylesheet can hide the rest of the app
+export const InvoicePrintView: React.FC<InvoicePrintViewProps> = ({ invoice, onClose }) => {
+  if (!invoice) return null;
+
+  return createPortal(
+    <div className="fixed inset-0 z-[150] flex flex-col items-center bg-slate-950/40 backdrop-blur-md p-4 overflow-y-auto custom-scrollbar print:static print:bg-white print:p-0" onClick={onClose}>
+      <div className="w-full max-w-[820px] flex justify-end gap-3 mb-4 print:hidden" onClick={(e) => e.stopPropagation()}>
+        <button onClick={() => window.print()} className="flex items-center gap-2 px-6 py-3 bg-slate-950 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest shadow-2xl active:scale-95 transition-all">
+          <Printer className="h-4 w-4 text-indigo-400" /> Print / Save PDF
+        </button>
+        <button onClick={onClose} className="p-3 bg-white text-slate-500 hover:text-slate-900 rounded-2xl shadow-xl transition-all">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="print-area w-full max-w-[820px] bg-white text-slate-900 shadow-2xl rounded-[1.5rem] p-10 lg:p-14 print:shadow-none print:rounded-none" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-start gap-8 pb-10 border-b-2 border-slate-900">
+          <div className="flex items-center gap-4">
+            <img src="/logo.png" alt="Incial" className="h-12 w-12 object-contain" />
+            <div>
+              <p className="text-2xl font-black tracking-tighter leading-none">Incial</p>
+              <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mt-1">Creative & Technology Studio</p>
+            </div>
+          </div>
+          <div className="text-right">
+            <p className="text-3xl font-black tracking-tighter uppercase">Invoice</p>
+            <p className="text-sm font-bold text-slate-500 mt-1">{invoice.number}</p>
+            {invoice.status === 'Paid' && (
+              <span className="inline-block mt-3 px-3 py-1 border-2 border-emerald-600 text-emerald-600 text-[10px] font-black uppercase tracking-widest rounded-lg">Paid</span>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-8 py-10">
+          <div>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Billed To</p>
+            <p className="text-sm font-black">{invoice.clientCompany}</p>
+            {invoice.clientName && <p className="text-sm text-slate-600">Attn: {invoice.clientName}</p>}
+            {invoice.clientAddress && <p className="text-sm text-slate-600 whitespace-pre-line">{invoice.clientAddress}</p>}
+            {invoice.clientEmail && <p className="text-sm text-slate-600">{invoice.clientEmail}</p>}
+          </div>
+          <div className="text-right space-y-1">
+            <p className="text-sm"><span className="text-slate-400 font-bold mr-3">Issue Date</span><span className="font-black">{formatDate(invoice.date)}</span></p>
+            <p className="text-sm"><span className="text-slate-400 font-bold mr-3">Due Date</span><span className="font-black">{formatDate(invoice.dueDate)}</span></p>
+          </div>
+        </div>
+
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-slate-300 text-[10px] font-black text-slate-500 uppercase tracking-widest">
+              <th className="py-3">Description</th>
+              <th className="py-3 text-right w-20">Qty</th>
+              <th className="py-3 text-right w-32">Rate</th>
+              <th className="py-3 text-right w-32">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {invoice.items.map(item => (
+              <tr key={item.id} className="border-b border-slate-100">
+                <td className="py-4 font-medium">{item.description}</td>
+                <td className="py-4 text-right">{item.quantity}</td>
+                <td className="py-4 text-right">{formatMoney(item.rate)}</td>
+                <td className="py-4 text-right font-bold">{formatMoney(item.amount)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="flex justify-end pt-8">
+          <div className="w-72 space-y-2 text-sm">
+            <div className="flex justify-between"><span className="text-slate-500 font-bold">Subtotal</span><span className="font-bold">{formatMoney(invoice.subtotal)}</span></div>
+            <div className="flex justify-between"><span className="text-slate-500 font-bold">Tax ({invoice.taxRate || 0}%)</span><span className="font-bold">{formatMoney(invoice.tax)}</span></div>
+            <div className="flex justify-between pt-3 mt-1 border-t-2 border-slate-900 text-lg"><span className="font-black">Total Due</span><span className="font-black">{formatMoney(invoice.total)}</span></div>
+          </div>
+        </div>
+
+        {invoice.notes && (
+          <div className="mt-12 pt-6 border-t border-slate-200">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Notes</p>
+            <p className="text-sm text-slate-600 whitespace-pre-line">{invoice.notes}</p>
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,126 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Invoice, InvoiceStatus } from '../../types';
+import { formatDate, formatMoney, getInvoiceStatusStyles } from '../../utils';
+import { INVOICE_STATUS_TRANSITIONS } from '../../services/invoices';
+import { Receipt, ChevronDown, Printer, AlertTriangle } from 'lucide-react';
+
+interface InvoiceTableProps {
+  data: Invoice[];
+  onEdit: (invoice: Invoice) => void;
+  onPrint: (invoice: Invoice) => void;
+  onStatusChange: (invoice: Invoice, newStatus: InvoiceStatus) => void;
+}
+
+const TRANSITION_LABELS: Record<InvoiceStatus, string> = {
+  Draft: 'Revert to Draft',
+  Pending: 'Issue / Reopen',
+  Paid: 'Mark as Paid',
+  Overdue: 'Overdue'
+};
+
+const InvoiceStatusDropdown = ({ invoice, onStatusChange }: { invoice: Invoice; onStatusChange: (i: Invoice, s: InvoiceStatus) => void }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const ref = useRef<HTMLDivElement>(null);
+    const options = INVOICE_STATUS_TRANSITIONS[invoice.status] || [];
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (ref.current && !ref.current.contains(event.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    return (
+        <div className="relative inline-block" ref={ref}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest border shadow-sm transition-all active:scale-95 ${getInvoiceStatusStyles(invoice.status)}`}
+            >
+                {invoice.status === 'Overdue' && <AlertTriangle className="h-3 w-3" />}
+                {invoice.status}
+                <ChevronDown className={`h-3 w-3 transition-transform duration-500 ${isOpen ? 'rotate-180' : ''}`} />
+            </button>
+            {isOpen && (
+                <div className="absolute top-full left-0 z-[100] mt-3 w-44 bg-white/90 backdrop-blur-2xl rounded-2xl shadow-2xl border border-white/60 overflow-hidden animate-premium">
+                    <div className="p-1.5 space-y-0.5">
+                        {options.map(opt => (
+                            <button
+                                key={opt}
+                                onClick={() => { onStatusChange(invoice, opt); setIsOpen(false); }}
+                                className="w-full flex items-center justify-between px-3 py-2 text-[11px] font-bold rounded-xl text-left transition-colors text-slate-600 hover:bg-slate-50"
+                            >
+                                {TRANSITION_LABELS[opt]}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const InvoiceTable: React.FC<InvoiceTableProps> = ({ data, onEdit, onPrint, onStatusChange }) => {
+  return (
+    <div className="overflow-x-auto no-scrollbar pb-24">
+        <table className="w-full text-left border-separate border-spacing-y-2">
+            <thead>
+                <tr className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em]">
+                    <th className="px-6 py-4">Invoice</th>
+                    <th className="px-6 py-4">Client</th>
+                    <th className="px-6 py-4">Issued / Due</th>
+                    <th className="px-6 py-4">Amount</th>
+                    <th className="px-6 py-4">Status</th>
+                    <th className="px-6 py-4 text-right">Document</th>
+                </tr>
+            </thead>
+            <tbody>
+                {data.map(invoice => (
+                    <tr key={invoice.id} className="group">
+                        <td className="px-8 py-5 bg-white/40 backdrop-blur-xl rounded-l-3xl border-y border-l border-white/60 shadow-sm group-hover:bg-white transition-all duration-500">
+                            <div className="flex items-center gap-4">
+                                <div className="h-10 w-10 rounded-2xl bg-indigo-50 text-indigo-600 flex items-center justify-center shrink-0">
+                                    <Receipt className="h-5 w-5" />
+                                </div>
+                                <button onClick={() => onEdit(invoice)} className="font-black text-sm text-slate-900 hover:text-brand-600 transition-colors text-left tracking-tight whitespace-nowrap">
+                                    {invoice.number}
+                                </button>
+                            </div>
+                        </td>
+
+                        <td className="px-6 py-4 bg-white/40 border-y border-white/60 group-hover:bg-white transition-all duration-500">
+                            <div className="flex flex-col">
+                                <span className="text-xs font-black text-slate-800 tracking-tight">{invoice.clientCompany}</span>
+                                <span className="text-[10px] text-slate-400 font-bold mt-0.5">{invoice.clientName}</span>
+                            </div>
+                        </td>
+
+                        <td className="px-6 py-4 bg-white/40 border-y border-white/60 group-hover:bg-white transition-all duration-500">
+                            <div className="flex flex-col">
+                                <span className="text-xs font-black text-slate-800 tracking-tight">{formatDate(invoice.date)}</span>
+                                <span className={`text-[9px] font-black uppercase tracking-widest mt-0.5 ${invoice.status === 'Overdue' ? 'text-rose-500' : 'text-slate-400'}`}>
+                                    Due {formatDate(invoice.dueDate)}
+                                </span>
+                            </div>
+                        </td>
+
+                        <td className="px-6 py-4 bg-white/40 border-y border-white/60 group-hover:bg-white transition-all duration-500">
+                            <span className="text-sm font-black text-slate-900 tracking-tight">{formatMoney(invoice.total)}</span>
+                        </td>
+
+                        <td className="px-6 py-4 bg-white/40 border-y border-white/60 group-hover:bg-white transition-all duration-500">
+                            <InvoiceStatusDropdown invoice={invoice} onStatusChange={onStatusChange} />
+                        </td>
+
+                        <td className="px-8 py-5 bg-white/40 backdrop-blur-xl rounded-r-3xl border-y border-r border-white/60 shadow-sm group-hover:bg-white transition-all duration-500 text-right">
+                            <button onClick={() => onPrint(invoice)} className="inline-flex items-center gap-2 px-5 py-2.5 bg-slate-950 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest shadow-xl active:scale-95 transition-all">
+                                <Printer className="h-3.5 w-3.5 text-indigo-400" /> Print
+                            </button>
+                        </td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </div>
+  );
+};
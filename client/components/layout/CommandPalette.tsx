@@ -0,0 +1,309 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { createPortal } from 'react-dom';
+import { Search, CornerDownLeft, ArrowUp, ArrowDown, Plus, Compass, Briefcase, Building, CheckSquare, Video, User as UserIcon, Users, LayoutDashboard, Home, Calendar, Activity, PieChart, Shield, Zap, Gamepad2, Bell, Receipt, ScrollText } from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+import { usePermissions } from '../../context/PermissionContext';
+import { crmApi, companiesApi, tasksApi, meetingsApi, usersApi } from '../../services/api';
+import { CRMEntry, Task, Meeting, User } from '../../types';
+import { fuzzyScore, formatDate, formatDateTime } from '../../utils';
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type PaletteGroup = 'Actions' | 'Navigation' | 'Deals' | 'Companies' | 'Tasks' | 'Meetings' | 'People';
+
+interface PaletteItem {
+  id: string;
+  group: PaletteGroup;
+  title: string;
+  subtitle?: string;
+  keywords?: string;
+  icon: React.ElementType;
+  run: () => void;
+}
+
+interface PaletteData {
+  deals: CRMEntry[];
+  companies: CRMEntry[];
+  tasks: Task[];
+  meetings: Meeting[];
+  users: User[];
+}
+
+const EMPTY_DATA: PaletteData = { deals: [], companies: [], tasks: [], meetings: [], users: [] };
+const MAX_PER_GROUP = 5;
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onClose }) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [data, setData] = useState<PaletteData>(EMPTY_DATA);
+  const [isLoading, setIsLoading] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Same gates as the route guards in App.tsx
+  const { can } = usePermissions();
+  const role = user?.role;
+  const isClient = role === 'ROLE_CLIENT';
+  const isOperational = !!role && !isClient;
+  const canViewCrm = can('crm.view');
+  const canManageUsers = can('users.manage');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuery('');
+    setActiveIndex(0);
+    requestAnimationFrame(() => inputRef.current?.focus());
+
+    if (!isOperational) return;
+    let cancelled = false;
+    const loadData = async () => {
+      setIsLoading(true);
+      // Each source fails independently so one restricted endpoint never blanks the palette
+      const [deals, companies, tasks, meetings, users] = await Promise.allSettled([
+        canViewCrm ? crmApi.getAll().then(res => res.crmList) : Promise.resolve([]),
+        companiesApi.getAll(),
+        tasksApi.getAll(),
+        meetingsApi.getAll(),
+        canManageUsers ? usersApi.getAll() : Promise.resolve([]),
+      ]);
+      if (cancelled) return;
+      setData({
+        deals: deals.status === 'fulfilled' ? deals.value : [],
+        companies: companies.status === 'fulfilled' ? companies.value : [],
+        tasks: tasks.status === 'fulfilled' ? tasks.value : [],
+        meetings: meetings.status === 'fulfilled' ? meetings.value : [],
+        users: users.status === 'fulfilled' ? users.value : [],
+      });
+      setIsLoading(false);
+    };
+    loadData();
+    return () => { cancelled = true; };
+  }, [isOpen, isOperational, canViewCrm, canManageUsers]);
+
+  const go = (path: string, state?: Record<string, unknown>) => {
+    onClose();
+    navigate(path, state ? { state } : undefined);
+  };
+
+  const allItems = useMemo<PaletteItem[]>(() => {
+    const items: PaletteItem[] = [];
+
+    // --- Actions ---
+    if (isOperational) {
+      items.push({ id: 'action-task', group: 'Actions', title: 'New task', subtitle: 'Create an internal milestone', keywords: 'create add milestone', icon: Plus, run: () => go('/tasks', { createTask: true }) });
+      items.push({ id: 'action-meeting', group: 'Actions', title: 'New meeting', subtitle: 'Schedule a sync', keywords: 'create add schedule sync', icon: Plus, run: () => go('/meetings', { createMeeting: true }) });
+    }
+    if (can('crm.edit')) {
+      items.push({ id: 'action-deal', group: 'Actions', title: 'New deal', subtitle: 'Add a lead to the pipeline', keywords: 'create add lead crm', icon: Plus, run: () => go('/crm', { createEntry: true }) });
+    }
+    if (can('invoices.manage')) {
+      items.push({ id: 'action-invoice', group: 'Actions', title: 'New invoice', subtitle: 'Bill a client from the pipeline', keywords: 'create add bill billing', icon: Receipt, run: () => go('/invoices', { createInvoice: true }) });
+    }
+
+    // --- Navigation ---
+    const routes: { path: string; label: string; icon: React.ElementType; allowed: boolean }[] = [
+      { path: '/dashboard', label: 'Command Center', icon: LayoutDashboard, allowed: isOperational },
+      { path: '/portal', label: 'Project Hub', icon: Home, allowed: isClient },
+      { path: '/crm', label: 'Pipeline', icon: Users, allowed: canViewCrm },
+      { path: '/invoices', label: 'Billing', icon: Receipt, allowed: can('invoices.manage') },
+      { path: '/tasks', label: 'Tasks', icon: CheckSquare, allowed: isOperational },
+      { path: '/meetings', label: 'Scheduler', icon: Video, allowed: isOperational },
+      { path: '/calendar', label: 'Calendar', icon: Calendar, allowed: isOperational },
+      { path: '/companies', label: 'Registry', icon: Briefcase, allowed: isOperational },
+      { path: '/client-tracker', label: 'Tracker', icon: Activity, allowed: isOperational },
+      { path: '/reports', label: 'Intell-Reports', icon: PieChart, allowed: can('analytics.view') },
+      { path: '/admin/users', label: 'Directory', icon: Shield, allowed: canManageUsers },
+      { path: '/admin/performance', label: 'Performance', icon: Zap, allowed: can('analytics.view') },
+      { path: '/admin/audit', label: 'Audit Log', icon: ScrollText, allowed: can('audit.view') },
+      { path: '/profile', label: 'Profile', icon: UserIcon, allowed: !!role },
+      { path: '/notifications', label: 'Notifications', icon: Bell, allowed: !!role },
+      { path: '/break', label: 'Focus Break', icon: Gamepad2, allowed: isOperational },
+    ];
+    routes.filter(r => r.allowed).forEach(r => {
+      items.push({ id: `nav-${r.path}`, group: 'Navigation', title: `Go to ${r.path}`, subtitle: r.label, keywords: r.label, icon: r.icon, run: () => go(r.path) });
+    });
+
+    // --- Records ---
+    data.deals.forEach(d => {
+      items.push({
+        id: `deal-${d.id}`, group: 'Deals', title: d.company, subtitle: `${d.status} • ${d.contactName || 'No contact'}`,
+        keywords: `${d.contactName} ${d.email} ${d.phone} ${d.referenceId || ''}`, icon: Briefcase,
+        run: () => go('/crm', { openEntryId: d.id })
+      });
+    });
+    data.companies.forEach(c => {
+      items.push({
+        id: `company-${c.id}`, group: 'Companies', title: `Open client tracker for ${c.company}`, subtitle: c.contactName,
+        keywords: `${c.company} ${c.referenceId || ''}`, icon: Building,
+        run: () => go(`/client-tracker/${c.id}`)
+      });
+    });
+    data.tasks.forEach(t => {
+      items.push({
+        id: `task-${t.id}`, group: 'Tasks', title: t.title, subtitle: `${t.status} • ${t.assignedTo || 'Unassigned'} • Due ${formatDate(t.dueDate)}`,
+        keywords: t.taskType, icon: CheckSquare,
+        // Client tasks live on their tracker unless promoted to the main board
+        run: () => (t.companyId && !t.isVisibleOnMainBoard)
+          ? go(`/client-tracker/${t.companyId}`, { openTaskId: t.id })
+          : go('/tasks', { openTaskId: t.id })
+      });
+    });
+    data.meetings.forEach(m => {
+      items.push({
+        id: `meeting-${m.id}`, group: 'Meetings', title: m.title, subtitle: `${m.status} • ${formatDateTime(m.dateTime)}`,
+        keywords: m.assignedTo, icon: Video,
+        run: () => go('/meetings', { openMeetingId: m.id })
+      });
+    });
+    data.users.forEach(u => {
+      items.push({
+        id: `user-${u.id}`, group: 'People', title: u.name, subtitle: `${u.email} • ${u.role.replace('ROLE_', '')}`,
+        icon: UserIcon,
+        run: () => go('/admin/users', { openUserId: u.id })
+      });
+    });
+
+    return items;
+  }, [data, role, can]);
+
+  const groupedResults = useMemo(() => {
+    const isBrowsing = query.trim() === '';
+    const scored = allItems
+      .filter(item => !isBrowsing || item.group === 'Actions' || item.group === 'Navigation')
+      .map(item => ({
+        item,
+        score: isBrowsing ? 1 : Math.max(
+          fuzzyScore(query, item.title),
+          fuzzyScore(query, item.subtitle) * 0.6,
+          fuzzyScore(query, item.keywords) * 0.5
+        )
+      }))
+      .filter(s => s.score > 0);
+
+    const groups = new Map<PaletteGroup, { item: PaletteItem; score: number }[]>();
+    scored.forEach(s => {
+      const bucket = groups.get(s.item.group) || [];
+      bucket.push(s);
+      groups.set(s.item.group, bucket);
+    });
+
+    return Array.from(groups.entries())
+      .map(([group, entries]) => {
+        const sorted = entries.sort((a, b) => b.score - a.score);
+        return { group, best: sorted[0].score, items: sorted.slice(0, isBrowsing ? 20 : MAX_PER_GROUP).map(e => e.item) };
+      })
+      // Strongest group first so the best hit is always the default selection
+      .sort((a, b) => isBrowsing ? 0 : b.best - a.best);
+  }, [allItems, query]);
+
+  const flatResults = useMemo(() => groupedResults.flatMap(g => g.items), [groupedResults]);
+
+  useEffect(() => { setActiveIndex(0); }, [query]);
+
+  useEffect(() => {
+    const el = listRef.current?.querySelector(`[data-index="${activeIndex}"]`);
+    el?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => flatResults.length ? (i + 1) % flatResults.length : 0);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => flatResults.length ? (i - 1 + flatResults.length) % flatResults.length : 0);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      flatResults[activeIndex]?.run();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  let runningIndex = -1;
+
+  return createPortal(
+    <div className="fixed inset-0 z-[150] flex items-start justify-center bg-slate-950/40 backdrop-blur-md p-4 pt-[10vh] animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-white/95 backdrop-blur-3xl rounded-[2rem] lg:rounded-[2.5rem] shadow-2xl w-full max-w-2xl overflow-hidden border border-white/60 ring-1 ring-black/5 flex flex-col max-h-[70vh]"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-center gap-4 px-6 lg:px-8 py-5 border-b border-slate-100">
+          <Search className="h-5 w-5 text-indigo-500 shrink-0" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder={isOperational ? "Search deals, tasks, meetings, people or type a command..." : "Type a command..."}
+            className="flex-1 bg-transparent text-base lg:text-lg font-bold text-slate-900 placeholder-slate-300 border-none focus:ring-0 focus:outline-none"
+          />
+          {isLoading && <div className="animate-spin rounded-full h-4 w-4 border-2 border-slate-100 border-t-indigo-600 shrink-0" />}
+          <kbd className="hidden sm:block px-2 py-1 rounded-lg bg-slate-100 text-[9px] font-black text-slate-400 uppercase tracking-widest">Esc</kbd>
+        </div>
+
+        <div ref={listRef} className="flex-1 overflow-y-auto custom-scrollbar p-3">
+          {groupedResults.map(({ group, items }) => (
+            <div key={group} className="mb-2">
+              <p className="px-4 pt-3 pb-2 text-[9px] font-black text-slate-400 uppercase tracking-[0.3em]">{group}</p>
+              {items.map(item => {
+                runningIndex++;
+                const index = runningIndex;
+                const isActive = index === activeIndex;
+                const Icon = item.icon;
+                return (
+                  <button
+                    key={item.id}
+                    data-index={index}
+                    onClick={() => item.run()}
+                    onMouseMove={() => activeIndex !== index && setActiveIndex(index)}
+                    className={`w-full flex items-center gap-4 px-4 py-3 rounded-2xl text-left transition-colors ${isActive ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-700 hover:bg-slate-50'}`}
+                  >
+                    <div className={`p-2 rounded-xl shrink-0 ${isActive ? 'bg-white/20 text-white' : 'bg-slate-100 text-slate-500'}`}>
+                      <Icon className="h-4 w-4" />
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-bold truncate">{item.title}</p>
+                      {item.subtitle && (
+                        <p className={`text-[10px] font-bold uppercase tracking-widest truncate mt-0.5 ${isActive ? 'text-indigo-200' : 'text-slate-400'}`}>{item.subtitle}</p>
+                      )}
+                    </div>
+                    {isActive && <CornerDownLeft className="h-4 w-4 text-indigo-200 shrink-0" />}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+
+          {flatResults.length === 0 && (
+            <div className="py-16 flex flex-col items-center gap-4 text-center">
+              <div className="h-14 w-14 bg-slate-50 rounded-[1.5rem] flex items-center justify-center border border-slate-100">
+                <Compass className="h-7 w-7 text-slate-300" />
+              </div>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em]">
+                {isLoading ? 'Indexing Registry...' : 'No matching signals'}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 lg:px-8 py-3 border-t border-slate-100 bg-slate-50/60 flex items-center gap-6 text-[9px] font-black text-slate-400 uppercase tracking-widest">
+          <span className="flex items-center gap-1.5"><ArrowUp className="h-3 w-3" /><ArrowDown className="h-3 w-3" /> Navigate</span>
+          <span className="flex items-center gap-1.5"><CornerDownLeft className="h-3 w-3" /> Open</span>
+          <span className="ml-auto">{flatResults.length} Results</span>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
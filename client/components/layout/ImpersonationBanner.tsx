@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Eye, Lock, PenLine, LogOut } from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+import { ROLE_LABELS } from '../../services/permissions';
+import { formatDateTime } from '../../utils';
+
+/**
+ * Pinned to every screen while an admin is viewing the app as someone else.
+ */
+export const ImpersonationBanner: React.FC = () => {
+  const { impersonation, realUser, stopImpersonation } = useAuth();
+  const navigate = useNavigate();
+  const [isExiting, setIsExiting] = useState(false);
+
+  if (!impersonation) return null;
+
+  const { targetUser, allowWrites, startedAt } = impersonation;
+
+  const handleExit = async () => {
+    setIsExiting(true);
+    await stopImpersonation();
+    setIsExiting(false);
+    navigate('/admin/users');
+  };
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-[150] w-[calc(100%-2rem)] max-w-3xl animate-in fade-in slide-in-from-bottom-4 duration-300">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 sm:gap-6 px-6 py-4 bg-slate-950 text-white rounded-[2rem] shadow-2xl border border-white/10">
+        <div className="h-10 w-10 rounded-2xl bg-indigo-500/20 hidden sm:flex items-center justify-center shrink-0">
+          <Eye className="h-5 w-5 text-indigo-300" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-bold truncate">
+            Viewing as {targetUser.name} <span className="text-slate-400 font-medium">· {ROLE_LABELS[targetUser.role]}</span>
+          </p>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-0.5 truncate">
+            {realUser?.name} since {formatDateTime(startedAt)}
+          </p>
+        </div>
+        <span className={`inline-flex items-center gap-1.5 self-start sm:self-auto px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border ${
+          allowWrites ? 'bg-amber-500/10 text-amber-300 border-amber-500/30' : 'bg-white/5 text-slate-300 border-white/10'
+        }`}>
+          {allowWrites ? <><PenLine className="h-3 w-3" /> Changes Allowed</> : <><Lock className="h-3 w-3" /> Read Only</>}
+        </span>
+        <button
+          onClick={handleExit}
+          disabled={isExiting}
+          className="flex items-center justify-center gap-2 px-5 py-2.5 bg-white text-slate-950 hover:bg-indigo-50 rounded-xl text-[11px] font-black uppercase tracking-widest transition-all active:scale-95 disabled:opacity-50"
+        >
+          <LogOut className="h-4 w-4" /> Exit
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,17 +1,26 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Bell, ChevronDown, PanelLeft, Plus, Search, User, LogOut, Shield, Sparkles, CheckCircle2, Gamepad2, Calendar, Zap, HelpCircle } from 'lucide-react';
+import { Bell, ChevronDown, PanelLeft, Plus, Search, User, LogOut, Shield, Sparkles, CheckCircle2, Gamepad2, Calendar, Zap, HelpCircle, Square } from 'lucide-react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../context/AuthContext';
 import { useLayout } from '../../context/LayoutContext';
+import { useNotifications } from '../../context/NotificationContext';
+import { useTimeTracking } from '../../context/TimeTrackingContext';
+import { CommandPalette } from './CommandPalette';
+import { NotificationItem } from '../notifications/NotificationItem';
+import { ElapsedTime } from '../time/ElapsedTime';
+import { AppNotification } from '../../types';
 
 export const Navbar: React.FC = () => {
   const { user, logout } = useAuth();
   const { toggleSidebar } = useLayout();
+  const { notifications, unreadCount, mutedTypes, markAsRead, markAllAsRead } = useNotifications();
+  const { activeTimer, stopTimer } = useTimeTracking();
   const location = useLocation();
   const navigate = useNavigate();
   
   const [isProfileOpen, setIsProfileOpen] = useState(false);
   const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
   
   const profileRef = useRef<HTMLDivElement>(null);
   const notifyRef = useRef<HTMLDivElement>(null);
@@ -36,13 +45,41 @@ export const Navbar: React.FC = () => {
     setIsNotificationsOpen(false);
   }, [location.pathname]);
 
+  // Global ⌘K / Ctrl+K binding for the command palette
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setIsPaletteOpen(prev => !prev);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const recentNotifications = notifications.filter(n => !mutedTypes.includes(n.type)).slice(0, 6);
+
+  const handleOpenNotification = (notification: AppNotification) => {
+      markAsRead(notification.id);
+      setIsNotificationsOpen(false);
+      if (notification.link) navigate(notification.link, notification.linkState ? { state: notification.linkState } : undefined);
+  };
+
   const getPageContext = () => {
       const path = location.pathname;
       if (path === '/dashboard') return 'Operational Intel';
       if (path === '/crm') return 'Market Pipeline';
+      if (path === '/invoices') return 'Revenue Ledger';
+      if (path === '/automations') return 'Workflow Rules';
+      if (path === '/admin/permissions') return 'Access Control';
+      if (path === '/admin/audit') return 'Change History';
       if (path.startsWith('/tasks')) return 'Execution Workflow';
       if (path === '/portal') return 'Client Interface';
       if (path === '/calendar') return 'Temporal Registry';
+      if (path === '/notifications') return 'Signal Archive';
+      if (path === '/timesheet') return 'Effort Ledger';
+      if (path === '/content') return 'Publishing Plan';
+      if (path === '/playbooks') return 'Task Templates';
       return 'Workhub OS';
   };
 
@@ -67,8 +104,11 @@ export const Navbar: React.FC = () => {
                 <Search className="absolute left-0 top-1/2 -translate-y-1/2 h-4 w-4 lg:h-5 lg:w-5 text-slate-300 group-focus-within:text-indigo-500 transition-colors" />
                 <input
                     type="text"
+                    readOnly
                     placeholder="Deep Search... (⌘K)"
-                    className="w-full pl-6 lg:pl-8 pr-4 lg:pr-12 py-1 lg:py-2 bg-transparent text-sm lg:text-lg font-bold text-slate-900 placeholder-slate-300 border-none focus:ring-0 focus:outline-none transition-all"
+                    onFocus={(e) => { e.currentTarget.blur(); setIsPaletteOpen(true); }}
+                    onClick={() => setIsPaletteOpen(true)}
+                    className="w-full pl-6 lg:pl-8 pr-4 lg:pr-12 py-1 lg:py-2 bg-transparent text-sm lg:text-lg font-bold text-slate-900 placeholder-slate-300 border-none focus:ring-0 focus:outline-none transition-all cursor-pointer"
                 />
              </div>
           </div>
@@ -88,6 +128,19 @@ export const Navbar: React.FC = () => {
 
             <div className="h-6 lg:h-8 w-px bg-slate-200/60 hidden sm:block"></div>
 
+            {/* Running Timer */}
+            {activeTimer && (
+                <div className="flex items-center gap-2 pl-4 pr-2 py-2 glass-panel rounded-2xl lg:rounded-3xl shadow-premium border-rose-200/60 bg-rose-50/70">
+                    <Link to="/timesheet" className="flex flex-col min-w-0" title={activeTimer.taskTitle}>
+                        <ElapsedTime startedAt={activeTimer.startedAt} className="text-sm font-black text-rose-600" />
+                        <span className="text-[9px] font-black text-rose-400 uppercase tracking-widest truncate max-w-[120px] hidden md:block">{activeTimer.taskTitle}</span>
+                    </Link>
+                    <button onClick={() => stopTimer()} title="Stop and log time" className="p-2.5 bg-rose-500 hover:bg-rose-600 text-white rounded-xl shadow-lg active:scale-95 transition-all">
+                        <Square className="h-3.5 w-3.5 fill-white" />
+                    </button>
+                </div>
+            )}
+
             {/* Universal Calendar Shortcut */}
             <Link 
                 to="/calendar"
@@ -103,24 +156,48 @@ export const Navbar: React.FC = () => {
                     className={`p-3 lg:p-4 glass-panel rounded-2xl lg:rounded-3xl shadow-premium transition-all relative group border-white/40 ${isNotificationsOpen ? 'bg-white/80 ring-2 ring-indigo-500/20' : 'text-slate-500 hover:text-slate-900'}`}
                 >
                     <Bell className={`h-5 w-5 lg:h-6 lg:w-6 ${isNotificationsOpen ? 'text-indigo-600' : 'group-hover:animate-bounce'}`} />
-                    <span className="absolute top-3 right-3 lg:top-4 lg:right-4 h-2 lg:h-2.5 w-2 lg:w-2.5 rounded-full bg-indigo-500 border-[3px] border-white shadow-[0_0_10px_rgba(99,102,241,0.5)]" />
+                    {unreadCount > 0 && (
+                        <span className="absolute top-1.5 right-1.5 lg:top-2 lg:right-2 min-w-[18px] h-[18px] px-1 rounded-full bg-indigo-500 border-2 border-white text-[9px] font-black text-white flex items-center justify-center shadow-[0_0_10px_rgba(99,102,241,0.5)]">
+                            {unreadCount > 99 ? '99+' : unreadCount}
+                        </span>
+                    )}
                 </button>
 
                 {isNotificationsOpen && (
-                    <div className="absolute right-0 mt-4 w-72 lg:w-80 bg-white/90 backdrop-blur-2xl rounded-[2.5rem] border border-white/60 shadow-2xl p-6 lg:p-8 animate-in fade-in zoom-in-95 duration-200 origin-top-right ring-1 ring-white/50">
-                        <div className="flex items-center justify-between mb-6 lg:mb-8">
-                            <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest">Signal Intelligence</h3>
-                            <div className="h-1.5 w-1.5 rounded-full bg-emerald-500 shadow-[0_0_8px_rgba(16,185,129,1)]" />
-                        </div>
-                        <div className="flex flex-col items-center justify-center py-6 lg:py-10 text-center">
-                            <div className="relative mb-6">
-                                <div className="absolute inset-0 bg-indigo-500/20 rounded-full blur-xl animate-pulse" />
-                                <CheckCircle2 className="h-10 w-10 lg:h-12 lg:w-12 text-indigo-500 relative z-10" />
+                    <div className="absolute right-0 mt-4 w-80 lg:w-96 bg-white/90 backdrop-blur-2xl rounded-[2.5rem] border border-white/60 shadow-2xl p-6 lg:p-8 animate-in fade-in zoom-in-95 duration-200 origin-top-right ring-1 ring-white/50">
+                        <div className="flex items-center justify-between mb-6">
+                            <div className="flex items-center gap-3">
+                                <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest">Signal Intelligence</h3>
+                                {unreadCount > 0 && (
+                                    <span className="px-2 py-0.5 rounded-md bg-indigo-50 border border-indigo-100 text-[9px] font-black text-indigo-600">{unreadCount} New</span>
+                                )}
                             </div>
-                            <p className="text-sm font-bold text-slate-900">All Systems Nominal</p>
-                            <p className="text-[10px] font-medium text-slate-400 mt-2 uppercase tracking-widest leading-relaxed">No high-priority alerts <br/> detected in this cycle.</p>
+                            {unreadCount > 0 ? (
+                                <button onClick={markAllAsRead} className="text-[9px] font-black text-indigo-600 uppercase tracking-widest hover:underline">Mark all read</button>
+                            ) : (
+                                <div className="h-1.5 w-1.5 rounded-full bg-emerald-500 shadow-[0_0_8px_rgba(16,185,129,1)]" />
+                            )}
                         </div>
-                        <button className="w-full mt-4 lg:mt-6 py-3 bg-slate-50 hover:bg-slate-100 rounded-2xl text-[10px] font-black text-slate-500 uppercase tracking-widest transition-colors">
+                        {recentNotifications.length > 0 ? (
+                            <div className="space-y-1 max-h-[360px] overflow-y-auto custom-scrollbar -mx-2 px-2">
+                                {recentNotifications.map(n => (
+                                    <NotificationItem key={n.id} notification={n} onOpen={handleOpenNotification} compact />
+                                ))}
+                            </div>
+                        ) : (
+                            <div className="flex flex-col items-center justify-center py-6 lg:py-10 text-center">
+                                <div className="relative mb-6">
+                                    <div className="absolute inset-0 bg-indigo-500/20 rounded-full blur-xl animate-pulse" />
+                                    <CheckCircle2 className="h-10 w-10 lg:h-12 lg:w-12 text-indigo-500 relative z-10" />
+                                </div>
+                                <p className="text-sm font-bold text-slate-900">All Systems Nominal</p>
+                                <p className="text-[10px] font-medium text-slate-400 mt-2 uppercase tracking-widest leading-relaxed">No high-priority alerts <br/> detected in this cycle.</p>
+                            </div>
+                        )}
+                        <button 
+                            onClick={() => navigate('/notifications')}
+                            className="w-full mt-4 lg:mt-6 py-3 bg-slate-50 hover:bg-slate-100 rounded-2xl text-[10px] font-black text-slate-500 uppercase tracking-widest transition-colors"
+                        >
                             View Log Archive
                         </button>
                     </div>
@@ -195,7 +272,7 @@ export const Navbar: React.FC = () => {
                     {/* Footer Actions */}
                     <div className="p-2 mt-2">
                         <button 
-                            onClick={logout}
+                            onClick={() => logout()}
                             className="w-full flex items-center justify-between px-6 py-4 bg-slate-950 text-white rounded-[1.75rem] hover:bg-slate-900 transition-all shadow-xl group active:scale-[0.98]"
                         >
                             <span className="text-[10px] font-black uppercase tracking-[0.2em]">Terminate Session</span>
@@ -206,6 +283,8 @@ export const Navbar: React.FC = () => {
             )}
         </div>
       </div>
+
+      <CommandPalette isOpen={isPaletteOpen} onClose={() => setIsPaletteOpen(false)} />
     </header>
   );
 };
\ No newline at end of file
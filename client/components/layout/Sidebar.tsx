@@ -1,9 +1,10 @@
 
 import React, { useRef, useLayoutEffect } from 'react';
-import { Users, Briefcase, PieChart, CheckSquare, Calendar, LayoutDashboard, Home, Shield, Zap, LogOut, X, Activity } from 'lucide-react';
+import { Users, Briefcase, PieChart, CheckSquare, Calendar, LayoutDashboard, Home, Shield, Zap, LogOut, X, Activity, Receipt, Timer, Megaphone, BookOpen, Workflow, KeyRound, ScrollText } from 'lucide-react';
 import { Link, useLocation } from 'react-router-dom';
 import { useAuth } from '../../context/AuthContext';
 import { useLayout } from '../../context/LayoutContext';
+import { usePermissions } from '../../context/PermissionContext';
 
 const NavItem = ({ icon: Icon, label, to, active, collapsed }: { icon: any, label: string, to: string, active: boolean, collapsed: boolean }) => (
   <Link
@@ -66,11 +67,11 @@ export const Sidebar: React.FC = () => {
         }
     };
     
+    const { can } = usePermissions();
     const role = user?.role;
-    const isSuperAdmin = role === 'ROLE_SUPER_ADMIN';
-    const isAdmin = role === 'ROLE_ADMIN' || isSuperAdmin;
-    const isEmployee = role === 'ROLE_EMPLOYEE' || isAdmin;
     const isClient = role === 'ROLE_CLIENT';
+    const isEmployee = !!role && !isClient;
+    const hasAdminLinks = can('analytics.view') || can('users.manage') || can('permissions.manage') || can('audit.view');
 
   return (
     <>
@@ -129,7 +130,9 @@ export const Sidebar: React.FC = () => {
                         <NavItem collapsed={isSidebarCollapsed} icon={LayoutDashboard} label="Command Center" to="/dashboard" active={currentPath === '/dashboard'} />
                     )}
                     
-                    {isAdmin && <NavItem collapsed={isSidebarCollapsed} icon={Users} label="Pipeline" to="/crm" active={currentPath === '/crm'} />}
+                    {can('crm.view') && <NavItem collapsed={isSidebarCollapsed} icon={Users} label="Pipeline" to="/crm" active={currentPath === '/crm'} />}
+                    {can('invoices.manage') && <NavItem collapsed={isSidebarCollapsed} icon={Receipt} label="Billing" to="/invoices" active={currentPath === '/invoices'} />}
+                    {can('automations.manage') && <NavItem collapsed={isSidebarCollapsed} icon={Workflow} label="Automations" to="/automations" active={currentPath === '/automations'} />}
                     
                     {isEmployee && (
                         <>
@@ -137,18 +140,23 @@ export const Sidebar: React.FC = () => {
                             <NavItem collapsed={isSidebarCollapsed} icon={Calendar} label="Scheduler" to="/meetings" active={currentPath.startsWith('/meetings')} />
                             <NavItem collapsed={isSidebarCollapsed} icon={Briefcase} label="Registry" to="/companies" active={currentPath.startsWith('/companies')} />
                             <NavItem collapsed={isSidebarCollapsed} icon={Activity} label="Tracker" to="/client-tracker" active={currentPath.startsWith('/client-tracker')} />
+                            <NavItem collapsed={isSidebarCollapsed} icon={Timer} label="Timesheet" to="/timesheet" active={currentPath === '/timesheet'} />
+                            <NavItem collapsed={isSidebarCollapsed} icon={Megaphone} label="Content" to="/content" active={currentPath === '/content'} />
+                            <NavItem collapsed={isSidebarCollapsed} icon={BookOpen} label="Playbooks" to="/playbooks" active={currentPath === '/playbooks'} />
                         </>
                     )}
                 </div>
 
-                {isSuperAdmin && (
+                {hasAdminLinks && (
                     <div className="pt-6 lg:pt-8 border-t border-white/5 space-y-1 lg:space-y-2">
                         {!isSidebarCollapsed && (
                             <p className="px-4 lg:px-6 text-[10px] lg:text-[11px] font-black text-slate-600 uppercase tracking-[0.4em] mb-3 lg:mb-6">Administrative</p>
                         )}
-                        <NavItem collapsed={isSidebarCollapsed} icon={PieChart} label="Intell-Reports" to="/reports" active={currentPath === '/reports'} />
-                        <NavItem collapsed={isSidebarCollapsed} icon={Shield} label="Directory" to="/admin/users" active={currentPath === '/admin/users'} />
-                        <NavItem collapsed={isSidebarCollapsed} icon={Zap} label="Performance" to="/admin/performance" active={currentPath === '/admin/performance'} />
+                        {can('analytics.view') && <NavItem collapsed={isSidebarCollapsed} icon={PieChart} label="Intell-Reports" to="/reports" active={currentPath === '/reports'} />}
+                        {can('users.manage') && <NavItem collapsed={isSidebarCollapsed} icon={Shield} label="Directory" to="/admin/users" active={currentPath === '/admin/users'} />}
+                        {can('analytics.view') && <NavItem collapsed={isSidebarCollapsed} icon={Zap} label="Performance" to="/admin/performance" active={currentPath === '/admin/performance'} />}
+                        {can('permissions.manage') && <NavItem collapsed={isSidebarCollapsed} icon={KeyRound} label="Permissions" to="/admin/permissions" active={currentPath === '/admin/permissions'} />}
+                        {can('audit.view') && <NavItem collapsed={isSidebarCollapsed} icon={ScrollText} label="Audit Log" to="/admin/audit" active={currentPath === '/admin/audit'} />}
                     </div>
                 )}
             </div>
@@ -175,7 +183,7 @@ export const Sidebar: React.FC = () => {
                     </div>
 
                     <button 
-                        onClick={logout}
+                        onClick={() => logout()}
                         className={`flex items-center w-full rounded-2xl text-rose-400 hover:bg-rose-50/10 transition-all group ${isSidebarCollapsed ? 'justify-center p-3 lg:p-4' : 'gap-3 lg:gap-4 px-4 lg:px-6 py-3 lg:py-4'}`}
                     >
                         <LogOut className="h-5 w-5 lg:h-6 lg:w-6 shrink-0 group-hover:scale-110 transition-transform group-hover:drop-shadow-[0_0_8px_rgba(244,63,94,0.4)]" />
@@ -1,39 +1,54 @@
 
-import React, { useState, useEffect } from 'react';
-import { X, Save, Calendar, Clock, Link as LinkIcon, AlignLeft, Video, Maximize2, Minimize2, Trash2, History } from 'lucide-react';
-import { Meeting, MeetingStatus, User } from '../../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Save, Calendar, Clock, Link as LinkIcon, AlignLeft, Video, Maximize2, Minimize2, Trash2, History, Users, Building, Mail, Phone, AlertTriangle } from 'lucide-react';
+import { Meeting, MeetingStatus, MeetingMinutes, User, CRMEntry, RecurrenceScope } from '../../types';
 import { CustomSelect } from '../ui/CustomSelect';
 import { UserSelect } from '../ui/UserSelect';
+import { RecurrenceEditor } from '../tasks/RecurrenceEditor';
+import { MeetingMinutesEditor } from './MeetingMinutesEditor';
 import { formatDateTime } from '../../utils';
-import { usersApi } from '../../services/api';
+import { getMeetingWallClock, findMeetingConflicts, suggestFreeSlots } from '../../services/meetingSchedule';
+import { usersApi, companiesApi, ConcurrencyConflictError } from '../../services/api';
+import { convertActionItemsToTasks } from '../../services/meetingMinutes';
+import { useAuth } from '../../context/AuthContext';
+import { useToast } from '../../context/ToastContext';
 
 interface MeetingFormProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (data: Partial<Meeting>) => void;
+  // Scope is only set when editing a meeting that belongs to a recurring series
+  onSubmit: (data: Partial<Meeting>, scope?: RecurrenceScope) => void;
   onDelete?: (id: number) => void;
   initialData?: Meeting;
+  // Everyone's meetings, used to warn about double-booking the organizer or attendees
+  existingMeetings?: Meeting[];
 }
 
 const STATUSES: MeetingStatus[] = ['Scheduled', 'Completed', 'Cancelled', 'Postponed'];
 
-export const MeetingForm: React.FC<MeetingFormProps> = ({ isOpen, onClose, onSubmit, onDelete, initialData }) => {
+const DURATIONS = [15, 30, 45, 60, 90, 120, 180];
+
+export const MeetingForm: React.FC<MeetingFormProps> = ({ isOpen, onClose, onSubmit, onDelete, initialData, existingMeetings = [] }) => {
   const [formData, setFormData] = useState<Partial<Meeting>>({});
   const [users, setUsers] = useState<User[]>([]);
+  const [companies, setCompanies] = useState<CRMEntry[]>([]);
+  const [scope, setScope] = useState<RecurrenceScope>('this');
+  const [isConverting, setIsConverting] = useState(false);
+  const { user, isReadOnly } = useAuth();
+  const { showToast } = useToast();
 
   useEffect(() => {
     if (isOpen) {
         usersApi.getAll().then(setUsers);
+        companiesApi.getAll().then(setCompanies).catch(() => setCompanies([]));
+        setScope('this');
         if (initialData) {
-            const date = new Date(initialData.dateTime);
-            const pad = (n: number) => n.toString().padStart(2, '0');
-            const dtStr = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
-            setFormData({ ...initialData, dateTime: dtStr });
+            setFormData({ ...initialData, dateTime: getMeetingWallClock(initialData.dateTime) });
         } else {
             const now = new Date();
             const pad = (n: number) => n.toString().padStart(2, '0');
             setFormData({
-            title: '', status: 'Scheduled', meetingLink: '', notes: '',
+            title: '', status: 'Scheduled', meetingLink: '', notes: '', durationMinutes: 60, attendees: [],
             assignedTo: 'Unassigned', assigneeId: undefined,
             dateTime: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}T${pad(now.getHours())}:${pad(now.getMinutes())}`
             });
@@ -41,12 +56,69 @@ export const MeetingForm: React.FC<MeetingFormProps> = ({ isOpen, onClose, onSub
     }
   }, [isOpen, initialData]);
 
+  const conflicts = useMemo(() => isOpen ? findMeetingConflicts(formData, existingMeetings) : [], [isOpen, formData, existingMeetings]);
+  const freeSlots = useMemo(() => conflicts.length ? suggestFreeSlots(formData, existingMeetings) : [], [conflicts, formData, existingMeetings]);
+
   if (!isOpen) return null;
 
   const handleUserChange = (userId: number, userName: string) => {
       setFormData(prev => ({ ...prev, assigneeId: userId, assignedTo: userName }));
   };
 
+  const attendees = formData.attendees || [];
+  const selectedCompany = companies.find(c => c.id === formData.companyId);
+
+  const handleAddAttendee = (userId: number | 'Unassigned') => {
+      const target = users.find(u => u.id === userId);
+      if (!target || attendees.some(a => a.userId === target.id)) return;
+      setFormData(prev => ({ ...prev, attendees: [...attendees, { userId: target.id, name: target.name, email: target.email }] }));
+  };
+
+  const handleCompanyChange = (value: string) => {
+      const company = companies.find(c => String(c.id) === value);
+      setFormData(prev => ({
+          ...prev,
+          companyId: company?.id,
+          clientContact: company?.contactName ? { name: company.contactName, email: company.email || undefined, phone: company.phone || undefined } : undefined
+      }));
+  };
+
+  const minutes: MeetingMinutes = formData.minutes || { present: [], decisions: [], actionItems: [] };
+  const participants = Array.from(new Set([
+      ...(formData.assignedTo && formData.assignedTo !== 'Unassigned' ? [formData.assignedTo] : []),
+      ...attendees.map(a => a.name),
+      ...(formData.clientContact ? [formData.clientContact.name] : [])
+  ]));
+
+  const handleMinutesChange = (next: MeetingMinutes) => {
+      setFormData(prev => ({ ...prev, minutes: { ...next, recordedBy: user?.name || 'Unknown', recordedAt: new Date().toISOString() } }));
+  };
+
+  const handleConvertActionItems = async () => {
+      if (!initialData?.id) return;
+      setIsConverting(true);
+      try {
+          const audit = { lastUpdatedBy: user?.name || 'Unknown', lastUpdatedAt: new Date().toISOString() };
+          const result = await convertActionItemsToTasks({ ...initialData, ...formData } as Meeting, minutes, audit);
+          setFormData(prev => ({ ...prev, minutes: result.minutes }));
+          showToast(`${result.tasks.length} task${result.tasks.length === 1 ? '' : 's'} created from action items`, "success");
+      } catch (e) {
+          // The tasks exist by then, only linking them to the minutes was refused
+          if (e instanceof ConcurrencyConflictError) showToast("Tasks created, but someone else changed this meeting, reopen it before converting again", "error");
+          else showToast("Failed to create tasks", "error");
+      } finally {
+          setIsConverting(false);
+      }
+  };
+
+  const handleIncludeContact = (include: boolean) => {
+      if (!selectedCompany) return;
+      setFormData(prev => ({
+          ...prev,
+          clientContact: include ? { name: selectedCompany.contactName, email: selectedCompany.email || undefined, phone: selectedCompany.phone || undefined } : undefined
+      }));
+  };
+
   return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-950/40 backdrop-blur-md p-0 sm:p-4 animate-in fade-in duration-300" onClick={onClose}>
       <div className="bg-white/90 backdrop-blur-2xl rounded-[2rem] lg:rounded-[3rem] shadow-2xl w-full max-w-lg max-h-[100vh] sm:max-h-[90vh] overflow-hidden flex flex-col border border-white/60" onClick={(e) => e.stopPropagation()}>
@@ -61,7 +133,7 @@ export const MeetingForm: React.FC<MeetingFormProps> = ({ isOpen, onClose, onSub
         </div>
 
         <div className="p-6 lg:p-8 pb-20 overflow-y-auto custom-scrollbar flex-1">
-            <form onSubmit={(e) => { e.preventDefault(); onSubmit(formData); onClose(); }} className="space-y-6 lg:space-y-8 animate-premium">
+            <form onSubmit={(e) => { e.preventDefault(); onSubmit(formData, initialData?.seriesId ? scope : undefined); onClose(); }} className="space-y-6 lg:space-y-8 animate-premium">
                 <div>
                     <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5 ml-1">Session Agenda</label>
                     <input type="text" required className="w-full px-6 py-3.5 lg:py-4 bg-white border border-gray-200 rounded-3xl text-sm font-bold focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all shadow-inner" 
@@ -77,16 +149,99 @@ export const MeetingForm: React.FC<MeetingFormProps> = ({ isOpen, onClose, onSub
                     <CustomSelect label="Session Status" value={formData.status || 'Scheduled'} onChange={(val) => setFormData({...formData, status: val as MeetingStatus})} options={STATUSES.map(s => ({ label: s, value: s }))} />
                 </div>
 
-                <div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                    <CustomSelect label="Duration" value={String(formData.durationMinutes || 60)} onChange={(val) => setFormData({...formData, durationMinutes: parseInt(val)})} options={DURATIONS.map(m => ({ label: m < 60 ? `${m} min` : `${m / 60} hr${m > 60 ? 's' : ''}`, value: String(m) }))} />
                     <UserSelect label="Organizer / Assignee" value={formData.assigneeId || formData.assignedTo || 'Unassigned'} onChange={handleUserChange} users={users} />
                 </div>
 
+                <div>
+                    <UserSelect label="Attendees" value="Unassigned" onChange={(userId) => handleAddAttendee(userId)} users={users.filter(u => u.id !== formData.assigneeId && !attendees.some(a => a.userId === u.id))} placeholder="Add a teammate..." />
+                    {attendees.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mt-3">
+                            {attendees.map(a => (
+                                <span key={a.userId} className="inline-flex items-center gap-1.5 pl-3 pr-1.5 py-1.5 bg-indigo-50 text-indigo-700 rounded-xl text-[10px] font-black uppercase tracking-widest">
+                                    <Users className="h-3 w-3" /> {a.name}
+                                    <button type="button" onClick={() => setFormData(prev => ({ ...prev, attendees: attendees.filter(x => x.userId !== a.userId) }))} className="p-0.5 hover:bg-indigo-100 rounded-md">
+                                        <X className="h-3 w-3" />
+                                    </button>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                <div>
+                    <CustomSelect label="Client" value={formData.companyId ? String(formData.companyId) : ''} onChange={handleCompanyChange} options={[{ label: 'Internal (no client)', value: '' }, ...companies.map(c => ({ label: c.company, value: String(c.id) }))]} />
+                    {selectedCompany?.contactName && (
+                        <div className="mt-3 flex items-center justify-between gap-4 px-5 py-4 bg-white/60 border border-slate-100 rounded-2xl">
+                            <div className="min-w-0">
+                                <p className="text-sm font-black text-slate-900 truncate flex items-center gap-2"><Building className="h-3.5 w-3.5 text-slate-400" /> {selectedCompany.contactName}</p>
+                                <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1 text-[10px] font-bold text-slate-400">
+                                    {selectedCompany.email && <span className="flex items-center gap-1"><Mail className="h-3 w-3" /> {selectedCompany.email}</span>}
+                                    {selectedCompany.phone && <span className="flex items-center gap-1"><Phone className="h-3 w-3" /> {selectedCompany.phone}</span>}
+                                </div>
+                            </div>
+                            <label className="flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase tracking-widest shrink-0 cursor-pointer">
+                                <input type="checkbox" className="accent-indigo-600" checked={!!formData.clientContact} onChange={e => handleIncludeContact(e.target.checked)} />
+                                Invite
+                            </label>
+                        </div>
+                    )}
+                </div>
+
+                <RecurrenceEditor
+                    value={formData.recurrence}
+                    startDate={(formData.dateTime || '').slice(0, 10)}
+                    onChange={(rule) => setFormData(prev => ({ ...prev, recurrence: rule }))}
+                    scope={initialData?.seriesId ? scope : undefined}
+                    onScopeChange={setScope}
+                />
+
                 <div>
                     <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5 ml-1">Communication Channel (URL)</label>
                     <input type="text" className="w-full px-6 py-3.5 lg:py-4 bg-white border border-gray-200 rounded-3xl text-sm font-medium focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all shadow-inner"
                         placeholder="Zoom / Meet / Teams" value={formData.meetingLink || ''} onChange={e => setFormData({...formData, meetingLink: e.target.value})} />
                 </div>
 
+                {formData.status === 'Completed' && initialData?.id ? (
+                    <MeetingMinutesEditor
+                        minutes={minutes}
+                        onChange={handleMinutesChange}
+                        participants={participants}
+                        users={users}
+                        onConvert={isReadOnly ? undefined : handleConvertActionItems}
+                        isConverting={isConverting}
+                    />
+                ) : null}
+
+                {conflicts.length > 0 && (
+                    <div className="p-5 bg-rose-50/80 border border-rose-100 rounded-[1.5rem] space-y-4">
+                        <p className="text-[10px] font-black text-rose-600 uppercase tracking-widest flex items-center gap-2">
+                            <AlertTriangle className="h-4 w-4" /> Double-booked with {conflicts.length} meeting{conflicts.length > 1 ? 's' : ''}
+                        </p>
+                        <div className="space-y-2">
+                            {conflicts.map(m => (
+                                <div key={m.id} className="flex items-center justify-between gap-3 text-xs">
+                                    <span className="font-bold text-slate-800 truncate">{m.title}</span>
+                                    <span className="text-[10px] font-bold text-slate-500 shrink-0">{formatDateTime(m.dateTime)} • {m.durationMinutes || 60} min • {m.assignedTo || 'Unassigned'}</span>
+                                </div>
+                            ))}
+                        </div>
+                        {freeSlots.length > 0 && (
+                            <div>
+                                <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">Nearest free slots</p>
+                                <div className="flex flex-wrap gap-2">
+                                    {freeSlots.map(slot => (
+                                        <button key={slot} type="button" onClick={() => setFormData(prev => ({ ...prev, dateTime: slot }))} className="px-3 py-2 bg-white border border-emerald-100 text-emerald-700 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-emerald-50 transition-colors">
+                                            {formatDateTime(slot)}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                )}
+
                 {formData.lastUpdatedBy && (
                     <div className="flex items-center justify-end pt-4 border-t border-slate-100 text-[9px] font-black text-slate-400 uppercase tracking-widest">
                         <History className="h-3 w-3 mr-2" />
@@ -100,7 +255,7 @@ export const MeetingForm: React.FC<MeetingFormProps> = ({ isOpen, onClose, onSub
                     ) : <div></div>}
                     <div className="flex gap-4">
                         <button type="button" onClick={onClose} className="text-[10px] lg:text-[11px] font-black text-slate-500 uppercase tracking-widest">Discard</button>
-                        <button type="submit" className="px-6 lg:px-8 py-3 lg:py-4 text-[10px] lg:text-[11px] font-black text-white bg-slate-950 hover:bg-slate-900 rounded-2xl shadow-2xl active:scale-95 transition-all">Schedule</button>
+                        <button type="submit" disabled={isReadOnly} className="px-6 lg:px-8 py-3 lg:py-4 text-[10px] lg:text-[11px] font-black text-white bg-slate-950 hover:bg-slate-900 rounded-2xl shadow-2xl active:scale-95 transition-all disabled:opacity-40">{conflicts.length > 0 ? 'Book Anyway' : 'Schedule'}</button>
                     </div>
                 </div>
             </form>
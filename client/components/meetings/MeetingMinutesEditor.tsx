@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { NotebookPen, Check, Plus, Trash2, Gavel, ListTodo, ArrowRight, CheckSquare } from 'lucide-react';
+import { MeetingMinutes, MeetingActionItem, User } from '../../types';
+import { UserSelect } from '../ui/UserSelect';
+import { CustomDatePicker } from '../ui/CustomDatePicker';
+
+interface MeetingMinutesEditorProps {
+  minutes: MeetingMinutes;
+  onChange: (minutes: MeetingMinutes) => void;
+  // Everyone invited; the present list is picked from these names
+  participants: string[];
+  users: User[];
+  onConvert?: () => void;
+  isConverting?: boolean;
+}
+
+const newItemId = () => `ai-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const MeetingMinutesEditor: React.FC<MeetingMinutesEditorProps> = ({ minutes, onChange, participants, users, onConvert, isConverting = false }) => {
+  const [decisionDraft, setDecisionDraft] = useState('');
+  const [actionDraft, setActionDraft] = useState('');
+  const pendingCount = minutes.actionItems.filter(item => !item.taskId && item.title.trim()).length;
+
+  const togglePresent = (name: string) => {
+    const present = minutes.present.includes(name) ? minutes.present.filter(n => n !== name) : [...minutes.present, name];
+    onChange({ ...minutes, present });
+  };
+
+  const addDecision = () => {
+    const text = decisionDraft.trim();
+    if (!text) return;
+    onChange({ ...minutes, decisions: [...minutes.decisions, text] });
+    setDecisionDraft('');
+  };
+
+  const addActionItem = () => {
+    const title = actionDraft.trim();
+    if (!title) return;
+    onChange({ ...minutes, actionItems: [...minutes.actionItems, { id: newItemId(), title }] });
+    setActionDraft('');
+  };
+
+  const updateActionItem = (id: string, patch: Partial<MeetingActionItem>) => {
+    onChange({ ...minutes, actionItems: minutes.actionItems.map(item => item.id === id ? { ...item, ...patch } : item) });
+  };
+
+  const sectionLabel = "text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3 ml-1 flex items-center gap-2";
+  const draftInput = "flex-1 px-5 py-3 bg-white border border-gray-200 rounded-2xl text-sm font-bold focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none shadow-inner";
+
+  return (
+    <div className="space-y-6 p-6 bg-white/50 border border-slate-100 rounded-[2rem]">
+      <p className="text-[10px] font-black text-indigo-600 uppercase tracking-widest flex items-center gap-2">
+        <NotebookPen className="h-4 w-4" /> Minutes
+      </p>
+
+      {participants.length > 0 && (
+        <div>
+          <p className={sectionLabel}>Present</p>
+          <div className="flex flex-wrap gap-2">
+            {participants.map(name => {
+              const isPresent = minutes.present.includes(name);
+              return (
+                <button
+                  key={name}
+                  type="button"
+                  onClick={() => togglePresent(name)}
+                  className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border flex items-center gap-1.5 transition-all ${isPresent ? 'bg-emerald-50 border-emerald-200 text-emerald-700' : 'bg-white border-slate-200 text-slate-400 hover:text-slate-600'}`}
+                >
+                  {isPresent && <Check className="h-3 w-3" />} {name}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <p className={sectionLabel}><Gavel className="h-3.5 w-3.5" /> Decisions</p>
+        <div className="space-y-2">
+          {minutes.decisions.map((decision, index) => (
+            <div key={index} className="flex items-start gap-3 px-4 py-3 bg-white/70 border border-slate-100 rounded-2xl">
+              <span className="text-[10px] font-black text-slate-300 mt-0.5">{index + 1}.</span>
+              <p className="flex-1 text-sm font-medium text-slate-700">{decision}</p>
+              <button type="button" onClick={() => onChange({ ...minutes, decisions: minutes.decisions.filter((_, i) => i !== index) })} className="p-1 text-slate-300 hover:text-rose-500 transition-colors">
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center gap-3 mt-3">
+          <input className={draftInput} placeholder="What was agreed?" value={decisionDraft} onChange={e => setDecisionDraft(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); addDecision(); } }} />
+          <button type="button" onClick={addDecision} className="p-3 bg-slate-950 text-white rounded-2xl shadow-xl active:scale-95 transition-all"><Plus className="h-4 w-4" /></button>
+        </div>
+      </div>
+
+      <div>
+        <p className={sectionLabel}><ListTodo className="h-3.5 w-3.5" /> Action Items</p>
+        <div className="space-y-3">
+          {minutes.actionItems.map(item => (
+            <div key={item.id} className="p-4 bg-white/70 border border-slate-100 rounded-2xl space-y-3">
+              <div className="flex items-center gap-3">
+                {item.taskId ? (
+                  <span className="text-[9px] font-black text-emerald-600 bg-emerald-50 px-2 py-1 rounded-lg uppercase tracking-widest flex items-center gap-1 shrink-0">
+                    <CheckSquare className="h-3 w-3" /> Task #{item.taskId}
+                  </span>
+                ) : null}
+                <input
+                  className="flex-1 min-w-0 bg-transparent text-sm font-bold text-slate-800 outline-none disabled:text-slate-500"
+                  value={item.title}
+                  disabled={!!item.taskId}
+                  onChange={e => updateActionItem(item.id, { title: e.target.value })}
+                />
+                {!item.taskId && (
+                  <button type="button" onClick={() => onChange({ ...minutes, actionItems: minutes.actionItems.filter(i => i.id !== item.id) })} className="p-1 text-slate-300 hover:text-rose-500 transition-colors">
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+              {!item.taskId && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <UserSelect
+                    value={item.assigneeId || item.assignedTo || 'Unassigned'}
+                    onChange={(userId, userName) => updateActionItem(item.id, userId === 'Unassigned' ? { assigneeId: undefined, assignedTo: undefined } : { assigneeId: userId, assignedTo: userName })}
+                    users={users}
+                  />
+                  <CustomDatePicker value={item.dueDate || ''} onChange={date => updateActionItem(item.id, { dueDate: date || undefined })} placeholder="Due on meeting day" />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center gap-3 mt-3">
+          <input className={draftInput} placeholder="Who does what next?" value={actionDraft} onChange={e => setActionDraft(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); addActionItem(); } }} />
+          <button type="button" onClick={addActionItem} className="p-3 bg-slate-950 text-white rounded-2xl shadow-xl active:scale-95 transition-all"><Plus className="h-4 w-4" /></button>
+        </div>
+      </div>
+
+      {onConvert && pendingCount > 0 && (
+        <button
+          type="button"
+          onClick={onConvert}
+          disabled={isConverting}
+          className="w-full py-4 bg-indigo-600 hover:bg-indigo-700 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest shadow-xl shadow-indigo-200 flex items-center justify-center gap-2 active:scale-95 transition-all disabled:opacity-50"
+        >
+          {isConverting ? 'Creating tasks...' : <>Create {pendingCount} task{pendingCount > 1 ? 's' : ''} from action items <ArrowRight className="h-4 w-4" /></>}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,9 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Meeting, MeetingStatus } from '../../types';
 import { formatDateTime, getMeetingStatusStyles } from '../../utils';
-import { Video, Calendar, Link as LinkIcon, ExternalLink, ChevronDown, Check, Clock } from 'lucide-react';
+import { describeRecurrence } from '../../services/recurrence';
+import { downloadMeetingICS } from '../../services/ics';
+import { Video, Calendar, Link as LinkIcon, ExternalLink, ChevronDown, Check, Clock, Repeat, Users, CalendarPlus } from 'lucide-react';
 
 interface MeetingTableProps {
   data: Meeting[];
@@ -73,9 +75,18 @@ export const MeetingTable: React.FC<MeetingTableProps> = ({ data, onEdit, onStat
                                 <div className="h-10 w-10 rounded-2xl bg-indigo-50 text-indigo-600 flex items-center justify-center shrink-0">
                                     <Calendar className="h-5 w-5" />
                                 </div>
-                                <button onClick={() => onEdit(meeting)} className="font-black text-sm text-slate-900 hover:text-brand-600 transition-colors text-left tracking-tight">
-                                    {meeting.title}
-                                </button>
+                                <div className="min-w-0">
+                                    <button onClick={() => onEdit(meeting)} className="font-black text-sm text-slate-900 hover:text-brand-600 transition-colors text-left tracking-tight">
+                                        {meeting.title}
+                                    </button>
+                                    {(meeting.recurrence || meeting.attendees?.length || meeting.clientContact) && (
+                                        <div className="flex items-center gap-3 mt-1 text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                                            {meeting.recurrence && <span className="flex items-center gap-1 text-indigo-500" title={describeRecurrence(meeting.recurrence)}><Repeat className="h-2.5 w-2.5" /> Series</span>}
+                                            {!!meeting.attendees?.length && <span className="flex items-center gap-1"><Users className="h-2.5 w-2.5" /> {meeting.attendees.length + 1} people</span>}
+                                            {meeting.clientContact && <span className="truncate max-w-[140px]">w/ {meeting.clientContact.name}</span>}
+                                        </div>
+                                    )}
+                                </div>
                             </div>
                         </td>
 
@@ -87,6 +98,7 @@ export const MeetingTable: React.FC<MeetingTableProps> = ({ data, onEdit, onStat
                                 <span className="text-[9px] text-slate-400 font-black uppercase tracking-widest mt-0.5 flex items-center gap-1">
                                     <Clock className="h-2.5 w-2.5" />
                                     {new Date(meeting.dateTime).toLocaleTimeString('en-IN', { hour: 'numeric', minute: '2-digit', hour12: true, timeZone: 'Asia/Kolkata' })}
+                                    <span className="text-slate-300">• {meeting.durationMinutes || 60} min</span>
                                 </span>
                             </div>
                         </td>
@@ -96,11 +108,21 @@ export const MeetingTable: React.FC<MeetingTableProps> = ({ data, onEdit, onStat
                         </td>
 
                         <td className="px-8 py-5 bg-white/40 backdrop-blur-xl rounded-r-3xl border-y border-r border-white/60 shadow-sm group-hover:bg-white transition-all duration-500 text-right">
-                            {meeting.meetingLink ? (
-                                <a href={meeting.meetingLink} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-2 px-5 py-2.5 bg-slate-950 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest shadow-xl active:scale-95 transition-all">
-                                    <Video className="h-3.5 w-3.5 text-indigo-400" /> Open Channel
-                                </a>
-                            ) : <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest">Offline Only</span>}
+                            <div className="flex items-center justify-end gap-2">
+                                <button onClick={() => downloadMeetingICS([meeting], meeting.title || 'meeting')} className="p-2.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all" title="Download .ics">
+                                    <CalendarPlus className="h-4 w-4" />
+                                </button>
+                                {meeting.recurrence && meeting.seriesId && (
+                                    <button onClick={() => downloadMeetingICS([meeting], `${meeting.title || 'meeting'}-series`, true)} className="p-2.5 text-indigo-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all" title="Download whole series (.ics)">
+                                        <Repeat className="h-4 w-4" />
+                                    </button>
+                                )}
+                                {meeting.meetingLink ? (
+                                    <a href={meeting.meetingLink} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-2 px-5 py-2.5 bg-slate-950 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest shadow-xl active:scale-95 transition-all">
+                                        <Video className="h-3.5 w-3.5 text-indigo-400" /> Open Channel
+                                    </a>
+                                ) : <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest">Offline Only</span>}
+                            </div>
                         </td>
                     </tr>
                 ))}
@@ -1,15 +1,20 @@
 import React, { useState, useMemo } from 'react';
 import { Meeting } from '../../types';
-import { ChevronLeft, ChevronRight, Video, Clock, Plus } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Video, Clock, Plus, Repeat, CalendarPlus, AlertTriangle } from 'lucide-react';
 import { getMeetingStatusStyles } from '../../utils';
+import { downloadMeetingICS } from '../../services/ics';
+import { moveMeetingToDate, getConflictingMeetingIds } from '../../services/meetingSchedule';
 
 interface MeetingsCalendarProps {
   meetings: Meeting[];
   onEdit: (meeting: Meeting) => void;
   onCreateAt?: (dateStr: string) => void;
+  // Dragging is only enabled when the caller can reschedule; a meeting keeps its time of day
+  onReschedule?: (meeting: Meeting, dateTime: string) => void;
 }
 
-export const MeetingsCalendar: React.FC<MeetingsCalendarProps> = ({ meetings, onEdit, onCreateAt }) => {
+export const MeetingsCalendar: React.FC<MeetingsCalendarProps> = ({ meetings, onEdit, onCreateAt, onReschedule }) => {
+    const [dragOverDate, setDragOverDate] = useState<string | null>(null);
     // Standardize view date to the 1st of the month to prevent day-overflow bugs
     const [viewDate, setViewDate] = useState(() => {
         const d = new Date();
@@ -30,6 +35,18 @@ export const MeetingsCalendar: React.FC<MeetingsCalendarProps> = ({ meetings, on
         return new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Kolkata' }).format(new Date());
     }, []);
 
+    const monthKey = `${year}-${String(month + 1).padStart(2, '0')}`;
+    const conflictIds = useMemo(() => getConflictingMeetingIds(meetings), [meetings]);
+    const monthMeetings = useMemo(() => meetings.filter(m => m.dateTime.startsWith(monthKey)), [meetings, monthKey]);
+
+    const handleDrop = (e: React.DragEvent, dateStr: string) => {
+        if (!onReschedule) return;
+        e.preventDefault();
+        setDragOverDate(null);
+        const meeting = meetings.find(m => m.id === parseInt(e.dataTransfer.getData("meetingId")));
+        if (meeting && !meeting.dateTime.startsWith(dateStr)) onReschedule(meeting, moveMeetingToDate(meeting.dateTime, dateStr));
+    };
+
     const renderCells = () => {
         const cells = [];
 
@@ -53,7 +70,10 @@ export const MeetingsCalendar: React.FC<MeetingsCalendarProps> = ({ meetings, on
             cells.push(
                 <div 
                     key={day} 
-                    className={`group relative border-b border-r border-slate-100 min-h-[100px] lg:min-h-[140px] p-2 transition-all hover:bg-white/60 ${isToday ? 'bg-indigo-50/20' : 'bg-white/40'}`}
+                    onDragOver={(e) => { if (onReschedule) { e.preventDefault(); setDragOverDate(dateStr); } }}
+                    onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setDragOverDate(null); }}
+                    onDrop={(e) => handleDrop(e, dateStr)}
+                    className={`group relative border-b border-r border-slate-100 min-h-[100px] lg:min-h-[140px] p-2 transition-all hover:bg-white/60 ${dragOverDate === dateStr ? 'bg-indigo-50/60 ring-2 ring-inset ring-indigo-300' : isToday ? 'bg-indigo-50/20' : 'bg-white/40'}`}
                 >
                     <div className="flex justify-between items-start mb-2">
                         <span className={`flex items-center justify-center w-8 h-8 rounded-xl text-xs font-black transition-all ${
@@ -78,14 +98,23 @@ export const MeetingsCalendar: React.FC<MeetingsCalendarProps> = ({ meetings, on
                             <button 
                                 key={meeting.id} 
                                 onClick={(e) => { e.stopPropagation(); onEdit(meeting); }}
-                                className={`w-full text-left p-1.5 rounded-xl border text-[10px] shadow-sm transition-all hover:scale-[1.02] hover:shadow-md active:scale-95 ${getMeetingStatusStyles(meeting.status)} bg-white/80 backdrop-blur-sm`}
+                                draggable={!!onReschedule}
+                                onDragStart={(e) => {
+                                    e.dataTransfer.setData("meetingId", meeting.id.toString());
+                                    e.dataTransfer.effectAllowed = "move";
+                                }}
+                                title={conflictIds.has(meeting.id) ? 'Double-booked: overlaps another meeting for the same person' : undefined}
+                                className={`w-full ${onReschedule ? 'cursor-grab active:cursor-grabbing' : ''} ${conflictIds.has(meeting.id) ? 'ring-2 ring-rose-300' : ''} text-left p-1.5 rounded-xl border text-[10px] shadow-sm transition-all hover:scale-[1.02] hover:shadow-md active:scale-95 ${getMeetingStatusStyles(meeting.status)} bg-white/80 backdrop-blur-sm`}
                             >
                                 <div className="font-black truncate tracking-tighter uppercase leading-tight">{meeting.title}</div>
                                 <div className="flex items-center gap-1 mt-0.5 opacity-60 font-bold">
                                     <Clock className="h-2.5 w-2.5" />
                                     <span>
                                         {new Date(meeting.dateTime).toLocaleTimeString('en-IN', { hour: 'numeric', minute: '2-digit', hour12: true, timeZone: 'Asia/Kolkata' })}
+                                        {' '}• {meeting.durationMinutes || 60}m
                                     </span>
+                                    {conflictIds.has(meeting.id) && <AlertTriangle className="h-2.5 w-2.5 ml-auto text-rose-500" />}
+                                    {meeting.recurrence && <Repeat className={`h-2.5 w-2.5 ${conflictIds.has(meeting.id) ? '' : 'ml-auto'}`} />}
                                 </div>
                             </button>
                         ))}
@@ -130,6 +159,15 @@ export const MeetingsCalendar: React.FC<MeetingsCalendarProps> = ({ meetings, on
                     </div>
                 </div>
                 
+                <div className="flex items-center gap-3">
+                <button
+                    onClick={() => downloadMeetingICS(monthMeetings, `meetings-${year}-${String(month + 1).padStart(2, '0')}`)}
+                    disabled={monthMeetings.length === 0}
+                    className="hidden sm:flex items-center gap-2 px-4 py-3 bg-white/60 border border-slate-200/60 rounded-2xl text-[10px] font-black text-slate-500 uppercase tracking-widest hover:text-indigo-600 transition-all disabled:opacity-40"
+                    title="Download this month as .ics"
+                >
+                    <CalendarPlus className="h-4 w-4" /> Export
+                </button>
                 <div className="flex items-center gap-2 bg-slate-100/50 p-1.5 rounded-2xl border border-slate-200/40 shadow-inner">
                     <button 
                         onClick={handlePrevMonth} 
@@ -150,6 +188,7 @@ export const MeetingsCalendar: React.FC<MeetingsCalendarProps> = ({ meetings, on
                         <ChevronRight className="h-5 w-5" />
                     </button>
                 </div>
+                </div>
             </div>
             
             <div className="grid grid-cols-7 border-b border-slate-100 bg-slate-50/30">
@@ -0,0 +1,56 @@
+import React from 'react';
+import { UserPlus, RefreshCw, AlertTriangle, PhoneCall, Video, Check, AtSign, Workflow } from 'lucide-react';
+import { AppNotification, NotificationType } from '../../types';
+import { formatDateTime } from '../../utils';
+
+export const NOTIFICATION_TYPE_META: Record<NotificationType, { label: string; icon: React.ElementType; color: string }> = {
+  task_assigned: { label: 'Assignments', icon: UserPlus, color: 'bg-indigo-50 text-indigo-600 border-indigo-100' },
+  task_status: { label: 'Status Changes', icon: RefreshCw, color: 'bg-sky-50 text-sky-600 border-sky-100' },
+  task_overdue: { label: 'Overdue Tasks', icon: AlertTriangle, color: 'bg-rose-50 text-rose-600 border-rose-100' },
+  task_mention: { label: 'Mentions', icon: AtSign, color: 'bg-violet-50 text-violet-600 border-violet-100' },
+  follow_up_due: { label: 'Follow-ups', icon: PhoneCall, color: 'bg-amber-50 text-amber-600 border-amber-100' },
+  meeting_soon: { label: 'Upcoming Meetings', icon: Video, color: 'bg-purple-50 text-purple-600 border-purple-100' },
+  automation: { label: 'Automations', icon: Workflow, color: 'bg-emerald-50 text-emerald-600 border-emerald-100' },
+};
+
+interface NotificationItemProps {
+  notification: AppNotification;
+  onOpen: (notification: AppNotification) => void;
+  onMarkRead?: (id: string) => void;
+  compact?: boolean;
+}
+
+export const NotificationItem: React.FC<NotificationItemProps> = ({ notification, onOpen, onMarkRead, compact }) => {
+  const meta = NOTIFICATION_TYPE_META[notification.type];
+  const Icon = meta.icon;
+
+  return (
+    <div
+      onClick={() => onOpen(notification)}
+      className={`group flex items-start gap-4 rounded-2xl cursor-pointer transition-all ${compact ? 'p-3' : 'p-5 border border-white/80 bg-white/60 hover:bg-white hover:shadow-md'} ${!notification.read ? 'bg-indigo-50/40' : 'hover:bg-slate-50'}`}
+    >
+      <div className={`p-2.5 rounded-xl border shrink-0 ${meta.color}`}>
+        <Icon className="h-4 w-4" />
+      </div>
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center gap-2">
+          <p className={`text-xs font-black truncate ${notification.read ? 'text-slate-500' : 'text-slate-900'}`}>{notification.title}</p>
+          {!notification.read && <span className="h-1.5 w-1.5 rounded-full bg-indigo-500 shrink-0" />}
+        </div>
+        <p className={`text-xs font-medium text-slate-500 mt-0.5 ${compact ? 'line-clamp-2' : ''}`}>{notification.message}</p>
+        <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mt-1.5">
+          {formatDateTime(notification.createdAt)}{notification.actor ? ` • by ${notification.actor}` : ''}
+        </p>
+      </div>
+      {onMarkRead && !notification.read && (
+        <button
+          onClick={(e) => { e.stopPropagation(); onMarkRead(notification.id); }}
+          className="p-2 text-slate-300 hover:text-emerald-600 hover:bg-emerald-50 rounded-xl transition-all opacity-0 group-hover:opacity-100 shrink-0"
+          title="Mark as read"
+        >
+          <Check className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+  );
+};
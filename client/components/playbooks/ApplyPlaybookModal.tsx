@@ -0,0 +1,114 @@
+import React, { useState, useEffect } from 'react';
+import { X, BookOpen, Link2 } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Playbook } from '../../types';
+import { CustomSelect } from '../ui/CustomSelect';
+import { CustomDatePicker } from '../ui/CustomDatePicker';
+import { addDaysToDate, formatDate } from '../../utils';
+import { useAuth } from '../../context/AuthContext';
+
+interface ApplyPlaybookModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onApply: (playbook: Playbook, startDate: string) => Promise<void>;
+  playbooks: Playbook[];
+  companyName: string;
+  appliedIds?: number[]; // Playbooks that already created tasks for this client
+}
+
+export const ApplyPlaybookModal: React.FC<ApplyPlaybookModalProps> = ({ isOpen, onClose, onApply, playbooks, companyName, appliedIds = [] }) => {
+  const { isReadOnly } = useAuth();
+  const [playbookId, setPlaybookId] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [isApplying, setIsApplying] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setPlaybookId(playbooks.length === 1 ? playbooks[0].id.toString() : '');
+      setStartDate(new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Kolkata' }).format(new Date()));
+    }
+  }, [isOpen, playbooks]);
+
+  if (!isOpen) return null;
+
+  const playbook = playbooks.find(p => p.id.toString() === playbookId);
+  const templates = playbook ? [...playbook.tasks].sort((a, b) => a.offsetDays - b.offsetDays) : [];
+
+  const handleApply = async () => {
+    if (!playbook || !startDate) return;
+    setIsApplying(true);
+    try {
+      await onApply(playbook, startDate);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-950/40 backdrop-blur-md p-6 animate-in fade-in duration-300" onClick={onClose}>
+      <div className="bg-white/90 backdrop-blur-3xl rounded-[3rem] shadow-2xl w-full max-w-2xl border border-white/60 relative max-h-[90vh] overflow-y-auto custom-scrollbar" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-6 right-6 p-2 text-slate-400 hover:text-slate-900 bg-white/50 hover:bg-white rounded-full transition-all">
+          <X className="h-5 w-5" />
+        </button>
+
+        <div className="p-10 space-y-6">
+          <div>
+            <p className="text-[10px] font-black text-indigo-600 uppercase tracking-widest mb-2 flex items-center gap-2">
+              <BookOpen className="h-3.5 w-3.5" /> Run Playbook
+            </p>
+            <h3 className="text-2xl font-black text-slate-900 tracking-tight pr-10">{companyName}</h3>
+          </div>
+
+          {playbooks.length === 0 ? (
+            <div className="p-8 text-center bg-slate-50 rounded-[2rem] border border-slate-100">
+              <p className="text-sm font-bold text-slate-500 mb-3">No playbooks have been created yet.</p>
+              <Link to="/playbooks" className="text-[10px] font-black text-indigo-600 uppercase tracking-widest hover:underline">Create one</Link>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <CustomSelect
+                  label="Playbook"
+                  value={playbookId}
+                  onChange={setPlaybookId}
+                  placeholder="Select a playbook..."
+                  options={playbooks.map(p => ({ label: appliedIds.includes(p.id) ? `${p.name} (already run)` : p.name, value: p.id.toString() }))}
+                />
+                <CustomDatePicker label="Start Date" value={startDate} onChange={setStartDate} />
+              </div>
+
+              {playbook && (
+                <div className="space-y-2">
+                  {playbook.description && <p className="text-xs font-medium text-slate-500 ml-1 mb-3">{playbook.description}</p>}
+                  {templates.map(template => (
+                    <div key={template.key} className="flex items-center gap-3 px-5 py-3 bg-white border border-slate-100 rounded-2xl">
+                      <span className="text-[10px] font-black text-indigo-600 uppercase tracking-widest w-24 shrink-0">{startDate ? formatDate(addDaysToDate(startDate, template.offsetDays)) : `Day ${template.offsetDays}`}</span>
+                      <span className="text-sm font-bold text-slate-700 truncate flex-1">{template.title}</span>
+                      {template.blockedBy?.length ? <span title="Waits on another task"><Link2 className="h-3.5 w-3.5 text-slate-300" /></span> : null}
+                      <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest shrink-0">{template.taskType || 'General'}</span>
+                      <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest shrink-0 w-24 truncate text-right">{template.assignedTo || 'Unassigned'}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="flex gap-4">
+            <button type="button" onClick={onClose} className="flex-1 py-4 text-[11px] font-black uppercase tracking-widest text-slate-500 bg-slate-100 hover:bg-slate-200 rounded-2xl transition-colors">
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={!playbook || !startDate || isApplying || isReadOnly}
+              className="flex-1 py-4 text-[11px] font-black uppercase tracking-widest text-white bg-slate-950 hover:bg-slate-900 rounded-2xl shadow-xl transition-all active:scale-95 disabled:opacity-40"
+            >
+              {isApplying ? 'Creating Tasks...' : playbook ? `Create ${playbook.tasks.length} Tasks` : 'Create Tasks'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
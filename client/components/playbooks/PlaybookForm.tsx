@@ -0,0 +1,185 @@
+import React, { useState, useEffect } from 'react';
+import { X, Plus, Trash2, BookOpen, Zap, ChevronUp, ChevronDown } from 'lucide-react';
+import { Playbook, PlaybookTaskTemplate, TaskPriority, TaskType, User } from '../../types';
+import { CustomSelect } from '../ui/CustomSelect';
+import { UserSelect } from '../ui/UserSelect';
+import { useAuth } from '../../context/AuthContext';
+
+interface PlaybookFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (data: Omit<Playbook, 'id' | 'createdAt'>) => void;
+  initialData?: Playbook;
+  users: User[];
+}
+
+const TYPES: TaskType[] = ['General', 'Reel', 'Post', 'Story', 'Carousel', 'Video'];
+const PRIORITIES: TaskPriority[] = ['Low', 'Medium', 'High'];
+
+const newTemplate = (offsetDays: number): PlaybookTaskTemplate => ({
+  key: `tpl-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  title: '',
+  taskType: 'General',
+  priority: 'Medium',
+  offsetDays
+});
+
+export const PlaybookForm: React.FC<PlaybookFormProps> = ({ isOpen, onClose, onSubmit, initialData, users }) => {
+  const { isReadOnly } = useAuth();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [runOnOnboard, setRunOnOnboard] = useState(false);
+  const [templates, setTemplates] = useState<PlaybookTaskTemplate[]>([]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(initialData?.name || '');
+      setDescription(initialData?.description || '');
+      setRunOnOnboard(!!initialData?.runOnOnboard);
+      setTemplates(initialData?.tasks.length ? initialData.tasks : [newTemplate(0)]);
+    }
+  }, [isOpen, initialData]);
+
+  if (!isOpen) return null;
+
+  const updateTemplate = (key: string, patch: Partial<PlaybookTaskTemplate>) => {
+    setTemplates(prev => prev.map(t => t.key === key ? { ...t, ...patch } : t));
+  };
+
+  const removeTemplate = (key: string) => {
+    // Drop links to the removed template so no dangling keys are saved
+    setTemplates(prev => prev.filter(t => t.key !== key).map(t => t.blockedBy?.includes(key) ? { ...t, blockedBy: t.blockedBy.filter(k => k !== key) } : t));
+  };
+
+  const moveTemplate = (index: number, direction: -1 | 1) => {
+    setTemplates(prev => {
+      const next = [...prev];
+      [next[index], next[index + direction]] = [next[index + direction], next[index]];
+      return next;
+    });
+  };
+
+  const validTemplates = templates.filter(t => t.title.trim());
+  const canSubmit = !!name.trim() && validTemplates.length > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    const keys = new Set(validTemplates.map(t => t.key));
+    onSubmit({
+      name: name.trim(),
+      description: description.trim() || undefined,
+      runOnOnboard,
+      tasks: validTemplates.map(t => ({ ...t, title: t.title.trim(), blockedBy: (t.blockedBy || []).filter(k => keys.has(k)) }))
+    });
+  };
+
+  const labelClass = "block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1";
+  const inputClass = "w-full px-5 py-3.5 bg-white border border-gray-200 rounded-2xl text-sm font-bold focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none shadow-inner";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-950/40 backdrop-blur-md p-6 animate-in fade-in duration-300" onClick={onClose}>
+      <div className="bg-white/90 backdrop-blur-3xl rounded-[3rem] shadow-2xl w-full max-w-3xl border border-white/60 relative max-h-[90vh] overflow-y-auto custom-scrollbar" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-6 right-6 p-2 text-slate-400 hover:text-slate-900 bg-white/50 hover:bg-white rounded-full transition-all">
+          <X className="h-5 w-5" />
+        </button>
+
+        <form className="p-10 space-y-6" onSubmit={handleSubmit}>
+          <div>
+            <p className="text-[10px] font-black text-indigo-600 uppercase tracking-widest mb-2 flex items-center gap-2">
+              <BookOpen className="h-3.5 w-3.5" /> Playbook
+            </p>
+            <h3 className="text-2xl font-black text-slate-900 tracking-tight">{initialData ? 'Edit Playbook' : 'New Playbook'}</h3>
+          </div>
+
+          <div>
+            <label className={labelClass}>Name</label>
+            <input type="text" required className={inputClass} placeholder="e.g. Social Media Onboarding" value={name} onChange={e => setName(e.target.value)} />
+          </div>
+
+          <div>
+            <label className={labelClass}>Description</label>
+            <textarea className={`${inputClass} h-20 resize-none font-medium`} placeholder="When to use this playbook..." value={description} onChange={e => setDescription(e.target.value)} />
+          </div>
+
+          <button
+            type="button"
+            onClick={() => setRunOnOnboard(!runOnOnboard)}
+            className={`w-full p-5 rounded-[2rem] border flex items-center gap-4 text-left transition-all ${runOnOnboard ? 'bg-indigo-50 border-indigo-200' : 'bg-white border-slate-200'}`}
+          >
+            <div className={`p-3 rounded-2xl ${runOnOnboard ? 'bg-indigo-600 text-white shadow-lg' : 'bg-slate-100 text-slate-400'}`}>
+              <Zap className="h-5 w-5" />
+            </div>
+            <div className="flex-1">
+              <p className="text-[11px] font-black text-slate-900 uppercase tracking-widest">Run on onboarding</p>
+              <p className="text-[10px] text-slate-500 font-medium mt-0.5">Create these tasks automatically when a company moves to onboarded.</p>
+            </div>
+            <span className={`relative inline-flex h-7 w-12 items-center rounded-full transition-colors ${runOnOnboard ? 'bg-indigo-600' : 'bg-slate-300'}`}>
+              <span className={`inline-block h-5 w-5 transform rounded-full bg-white transition-transform duration-300 ${runOnOnboard ? 'translate-x-6' : 'translate-x-1'}`} />
+            </span>
+          </button>
+
+          <div className="space-y-4">
+            <label className={labelClass}>Tasks ({validTemplates.length})</label>
+            {templates.map((template, index) => {
+              const earlier = templates.slice(0, index).filter(t => t.title.trim());
+              return (
+                <div key={template.key} className="p-5 bg-slate-50/60 border border-slate-100 rounded-[2rem] space-y-4">
+                  <div className="flex items-center gap-2">
+                    <span className="text-[10px] font-black text-slate-300 w-6 text-center">{index + 1}</span>
+                    <input type="text" className={inputClass} placeholder="Task title" value={template.title} onChange={e => updateTemplate(template.key, { title: e.target.value })} />
+                    <div className="flex flex-col">
+                      <button type="button" disabled={index === 0} onClick={() => moveTemplate(index, -1)} className="p-1 text-slate-300 hover:text-slate-600 disabled:opacity-30"><ChevronUp className="h-4 w-4" /></button>
+                      <button type="button" disabled={index === templates.length - 1} onClick={() => moveTemplate(index, 1)} className="p-1 text-slate-300 hover:text-slate-600 disabled:opacity-30"><ChevronDown className="h-4 w-4" /></button>
+                    </div>
+                    <button type="button" onClick={() => removeTemplate(template.key)} className="p-2 text-slate-300 hover:text-rose-500 transition-colors">
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3 pl-8">
+                    <CustomSelect label="Type" value={template.taskType || 'General'} onChange={val => updateTemplate(template.key, { taskType: val as TaskType })} options={TYPES.map(t => ({ label: t, value: t }))} />
+                    <CustomSelect label="Priority" value={template.priority} onChange={val => updateTemplate(template.key, { priority: val as TaskPriority })} options={PRIORITIES.map(p => ({ label: p, value: p }))} />
+                    <div>
+                      <label className={labelClass}>Due on day</label>
+                      <input type="number" min="0" className={inputClass} value={template.offsetDays} onChange={e => updateTemplate(template.key, { offsetDays: Math.max(0, parseInt(e.target.value) || 0) })} />
+                    </div>
+                    <UserSelect label="Assignee" value={template.assigneeId || template.assignedTo || 'Unassigned'} onChange={(id, userName) => updateTemplate(template.key, { assigneeId: id, assignedTo: userName })} users={users} />
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3 pl-8">
+                    <CustomSelect
+                      label="After"
+                      value={template.blockedBy?.[0] || ''}
+                      onChange={val => updateTemplate(template.key, { blockedBy: val ? [val] : [] })}
+                      options={[{ label: 'No dependency', value: '' }, ...earlier.map(t => ({ label: t.title, value: t.key }))]}
+                      placeholder="No dependency"
+                    />
+                    <div>
+                      <label className={labelClass}>Briefing</label>
+                      <input type="text" className={inputClass} placeholder="Optional description" value={template.description || ''} onChange={e => updateTemplate(template.key, { description: e.target.value })} />
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+            <button
+              type="button"
+              onClick={() => setTemplates(prev => [...prev, newTemplate(prev.length ? prev[prev.length - 1].offsetDays : 0)])}
+              className="w-full py-4 border-2 border-dashed border-slate-200 rounded-[2rem] text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600 hover:border-indigo-200 transition-all flex items-center justify-center gap-2"
+            >
+              <Plus className="h-4 w-4" /> Add Task
+            </button>
+          </div>
+
+          <div className="flex gap-4">
+            <button type="button" onClick={onClose} className="flex-1 py-4 text-[11px] font-black uppercase tracking-widest text-slate-500 bg-slate-100 hover:bg-slate-200 rounded-2xl transition-colors">
+              Cancel
+            </button>
+            <button type="submit" disabled={!canSubmit || isReadOnly} className="flex-1 py-4 text-[11px] font-black uppercase tracking-widest text-white bg-slate-950 hover:bg-slate-900 rounded-2xl shadow-xl transition-all active:scale-95 disabled:opacity-40">
+              Save Playbook
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React from 'react';
+import { Link2, X, AlertTriangle, Lock, ArrowRight } from 'lucide-react';
+import { Task } from '../../types';
+import { CustomSelect } from '../ui/CustomSelect';
+import { formatDate, isTaskDone } from '../../utils';
+import { getBlockers, getBlockedTasks, wouldCreateDependencyCycle } from '../../services/taskDependencies';
+
+interface DependencyPickerProps {
+  taskId?: number; // Unset while the task is being created
+  dueDate?: string;
+  value: number[];
+  onChange: (blockedBy: number[]) => void;
+  tasks: Task[]; // Candidates, normally the other tasks of the same client
+  readOnly?: boolean;
+}
+
+export const DependencyPicker: React.FC<DependencyPickerProps> = ({ taskId, dueDate, value, onChange, tasks, readOnly = false }) => {
+  const blockers = getBlockers({ blockedBy: value }, tasks);
+  const blocking = taskId ? getBlockedTasks(taskId, tasks) : [];
+  const self = tasks.find(t => t.id === taskId);
+
+  // A new task has no dependents yet, so only self-links and existing picks are excluded
+  const options = tasks
+    .filter(t => t.id !== taskId && !value.includes(t.id) && t.status !== 'Dropped')
+    .filter(t => !taskId || !wouldCreateDependencyCycle(taskId, t.id, tasks))
+    .map(t => ({ label: `${t.title} · ${formatDate(t.dueDate)}`, value: t.id.toString() }));
+
+  if (readOnly && blockers.length === 0 && blocking.length === 0) return null;
+
+  const renderRow = (task: Task, warn: boolean, onRemove?: () => void) => (
+    <div key={task.id} className={`flex items-center gap-3 px-4 py-3 rounded-2xl border ${warn ? 'bg-rose-50/60 border-rose-100' : 'bg-white border-slate-100'}`}>
+      {isTaskDone(task) ? <Link2 className="h-3.5 w-3.5 text-emerald-500 shrink-0" /> : <Lock className="h-3.5 w-3.5 text-amber-500 shrink-0" />}
+      <span className={`text-sm font-bold truncate flex-1 ${isTaskDone(task) ? 'text-slate-400 line-through' : 'text-slate-700'}`}>{task.title}</span>
+      {warn && (
+        <span title="Scheduled out of order" className="shrink-0">
+          <AlertTriangle className="h-3.5 w-3.5 text-rose-500" />
+        </span>
+      )}
+      <span className={`text-[10px] font-black uppercase tracking-widest shrink-0 ${warn ? 'text-rose-600' : 'text-slate-400'}`}>{formatDate(task.dueDate)}</span>
+      {onRemove && (
+        <button type="button" onClick={onRemove} className="p-1 text-slate-300 hover:text-rose-500 transition-colors shrink-0">
+          <X className="h-3.5 w-3.5" />
+        </button>
+      )}
+    </div>
+  );
+
+  const conflicts = blockers.filter(b => !!dueDate && !!b.dueDate && !isTaskDone(b) && b.dueDate > dueDate);
+
+  return (
+    <div className="space-y-4 p-6 lg:p-8 bg-slate-50/50 border border-slate-100 rounded-[2.5rem]">
+      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
+        <Link2 className="h-4 w-4 text-indigo-500" /> Sequencing
+      </p>
+
+      {conflicts.length > 0 && (
+        <div className="flex items-start gap-2 px-4 py-3 rounded-2xl bg-rose-50 border border-rose-100 text-[11px] font-bold text-rose-700">
+          <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+          Due before {conflicts.length === 1 ? `"${conflicts[0].title}"` : `${conflicts.length} blockers`} {conflicts.length === 1 ? 'is' : 'are'} finished. Move the due date or the blocker.
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Blocked by</p>
+        {blockers.map(b => renderRow(b, conflicts.includes(b), readOnly ? undefined : () => onChange(value.filter(id => id !== b.id))))}
+        {blockers.length === 0 && readOnly && <p className="text-xs font-medium text-slate-400 ml-1">Nothing, ready to start.</p>}
+        {!readOnly && options.length > 0 && (
+          <CustomSelect value="" onChange={val => onChange([...value, parseInt(val)])} options={options} placeholder="Add a task that must finish first..." />
+        )}
+      </div>
+
+      {blocking.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1 flex items-center gap-1.5">Blocking <ArrowRight className="h-3 w-3" /></p>
+          {blocking.map(t => renderRow(t, !!dueDate && !!t.dueDate && t.dueDate < dueDate && t.status !== 'Dropped' && !(self && isTaskDone(self))))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React from 'react';
+import { Repeat } from 'lucide-react';
+import { RecurrenceFrequency, RecurrenceRule, RecurrenceScope } from '../../types';
+import { CustomSelect } from '../ui/CustomSelect';
+import { CustomDatePicker } from '../ui/CustomDatePicker';
+import { describeRecurrence, listOccurrenceDates } from '../../services/recurrence';
+import { formatDate } from '../../utils';
+
+interface RecurrenceEditorProps {
+  value?: RecurrenceRule;
+  startDate: string;
+  onChange: (rule: RecurrenceRule | undefined) => void;
+  // Only passed when editing an existing occurrence of a series
+  scope?: RecurrenceScope;
+  onScopeChange?: (scope: RecurrenceScope) => void;
+}
+
+const FREQUENCIES: { label: string, value: RecurrenceFrequency | 'none' }[] = [
+  { label: 'Does not repeat', value: 'none' },
+  { label: 'Daily', value: 'daily' },
+  { label: 'Weekly', value: 'weekly' },
+  { label: 'Monthly', value: 'monthly' },
+];
+
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+export const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ value, startDate, onChange, scope, onScopeChange }) => {
+  const isLocked = scope === 'this';
+  const endMode = value?.until ? 'until' : value?.count ? 'count' : 'never';
+
+  // The first few dates the schedule produces, so the rule can be checked before the series is saved
+  const upcoming = value && startDate
+    ? listOccurrenceDates({ ...value, startDate, count: Math.min(value.count || 3, 3) }, '9999-12-31')
+    : [];
+
+  const update = (patch: Partial<RecurrenceRule>) => {
+    if (value) onChange({ ...value, ...patch });
+  };
+
+  const handleFrequencyChange = (frequency: string) => {
+    if (frequency === 'none') return onChange(undefined);
+    const startDay = new Date(`${startDate || new Date().toISOString().split('T')[0]}T00:00:00`).getDay();
+    onChange({
+      frequency: frequency as RecurrenceFrequency,
+      interval: value?.interval || 1,
+      weekdays: frequency === 'weekly' ? (value?.weekdays?.length ? value.weekdays : [startDay]) : undefined,
+      startDate,
+      until: value?.until,
+      count: value?.count,
+    });
+  };
+
+  const toggleWeekday = (day: number) => {
+    const current = value?.weekdays || [];
+    const next = current.includes(day) ? current.filter(d => d !== day) : [...current, day].sort();
+    if (next.length > 0) update({ weekdays: next });
+  };
+
+  const handleEndModeChange = (mode: string) => {
+    if (mode === 'until') update({ until: startDate, count: undefined });
+    else if (mode === 'count') update({ until: undefined, count: 10 });
+    else update({ until: undefined, count: undefined });
+  };
+
+  return (
+    <div className="p-6 lg:p-8 bg-slate-50/50 rounded-[2.5rem] border border-slate-100 shadow-inner space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1 flex items-center gap-2">
+          <Repeat className="h-3.5 w-3.5" /> Recurrence
+        </label>
+        {scope && onScopeChange && (
+          <div className="flex items-center gap-1 p-1 bg-white rounded-xl border border-slate-100">
+            {(['this', 'future'] as RecurrenceScope[]).map(s => (
+              <button
+                key={s}
+                type="button"
+                onClick={() => onScopeChange(s)}
+                className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${scope === s ? 'bg-slate-950 text-white shadow' : 'text-slate-400 hover:text-slate-700'}`}
+              >
+                {s === 'this' ? 'This occurrence' : 'This & future'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <CustomSelect label="Repeats" value={value?.frequency || 'none'} onChange={handleFrequencyChange} options={FREQUENCIES} disabled={isLocked} />
+        {value && (
+          <div>
+            <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">
+              Every N {value.frequency === 'daily' ? 'days' : value.frequency === 'weekly' ? 'weeks' : 'months'}
+            </label>
+            <input type="number" min={1} max={99} disabled={isLocked}
+              className="w-full px-6 py-4 bg-white border border-gray-200 rounded-[1.5rem] text-sm font-bold focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none shadow-inner disabled:opacity-50"
+              value={value.interval || 1} onChange={e => update({ interval: Math.max(1, parseInt(e.target.value) || 1) })} />
+          </div>
+        )}
+      </div>
+
+      {value?.frequency === 'weekly' && (
+        <div className="flex items-center gap-2">
+          {WEEKDAYS.map((label, day) => (
+            <button
+              key={day}
+              type="button"
+              disabled={isLocked}
+              onClick={() => toggleWeekday(day)}
+              className={`h-10 w-10 rounded-xl text-xs font-black transition-all disabled:opacity-50 ${value.weekdays?.includes(day) ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-500/20' : 'bg-white text-slate-400 border border-slate-200 hover:border-indigo-300'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {value && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <CustomSelect
+            label="Ends"
+            value={endMode}
+            onChange={handleEndModeChange}
+            disabled={isLocked}
+            options={[{ label: 'Never', value: 'never' }, { label: 'On date', value: 'until' }, { label: 'After N times', value: 'count' }]}
+          />
+          {endMode === 'until' && !isLocked && (
+            <CustomDatePicker label="Last Occurrence" value={value.until || ''} onChange={date => update({ until: date })} />
+          )}
+          {endMode === 'count' && (
+            <div>
+              <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Occurrences</label>
+              <input type="number" min={1} max={500} disabled={isLocked}
+                className="w-full px-6 py-4 bg-white border border-gray-200 rounded-[1.5rem] text-sm font-bold focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none shadow-inner disabled:opacity-50"
+                value={value.count || 1} onChange={e => update({ count: Math.max(1, parseInt(e.target.value) || 1) })} />
+            </div>
+          )}
+        </div>
+      )}
+
+      {value && (
+        <p className="text-[10px] font-bold text-slate-500 ml-1">
+          {isLocked ? 'Only this occurrence will change. Switch to "This & future" to edit the schedule.' : describeRecurrence(value)}
+        </p>
+      )}
+      {value && !isLocked && upcoming.length > 0 && (
+        <p className="text-[10px] font-bold text-slate-400 ml-1">
+          Next: {upcoming.map(date => formatDate(date)).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Check, Plus, Trash2, ListChecks, Calendar, ChevronDown } from 'lucide-react';
+import { Subtask, User } from '../../types';
+import { UserSelect } from '../ui/UserSelect';
+import { CustomDatePicker } from '../ui/CustomDatePicker';
+import { formatDate, getSubtaskProgress } from '../../utils';
+
+interface SubtaskChecklistProps {
+  subtasks: Subtask[];
+  onChange: (subtasks: Subtask[]) => void;
+  users?: User[];
+  // Read-only hides structure edits; toggling done stays available unless disabled
+  readOnly?: boolean;
+  disableToggle?: boolean;
+}
+
+export const SubtaskChecklist: React.FC<SubtaskChecklistProps> = ({ subtasks, onChange, users = [], readOnly = false, disableToggle = false }) => {
+  const [draftTitle, setDraftTitle] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const progress = getSubtaskProgress(subtasks);
+
+  const updateItem = (id: string, patch: Partial<Subtask>) => {
+    onChange(subtasks.map(s => s.id === id ? { ...s, ...patch } : s));
+  };
+
+  const toggleItem = (item: Subtask) => {
+    updateItem(item.id, { isDone: !item.isDone, completedAt: !item.isDone ? new Date().toISOString() : undefined });
+  };
+
+  const addItem = () => {
+    const title = draftTitle.trim();
+    if (!title) return;
+    onChange([...subtasks, { id: `st-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`, title, isDone: false }]);
+    setDraftTitle('');
+  };
+
+  if (readOnly && subtasks.length === 0) return null;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3 ml-1">
+        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
+          <ListChecks className="h-4 w-4" /> Checklist
+        </p>
+        {progress && (
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{progress.done}/{progress.total} • {progress.percent}%</span>
+        )}
+      </div>
+
+      {progress && (
+        <div className="h-1.5 w-full bg-slate-100 rounded-full overflow-hidden mb-4">
+          <div className="h-full bg-emerald-500 rounded-full transition-all duration-500" style={{ width: `${progress.percent}%` }} />
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {subtasks.map(item => (
+          <div key={item.id} className="bg-white/60 border border-slate-100 rounded-2xl shadow-sm">
+            <div className="flex items-center gap-3 px-4 py-3">
+              <button
+                type="button"
+                disabled={disableToggle}
+                onClick={() => toggleItem(item)}
+                className={`h-5 w-5 rounded-md border flex items-center justify-center shrink-0 transition-all disabled:cursor-not-allowed ${item.isDone ? 'bg-emerald-500 border-emerald-500 text-white' : 'bg-white border-slate-300 hover:border-emerald-400'}`}
+              >
+                {item.isDone && <Check className="h-3.5 w-3.5" />}
+              </button>
+              {readOnly ? (
+                <span className={`flex-1 min-w-0 truncate text-sm font-bold ${item.isDone ? 'text-slate-400 line-through' : 'text-slate-800'}`}>{item.title}</span>
+              ) : (
+                <input
+                  className={`flex-1 min-w-0 bg-transparent text-sm font-bold outline-none ${item.isDone ? 'text-slate-400 line-through' : 'text-slate-800'}`}
+                  value={item.title}
+                  onChange={e => updateItem(item.id, { title: e.target.value })}
+                />
+              )}
+              {item.assignedTo && item.assignedTo !== 'Unassigned' && (
+                <span className="hidden sm:inline text-[9px] font-black text-indigo-600 bg-indigo-50 px-2 py-1 rounded-lg uppercase tracking-widest truncate max-w-[110px]">{item.assignedTo}</span>
+              )}
+              {item.dueDate && (
+                <span className="text-[9px] font-black text-slate-500 bg-slate-50 px-2 py-1 rounded-lg uppercase tracking-widest flex items-center gap-1 shrink-0">
+                  <Calendar className="h-2.5 w-2.5" /> {formatDate(item.dueDate).split(',')[0]}
+                </span>
+              )}
+              {!readOnly && (
+                <>
+                  <button type="button" onClick={() => setExpandedId(expandedId === item.id ? null : item.id)} className="p-1 text-slate-300 hover:text-slate-600 transition-colors" title="Assignee & due date">
+                    <ChevronDown className={`h-4 w-4 transition-transform ${expandedId === item.id ? 'rotate-180' : ''}`} />
+                  </button>
+                  <button type="button" onClick={() => onChange(subtasks.filter(s => s.id !== item.id))} className="p-1 text-slate-300 hover:text-rose-500 transition-colors" title="Remove item">
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </>
+              )}
+            </div>
+            {!readOnly && expandedId === item.id && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 px-4 pb-4 pt-1 border-t border-slate-50">
+                <UserSelect
+                  value={item.assigneeId || item.assignedTo || 'Unassigned'}
+                  onChange={(userId, userName) => updateItem(item.id, userId === 'Unassigned' ? { assigneeId: undefined, assignedTo: undefined } : { assigneeId: userId, assignedTo: userName })}
+                  users={users}
+                />
+                <CustomDatePicker value={item.dueDate || ''} onChange={date => updateItem(item.id, { dueDate: date || undefined })} placeholder="No due date" />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {!readOnly && (
+        <div className="flex items-center gap-3 mt-3">
+          <input
+            className="flex-1 px-5 py-3 bg-white border border-gray-200 rounded-2xl text-sm font-bold focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none shadow-inner"
+            placeholder="Add a step, e.g. Script, Shoot, Edit..."
+            value={draftTitle}
+            onChange={e => setDraftTitle(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); addItem(); } }}
+          />
+          <button type="button" onClick={addItem} className="p-3 bg-slate-950 text-white rounded-2xl shadow-xl active:scale-95 transition-all">
+            <Plus className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
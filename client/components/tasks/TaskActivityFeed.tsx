@@ -0,0 +1,232 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { MessageSquare, Send, Reply, Trash2, Eye, EyeOff, Activity, X } from 'lucide-react';
+import { TaskComment, User } from '../../types';
+import { taskCommentsApi, usersApi } from '../../services/api';
+import { useAuth } from '../../context/AuthContext';
+import { useToast } from '../../context/ToastContext';
+import { formatDateTime } from '../../utils';
+
+interface TaskActivityFeedProps {
+  taskId: number;
+  // Clients only see and post client-visible entries and cannot @mention
+  isClientView?: boolean;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const Initials: React.FC<{ name: string; isSystem?: boolean }> = ({ name, isSystem }) => (
+  <div className={`h-8 w-8 rounded-full flex items-center justify-center text-[10px] font-black shrink-0 border ${isSystem ? 'bg-slate-50 text-slate-400 border-slate-100' : 'bg-indigo-50 text-indigo-600 border-indigo-100'}`}>
+    {isSystem ? <Activity className="h-3.5 w-3.5" /> : name.slice(0, 2).toUpperCase()}
+  </div>
+);
+
+export const TaskActivityFeed: React.FC<TaskActivityFeedProps> = ({ taskId, isClientView = false }) => {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const [entries, setEntries] = useState<TaskComment[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState('');
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [replyTo, setReplyTo] = useState<TaskComment | null>(null);
+  const [shareWithClient, setShareWithClient] = useState(false);
+  const [isPosting, setIsPosting] = useState(false);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  // Client accounts never load internal entries, whatever view they are in
+  const isClientAccount = isClientView || user?.role === 'ROLE_CLIENT';
+
+  useEffect(() => {
+    setIsLoading(true);
+    (isClientAccount ? taskCommentsApi.getClientVisibleByTask(taskId) : taskCommentsApi.getByTask(taskId))
+      .then(setEntries)
+      .catch(() => setEntries([]))
+      .finally(() => setIsLoading(false));
+    if (!isClientAccount) usersApi.getAll().then(setUsers).catch(() => setUsers([]));
+  }, [taskId, isClientAccount]);
+
+  const visibleEntries = useMemo(() => {
+    const list = isClientView ? entries.filter(e => e.isClientVisible) : entries;
+    return [...list].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }, [entries, isClientView]);
+
+  const threads = useMemo(() => {
+    const roots = visibleEntries.filter(e => !e.parentId || !visibleEntries.some(p => p.id === e.parentId));
+    return roots.map(root => ({ root, replies: visibleEntries.filter(e => e.parentId === root.id) }));
+  }, [visibleEntries]);
+
+  const mentionOptions = useMemo(() => {
+    if (mentionQuery === null) return [];
+    return users.filter(u => u.name.toLowerCase().includes(mentionQuery.toLowerCase())).slice(0, 6);
+  }, [users, mentionQuery]);
+
+  const handleDraftChange = (value: string) => {
+    setDraft(value);
+    if (isClientView) return;
+    const caret = inputRef.current?.selectionStart ?? value.length;
+    const match = value.slice(0, caret).match(/(?:^|\s)@([\w ]{0,30})$/);
+    setMentionQuery(match ? match[1] : null);
+  };
+
+  const insertMention = (target: User) => {
+    const caret = inputRef.current?.selectionStart ?? draft.length;
+    const before = draft.slice(0, caret).replace(/@([\w ]{0,30})$/, `@${target.name} `);
+    setDraft(before + draft.slice(caret));
+    setMentionQuery(null);
+    inputRef.current?.focus();
+  };
+
+  const handlePost = async () => {
+    const body = draft.trim();
+    if (!body || isPosting) return;
+    setIsPosting(true);
+    try {
+      const created = await taskCommentsApi.create({
+        taskId,
+        kind: 'comment',
+        body,
+        authorId: user?.id,
+        authorName: user?.name || 'Unknown',
+        mentions: users.filter(u => body.includes(`@${u.name}`)).map(u => u.id),
+        parentId: replyTo?.id,
+        // Replies follow their thread's visibility so a client never sees half a conversation
+        isClientVisible: isClientView || (replyTo ? replyTo.isClientVisible : shareWithClient),
+      });
+      setEntries(prev => [...prev, created]);
+      setDraft('');
+      setReplyTo(null);
+    } catch (e) {
+      showToast("Failed to post comment", "error");
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const handleDelete = async (entry: TaskComment) => {
+    const previous = [...entries];
+    setEntries(prev => prev.filter(e => e.id !== entry.id && e.parentId !== entry.id));
+    try {
+      await taskCommentsApi.delete(entry.id);
+    } catch (e) {
+      showToast("Failed to delete comment", "error");
+      setEntries(previous);
+    }
+  };
+
+  const renderBody = (entry: TaskComment) => {
+    const names = users.filter(u => entry.mentions?.includes(u.id)).map(u => escapeRegExp(u.name));
+    if (names.length === 0) return entry.body;
+    return entry.body.split(new RegExp(`(@(?:${names.join('|')}))`, 'g')).map((part, i) =>
+      i % 2 === 1 ? <span key={i} className="font-black text-indigo-600 bg-indigo-50 px-1 rounded">{part}</span> : part
+    );
+  };
+
+  const renderEntry = (entry: TaskComment, isReply = false) => {
+    const isSystem = entry.kind !== 'comment';
+    const canDelete = !isSystem && entry.authorId !== undefined && entry.authorId === user?.id;
+
+    if (isSystem) {
+      return (
+        <div key={entry.id} className="flex items-center gap-3 py-1">
+          <Initials name={entry.authorName} isSystem />
+          <p className="text-xs text-slate-500 font-medium">
+            <span className="font-black text-slate-700">{entry.authorName}</span> {entry.body}
+            <span className="text-[10px] text-slate-400 ml-2">{formatDateTime(entry.createdAt)}</span>
+          </p>
+        </div>
+      );
+    }
+
+    return (
+      <div key={entry.id} className={`flex gap-3 ${isReply ? 'ml-11' : ''}`}>
+        <Initials name={entry.authorName} />
+        <div className="flex-1 min-w-0 bg-white/70 border border-slate-100 rounded-2xl px-4 py-3 shadow-sm">
+          <div className="flex items-center justify-between gap-3 mb-1">
+            <p className="text-xs font-black text-slate-900 truncate">
+              {entry.authorName}
+              {!isClientView && entry.isClientVisible && (
+                <span className="ml-2 text-[8px] font-black text-emerald-600 bg-emerald-50 px-1.5 py-0.5 rounded uppercase tracking-widest">Client visible</span>
+              )}
+            </p>
+            <span className="text-[10px] text-slate-400 font-bold shrink-0">{formatDateTime(entry.createdAt)}</span>
+          </div>
+          <p className="text-sm text-slate-700 whitespace-pre-wrap break-words">{renderBody(entry)}</p>
+          <div className="flex items-center gap-4 mt-2">
+            {!isReply && (
+              <button type="button" onClick={() => { setReplyTo(entry); inputRef.current?.focus(); }} className="text-[10px] font-black text-slate-400 hover:text-indigo-600 uppercase tracking-widest flex items-center gap-1">
+                <Reply className="h-3 w-3" /> Reply
+              </button>
+            )}
+            {canDelete && (
+              <button type="button" onClick={() => handleDelete(entry)} className="text-[10px] font-black text-slate-400 hover:text-rose-600 uppercase tracking-widest flex items-center gap-1">
+                <Trash2 className="h-3 w-3" /> Delete
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-4 border-b border-gray-100 pb-2 flex items-center gap-2">
+        <MessageSquare className="h-4 w-4" /> {isClientView ? 'Feedback Thread' : 'Activity & Comments'}
+      </p>
+
+      <div className="space-y-4 max-h-[360px] overflow-y-auto custom-scrollbar pr-1">
+        {isLoading ? (
+          <p className="text-xs text-slate-400 font-medium">Loading activity...</p>
+        ) : threads.length === 0 ? (
+          <p className="text-xs text-slate-400 font-medium italic">No activity yet. Start the conversation below.</p>
+        ) : threads.map(({ root, replies }) => (
+          <div key={root.id} className="space-y-2">
+            {renderEntry(root)}
+            {replies.map(reply => renderEntry(reply, true))}
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-5 relative">
+        {replyTo && (
+          <div className="flex items-center justify-between mb-2 px-3 py-1.5 bg-indigo-50 rounded-xl text-[10px] font-bold text-indigo-600">
+            <span className="truncate">Replying to {replyTo.authorName}</span>
+            <button type="button" onClick={() => setReplyTo(null)}><X className="h-3 w-3" /></button>
+          </div>
+        )}
+        <textarea
+          ref={inputRef}
+          rows={2}
+          className="w-full px-5 py-4 bg-white border border-gray-200 rounded-[1.5rem] text-sm font-medium focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none shadow-inner resize-none"
+          placeholder={isClientView ? 'Share feedback with the team...' : 'Write a comment, use @ to mention a teammate...'}
+          value={draft}
+          onChange={e => handleDraftChange(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Escape') setMentionQuery(null);
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) { e.preventDefault(); handlePost(); }
+          }}
+        />
+        {mentionOptions.length > 0 && (
+          <div className="absolute left-4 bottom-full mb-2 w-64 bg-white border border-gray-100 rounded-2xl shadow-2xl p-2 z-10">
+            {mentionOptions.map(u => (
+              <button key={u.id} type="button" onClick={() => insertMention(u)} className="w-full text-left px-3 py-2 rounded-xl text-sm font-bold text-slate-700 hover:bg-indigo-50 hover:text-indigo-600 transition-colors truncate">
+                @{u.name}
+              </button>
+            ))}
+          </div>
+        )}
+        <div className="flex items-center justify-between mt-3">
+          {!isClientView && !replyTo ? (
+            <button type="button" onClick={() => setShareWithClient(!shareWithClient)} className={`text-[10px] font-black uppercase tracking-widest flex items-center gap-1.5 transition-colors ${shareWithClient ? 'text-emerald-600' : 'text-slate-400 hover:text-slate-600'}`}>
+              {shareWithClient ? <Eye className="h-3.5 w-3.5" /> : <EyeOff className="h-3.5 w-3.5" />}
+              {shareWithClient ? 'Visible to client' : 'Internal only'}
+            </button>
+          ) : <span />}
+          <button type="button" onClick={handlePost} disabled={!draft.trim() || isPosting} className="px-6 py-3 bg-slate-950 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest shadow-xl active:scale-95 transition-all flex items-center gap-2 disabled:opacity-40">
+            <Send className="h-3.5 w-3.5 text-indigo-400" /> Post
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,37 +1,53 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { X, Save, Calendar, User as UserIcon, AlignLeft, Flag, CheckCircle, History, Link as LinkIcon, ExternalLink, Edit2, Clock, Building, Maximize2, Minimize2, Briefcase, FileText, Trash2 } from 'lucide-react';
-import { Task, TaskPriority, TaskStatus, TaskType, User } from '../../types';
+import { X, Save, Calendar, User as UserIcon, AlignLeft, Flag, CheckCircle, History, Link as LinkIcon, ExternalLink, Edit2, Clock, Building, Maximize2, Minimize2, Briefcase, FileText, Trash2, Repeat, Video } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Task, TaskPriority, TaskStatus, TaskType, User, RecurrenceScope, Subtask } from '../../types';
 import { CustomDatePicker } from '../ui/CustomDatePicker';
 import { CustomSelect } from '../ui/CustomSelect';
 import { UserSelect } from '../ui/UserSelect';
+import { RecurrenceEditor } from './RecurrenceEditor';
+import { SubtaskChecklist } from './SubtaskChecklist';
+import { TaskActivityFeed } from './TaskActivityFeed';
+import { ContentDetailsEditor } from '../content/ContentDetailsEditor';
+import { RecordTabs, RecordTab } from '../audit/RecordTabs';
+import { RecordHistory } from '../audit/RecordHistory';
 import { formatDate, formatDateTime } from '../../utils';
+import { describeRecurrence } from '../../services/recurrence';
+import { isContentTask, getClientPlatforms } from '../../services/contentCalendar';
 import { usersApi } from '../../services/api';
+import { useAuth } from '../../context/AuthContext';
 
 interface TaskFormProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (data: Partial<Task>) => void;
+  onSubmit: (data: Partial<Task>, scope?: RecurrenceScope) => void;
   initialData?: Task;
   companyMap?: Record<number, string>;
   onDelete?: (id: number) => void;
+  onReverted?: (id: number, patch: Partial<Task>) => void; // A version was restored from the History tab
 }
 
 const PRIORITIES: TaskPriority[] = ['Low', 'Medium', 'High'];
-const STATUSES: TaskStatus[] = ['Not Started', 'In Progress', 'In Review', 'Posted', 'Completed'];
+const STATUSES: TaskStatus[] = ['Not Started', 'In Progress', 'In Review', 'Approved', 'Posted', 'Completed'];
 const TYPES: TaskType[] = ['General', 'Reel', 'Post', 'Story', 'Carousel', 'Video'];
 
-export const TaskForm: React.FC<TaskFormProps> = ({ isOpen, onClose, onSubmit, initialData, companyMap, onDelete }) => {
+export const TaskForm: React.FC<TaskFormProps> = ({ isOpen, onClose, onSubmit, initialData, companyMap, onDelete, onReverted }) => {
+  const { isReadOnly } = useAuth();
   const [formData, setFormData] = useState<Partial<Task>>({});
   const [mode, setMode] = useState<'view' | 'edit'>('view');
   const [users, setUsers] = useState<User[]>([]);
   const [isNotesExpanded, setIsNotesExpanded] = useState(false);
+  const [scope, setScope] = useState<RecurrenceScope>('this');
+  const [tab, setTab] = useState<RecordTab>('details');
   
   // Removed editorRef auto-resize logic
 
   useEffect(() => {
     if (isOpen) {
         usersApi.getAll().then(setUsers);
+        setScope('this');
+        setTab('details');
         if (initialData) {
             setFormData(initialData);
             setMode('view');
@@ -58,6 +74,13 @@ export const TaskForm: React.FC<TaskFormProps> = ({ isOpen, onClose, onSubmit, i
       setFormData(prev => ({ ...prev, assigneeId: userId, assignedTo: userName }));
   };
 
+  // Ticking items in view mode saves straight away without leaving the modal
+  const handleChecklistToggle = (subtasks: Subtask[]) => {
+      const next = { ...formData, subtasks };
+      setFormData(next);
+      onSubmit(next, initialData?.seriesId ? 'this' : undefined);
+  };
+
   return (
     <>
     {isNotesExpanded && (
@@ -129,8 +152,21 @@ export const TaskForm: React.FC<TaskFormProps> = ({ isOpen, onClose, onSubmit, i
         </div>
 
         <div className="overflow-y-auto p-6 lg:p-10 pb-20 flex-1 custom-scrollbar">
-            {mode === 'view' ? (
+            {mode === 'view' && tab === 'history' && initialData?.id ? (
                 <div className="space-y-8 animate-premium">
+                    <RecordTabs value={tab} onChange={setTab} />
+                    <RecordHistory
+                        entity="task"
+                        recordId={initialData.id}
+                        onReverted={(patch) => {
+                            setFormData(prev => ({ ...prev, ...patch }));
+                            onReverted?.(initialData.id, patch as Partial<Task>);
+                        }}
+                    />
+                </div>
+            ) : mode === 'view' ? (
+                <div className="space-y-8 animate-premium">
+                    {initialData?.id ? <RecordTabs value={tab} onChange={setTab} /> : null}
                     <div className="flex justify-between items-start">
                         <div>
                             <div className="flex flex-wrap items-center gap-2 mb-4">
@@ -140,6 +176,16 @@ export const TaskForm: React.FC<TaskFormProps> = ({ isOpen, onClose, onSubmit, i
                                 <span className={`px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border border-slate-100 bg-slate-50 text-slate-500`}>
                                     {formData.status} • {formData.priority} Priority
                                 </span>
+                                {formData.recurrence && (
+                                    <span className="px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border border-violet-100 bg-violet-50 text-violet-700 flex items-center gap-1.5">
+                                        <Repeat className="h-3 w-3" /> {describeRecurrence(formData.recurrence)}
+                                    </span>
+                                )}
+                                {formData.sourceMeetingId && (
+                                    <Link to="/meetings" state={{ openMeetingId: formData.sourceMeetingId }} onClick={onClose} className="px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border border-purple-100 bg-purple-50 text-purple-700 flex items-center gap-1.5 hover:bg-purple-100 transition-colors">
+                                        <Video className="h-3 w-3" /> From meeting
+                                    </Link>
+                                )}
                             </div>
                             <h3 className="text-3xl lg:text-4xl font-black text-slate-900 tracking-tighter leading-tight">{formData.title}</h3>
                         </div>
@@ -177,6 +223,8 @@ export const TaskForm: React.FC<TaskFormProps> = ({ isOpen, onClose, onSubmit, i
                         </div>
                     )}
 
+                    {isContentTask(formData) && <ContentDetailsEditor value={formData.content} onChange={() => {}} platforms={getClientPlatforms()} readOnly />}
+
                     <div>
                         <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3 border-b border-gray-100 pb-2 flex items-center gap-2">
                             <AlignLeft className="h-4 w-4" /> Strategic Briefing
@@ -186,6 +234,10 @@ export const TaskForm: React.FC<TaskFormProps> = ({ isOpen, onClose, onSubmit, i
                         </div>
                     </div>
 
+                    <SubtaskChecklist subtasks={formData.subtasks || []} onChange={handleChecklistToggle} users={users} readOnly />
+
+                    {initialData?.id ? <TaskActivityFeed taskId={initialData.id} /> : null}
+
                     {formData.lastUpdatedBy && (
                         <div className="flex items-center justify-end pt-4 border-t border-slate-100 text-[9px] font-black text-slate-400 uppercase tracking-widest">
                             <History className="h-3 w-3 mr-2" />
@@ -194,7 +246,7 @@ export const TaskForm: React.FC<TaskFormProps> = ({ isOpen, onClose, onSubmit, i
                     )}
                 </div>
             ) : (
-                <form onSubmit={(e) => { e.preventDefault(); onSubmit(formData); onClose(); }} className="space-y-8 animate-premium">
+                <form onSubmit={(e) => { e.preventDefault(); onSubmit(formData, initialData?.seriesId ? scope : undefined); onClose(); }} className="space-y-8 animate-premium">
                     <div>
                         <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Objective Title</label>
                         <input type="text" required className="w-full px-6 lg:px-8 py-4 lg:py-5 bg-white border border-gray-200 rounded-[1.5rem] text-base lg:text-lg font-black focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all shadow-inner" 
@@ -231,6 +283,20 @@ export const TaskForm: React.FC<TaskFormProps> = ({ isOpen, onClose, onSubmit, i
                         </div>
                     </div>
 
+                    {isContentTask(formData) && (
+                        <ContentDetailsEditor value={formData.content} onChange={content => setFormData({...formData, content})} platforms={getClientPlatforms()} />
+                    )}
+
+                    <SubtaskChecklist subtasks={formData.subtasks || []} onChange={subtasks => setFormData({...formData, subtasks})} users={users} />
+
+                    <RecurrenceEditor
+                        value={formData.recurrence}
+                        startDate={formData.dueDate || ''}
+                        onChange={rule => setFormData({...formData, recurrence: rule})}
+                        scope={initialData?.seriesId ? scope : undefined}
+                        onScopeChange={setScope}
+                    />
+
                     <div>
                         <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Asset Reference (URL)</label>
                         <div className="relative group">
@@ -251,7 +317,7 @@ export const TaskForm: React.FC<TaskFormProps> = ({ isOpen, onClose, onSubmit, i
 
                     <div className="flex flex-col-reverse sm:flex-row justify-end gap-4 pt-6 border-t border-gray-100">
                         <button type="button" onClick={() => initialData?.id ? setMode('view') : onClose()} className="px-8 py-4 text-[11px] font-black text-slate-500 uppercase tracking-widest hover:text-slate-900 transition-colors">Discard</button>
-                        <button type="submit" className="px-10 py-4 text-[11px] font-black text-white bg-slate-950 hover:bg-slate-900 rounded-[1.5rem] shadow-2xl active:scale-95 transition-all flex items-center justify-center gap-3">
+                        <button type="submit" disabled={isReadOnly} className="px-10 py-4 text-[11px] font-black text-white bg-slate-950 hover:bg-slate-900 rounded-[1.5rem] shadow-2xl active:scale-95 transition-all flex items-center justify-center gap-3 disabled:opacity-40">
                             <Save className="h-4 w-4 text-indigo-400" /> Commit Milestone
                         </button>
                     </div>
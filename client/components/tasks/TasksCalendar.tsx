@@ -1,15 +1,19 @@
 import React, { useState, useMemo } from 'react';
 import { Task } from '../../types';
-import { ChevronLeft, ChevronRight, Plus, Clock, Target } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Plus, Clock, Target, Repeat } from 'lucide-react';
 import { getTaskStatusStyles, getTaskPriorityStyles } from '../../utils';
+import { describeRecurrence } from '../../services/recurrence';
 
 interface TasksCalendarProps {
   tasks: Task[];
   onEdit: (task: Task) => void;
   onCreateAt?: (dateStr: string) => void;
+  // Dragging is only enabled when the caller can reschedule
+  onReschedule?: (task: Task, dueDate: string) => void;
 }
 
-export const TasksCalendar: React.FC<TasksCalendarProps> = ({ tasks, onEdit, onCreateAt }) => {
+export const TasksCalendar: React.FC<TasksCalendarProps> = ({ tasks, onEdit, onCreateAt, onReschedule }) => {
+    const [dragOverDate, setDragOverDate] = useState<string | null>(null);
     const [viewDate, setViewDate] = useState(() => {
         const d = new Date();
         return new Date(d.getFullYear(), d.getMonth(), 1);
@@ -28,6 +32,14 @@ export const TasksCalendar: React.FC<TasksCalendarProps> = ({ tasks, onEdit, onC
         return new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Kolkata' }).format(new Date());
     }, []);
 
+    const handleDrop = (e: React.DragEvent, dateStr: string) => {
+        if (!onReschedule) return;
+        e.preventDefault();
+        setDragOverDate(null);
+        const task = tasks.find(t => t.id === parseInt(e.dataTransfer.getData("taskId")));
+        if (task && task.dueDate !== dateStr) onReschedule(task, dateStr);
+    };
+
     const renderCells = () => {
         const cells = [];
         
@@ -44,7 +56,10 @@ export const TasksCalendar: React.FC<TasksCalendarProps> = ({ tasks, onEdit, onC
             cells.push(
                 <div 
                     key={day} 
-                    className={`group relative border-b border-r border-slate-100 min-h-[120px] p-3 transition-all hover:bg-white/80 ${isToday ? 'bg-indigo-50/30' : 'bg-white/40'}`}
+                    onDragOver={(e) => { if (onReschedule) { e.preventDefault(); setDragOverDate(dateStr); } }}
+                    onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setDragOverDate(null); }}
+                    onDrop={(e) => handleDrop(e, dateStr)}
+                    className={`group relative border-b border-r border-slate-100 min-h-[120px] p-3 transition-all hover:bg-white/80 ${dragOverDate === dateStr ? 'bg-indigo-50/60 ring-2 ring-inset ring-indigo-300' : isToday ? 'bg-indigo-50/30' : 'bg-white/40'}`}
                 >
                     <div className="flex justify-between items-start mb-3">
                         <span className={`flex items-center justify-center w-8 h-8 rounded-xl text-xs font-black transition-all ${
@@ -68,13 +83,19 @@ export const TasksCalendar: React.FC<TasksCalendarProps> = ({ tasks, onEdit, onC
                             <button 
                                 key={task.id} 
                                 onClick={() => onEdit(task)}
-                                className={`w-full text-left p-1.5 rounded-xl border text-[9px] font-black uppercase tracking-tighter shadow-sm transition-all hover:scale-[1.02] hover:shadow-md active:scale-95 flex items-center gap-1.5 ${getTaskStatusStyles(task.status)} bg-white/60 backdrop-blur-sm`}
+                                draggable={!!onReschedule}
+                                onDragStart={(e) => {
+                                    e.dataTransfer.setData("taskId", task.id.toString());
+                                    e.dataTransfer.effectAllowed = "move";
+                                }}
+                                className={`w-full ${onReschedule ? 'cursor-grab active:cursor-grabbing' : ''} text-left p-1.5 rounded-xl border text-[9px] font-black uppercase tracking-tighter shadow-sm transition-all hover:scale-[1.02] hover:shadow-md active:scale-95 flex items-center gap-1.5 ${getTaskStatusStyles(task.status)} bg-white/60 backdrop-blur-sm`}
                             >
                                 <div className={`w-1 h-1 rounded-full shrink-0 ${
                                     task.priority === 'High' ? 'bg-rose-500 animate-pulse' : 
                                     task.priority === 'Medium' ? 'bg-amber-500' : 'bg-emerald-500'
                                 }`} />
                                 <span className="truncate">{task.title}</span>
+                                {task.recurrence && <span title={describeRecurrence(task.recurrence)} className="ml-auto shrink-0"><Repeat className="h-2.5 w-2.5" /></span>}
                             </button>
                         ))}
                         
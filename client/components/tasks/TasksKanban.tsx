@@ -1,8 +1,10 @@
 
 import React, { useState } from 'react';
 import { Task, TaskStatus } from '../../types';
-import { getTaskPriorityStyles, isRecentlyUpdated, formatDate } from '../../utils';
-import { MoreHorizontal, Plus, Calendar } from 'lucide-react';
+import { getTaskPriorityStyles, isRecentlyUpdated, formatDate, getSubtaskProgress } from '../../utils';
+import { describeRecurrence } from '../../services/recurrence';
+import { MoreHorizontal, Plus, Calendar, Repeat, ListChecks } from 'lucide-react';
+import { TaskTimerButton } from '../time/TaskTimerButton';
 
 interface TasksKanbanProps {
   tasks: Task[];
@@ -100,6 +102,7 @@ const KanbanColumn: React.FC<KanbanColumnProps> = ({
                     const isCompleted = (task.status === 'Completed' || task.status === 'Done');
                     const shouldAnimate = isCompleted && isRecentlyUpdated(task.lastUpdatedAt, 10);
                     const userAvatarUrl = task.assignedTo && userAvatarMap ? userAvatarMap[task.assignedTo] : undefined;
+                    const checklist = getSubtaskProgress(task.subtasks);
 
                     return (
                     <div 
@@ -127,26 +130,41 @@ const KanbanColumn: React.FC<KanbanColumnProps> = ({
                                 </button>
                             )}
                         </div>
-                        <h4 className="text-sm font-semibold text-gray-800 mb-1 leading-snug">{task.title}</h4>
+                        <h4 className="text-sm font-semibold text-gray-800 mb-1 leading-snug">
+                            {task.recurrence && <span title={describeRecurrence(task.recurrence)} className="inline-block mr-1.5 align-[-1px]"><Repeat className="h-3 w-3 text-violet-500" /></span>}
+                            {task.title}
+                        </h4>
                         {task.description && (
                             <p className="text-xs text-gray-500 line-clamp-2 mb-3">{task.description}</p>
                         )}
+                        {checklist && (
+                            <div className="flex items-center gap-2 mb-2">
+                                <ListChecks className={`h-3 w-3 shrink-0 ${checklist.done === checklist.total ? 'text-emerald-500' : 'text-gray-400'}`} />
+                                <div className="h-1 flex-1 bg-gray-100 rounded-full overflow-hidden">
+                                    <div className="h-full bg-emerald-500 rounded-full transition-all" style={{ width: `${checklist.percent}%` }} />
+                                </div>
+                                <span className="text-[10px] font-bold text-gray-400">{checklist.done}/{checklist.total}</span>
+                            </div>
+                        )}
                         <div className="flex items-center justify-between pt-2 border-t border-gray-50 mt-2">
                             <div className="flex items-center gap-1.5 text-gray-400 text-xs font-medium">
                                 <Calendar className="h-3 w-3" />
                                 {formatDate(task.dueDate).split(',')[0]}
                             </div>
-                            {task.assignedTo !== 'Unassigned' && (
-                                <>
-                                    {userAvatarUrl ? (
-                                        <img src={userAvatarUrl} alt={task.assignedTo} referrerPolicy="no-referrer" className="h-6 w-6 rounded-full object-cover border border-gray-100" />
-                                    ) : (
-                                        <div className="h-6 w-6 rounded-full bg-brand-50 text-brand-600 text-[10px] font-bold flex items-center justify-center border border-brand-100">
-                                            {task.assignedTo?.slice(0, 2).toUpperCase()}
-                                        </div>
-                                    )}
-                                </>
-                            )}
+                            <div className="flex items-center gap-2">
+                                {!readOnly && <TaskTimerButton task={task} />}
+                                {task.assignedTo !== 'Unassigned' && (
+                                    <>
+                                        {userAvatarUrl ? (
+                                            <img src={userAvatarUrl} alt={task.assignedTo} referrerPolicy="no-referrer" className="h-6 w-6 rounded-full object-cover border border-gray-100" />
+                                        ) : (
+                                            <div className="h-6 w-6 rounded-full bg-brand-50 text-brand-600 text-[10px] font-bold flex items-center justify-center border border-brand-100">
+                                                {task.assignedTo?.slice(0, 2).toUpperCase()}
+                                            </div>
+                                        )}
+                                    </>
+                                )}
+                            </div>
                         </div>
                     </div>
                 )})}
@@ -174,6 +192,7 @@ export const TasksKanban: React.FC<TasksKanbanProps> = ({ tasks, userAvatarMap,
         { title: 'To Do', status: 'Not Started', color: 'bg-slate-400' },
         { title: 'In Progress', status: 'In Progress', color: 'bg-amber-500' },
         { title: 'Review', status: 'In Review', color: 'bg-purple-500' },
+        { title: 'Approved', status: 'Approved', color: 'bg-teal-500' },
         { title: 'Posted', status: 'Posted', color: 'bg-sky-500' },
         { title: 'Done', status: 'Completed', color: 'bg-emerald-500' },
     ];
@@ -1,8 +1,10 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { Task, TaskPriority, TaskStatus } from '../../types';
-import { formatDate, getTaskPriorityStyles, getTaskStatusStyles, isRecentlyUpdated } from '../../utils';
-import { Edit2, Trash2, ChevronDown, Calendar, Check, Building } from 'lucide-react';
+import { formatDate, getTaskPriorityStyles, getTaskStatusStyles, isRecentlyUpdated, getSubtaskProgress } from '../../utils';
+import { describeRecurrence } from '../../services/recurrence';
+import { Edit2, Trash2, ChevronDown, Calendar, Check, Building, Repeat, ListChecks } from 'lucide-react';
+import { TaskTimerButton } from '../time/TaskTimerButton';
 
 interface TasksTableProps {
   data: Task[];
@@ -41,7 +43,7 @@ const Avatar = ({ name, url }: { name: string | null | undefined; url?: string }
 const StatusDropdown = ({ task, onStatusChange }: { task: Task; onStatusChange: (t: Task, s: TaskStatus) => void }) => {
     const [isOpen, setIsOpen] = useState(false);
     const ref = useRef<HTMLDivElement>(null);
-    const options: TaskStatus[] = ['Not Started', 'In Progress', 'In Review', 'Posted', 'Completed'];
+    const options: TaskStatus[] = ['Not Started', 'In Progress', 'In Review', 'Approved', 'Posted', 'Completed'];
 
     useEffect(() => {
         const handleClickOutside = (event: MouseEvent) => {
@@ -77,6 +79,7 @@ const StatusDropdown = ({ task, onStatusChange }: { task: Task; onStatusChange:
                                         opt === 'Completed' ? 'bg-green-500' : 
                                         opt === 'Posted' ? 'bg-sky-500' :
                                         opt === 'In Review' ? 'bg-purple-500' :
+                                        opt === 'Approved' ? 'bg-teal-500' :
                                         opt === 'In Progress' ? 'bg-blue-500' : 'bg-gray-400'
                                     }`} />
                                     <span className="truncate">{opt}</span>
@@ -158,6 +161,7 @@ export const TasksTable: React.FC<TasksTableProps> = ({ data, companyMap, userAv
                     const isCompleted = (task.status === 'Completed' || task.status === 'Done');
                     const shouldAnimate = isCompleted && isRecentlyUpdated(task.lastUpdatedAt, 10);
                     const userAvatarUrl = task.assignedTo && userAvatarMap ? userAvatarMap[task.assignedTo] : undefined;
+                    const checklist = getSubtaskProgress(task.subtasks);
 
                     return (
                     <tr 
@@ -167,12 +171,22 @@ export const TasksTable: React.FC<TasksTableProps> = ({ data, companyMap, userAv
                         {/* Name */}
                         <td className="px-6 py-5 align-top bg-white first:rounded-l-[1.5rem] border-y border-l border-gray-100 shadow-sm group-hover:shadow-md transition-all">
                             <div className="flex flex-col pr-4">
-                                <button onClick={() => onEdit(task)} className="text-sm font-bold text-gray-900 hover:text-brand-600 transition-colors text-left truncate block leading-snug w-full">
-                                    {task.title}
+                                <button onClick={() => onEdit(task)} className="text-sm font-bold text-gray-900 hover:text-brand-600 transition-colors text-left truncate flex items-center gap-1.5 leading-snug w-full">
+                                    {task.recurrence && <span title={describeRecurrence(task.recurrence)}><Repeat className="h-3 w-3 text-violet-500 shrink-0" /></span>}
+                                    <span className="truncate">{task.title}</span>
                                 </button>
                                 {task.description && (
                                     <p className="text-[10px] text-gray-400 truncate mt-0.5 font-medium w-full">{task.description}</p>
                                 )}
+                                {checklist && (
+                                    <div className="flex items-center gap-2 mt-2 max-w-[220px]" title={`${checklist.done} of ${checklist.total} checklist items done`}>
+                                        <ListChecks className={`h-3 w-3 shrink-0 ${checklist.done === checklist.total ? 'text-emerald-500' : 'text-gray-400'}`} />
+                                        <div className="h-1 flex-1 bg-gray-100 rounded-full overflow-hidden">
+                                            <div className="h-full bg-emerald-500 rounded-full transition-all" style={{ width: `${checklist.percent}%` }} />
+                                        </div>
+                                        <span className="text-[10px] font-bold text-gray-400">{checklist.done}/{checklist.total}</span>
+                                    </div>
+                                )}
                             </div>
                         </td>
 
@@ -211,7 +225,8 @@ export const TasksTable: React.FC<TasksTableProps> = ({ data, companyMap, userAv
 
                         {/* Priority (Custom Dropdown) */}
                         <td className="px-6 py-5 align-middle bg-white last:rounded-r-[1.5rem] border-y border-r border-gray-100 shadow-sm group-hover:shadow-md transition-all text-right">
-                             <div className="flex justify-end">
+                             <div className="flex justify-end items-center gap-2">
+                                <TaskTimerButton task={task} />
                                 <PriorityDropdown task={task} onPriorityChange={onPriorityChange} />
                              </div>
                         </td>
@@ -0,0 +1,19 @@
+import React, { useState, useEffect } from 'react';
+
+// Live h:mm:ss since startedAt; ticks on its own so the timer context never re-renders the app
+export const ElapsedTime: React.FC<{ startedAt: string; className?: string }> = ({ startedAt, className = '' }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const seconds = Math.max(0, Math.floor((now - new Date(startedAt).getTime()) / 1000));
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return (
+    <span className={`font-mono tabular-nums ${className}`}>
+      {Math.floor(seconds / 3600)}:{pad(Math.floor((seconds % 3600) / 60))}:{pad(seconds % 60)}
+    </span>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Play, Square } from 'lucide-react';
+import { Task } from '../../types';
+import { useTimeTracking } from '../../context/TimeTrackingContext';
+import { useAuth } from '../../context/AuthContext';
+import { ElapsedTime } from './ElapsedTime';
+
+interface TaskTimerButtonProps {
+  task: Pick<Task, 'id' | 'title' | 'companyId'>;
+  className?: string;
+}
+
+export const TaskTimerButton: React.FC<TaskTimerButtonProps> = ({ task, className = '' }) => {
+  const { activeTimer, startTimer, stopTimer } = useTimeTracking();
+  const { isReadOnly } = useAuth();
+  const isRunning = activeTimer?.taskId === task.id;
+
+  const handleClick = (e: React.MouseEvent) => {
+    // Rows and cards open the task on click
+    e.stopPropagation();
+    if (isRunning) stopTimer();
+    else startTimer(task);
+  };
+
+  if (isReadOnly && !isRunning) return null;
+
+  if (isRunning) {
+    return (
+      <button
+        type="button"
+        onClick={handleClick}
+        title="Stop timer and log time"
+        className={`inline-flex items-center gap-1.5 px-2 py-1 rounded-lg bg-rose-50 border border-rose-200 text-rose-600 text-[10px] font-black shadow-sm hover:bg-rose-100 active:scale-95 transition-all shrink-0 ${className}`}
+      >
+        <Square className="h-2.5 w-2.5 fill-rose-500" />
+        <ElapsedTime startedAt={activeTimer!.startedAt} />
+      </button>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      title={activeTimer ? `Switch timer from "${activeTimer.taskTitle}"` : 'Start timer'}
+      className={`inline-flex items-center justify-center h-7 w-7 rounded-lg border border-gray-200 bg-white text-gray-400 hover:text-emerald-600 hover:border-emerald-200 hover:bg-emerald-50 shadow-sm active:scale-95 transition-all shrink-0 ${className}`}
+    >
+      <Play className="h-3 w-3 fill-current" />
+    </button>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useState, useEffect } from 'react';
+import { Clock, X } from 'lucide-react';
+import { Task, TimeEntry } from '../../types';
+import { CustomSelect } from '../ui/CustomSelect';
+import { CustomDatePicker } from '../ui/CustomDatePicker';
+import { useAuth } from '../../context/AuthContext';
+
+type ManualEntryDraft = Omit<TimeEntry, 'id' | 'createdAt' | 'userId' | 'userName' | 'isManual'>;
+
+interface TimeEntryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (data: ManualEntryDraft) => Promise<void>;
+  tasks: Task[];
+  companyMap?: Record<number, string>;
+  defaultDate: string;
+}
+
+export const TimeEntryModal: React.FC<TimeEntryModalProps> = ({ isOpen, onClose, onSubmit, tasks, companyMap = {}, defaultDate }) => {
+  const { isReadOnly } = useAuth();
+  const [taskId, setTaskId] = useState('');
+  const [date, setDate] = useState(defaultDate);
+  const [hours, setHours] = useState('');
+  const [minutes, setMinutes] = useState('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setTaskId('');
+      setDate(defaultDate);
+      setHours('');
+      setMinutes('');
+      setNote('');
+    }
+  }, [isOpen, defaultDate]);
+
+  if (!isOpen) return null;
+
+  const durationMinutes = (parseInt(hours) || 0) * 60 + (parseInt(minutes) || 0);
+  const task = tasks.find(t => t.id.toString() === taskId);
+  const canSubmit = !!task && !!date && durationMinutes > 0 && !isSaving;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!task || !canSubmit) return;
+    setIsSaving(true);
+    try {
+      await onSubmit({ taskId: task.id, taskTitle: task.title, companyId: task.companyId, date, durationMinutes, note: note.trim() || undefined });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const labelClass = "block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1";
+  const inputClass = "w-full px-6 py-4 bg-white border border-gray-200 rounded-[1.5rem] text-sm font-bold focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none shadow-inner";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-950/40 backdrop-blur-md p-6 animate-in fade-in duration-300" onClick={onClose}>
+      <div className="bg-white/90 backdrop-blur-3xl rounded-[3rem] shadow-2xl w-full max-w-lg border border-white/60 relative" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-6 right-6 p-2 text-slate-400 hover:text-slate-900 bg-white/50 hover:bg-white rounded-full transition-all">
+          <X className="h-5 w-5" />
+        </button>
+
+        <form className="p-10 space-y-6" onSubmit={handleSubmit}>
+          <div>
+            <p className="text-[10px] font-black text-indigo-600 uppercase tracking-widest mb-2 flex items-center gap-2">
+              <Clock className="h-3.5 w-3.5" /> Manual Entry
+            </p>
+            <h3 className="text-2xl font-black text-slate-900 tracking-tight">Log Time</h3>
+          </div>
+
+          <CustomSelect
+            label="Task"
+            value={taskId}
+            onChange={setTaskId}
+            placeholder="Select a task..."
+            options={tasks.map(t => ({ value: t.id.toString(), label: t.companyId && companyMap[t.companyId] ? `${t.title} · ${companyMap[t.companyId]}` : t.title }))}
+          />
+
+          <CustomDatePicker label="Date" value={date} onChange={setDate} />
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Hours</label>
+              <input type="number" min="0" max="24" className={inputClass} placeholder="0" value={hours} onChange={e => setHours(e.target.value)} />
+            </div>
+            <div>
+              <label className={labelClass}>Minutes</label>
+              <input type="number" min="0" max="59" step="5" className={inputClass} placeholder="0" value={minutes} onChange={e => setMinutes(e.target.value)} />
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Note</label>
+            <textarea
+              className="w-full px-6 py-5 bg-white border border-gray-200 rounded-[1.5rem] text-sm font-medium focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none shadow-inner h-24 resize-none"
+              placeholder="What did you work on?"
+              value={note}
+              onChange={e => setNote(e.target.value)}
+            />
+          </div>
+
+          <div className="flex gap-4">
+            <button type="button" onClick={onClose} className="flex-1 py-4 text-[11px] font-black uppercase tracking-widest text-slate-500 bg-slate-100 hover:bg-slate-200 rounded-2xl transition-colors">
+              Cancel
+            </button>
+            <button type="submit" disabled={!canSubmit || isReadOnly} className="flex-1 py-4 text-[11px] font-black uppercase tracking-widest text-white bg-slate-950 hover:bg-slate-900 rounded-2xl shadow-xl transition-all active:scale-95 disabled:opacity-40">
+              {isSaving ? 'Logging...' : 'Log Time'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useState, useEffect } from 'react';
+import { AlertTriangle, Check, GitMerge, X } from 'lucide-react';
+import { AuditFieldChange } from '../../types';
+import { MergeChoice, MergeField, defaultChoices } from '../../services/concurrency';
+import { formatAuditValue } from '../../services/audit';
+
+interface ConflictMergeDialogProps {
+  isOpen: boolean;
+  recordLabel: string;
+  updatedBy?: string;
+  fields: MergeField[];
+  serverChanges: AuditFieldChange[];
+  onResolve: (choices: Record<string, MergeChoice>) => void;
+  onCancel: () => void;
+}
+
+export const ConflictMergeDialog: React.FC<ConflictMergeDialogProps> = ({ isOpen, recordLabel, updatedBy, fields, serverChanges, onResolve, onCancel }) => {
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>({});
+
+  useEffect(() => {
+    if (isOpen) setChoices(defaultChoices(fields));
+  }, [isOpen, fields]);
+
+  if (!isOpen) return null;
+
+  const conflictCount = fields.filter(f => f.isConflict).length;
+
+  const optionClass = (active: boolean) =>
+    `flex-1 min-w-0 text-left p-3 rounded-xl border transition-all ${active ? 'bg-slate-950 border-slate-950 text-white shadow-lg' : 'bg-white/60 border-slate-200 text-slate-700 hover:border-indigo-300'}`;
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center bg-slate-950/40 backdrop-blur-md p-6 animate-in fade-in duration-300" onClick={onCancel}>
+      <div className="bg-white/90 backdrop-blur-3xl rounded-[3rem] shadow-2xl w-full max-w-3xl border border-white/60 relative max-h-[90vh] overflow-y-auto custom-scrollbar" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onCancel} className="absolute top-6 right-6 p-2 text-slate-400 hover:text-slate-900 bg-white/50 hover:bg-white rounded-full transition-all">
+          <X className="h-5 w-5" />
+        </button>
+
+        <div className="p-10 space-y-6">
+          <div>
+            <p className="text-[10px] font-black text-amber-600 uppercase tracking-widest mb-2 flex items-center gap-2">
+              <AlertTriangle className="h-3.5 w-3.5" /> Edited Elsewhere
+            </p>
+            <h3 className="text-2xl font-black text-slate-900 tracking-tight">{recordLabel}</h3>
+            <p className="text-sm font-medium text-slate-500 mt-2">
+              {updatedBy ? `${updatedBy} saved this` : 'Someone saved this'} after you opened it.
+              {conflictCount > 0 ? ` ${conflictCount} of your changes clash with theirs.` : ' None of your changes clash with theirs.'} Pick which value to keep for each field.
+            </p>
+          </div>
+
+          <div className="space-y-3">
+            {fields.map(field => (
+              <div key={field.field} className={`p-4 rounded-2xl border ${field.isConflict ? 'bg-amber-50/60 border-amber-200' : 'bg-slate-50/60 border-slate-100'}`}>
+                <div className="flex items-center justify-between mb-3">
+                  <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{field.label}</p>
+                  {field.isConflict && <span className="text-[9px] font-black text-amber-700 uppercase tracking-widest">Conflict</span>}
+                </div>
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <button type="button" onClick={() => setChoices(prev => ({ ...prev, [field.field]: 'mine' }))} className={optionClass(choices[field.field] !== 'theirs')}>
+                    <span className="flex items-center gap-1.5 text-[9px] font-black uppercase tracking-widest opacity-70 mb-1">
+                      {choices[field.field] !== 'theirs' && <Check className="h-3 w-3" />} Yours
+                    </span>
+                    <span className="block text-sm font-bold break-words">{formatAuditValue(field.mine)}</span>
+                  </button>
+                  <button type="button" onClick={() => setChoices(prev => ({ ...prev, [field.field]: 'theirs' }))} className={optionClass(choices[field.field] === 'theirs')}>
+                    <span className="flex items-center gap-1.5 text-[9px] font-black uppercase tracking-widest opacity-70 mb-1">
+                      {choices[field.field] === 'theirs' && <Check className="h-3 w-3" />} Saved Version
+                    </span>
+                    <span className="block text-sm font-bold break-words">{formatAuditValue(field.theirs)}</span>
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {serverChanges.length > 0 && (
+            <div>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3 ml-1">Also changed by them, kept as is</p>
+              <div className="space-y-2">
+                {serverChanges.map(change => (
+                  <div key={change.field} className="flex flex-wrap items-center gap-2 text-xs px-4 py-2.5 bg-white/60 rounded-xl border border-slate-100">
+                    <span className="font-black text-slate-400 uppercase tracking-widest text-[10px] w-32 truncate">{change.label}</span>
+                    <span className="text-slate-400 line-through">{formatAuditValue(change.from)}</span>
+                    <span className="font-bold text-slate-700">{formatAuditValue(change.to)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-4">
+            <button type="button" onClick={onCancel} className="flex-1 py-4 text-[11px] font-black uppercase tracking-widest text-slate-500 bg-slate-100 hover:bg-slate-200 rounded-2xl transition-colors">
+              Discard Mine
+            </button>
+            <button type="button" onClick={() => onResolve(choices)} className="flex-1 py-4 text-[11px] font-black uppercase tracking-widest text-white bg-slate-950 hover:bg-slate-900 rounded-2xl shadow-xl transition-all active:scale-95 flex items-center justify-center gap-2">
+              <GitMerge className="h-4 w-4" /> Save Merged
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
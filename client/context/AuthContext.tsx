@@ -1,48 +1,118 @@
-import React, { createContext, useContext, useState, useCallback } from 'react';
-import { User } from '../types';
+import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
+import { ImpersonationSession, User } from '../types';
+import { authApi, impersonationApi } from '../services/api';
+import { SESSION_KEYS, SessionEndReason, clearSession, readImpersonation, readStoredUser, saveImpersonation, saveSession } from '../services/session';
+import { userCan } from '../services/permissions';
 
 interface AuthContextType {
-  user: User | null;
+  user: User | null; // The effective user, i.e. the impersonated one while "view as" is active
+  realUser: User | null; // Always the signed-in account
+  impersonation: ImpersonationSession | null;
+  isReadOnly: boolean; // Viewing as someone without changes allowed, every write is refused
+  startImpersonation: (target: User, options: { reason?: string; allowWrites: boolean }) => Promise<void>;
+  stopImpersonation: () => Promise<void>;
   token: string | null;
-  login: (token: string, user: User) => void;
-  logout: () => void;
+  login: (token: string, user: User, refreshToken?: string) => void;
+  logout: (reason?: SessionEndReason) => void;
   isAuthenticated: boolean;
+  sessionEndReason: SessionEndReason | null; // Why the last session ended, shown on the login screen
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [token, setToken] = useState<string | null>(() => {
-      return localStorage.getItem('token');
-  });
-  
-  const [user, setUser] = useState<User | null>(() => {
-      const stored = localStorage.getItem('user');
-      return stored ? JSON.parse(stored) : null;
+      return localStorage.getItem(SESSION_KEYS.token);
   });
 
-  const login = (newToken: string, newUser: User) => {
-    localStorage.setItem('token', newToken);
-    localStorage.setItem('user', JSON.stringify(newUser));
-    // Store login timestamp for auto-logout feature
-    localStorage.setItem('loginTimestamp', String(Date.now()));
+  const [realUser, setRealUser] = useState<User | null>(() => readStoredUser());
+  const [impersonation, setImpersonation] = useState<ImpersonationSession | null>(() => readImpersonation());
+  const [sessionEndReason, setSessionEndReason] = useState<SessionEndReason | null>(null);
+
+  const login = (newToken: string, newUser: User, refreshToken?: string) => {
+    saveSession(newToken, newUser, refreshToken);
     setToken(newToken);
-    setUser(newUser);
+    setRealUser(newUser);
+    setImpersonation(null);
+    setSessionEndReason(null);
   };
 
-  const logout = useCallback(() => {
-    localStorage.removeItem('token');
-    localStorage.removeItem('user');
-    localStorage.removeItem('loginTimestamp');
+  const logout = useCallback((reason: SessionEndReason = 'signed_out') => {
+    const refreshToken = localStorage.getItem(SESSION_KEYS.refreshToken);
+    const active = readImpersonation();
+    // Best effort, the local session ends whether or not the server hears about it
+    if (active?.logId && reason !== 'expired') impersonationApi.end(active.logId).catch(() => undefined);
+    if (refreshToken && reason !== 'expired') authApi.logout(refreshToken).catch(() => undefined);
+    clearSession();
     setToken(null);
-    setUser(null);
-    // Optional: Force redirect if needed, but router usually handles it via protected routes
+    setRealUser(null);
+    setImpersonation(null);
+    setSessionEndReason(reason === 'signed_out' ? null : reason);
   }, []);
 
-  const isAuthenticated = !!token && !!user;
+  useEffect(() => {
+    // Refresh failed for good, the api client has already cleared storage
+    const handleUnauthorized = () => logout('expired');
+    // The api client swapped in a new token, possibly with an updated profile
+    const handleRefreshed = () => {
+      setToken(localStorage.getItem(SESSION_KEYS.token));
+      setRealUser(readStoredUser());
+    };
+    // Sign-ins, sign-outs, refreshes, role changes and "view as" sessions from other tabs
+    const handleStorage = (event: StorageEvent) => {
+      const watched: string[] = [SESSION_KEYS.token, SESSION_KEYS.user, SESSION_KEYS.impersonation];
+      if (event.key !== null && !watched.includes(event.key)) return;
+      const nextToken = localStorage.getItem(SESSION_KEYS.token);
+      setToken(nextToken);
+      setRealUser(nextToken ? readStoredUser() : null);
+      setImpersonation(nextToken ? readImpersonation() : null);
+    };
+
+    window.addEventListener('auth:unauthorized', handleUnauthorized);
+    window.addEventListener('auth:refreshed', handleRefreshed);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener('auth:unauthorized', handleUnauthorized);
+      window.removeEventListener('auth:refreshed', handleRefreshed);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [logout]);
+
+  /**
+   * Starts "view as" for the target. The audit record is created first, so a session the
+   * server refused to log never starts.
+   */
+  const startImpersonation = useCallback(async (target: User, options: { reason?: string; allowWrites: boolean }) => {
+    if (!realUser || !userCan(realUser, 'users.impersonate')) throw new Error("You don't have permission to view as other users.");
+    if (target.id === realUser.id) throw new Error("You are already signed in as this user.");
+    if (target.role === 'ROLE_SUPER_ADMIN') throw new Error("Super admin accounts can't be viewed as.");
+
+    const log = await impersonationApi.start({ targetUserId: target.id, reason: options.reason, allowWrites: options.allowWrites });
+    const session: ImpersonationSession = {
+      logId: log?.id,
+      targetUser: target,
+      impersonatorId: realUser.id,
+      reason: options.reason,
+      allowWrites: options.allowWrites,
+      startedAt: log?.startedAt || new Date().toISOString()
+    };
+    saveImpersonation(session);
+    setImpersonation(session);
+  }, [realUser]);
+
+  const stopImpersonation = useCallback(async () => {
+    const active = readImpersonation();
+    saveImpersonation(null);
+    setImpersonation(null);
+    if (active?.logId) await impersonationApi.end(active.logId).catch(e => console.error("Failed to close view-as audit record", e));
+  }, []);
+
+  const user = impersonation?.targetUser || realUser;
+  const isAuthenticated = !!token && !!realUser;
+  const isReadOnly = !!impersonation && !impersonation.allowWrites;
 
   return (
-    <AuthContext.Provider value={{ user, token, login, logout, isAuthenticated }}>
+    <AuthContext.Provider value={{ user, realUser, impersonation, isReadOnly, startImpersonation, stopImpersonation, token, login, logout, isAuthenticated, sessionEndReason }}>
       {children}
     </AuthContext.Provider>
   );
@@ -52,4 +122,4 @@ export const useAuth = () => {
   const context = useContext(AuthContext);
   if (!context) throw new Error("useAuth must be used within AuthProvider");
   return context;
-};
\ No newline at end of file
+};
@@ -0,0 +1,118 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { AutomationEntity, AutomationOutcome, AutomationRule, CRMEntry, Meeting, Task, User } from '../types';
+import { automationLogsApi, automationRulesApi, companiesApi, meetingsApi, tasksApi, usersApi } from '../services/api';
+import { AutomationDirectory, runChangeAutomations, runDateSweep } from '../services/automation';
+import { useAuth } from './AuthContext';
+import { useToast } from './ToastContext';
+
+interface AutomationContextType {
+  rules: AutomationRule[];
+  lastRun: AutomationOutcome | null; // Lets open pages merge what a rule just changed
+  runAutomations: (entity: AutomationEntity, before: Partial<CRMEntry | Task | Meeting> | undefined, after: Partial<CRMEntry | Task | Meeting>) => void;
+  reloadRules: () => Promise<void>;
+}
+
+const AutomationContext = createContext<AutomationContextType | undefined>(undefined);
+
+const sweepKey = (userId: number) => `automation:${userId}:sweptOn`;
+
+export const AutomationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, impersonation } = useAuth();
+  const { showToast } = useToast();
+  const [rules, setRules] = useState<AutomationRule[]>([]);
+  const [lastRun, setLastRun] = useState<AutomationOutcome | null>(null);
+  const rulesRef = useRef<AutomationRule[]>([]);
+  const directoryRef = useRef<AutomationDirectory | null>(null);
+
+  const isStaff = !!user && user.role !== 'ROLE_CLIENT';
+
+  // Users and companies are only needed to resolve names and owners, so they load on first use
+  const getDirectory = useCallback(async (): Promise<AutomationDirectory> => {
+    if (!directoryRef.current) {
+      const [users, companies] = await Promise.all([
+        usersApi.getAll().catch(() => [] as User[]),
+        companiesApi.getAll().catch(() => [] as CRMEntry[])
+      ]);
+      directoryRef.current = { users, companies };
+    }
+    return directoryRef.current;
+  }, []);
+
+  const publish = useCallback((outcome: AutomationOutcome) => {
+    setLastRun(outcome);
+    const failed = outcome.logs.filter(l => l.status === 'failed');
+    const applied = outcome.logs.filter(l => l.status === 'success');
+    if (failed.length > 0) showToast(`Automation "${failed[0].ruleName}" failed`, 'error');
+    else if (applied.length > 0) showToast(applied.length === 1 ? `Automation: ${applied[0].ruleName}` : `${applied.length} automations ran`, 'info');
+  }, [showToast]);
+
+  const reloadRules = useCallback(async () => {
+    if (!isStaff) return;
+    try {
+      const data = await automationRulesApi.getAll();
+      rulesRef.current = data;
+      setRules(data);
+      directoryRef.current = null;
+    } catch (e) {
+      console.error("Failed to load automation rules", e);
+    }
+  }, [isStaff]);
+
+  useEffect(() => {
+    rulesRef.current = [];
+    setRules([]);
+    directoryRef.current = null;
+    if (!isStaff || !user) return;
+
+    const init = async () => {
+      await reloadRules();
+      const today = new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Kolkata' }).format(new Date());
+      const dateRules = rulesRef.current.filter(r => r.isEnabled && r.trigger.type === 'date_reached');
+      // Date rules are evaluated here in the browser; nothing runs them on the server. An admin viewing as
+      // this user must not run their daily sweep for them. The flag only spares repeat page loads once a
+      // sweep has finished; runs that overlap across people are settled by the claim in runDateSweep
+      if (impersonation || dateRules.length === 0 || localStorage.getItem(sweepKey(user.id)) === today) return;
+
+      try {
+        const entities = new Set(dateRules.map(r => r.entity));
+        const [directory, tasks, meetings, logs] = await Promise.all([
+          getDirectory(),
+          entities.has('task') ? tasksApi.getAll() : Promise.resolve([] as Task[]),
+          entities.has('meeting') ? meetingsApi.getAll() : Promise.resolve([] as Meeting[]),
+          automationLogsApi.getAll()
+        ]);
+        const outcomes = await runDateSweep(dateRules, { crm: directory.companies, task: tasks, meeting: meetings }, logs, directory, user.name);
+        outcomes.forEach(publish);
+        localStorage.setItem(sweepKey(user.id), today);
+      } catch (e) {
+        console.error("Automation date sweep failed", e);
+      }
+    };
+    init();
+  }, [user?.id, isStaff]);
+
+  /**
+   * Fire and forget: called right after a save succeeds, never delays or fails the save itself.
+   */
+  const runAutomations = useCallback((entity: AutomationEntity, before: Partial<CRMEntry | Task | Meeting> | undefined, after: Partial<CRMEntry | Task | Meeting>) => {
+    const candidates = rulesRef.current.filter(r => r.isEnabled && r.entity === entity && r.trigger.type !== 'date_reached');
+    if (candidates.length === 0) return;
+    const merged = { ...(before || {}), ...after };
+    getDirectory()
+      .then(directory => runChangeAutomations(candidates, entity, before, merged, directory, user?.name))
+      .then(outcome => { if (outcome) publish(outcome); })
+      .catch(e => console.error("Automation run failed", e));
+  }, [getDirectory, publish, user?.name]);
+
+  return (
+    <AutomationContext.Provider value={{ rules, lastRun, runAutomations, reloadRules }}>
+      {children}
+    </AutomationContext.Provider>
+  );
+};
+
+export const useAutomation = () => {
+  const context = useContext(AutomationContext);
+  if (!context) throw new Error("useAutomation must be used within AutomationProvider");
+  return context;
+};
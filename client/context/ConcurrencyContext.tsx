@@ -0,0 +1,109 @@
+import React, { createContext, useContext, useState, useCallback } from 'react';
+import { AuditFieldChange } from '../types';
+import { ConcurrencyConflictError } from '../services/api';
+import { MergeChoice, MergeField, VersionedEntity, buildMergeFields, buildServerOnlyChanges, hasServerChanges, resolveMerge } from '../services/concurrency';
+import { ConflictMergeDialog } from '../components/ui/ConflictMergeDialog';
+
+type Versioned = { id: number; lastUpdatedAt?: string; lastUpdatedBy?: string };
+
+interface PendingMerge {
+  recordLabel: string;
+  updatedBy?: string;
+  fields: MergeField[];
+  serverChanges: AuditFieldChange[];
+  resolve: (choices: Record<string, MergeChoice> | null) => void;
+}
+
+interface ConcurrencyContextType {
+  /**
+   * Saves `changes` against the version of `before` the user loaded. When someone else saved
+   * in between, the user merges field by field and the merge is retried against the newer
+   * version. Resolves with the record as saved, or null when the user discarded their edit.
+   */
+  saveWithVersion: <T extends Versioned>(
+    entity: VersionedEntity,
+    before: T,
+    changes: Partial<T>,
+    write: (data: Partial<T>, version?: string) => Promise<T>
+  ) => Promise<T | null>;
+}
+
+const ConcurrencyContext = createContext<ConcurrencyContextType | undefined>(undefined);
+
+// A server that keeps refusing the version it just handed out should not spin forever
+const MAX_ATTEMPTS = 3;
+
+const labelOf = (record: Record<string, unknown>) => String(record.title || record.company || `#${record.id}`);
+
+export const ConcurrencyProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [pending, setPending] = useState<PendingMerge | null>(null);
+
+  const askToMerge = (merge: Omit<PendingMerge, 'resolve'>) =>
+    new Promise<Record<string, MergeChoice> | null>(resolve => setPending({ ...merge, resolve }));
+
+  const saveWithVersion = useCallback(async <T extends Versioned>(
+    entity: VersionedEntity,
+    before: T,
+    changes: Partial<T>,
+    write: (data: Partial<T>, version?: string) => Promise<T>
+  ): Promise<T | null> => {
+    let base = before as T;
+    let data = changes;
+
+    // Each round either saves, gives up, or moves on to the newer server copy
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const saved = await write(data, base.lastUpdatedAt);
+        return { ...base, ...data, ...(saved || {}) } as T;
+      } catch (e) {
+        if (!(e instanceof ConcurrencyConflictError) || attempt >= MAX_ATTEMPTS) throw e;
+        const theirs = e.current as T;
+        const baseSnapshot = base as unknown as Record<string, unknown>;
+        const theirsSnapshot = theirs as unknown as Record<string, unknown>;
+        const mineSnapshot = data as unknown as Record<string, unknown>;
+
+        if (hasServerChanges(baseSnapshot, theirsSnapshot)) {
+          const fields = buildMergeFields(entity, baseSnapshot, mineSnapshot, theirsSnapshot);
+          const choices = fields.length > 0 ? await askToMerge({
+            recordLabel: labelOf(theirsSnapshot),
+            updatedBy: theirs.lastUpdatedBy,
+            fields,
+            serverChanges: buildServerOnlyChanges(entity, baseSnapshot, mineSnapshot, theirsSnapshot)
+          }) : {};
+          if (!choices) return null;
+
+          const merged = resolveMerge(fields, choices) as Partial<T>;
+          if (Object.keys(merged).length === 0) return theirs;
+          data = { ...merged, lastUpdatedBy: data.lastUpdatedBy, lastUpdatedAt: data.lastUpdatedAt } as Partial<T>;
+        }
+        base = theirs;
+      }
+    }
+  }, []);
+
+  const close = (choices: Record<string, MergeChoice> | null) => {
+    pending?.resolve(choices);
+    setPending(null);
+  };
+
+  return (
+    <ConcurrencyContext.Provider value={{ saveWithVersion }}>
+      {children}
+      <ConflictMergeDialog
+        isOpen={!!pending}
+        recordLabel={pending?.recordLabel || ''}
+        updatedBy={pending?.updatedBy}
+        fields={pending?.fields || []}
+        serverChanges={pending?.serverChanges || []}
+        onResolve={choices => close(choices)}
+        onCancel={() => close(null)}
+      />
+    </ConcurrencyContext.Provider>
+  );
+};
+
+export const useConcurrency = () => {
+  const context = useContext(ConcurrencyContext);
+  if (!context) throw new Error("useConcurrency must be used within ConcurrencyProvider");
+  return context;
+};
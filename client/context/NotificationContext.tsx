@@ -0,0 +1,347 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { AppNotification, AutomationRunLog, NotificationType, Task, TaskComment, CRMEntry, Meeting, User } from '../types';
+import { tasksApi, crmApi, meetingsApi, taskCommentsApi, automationLogsApi } from '../services/api';
+import { useAuth } from './AuthContext';
+import { useToast } from './ToastContext';
+import { isAssignedToUser } from '../utils';
+import { userCan } from '../services/permissions';
+
+interface NotificationContextType {
+  notifications: AppNotification[];
+  unreadCount: number;
+  mutedTypes: NotificationType[];
+  markAsRead: (id: string) => void;
+  markAllAsRead: () => void;
+  toggleMute: (type: NotificationType) => void;
+  clearArchive: () => void;
+  refresh: () => Promise<void>;
+}
+
+const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
+
+const POLL_INTERVAL = 60 * 1000; // Each poll only asks for the rows changed since the previous one
+const FULL_SYNC_INTERVAL = 15 * 60 * 1000; // A full read now and then drops rows deleted elsewhere
+const MEETING_LEAD_MINUTES = 30;
+const ARCHIVE_LIMIT = 200;
+const AUTOMATION_LOOKBACK_MS = 3 * 24 * 60 * 60 * 1000; // Older runs are never surfaced
+const SEEN_RETENTION_MS = 14 * 24 * 60 * 60 * 1000; // A seen id is forgotten once nothing has derived it for this long
+
+// Last seen assignee/status per task, used to detect changes between polls
+type TaskSnapshot = Record<number, { assignee: string; status: string }>;
+
+// Notification id -> when it was last derived. Kept apart from the archive, so clearing or
+// trimming the archive never makes an overdue task or a follow-up announce itself again.
+type SeenIds = Record<string, number>;
+
+type SyncCursor = 'tasks' | 'crm' | 'meetings' | 'mentions' | 'automation';
+
+// Records held between polls; cursors are the newest server timestamps received per source
+interface SyncCache {
+  tasks: Map<number, Task>;
+  crmEntries: Map<number, CRMEntry>;
+  meetings: Map<number, Meeting>;
+  cursors: Partial<Record<SyncCursor, string>>;
+  fullSyncAt: number;
+}
+
+const emptyCache = (): SyncCache => ({ tasks: new Map(), crmEntries: new Map(), meetings: new Map(), cursors: {}, fullSyncAt: 0 });
+
+const mergeRows = <T extends { id: number }>(target: Map<number, T>, rows: T[], replace: boolean) => {
+  if (replace) target.clear();
+  rows.forEach(row => target.set(row.id, row));
+};
+
+const latestStamp = (rows: { lastUpdatedAt?: string; createdAt?: string }[], previous?: string) =>
+  rows.reduce<string | undefined>((latest, row) => {
+    const stamp = row.lastUpdatedAt || row.createdAt;
+    return stamp && (!latest || stamp > latest) ? stamp : latest;
+  }, previous);
+
+const storageKey = (userId: number, key: string) => `notifications:${userId}:${key}`;
+
+const readStored = <T,>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+const assigneeKey = (task: Task) => task.assigneeId ? `#${task.assigneeId}` : (task.assignedTo || '');
+
+const buildSnapshot = (tasks: Task[]): TaskSnapshot => {
+  const snapshot: TaskSnapshot = {};
+  tasks.forEach(t => { snapshot[t.id] = { assignee: assigneeKey(t), status: t.status }; });
+  return snapshot;
+};
+
+const taskLink = (task: Task, isClient: boolean): Pick<AppNotification, 'link' | 'linkState'> => {
+  if (isClient) return { link: '/portal' };
+  if (task.companyId && !task.isVisibleOnMainBoard) return { link: `/client-tracker/${task.companyId}`, linkState: { openTaskId: task.id } };
+  return { link: '/tasks', linkState: { openTaskId: task.id } };
+};
+
+const deriveNotifications = (
+  user: User,
+  tasks: Task[],
+  crmEntries: CRMEntry[],
+  meetings: Meeting[],
+  mentions: TaskComment[],
+  automationLogs: AutomationRunLog[],
+  snapshot: TaskSnapshot | null
+): AppNotification[] => {
+  const isClient = user.role === 'ROLE_CLIENT';
+  const nowIso = new Date().toISOString();
+  const today = new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Kolkata' }).format(new Date());
+  const result: AppNotification[] = [];
+
+  tasks.forEach(task => {
+    // Clients follow every task on their account, everyone else only their own
+    const isMine = isClient || isAssignedToUser(task, user);
+    if (!isMine) return;
+    const isOwnChange = task.lastUpdatedBy === user.name;
+    const previous = snapshot ? snapshot[task.id] : undefined;
+    const stamp = task.lastUpdatedAt || task.createdAt;
+
+    // Change detection needs a baseline, so the very first sync only records one
+    if (snapshot && !isClient && !isOwnChange && (!previous || previous.assignee !== assigneeKey(task))) {
+      result.push({
+        id: `assigned-${task.id}-${stamp}`,
+        type: 'task_assigned',
+        title: 'New assignment',
+        message: `"${task.title}" was assigned to you`,
+        actor: task.lastUpdatedBy,
+        createdAt: stamp || nowIso,
+        read: false,
+        ...taskLink(task, isClient)
+      });
+    }
+
+    if (previous && previous.status !== task.status && !isOwnChange) {
+      result.push({
+        id: `status-${task.id}-${task.status}-${stamp}`,
+        type: 'task_status',
+        title: 'Status changed',
+        message: `"${task.title}" moved from ${previous.status} to ${task.status}`,
+        actor: task.lastUpdatedBy,
+        createdAt: stamp || nowIso,
+        read: false,
+        ...taskLink(task, isClient)
+      });
+    }
+
+    const isActive = !['Completed', 'Done', 'Dropped', 'Posted'].includes(task.status);
+    if (!isClient && isActive && task.dueDate && task.dueDate < today) {
+      result.push({
+        id: `overdue-${task.id}-${task.dueDate}`,
+        type: 'task_overdue',
+        title: 'Task overdue',
+        message: `"${task.title}" was due on ${task.dueDate}`,
+        createdAt: nowIso,
+        read: false,
+        ...taskLink(task, isClient)
+      });
+    }
+  });
+
+  mentions.forEach(comment => {
+    const task = tasks.find(t => t.id === comment.taskId);
+    if (!task || comment.authorId === user.id) return;
+    result.push({
+      id: `mention-${comment.id}`,
+      type: 'task_mention',
+      title: 'You were mentioned',
+      message: `${comment.authorName} mentioned you on "${task.title}"`,
+      actor: comment.authorName,
+      createdAt: comment.createdAt,
+      read: false,
+      ...taskLink(task, isClient)
+    });
+  });
+
+  crmEntries.forEach(entry => {
+    if (!isAssignedToUser(entry, user) || entry.nextFollowUp !== today) return;
+    if (['drop', 'completed'].includes(entry.status)) return;
+    result.push({
+      id: `followup-${entry.id}-${entry.nextFollowUp}`,
+      type: 'follow_up_due',
+      title: 'Follow-up due today',
+      message: `Reach out to ${entry.contactName || entry.company} at ${entry.company}`,
+      actor: entry.lastUpdatedBy,
+      createdAt: nowIso,
+      read: false,
+      link: '/crm',
+      linkState: { openEntryId: entry.id }
+    });
+  });
+
+  const now = Date.now();
+  meetings.forEach(meeting => {
+    const isAttending = isAssignedToUser(meeting, user) || !!meeting.attendees?.some(a => a.userId === user.id);
+    if (!isAttending || meeting.status !== 'Scheduled') return;
+    const minutesAway = (new Date(meeting.dateTime).getTime() - now) / 60000;
+    if (minutesAway < 0 || minutesAway > MEETING_LEAD_MINUTES) return;
+    result.push({
+      id: `meeting-${meeting.id}-${meeting.dateTime}`,
+      type: 'meeting_soon',
+      title: 'Meeting starting soon',
+      message: `"${meeting.title}" starts in ${Math.max(1, Math.round(minutesAway))} min`,
+      createdAt: nowIso,
+      read: false,
+      link: '/meetings',
+      linkState: { openMeetingId: meeting.id }
+    });
+  });
+
+  automationLogs.forEach(log => {
+    if (log.status !== 'success' || !log.notifyUserIds?.includes(user.id)) return;
+    if (now - new Date(log.createdAt).getTime() > AUTOMATION_LOOKBACK_MS) return;
+    const task = log.entity === 'task' ? tasks.find(t => t.id === log.recordId) : undefined;
+    const link: Pick<AppNotification, 'link' | 'linkState'> = task ? taskLink(task, isClient)
+      : log.entity === 'crm' ? { link: '/crm', linkState: { openEntryId: log.recordId } }
+      : log.entity === 'meeting' ? { link: '/meetings', linkState: { openMeetingId: log.recordId } }
+      : { link: '/tasks' };
+    result.push({
+      id: `automation-${log.id}`,
+      type: 'automation',
+      title: log.ruleName,
+      message: log.message || `"${log.recordLabel}" matched ${log.ruleName}`,
+      actor: log.triggeredBy,
+      createdAt: log.createdAt,
+      read: false,
+      ...link
+    });
+  });
+
+  return result;
+};
+
+export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, isAuthenticated } = useAuth();
+  const { showToast } = useToast();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [mutedTypes, setMutedTypes] = useState<NotificationType[]>([]);
+  const notificationsRef = useRef<AppNotification[]>([]);
+  const mutedRef = useRef<NotificationType[]>([]);
+  const seenRef = useRef<SeenIds>({});
+  const cacheRef = useRef<SyncCache>(emptyCache());
+
+  const saveNotifications = useCallback((next: AppNotification[]) => {
+    notificationsRef.current = next;
+    setNotifications(next);
+    if (user) localStorage.setItem(storageKey(user.id, 'archive'), JSON.stringify(next));
+  }, [user?.id]);
+
+  // Restore the archive and preferences of whoever is signed in
+  useEffect(() => {
+    const stored = user ? readStored<AppNotification[]>(storageKey(user.id, 'archive'), []) : [];
+    const muted = user ? readStored<NotificationType[]>(storageKey(user.id, 'muted'), []) : [];
+    // Archives written before the seen set existed still count as seen
+    const seen = user ? readStored<SeenIds | null>(storageKey(user.id, 'seen'), null) : null;
+    notificationsRef.current = stored;
+    mutedRef.current = muted;
+    seenRef.current = seen || Object.fromEntries(stored.map(n => [n.id, Date.now()]));
+    cacheRef.current = emptyCache();
+    setNotifications(stored);
+    setMutedTypes(muted);
+  }, [user?.id]);
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    const isClient = user.role === 'ROLE_CLIENT';
+    const canViewCrm = userCan(user, 'crm.view');
+    const cache = cacheRef.current;
+    const isFull = Date.now() - cache.fullSyncAt > FULL_SYNC_INTERVAL;
+    const since = (cursor: SyncCursor) => isFull ? undefined : cache.cursors[cursor];
+    try {
+      const [tasks, crmEntries, meetings, mentions, automationLogs] = await Promise.all([
+        isClient ? tasksApi.getClientTasks(since('tasks')) : tasksApi.getAll(since('tasks')),
+        canViewCrm ? crmApi.getAll(since('crm')).then(res => res.crmList).catch(() => [] as CRMEntry[]) : Promise.resolve([] as CRMEntry[]),
+        isClient ? Promise.resolve([] as Meeting[]) : meetingsApi.getAll(since('meetings')).catch(() => [] as Meeting[]),
+        isClient ? Promise.resolve([] as TaskComment[]) : taskCommentsApi.getMentions(since('mentions')).catch(() => [] as TaskComment[]),
+        isClient ? Promise.resolve([] as AutomationRunLog[]) : automationLogsApi.getAll(since('automation')).catch(() => [] as AutomationRunLog[]),
+      ]);
+
+      mergeRows(cache.tasks, tasks, isFull);
+      mergeRows(cache.crmEntries, crmEntries, isFull);
+      mergeRows(cache.meetings, meetings, isFull);
+      cache.cursors = {
+        tasks: latestStamp(tasks, since('tasks')),
+        crm: latestStamp(crmEntries, since('crm')),
+        meetings: latestStamp(meetings, since('meetings')),
+        mentions: latestStamp(mentions, since('mentions')),
+        automation: latestStamp(automationLogs, since('automation')),
+      };
+      if (isFull) cache.fullSyncAt = Date.now();
+      const allTasks = [...cache.tasks.values()];
+
+      const snapshotKey = storageKey(user.id, 'snapshot');
+      const snapshot = readStored<TaskSnapshot | null>(snapshotKey, null);
+      localStorage.setItem(snapshotKey, JSON.stringify(buildSnapshot(allTasks)));
+
+      // Mentions and automation runs are only derived from what this poll brought in
+      const derived = deriveNotifications(user, allTasks, [...cache.crmEntries.values()], [...cache.meetings.values()], mentions, automationLogs, snapshot)
+        .filter(n => !mutedRef.current.includes(n.type));
+      const now = Date.now();
+      const fresh = derived.filter(n => !(n.id in seenRef.current));
+      const seen: SeenIds = {};
+      Object.entries<number>(seenRef.current).forEach(([id, at]) => { if (now - at < SEEN_RETENTION_MS) seen[id] = at; });
+      derived.forEach(n => { seen[n.id] = now; });
+      seenRef.current = seen;
+      localStorage.setItem(storageKey(user.id, 'seen'), JSON.stringify(seen));
+      if (fresh.length === 0) return;
+
+      saveNotifications([...fresh, ...notificationsRef.current].slice(0, ARCHIVE_LIMIT));
+      showToast(fresh.length === 1 ? fresh[0].message : `${fresh.length} new notifications`, 'info');
+    } catch (e) {
+      console.error("Notification sync failed", e);
+    }
+  }, [user, saveNotifications, showToast]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    refresh();
+    const interval = setInterval(refresh, POLL_INTERVAL);
+    window.addEventListener('focus', refresh);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('focus', refresh);
+    };
+  }, [isAuthenticated, refresh]);
+
+  const markAsRead = useCallback((id: string) => {
+    saveNotifications(notificationsRef.current.map(n => n.id === id ? { ...n, read: true } : n));
+  }, [saveNotifications]);
+
+  const markAllAsRead = useCallback(() => {
+    saveNotifications(notificationsRef.current.map(n => n.read ? n : { ...n, read: true }));
+  }, [saveNotifications]);
+
+  const clearArchive = useCallback(() => {
+    saveNotifications([]);
+  }, [saveNotifications]);
+
+  const toggleMute = useCallback((type: NotificationType) => {
+    const next = mutedRef.current.includes(type)
+      ? mutedRef.current.filter(t => t !== type)
+      : [...mutedRef.current, type];
+    mutedRef.current = next;
+    setMutedTypes(next);
+    if (user) localStorage.setItem(storageKey(user.id, 'muted'), JSON.stringify(next));
+  }, [user?.id]);
+
+  const unreadCount = notifications.filter(n => !n.read && !mutedTypes.includes(n.type)).length;
+
+  return (
+    <NotificationContext.Provider value={{ notifications, unreadCount, mutedTypes, markAsRead, markAllAsRead, toggleMute, clearArchive, refresh }}>
+      {children}
+    </NotificationContext.Provider>
+  );
+};
+
+export const useNotifications = () => {
+  const context = useContext(NotificationContext);
+  if (!context) throw new Error("useNotifications must be used within NotificationProvider");
+  return context;
+};
@@ -0,0 +1,68 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { Permission, PermissionMatrix } from '../types';
+import { permissionsApi } from '../services/api';
+import { DEFAULT_PERMISSION_MATRIX, normalizeMatrix, roleCan, setLoadedMatrix } from '../services/permissions';
+import { useAuth } from './AuthContext';
+
+interface PermissionContextType {
+  matrix: PermissionMatrix;
+  isLoaded: boolean; // False until the server's matrix has been read for the signed-in user
+  can: (permission: Permission) => boolean;
+  saveMatrix: (matrix: PermissionMatrix) => Promise<void>;
+}
+
+const PermissionContext = createContext<PermissionContextType | undefined>(undefined);
+
+export const PermissionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, isAuthenticated } = useAuth();
+  const [matrix, setMatrix] = useState<PermissionMatrix>(DEFAULT_PERMISSION_MATRIX);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const applyMatrix = useCallback((next: PermissionMatrix) => {
+    setLoadedMatrix(next);
+    setMatrix(next);
+  }, []);
+
+  useEffect(() => {
+    setIsLoaded(false);
+    if (!isAuthenticated) return;
+    // The server enforces its own copy either way; when it can't be read the defaults only decide what is shown
+    permissionsApi.getMatrix()
+      .then(data => applyMatrix(normalizeMatrix(data)))
+      .catch(e => {
+        console.warn("Permission matrix unavailable, showing the default access", e);
+        applyMatrix(DEFAULT_PERMISSION_MATRIX);
+      })
+      .finally(() => setIsLoaded(true));
+  }, [isAuthenticated, user?.id, applyMatrix]);
+
+  const saveMatrix = useCallback(async (next: PermissionMatrix) => {
+    const normalized = normalizeMatrix(next);
+    const saved = await permissionsApi.updateMatrix(normalized);
+    applyMatrix(normalizeMatrix(saved || normalized));
+  }, [applyMatrix]);
+
+  const can = useCallback((permission: Permission) => roleCan(matrix, user?.role, permission), [matrix, user?.role]);
+
+  return (
+    <PermissionContext.Provider value={{ matrix, isLoaded, can, saveMatrix }}>
+      {children}
+    </PermissionContext.Provider>
+  );
+};
+
+export const usePermissions = () => {
+  const context = useContext(PermissionContext);
+  if (!context) throw new Error("usePermissions must be used within PermissionProvider");
+  return context;
+};
+
+export const usePermission = (permission: Permission) => usePermissions().can(permission);
+
+/**
+ * Renders its children only when the signed-in user's role holds the permission.
+ */
+export const Can: React.FC<{ permission: Permission; fallback?: React.ReactNode; children: React.ReactNode }> = ({ permission, fallback = null, children }) => {
+  const allowed = usePermission(permission);
+  return <>{allowed ? children : fallback}</>;
+};
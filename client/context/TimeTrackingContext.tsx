@@ -0,0 +1,116 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { ActiveTimer, Task, TimeEntry } from '../types';
+import { timeEntriesApi } from '../services/api';
+import { useAuth } from './AuthContext';
+import { useToast } from './ToastContext';
+import { formatDuration } from '../utils';
+
+interface TimeTrackingContextType {
+  activeTimer: ActiveTimer | null;
+  lastLoggedEntry: TimeEntry | null; // Lets open pages append the entry a stop just created
+  startTimer: (task: Pick<Task, 'id' | 'title' | 'companyId'>) => Promise<void>;
+  stopTimer: () => Promise<TimeEntry | null>;
+  logManualEntry: (data: Omit<TimeEntry, 'id' | 'createdAt' | 'userId' | 'userName' | 'isManual'>) => Promise<TimeEntry>;
+}
+
+const TimeTrackingContext = createContext<TimeTrackingContextType | undefined>(undefined);
+
+const storageKey = (userId: number) => `timeTracking:${userId}:active`;
+
+const readTimer = (userId: number): ActiveTimer | null => {
+  try {
+    const raw = localStorage.getItem(storageKey(userId));
+    return raw ? JSON.parse(raw) : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+const istDate = (iso: string) => new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Kolkata' }).format(new Date(iso));
+
+export const TimeTrackingProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, isReadOnly } = useAuth();
+  const { showToast } = useToast();
+  const [activeTimer, setActiveTimer] = useState<ActiveTimer | null>(null);
+  const [lastLoggedEntry, setLastLoggedEntry] = useState<TimeEntry | null>(null);
+
+  useEffect(() => {
+    setActiveTimer(user ? readTimer(user.id) : null);
+    if (!user) return;
+
+    // A timer started or stopped in another tab shows up here too
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === storageKey(user.id)) setActiveTimer(readTimer(user.id));
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [user?.id]);
+
+  const persist = (timer: ActiveTimer | null) => {
+    if (!user) return;
+    if (timer) localStorage.setItem(storageKey(user.id), JSON.stringify(timer));
+    else localStorage.removeItem(storageKey(user.id));
+    setActiveTimer(timer);
+  };
+
+  const stopTimer = useCallback(async (): Promise<TimeEntry | null> => {
+    if (!user || !activeTimer) return null;
+    const timer = activeTimer;
+    const endedAt = new Date().toISOString();
+    const durationMinutes = Math.round((new Date(endedAt).getTime() - new Date(timer.startedAt).getTime()) / 60000);
+    persist(null);
+
+    if (durationMinutes < 1) {
+      showToast("Timer discarded, less than a minute was tracked", "info");
+      return null;
+    }
+
+    try {
+      const entry = await timeEntriesApi.create({
+        taskId: timer.taskId,
+        taskTitle: timer.taskTitle,
+        companyId: timer.companyId,
+        userId: user.id,
+        userName: user.name,
+        date: istDate(timer.startedAt),
+        durationMinutes,
+        startedAt: timer.startedAt,
+        endedAt,
+        isManual: false
+      });
+      setLastLoggedEntry(entry);
+      showToast(`Logged ${formatDuration(durationMinutes)} on "${timer.taskTitle}"`, "success");
+      return entry;
+    } catch (e) {
+      // Keep the timer so the time is not lost when the server is unreachable
+      persist(timer);
+      showToast("Failed to log time, timer is still running", "error");
+      return null;
+    }
+  }, [user, activeTimer, showToast]);
+
+  const startTimer = useCallback(async (task: Pick<Task, 'id' | 'title' | 'companyId'>) => {
+    if (!user || isReadOnly) return;
+    // Only one timer runs at a time, switching tasks logs the previous one
+    if (activeTimer) await stopTimer();
+    persist({ taskId: task.id, taskTitle: task.title, companyId: task.companyId, startedAt: new Date().toISOString() });
+  }, [user, isReadOnly, activeTimer, stopTimer]);
+
+  const logManualEntry = useCallback(async (data: Omit<TimeEntry, 'id' | 'createdAt' | 'userId' | 'userName' | 'isManual'>) => {
+    const entry = await timeEntriesApi.create({ ...data, userId: user?.id, userName: user?.name || 'Unknown', isManual: true });
+    setLastLoggedEntry(entry);
+    return entry;
+  }, [user]);
+
+  return (
+    <TimeTrackingContext.Provider value={{ activeTimer, lastLoggedEntry, startTimer, stopTimer, logManualEntry }}>
+      {children}
+    </TimeTrackingContext.Provider>
+  );
+};
+
+export const useTimeTracking = () => {
+  const context = useContext(TimeTrackingContext);
+  if (!context) throw new Error("useTimeTracking must be used within TimeTrackingProvider");
+  return context;
+};
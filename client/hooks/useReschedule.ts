@@ -0,0 +1,54 @@
+import { AutomationEntity } from '../types';
+import { ConcurrencyConflictError } from '../services/api';
+import { useAuth } from '../context/AuthContext';
+import { useToast } from '../context/ToastContext';
+import { useAutomation } from '../context/AutomationContext';
+
+type Reschedulable = { id: number; lastUpdatedBy?: string; lastUpdatedAt?: string };
+
+interface RescheduleOptions<T extends Reschedulable, K extends keyof T> {
+  entity: Exclude<AutomationEntity, 'crm'>; // Every move runs the entity's change automations
+  field: K; // The date field a drop moves, e.g. dueDate or dateTime
+  update: (id: number, data: Partial<T>, version?: string) => Promise<T>;
+  patch: (id: number, changes: Partial<T>) => void; // Applies the move, then the saved record, to the page's own state
+  describe: (value: T[K]) => string; // Shown as "Moved to ..."
+}
+
+/**
+ * Optimistic drag-to-reschedule with an Undo toast. Rollback only touches the moved record,
+ * since Undo can fire after other edits on the page. A move made against a version someone
+ * else has since replaced is dropped, and the record shows their copy instead.
+ */
+export const useReschedule = <T extends Reschedulable, K extends keyof T>({ entity, field, update, patch, describe }: RescheduleOptions<T, K>) => {
+  const { user, isReadOnly } = useAuth();
+  const { showToast } = useToast();
+  const { runAutomations } = useAutomation();
+
+  const reschedule = async (record: T, value: T[K], isUndo = false): Promise<void> => {
+    if (isReadOnly) return;
+    const previous = record[field];
+    const changes = { [field]: value } as unknown as Partial<T>;
+    patch(record.id, changes);
+    try {
+      const saved = await update(record.id, { ...changes, lastUpdatedBy: user?.name || 'Unknown', lastUpdatedAt: new Date().toISOString() }, record.lastUpdatedAt);
+      const after = { ...changes, ...(saved || {}) };
+      patch(record.id, after);
+      runAutomations(entity, record, after);
+      showToast(
+        isUndo ? "Move undone" : `Moved to ${describe(value)}`,
+        "success",
+        isUndo ? undefined : { label: "Undo", onClick: () => reschedule({ ...record, ...after }, previous, true) }
+      );
+    } catch (e) {
+      if (e instanceof ConcurrencyConflictError && e.current) {
+        patch(record.id, e.current as unknown as Partial<T>);
+        showToast("Someone else changed this in the meantime, showing their version", "info");
+        return;
+      }
+      patch(record.id, { [field]: previous } as unknown as Partial<T>);
+      showToast("Reschedule failed", "error");
+    }
+  };
+
+  return (record: T, value: T[K]) => reschedule(record, value);
+};
@@ -0,0 +1,36 @@
+import { AUDIT_ENTITY_LABELS, AuditVersion, revertToVersion } from '../services/audit';
+import { ConcurrencyConflictError } from '../services/api';
+import { useToast } from '../context/ToastContext';
+
+/**
+ * Restores a record to an earlier version and reports how it went. The history is reloaded after
+ * a write, and after a conflict so the user sees what changed before trying again. Resolves to
+ * the patch that was sent, or null when nothing was written.
+ */
+export const useRevertVersion = (reload: () => void) => {
+  const { showToast } = useToast();
+
+  return async (version: AuditVersion, current: AuditVersion | undefined): Promise<Record<string, unknown> | null> => {
+    if (!current) return null;
+    try {
+      const { patch, unrestored } = await revertToVersion(version.entry, current.entry);
+      if (Object.keys(patch).length === 0) {
+        showToast("Already matches that version", "info");
+        return null;
+      }
+      const label = version.entry.recordLabel || AUDIT_ENTITY_LABELS[version.entry.entity];
+      if (unrestored.length > 0) showToast(`${label} partly restored, couldn't restore ${unrestored.join(', ')}`, "error");
+      else showToast(`${label} restored to the version from ${new Date(version.entry.createdAt).toLocaleDateString()}`, "success");
+      reload();
+      return patch;
+    } catch (e: any) {
+      if (e instanceof ConcurrencyConflictError) {
+        showToast("Someone else changed this in the meantime, check the latest version and try again", "info");
+        reload();
+      } else {
+        showToast(e.message || "Restore failed", "error");
+      }
+      return null;
+    }
+  };
+};
@@ -2,10 +2,11 @@
 import React, { useState, useEffect } from 'react';
 import { Navbar } from '../components/layout/Navbar';
 import { Sidebar } from '../components/layout/Sidebar';
-import { tasksApi, usersApi } from '../services/api';
-import { Trophy, Target, Zap, Crown, Medal, Activity, TrendingUp, LayoutGrid, X, Mail, Calendar, MapPin, CheckCircle2, Clock, BarChart3 } from 'lucide-react';
+import { tasksApi, usersApi, timeEntriesApi } from '../services/api';
+import { Trophy, Target, Zap, Crown, Medal, Activity, TrendingUp, LayoutGrid, X, Mail, Calendar, MapPin, CheckCircle2, Clock, BarChart3, Timer } from 'lucide-react';
 import { useToast } from '../context/ToastContext';
 import { useLayout } from '../context/LayoutContext';
+import { formatDuration } from '../utils';
 
 interface UserStats {
   id?: number;
@@ -20,6 +21,7 @@ interface UserStats {
   inProgress: number;
   pending: number;
   completionRate: number;
+  minutesLogged: number;
 }
 
 export const AdminPerformancePage: React.FC = () => {
@@ -33,9 +35,10 @@ export const AdminPerformancePage: React.FC = () => {
     const fetchAndCalculate = async () => {
       setIsLoading(true);
       try {
-        const [tasks, users] = await Promise.all([
+        const [tasks, users, timeEntries] = await Promise.all([
             tasksApi.getAll(),
-            usersApi.getAll()
+            usersApi.getAll(),
+            timeEntriesApi.getAll().catch(() => [])
         ]);
         
         // 1. Initialize stats map with ALL users using ID as key
@@ -58,7 +61,8 @@ export const AdminPerformancePage: React.FC = () => {
                 completed: 0,
                 inProgress: 0,
                 pending: 0,
-                completionRate: 0
+                completionRate: 0,
+                minutesLogged: 0
             };
         });
 
@@ -78,7 +82,7 @@ export const AdminPerformancePage: React.FC = () => {
                 matchedStats.total++;
                 if (['Completed', 'Done', 'Posted'].includes(task.status)) {
                     matchedStats.completed++;
-                } else if (['In Progress', 'In Review'].includes(task.status)) {
+                } else if (['In Progress', 'In Review', 'Approved'].includes(task.status)) {
                     matchedStats.inProgress++;
                 } else if (['Not Started'].includes(task.status)) {
                     matchedStats.pending++;
@@ -86,14 +90,20 @@ export const AdminPerformancePage: React.FC = () => {
             }
         });
 
-        // 3. Calculate Rates & Convert to Array
+        // 3. Aggregate Logged Time
+        timeEntries.forEach(entry => {
+            const matchedStats = (entry.userId && statsMap[entry.userId]) || Object.values(statsMap).find(s => s.name === entry.userName);
+            if (matchedStats) matchedStats.minutesLogged += entry.durationMinutes;
+        });
+
+        // 4. Calculate Rates & Convert to Array
         const finalStats = Object.values(statsMap)
             .map(s => ({
                 ...s,
                 completionRate: s.total > 0 ? (s.completed / s.total) * 100 : 0
             }));
 
-        // 4. SORTING LOGIC: Efficiency Score (Descending) -> Completed Count (Descending) -> Name (Ascending)
+        // 5. SORTING LOGIC: Efficiency Score (Descending) -> Completed Count (Descending) -> Name (Ascending)
         finalStats.sort((a, b) => {
             if (Math.abs(b.completionRate - a.completionRate) > 0.01) {
                 return b.completionRate - a.completionRate;
@@ -429,7 +439,7 @@ export const AdminPerformancePage: React.FC = () => {
                         </div>
                     </div>
 
-                    <div className="grid grid-cols-3 gap-4">
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
                         <div className="bg-emerald-50 rounded-[1.5rem] p-4 text-center border border-emerald-100 group hover:shadow-lg transition-all duration-300">
                             <div className="mb-2 text-emerald-600 flex justify-center group-hover:scale-110 transition-transform"><CheckCircle2 className="h-6 w-6" /></div>
                             <span className="block text-2xl font-black text-slate-900">{selectedUser.completed}</span>
@@ -445,6 +455,11 @@ export const AdminPerformancePage: React.FC = () => {
                             <span className="block text-2xl font-black text-slate-900">{selectedUser.completionRate.toFixed(0)}%</span>
                             <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Score</span>
                         </div>
+                        <div className="bg-amber-50 rounded-[1.5rem] p-4 text-center border border-amber-100 group hover:shadow-lg transition-all duration-300">
+                            <div className="mb-2 text-amber-600 flex justify-center group-hover:scale-110 transition-transform"><Timer className="h-6 w-6" /></div>
+                            <span className="block text-2xl font-black text-slate-900">{formatDuration(selectedUser.minutesLogged)}</span>
+                            <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Logged</span>
+                        </div>
                     </div>
                 </div>
             </div>
@@ -0,0 +1,145 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Navbar } from '../components/layout/Navbar';
+import { Sidebar } from '../components/layout/Sidebar';
+import { Permission, PermissionMatrix, UserRole } from '../types';
+import { Ban, Check, Lock, RotateCcw, Save, ShieldCheck } from 'lucide-react';
+import { useLayout } from '../context/LayoutContext';
+import { useToast } from '../context/ToastContext';
+import { usePermissions } from '../context/PermissionContext';
+import { DEFAULT_PERMISSION_MATRIX, PERMISSIONS, ROLE_LABELS, isGrantablePermission, isLockedPermission } from '../services/permissions';
+
+const ROLES: UserRole[] = ['ROLE_SUPER_ADMIN', 'ROLE_ADMIN', 'ROLE_EMPLOYEE', 'ROLE_CLIENT'];
+
+export const AdminPermissionsPage: React.FC = () => {
+  const { isSidebarCollapsed } = useLayout();
+  const { showToast } = useToast();
+  const { matrix, saveMatrix } = usePermissions();
+  const [draft, setDraft] = useState<PermissionMatrix>(matrix);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Picks up the server copy again after a save
+  useEffect(() => { setDraft(matrix); }, [matrix]);
+
+  const groups = useMemo(() => {
+    const map = new Map<string, typeof PERMISSIONS>();
+    PERMISSIONS.forEach(p => map.set(p.group, [...(map.get(p.group) || []), p]));
+    return Array.from(map.entries());
+  }, []);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(matrix);
+
+  const toggle = (role: UserRole, permission: Permission) => {
+    if (isLockedPermission(role, permission) || !isGrantablePermission(role, permission)) return;
+    setDraft(prev => {
+      const granted = prev[role];
+      return {
+        ...prev,
+        [role]: granted.includes(permission) ? granted.filter(p => p !== permission) : [...granted, permission]
+      };
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveMatrix(draft);
+      showToast("Permissions updated", "success");
+    } catch (e: any) {
+      showToast(e.message || "Failed to save permissions", "error");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen mesh-bg relative">
+      <div className="glass-canvas" />
+      <Sidebar />
+      <div className={`flex-1 flex flex-col min-w-0 transition-all duration-500 ease-in-out ${isSidebarCollapsed ? 'lg:ml-28' : 'lg:ml-80'}`}>
+        <Navbar />
+
+        <div className="flex-1 px-4 lg:px-12 py-6 lg:py-10 pb-32">
+          <div className="flex flex-col xl:flex-row xl:items-end justify-between gap-6 lg:gap-8 mb-8 lg:mb-16 animate-premium">
+            <div>
+              <div className="flex items-center gap-3 mb-2 lg:mb-4">
+                <div className="h-1.5 lg:h-2 w-1.5 lg:w-2 rounded-full bg-brand-500 animate-pulse" />
+                <span className="text-[9px] lg:text-[10px] font-black text-brand-600 uppercase tracking-[0.5em]">Access Control</span>
+              </div>
+              <h1 className="text-4xl lg:text-7xl font-black text-slate-900 tracking-tighter leading-none display-text">Permissions.</h1>
+              <p className="text-slate-500 text-sm lg:text-lg mt-2 lg:mt-4 font-medium">Choose what each role can see and change.</p>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              <button
+                onClick={() => setDraft(DEFAULT_PERMISSION_MATRIX)}
+                className="bg-white/60 hover:bg-white text-slate-700 border border-white px-6 lg:px-8 py-3 lg:py-4 rounded-2xl lg:rounded-3xl flex items-center justify-center gap-3 font-black uppercase tracking-[0.2em] shadow-sm active:scale-95 transition-all w-full sm:w-auto text-xs lg:text-sm"
+              >
+                <RotateCcw className="h-4 w-4 lg:h-5 lg:w-5 text-indigo-500" /> Defaults
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!isDirty || isSaving}
+                className="bg-slate-950 hover:bg-slate-900 text-white px-6 lg:px-8 py-3 lg:py-4 rounded-2xl lg:rounded-3xl flex items-center justify-center gap-3 lg:gap-4 font-black uppercase tracking-[0.2em] shadow-2xl active:scale-95 transition-all w-full sm:w-auto text-xs lg:text-sm disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Save className="h-4 w-4 lg:h-5 lg:w-5 text-indigo-400" /> {isSaving ? 'Saving...' : 'Save Matrix'}
+              </button>
+            </div>
+          </div>
+
+          <div className="bg-white/40 backdrop-blur-3xl rounded-[2.5rem] border border-white shadow-premium overflow-x-auto">
+            <table className="w-full min-w-[720px] text-left">
+              <thead>
+                <tr className="border-b border-slate-100">
+                  <th className="px-8 py-6 text-[10px] font-black text-slate-400 uppercase tracking-widest w-[40%]">Capability</th>
+                  {ROLES.map(role => (
+                    <th key={role} className="px-4 py-6 text-[10px] font-black text-slate-400 uppercase tracking-widest text-center">{ROLE_LABELS[role]}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {groups.map(([group, permissions]) => (
+                  <React.Fragment key={group}>
+                    <tr className="bg-slate-50/60">
+                      <td colSpan={ROLES.length + 1} className="px-8 py-3 text-[9px] font-black text-indigo-500 uppercase tracking-[0.3em]">{group}</td>
+                    </tr>
+                    {permissions.map(permission => (
+                      <tr key={permission.key} className="border-b border-slate-100/60 last:border-0">
+                        <td className="px-8 py-5">
+                          <p className="text-sm font-bold text-slate-900">{permission.label}</p>
+                          <p className="text-xs font-medium text-slate-500 mt-0.5">{permission.description}</p>
+                        </td>
+                        {ROLES.map(role => {
+                          const granted = draft[role].includes(permission.key);
+                          const locked = isLockedPermission(role, permission.key);
+                          const unsupported = !isGrantablePermission(role, permission.key);
+                          return (
+                            <td key={role} className="px-4 py-5 text-center">
+                              <button
+                                onClick={() => toggle(role, permission.key)}
+                                disabled={locked || unsupported}
+                                title={locked ? 'Super admins always keep this' : unsupported ? `The server doesn't allow ${ROLE_LABELS[role]} accounts to do this` : undefined}
+                                className={`h-9 w-9 inline-flex items-center justify-center rounded-xl border transition-all ${
+                                  granted ? 'bg-slate-950 border-slate-950 text-white shadow-lg' : 'bg-white/60 border-slate-200 text-transparent hover:border-indigo-300'
+                                } ${locked || unsupported ? 'opacity-60 cursor-not-allowed' : 'active:scale-90'}`}
+                              >
+                                {locked ? <Lock className="h-3.5 w-3.5 text-indigo-300" /> : unsupported ? <Ban className="h-3.5 w-3.5 text-slate-300" /> : <Check className="h-4 w-4" />}
+                              </button>
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="mt-6 flex items-center gap-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+            <ShieldCheck className="h-3.5 w-3.5" /> Changes apply on each user's next page load
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
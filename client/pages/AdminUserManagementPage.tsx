@@ -1,17 +1,22 @@
 
 import React, { useState, useEffect } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { Navbar } from '../components/layout/Navbar';
 import { Sidebar } from '../components/layout/Sidebar';
-import { usersApi } from '../services/api';
-import { User, UserRole } from '../types';
-import { Plus, Search, ChevronRight, Shield, User as UserIcon, Mail, Settings } from 'lucide-react';
+import { usersApi, impersonationApi } from '../services/api';
+import { ImpersonationLog, User, UserRole } from '../types';
+import { Plus, Search, ChevronRight, Shield, User as UserIcon, Mail, Settings, Eye, Lock, PenLine } from 'lucide-react';
 import { CreateUserModal } from '../components/admin/CreateUserModal';
 import { UserProfileModal } from '../components/admin/UserProfileModal';
+import { ImpersonateUserModal } from '../components/admin/ImpersonateUserModal';
 import { DeleteConfirmationModal } from '../components/ui/DeleteConfirmationModal';
 import { CustomSelect } from '../components/ui/CustomSelect';
 import { useToast } from '../context/ToastContext';
 import { useLayout } from '../context/LayoutContext';
 import { useAuth } from '../context/AuthContext';
+import { usePermission } from '../context/PermissionContext';
+import { ROLE_LABELS } from '../services/permissions';
+import { formatDateTime } from '../utils';
 
 const ROLE_FILTER_OPTIONS = [
     { label: 'All Roles', value: '' },
@@ -31,7 +36,10 @@ const ROLE_PRIORITY: Record<string, number> = {
 export const AdminUserManagementPage: React.FC = () => {
   const { showToast } = useToast();
   const { isSidebarCollapsed } = useLayout();
-  const { user: currentUser } = useAuth();
+  const { user: currentUser, startImpersonation, isReadOnly } = useAuth();
+  const canImpersonate = usePermission('users.impersonate');
+  const location = useLocation();
+  const navigate = useNavigate();
   const [users, setUsers] = useState<User[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [search, setSearch] = useState('');
@@ -40,6 +48,8 @@ export const AdminUserManagementPage: React.FC = () => {
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [userToDelete, setUserToDelete] = useState<User | null>(null);
+  const [userToView, setUserToView] = useState<User | null>(null);
+  const [viewLogs, setViewLogs] = useState<ImpersonationLog[]>([]);
 
   const fetchUsers = async () => {
     setIsLoading(true);
@@ -58,6 +68,24 @@ export const AdminUserManagementPage: React.FC = () => {
     fetchUsers();
   }, []);
 
+  useEffect(() => {
+    if (!canImpersonate) return;
+    impersonationApi.getLogs()
+        .then(logs => setViewLogs([...logs].sort((a, b) => b.startedAt.localeCompare(a.startedAt))))
+        .catch(e => console.error("Failed to load view-as audit trail", e));
+  }, [canImpersonate]);
+
+  // Deep links from the command palette
+  useEffect(() => {
+    const state = location.state as { openUserId?: number } | null;
+    if (!state || isLoading) return;
+    if (state.openUserId) {
+        const target = users.find(u => u.id === state.openUserId);
+        if (target) setSelectedUser(target);
+    }
+    navigate(location.pathname, { replace: true, state: null });
+  }, [location.state, isLoading]);
+
   const filteredUsers = users.filter(u => {
     const matchesSearch = u.name.toLowerCase().includes(search.toLowerCase()) || 
                           u.email.toLowerCase().includes(search.toLowerCase());
@@ -99,6 +127,17 @@ export const AdminUserManagementPage: React.FC = () => {
       }
   };
 
+  const handleStartImpersonation = async (options: { reason?: string; allowWrites: boolean }) => {
+      if (!userToView) return;
+      try {
+          await startImpersonation(userToView, options);
+          showToast(`Now viewing as ${userToView.name}`, "info");
+          navigate(userToView.role === 'ROLE_CLIENT' ? '/portal' : '/dashboard');
+      } catch (e: any) {
+          showToast(e.message || "Could not start view-as session", "error");
+      }
+  };
+
   return (
     <div className="flex min-h-screen mesh-bg relative">
       <div className="glass-canvas" />
@@ -119,7 +158,8 @@ export const AdminUserManagementPage: React.FC = () => {
              
              <button 
                 onClick={() => setIsCreateModalOpen(true)}
-                className="bg-slate-950 hover:bg-slate-900 text-white px-6 lg:px-10 py-3 lg:py-5 rounded-2xl lg:rounded-[2rem] flex items-center justify-center gap-3 lg:gap-4 font-black uppercase tracking-[0.2em] shadow-2xl active:scale-95 transition-all w-full sm:w-auto text-xs lg:text-sm"
+                disabled={isReadOnly}
+                className="bg-slate-950 hover:bg-slate-900 text-white px-6 lg:px-10 py-3 lg:py-5 rounded-2xl lg:rounded-[2rem] flex items-center justify-center gap-3 lg:gap-4 font-black uppercase tracking-[0.2em] shadow-2xl active:scale-95 transition-all w-full sm:w-auto text-xs lg:text-sm disabled:opacity-40 disabled:cursor-not-allowed"
              >
                 <Plus className="h-5 w-5 text-brand-400" /> New Identity
              </button>
@@ -228,10 +268,57 @@ export const AdminUserManagementPage: React.FC = () => {
                    )}
                </div>
            </div>
+
+           {canImpersonate && (
+               <div className="mt-8 lg:mt-12 bg-white/30 backdrop-blur-2xl rounded-[2rem] lg:rounded-[3rem] border border-white/60 shadow-xl overflow-hidden">
+                   <div className="p-6 lg:p-8 border-b border-gray-100 bg-white/40 flex items-center gap-3">
+                       <Eye className="h-5 w-5 text-indigo-500" />
+                       <h2 className="text-lg lg:text-xl font-black text-slate-900 tracking-tight">View-As Audit Trail</h2>
+                   </div>
+                   {viewLogs.length === 0 ? (
+                       <p className="py-16 text-center text-[10px] font-black text-slate-400 uppercase tracking-[0.4em]">No view-as sessions yet</p>
+                   ) : (
+                       <div className="overflow-x-auto custom-scrollbar">
+                           <table className="w-full text-left border-collapse whitespace-nowrap min-w-[700px]">
+                               <thead>
+                                   <tr className="border-b border-gray-100/50 text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] bg-white/20">
+                                       <th className="px-6 lg:px-8 py-4">Admin</th>
+                                       <th className="px-6 lg:px-8 py-4">Viewed As</th>
+                                       <th className="px-6 lg:px-8 py-4">Mode</th>
+                                       <th className="px-6 lg:px-8 py-4">Reason</th>
+                                       <th className="px-6 lg:px-8 py-4">Started</th>
+                                       <th className="px-6 lg:px-8 py-4">Ended</th>
+                                   </tr>
+                               </thead>
+                               <tbody className="divide-y divide-gray-50/50">
+                                   {viewLogs.slice(0, 25).map(log => (
+                                       <tr key={log.id} className="text-xs lg:text-sm">
+                                           <td className="px-6 lg:px-8 py-4 font-bold text-slate-900">{log.impersonatorName}</td>
+                                           <td className="px-6 lg:px-8 py-4">
+                                               <span className="font-bold text-slate-900">{log.targetUserName}</span>
+                                               <span className="text-slate-400 font-medium"> · {ROLE_LABELS[log.targetRole] || log.targetRole}</span>
+                                           </td>
+                                           <td className="px-6 lg:px-8 py-4">
+                                               <span className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest border ${log.allowWrites ? 'bg-amber-50 text-amber-700 border-amber-100' : 'bg-slate-50 text-slate-600 border-slate-100'}`}>
+                                                   {log.allowWrites ? <><PenLine className="h-3 w-3" /> Changes</> : <><Lock className="h-3 w-3" /> Read Only</>}
+                                               </span>
+                                           </td>
+                                           <td className="px-6 lg:px-8 py-4 text-slate-500 font-medium max-w-[240px] truncate" title={log.reason}>{log.reason || '—'}</td>
+                                           <td className="px-6 lg:px-8 py-4 text-slate-500 font-medium">{formatDateTime(log.startedAt)}</td>
+                                           <td className="px-6 lg:px-8 py-4 text-slate-500 font-medium">{log.endedAt ? formatDateTime(log.endedAt) : <span className="text-indigo-600 font-bold">Open</span>}</td>
+                                       </tr>
+                                   ))}
+                               </tbody>
+                           </table>
+                       </div>
+                   )}
+               </div>
+           )}
         </div>
 
         <CreateUserModal isOpen={isCreateModalOpen} onClose={() => setIsCreateModalOpen(false)} onSuccess={fetchUsers} />
-        <UserProfileModal isOpen={!!selectedUser} onClose={() => setSelectedUser(null)} user={selectedUser} onDeleteRequest={(u) => setUserToDelete(u)} onRoleUpdate={handleRoleUpdate} />
+        <UserProfileModal isOpen={!!selectedUser} onClose={() => setSelectedUser(null)} user={selectedUser} onDeleteRequest={(u) => setUserToDelete(u)} onRoleUpdate={handleRoleUpdate} onImpersonate={canImpersonate ? (u) => { setSelectedUser(null); setUserToView(u); } : undefined} />
+        <ImpersonateUserModal isOpen={!!userToView} onClose={() => setUserToView(null)} user={userToView} onConfirm={handleStartImpersonation} />
         <DeleteConfirmationModal isOpen={!!userToDelete} onClose={() => setUserToDelete(null)} onConfirm={handleDeleteUser} title="Purge Identity" itemName={userToDelete?.email} />
       </div>
     </div>
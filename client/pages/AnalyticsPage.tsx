@@ -6,6 +6,7 @@ import { PieChart, BarChart, TrendingUp, Lock, Download, FileText, CheckSquare,
 import { useAuth } from '../context/AuthContext';
 import { useToast } from '../context/ToastContext';
 import { useLayout } from '../context/LayoutContext';
+import { Can, usePermission } from '../context/PermissionContext';
 import { crmApi, tasksApi, usersApi } from '../services/api';
 import { formatMoney, exportToCSV } from '../utils';
 import { CRMEntry } from '../types';
@@ -21,7 +22,7 @@ export const AnalyticsPage: React.FC<AnalyticsPageProps> = ({ title }) => {
     const [entries, setEntries] = useState<CRMEntry[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     
-    const hasPermission = user?.role === 'ROLE_SUPER_ADMIN';
+    const hasPermission = usePermission('analytics.view');
 
     useEffect(() => {
         const loadData = async () => {
@@ -254,6 +255,7 @@ export const AnalyticsPage: React.FC<AnalyticsPageProps> = ({ title }) => {
                         </div>
                      </div>
 
+                     <Can permission="analytics.export">
                      <div>
                         <h2 className="text-xl lg:text-2xl font-black text-slate-900 tracking-tight mb-6 lg:mb-8 flex items-center gap-3"><FileText className="h-5 lg:h-6 w-5 lg:w-6 text-slate-400" /> Data Management</h2>
                         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 lg:gap-8">
@@ -274,6 +276,7 @@ export const AnalyticsPage: React.FC<AnalyticsPageProps> = ({ title }) => {
                             ))}
                         </div>
                      </div>
+                     </Can>
                 </main>
             </div>
         </div>
@@ -0,0 +1,155 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Navbar } from '../components/layout/Navbar';
+import { Sidebar } from '../components/layout/Sidebar';
+import { AuditVersionCard } from '../components/audit/AuditVersionCard';
+import { CustomSelect } from '../components/ui/CustomSelect';
+import { auditLogApi } from '../services/api';
+import { AUDIT_ENTITY_LABELS, AuditVersion, auditRecordKey, buildVersions, canRevertVersion, latestVersions } from '../services/audit';
+import { AuditEntry } from '../types';
+import { Search, ScrollText } from 'lucide-react';
+import { useLayout } from '../context/LayoutContext';
+import { useToast } from '../context/ToastContext';
+import { usePermission } from '../context/PermissionContext';
+import { useRevertVersion } from '../hooks/useRevertVersion';
+
+const PAGE_SIZE = 50;
+
+const ENTITY_OPTIONS = [
+  { label: 'All Records', value: '' },
+  ...Object.entries(AUDIT_ENTITY_LABELS).map(([value, label]) => ({ label: `${label}s`, value }))
+];
+
+const ACTION_OPTIONS = [
+  { label: 'All Actions', value: '' },
+  { label: 'Created', value: 'create' },
+  { label: 'Changed', value: 'update' },
+  { label: 'Deleted', value: 'delete' }
+];
+
+export const AuditLogPage: React.FC = () => {
+  const { isSidebarCollapsed } = useLayout();
+  const { showToast } = useToast();
+  const canRevert = usePermission('audit.revert');
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [entity, setEntity] = useState('');
+  const [action, setAction] = useState('');
+  const [actor, setActor] = useState('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const fetchEntries = async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await auditLogApi.getAll());
+    } catch (e) {
+      console.error(e);
+      showToast("Failed to load the audit log", "error");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => { fetchEntries(); }, []);
+
+  const revert = useRevertVersion(fetchEntries);
+
+  // Diffs need every version of a record, so they are built before any filter applies
+  const versions = useMemo(() => buildVersions(entries), [entries]);
+  const latest = useMemo(() => latestVersions(versions), [versions]);
+
+  const actorOptions = useMemo(() => {
+    const names = Array.from(new Set(entries.map(e => e.actorName))).sort();
+    return [{ label: 'Everyone', value: '' }, ...names.map(name => ({ label: name, value: name }))];
+  }, [entries]);
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return versions.filter(({ entry, changes }) => {
+      if (entity && entry.entity !== entity) return false;
+      if (action && entry.action !== action) return false;
+      if (actor && entry.actorName !== actor) return false;
+      if (!term) return true;
+      return (entry.recordLabel || '').toLowerCase().includes(term)
+        || String(entry.recordId) === term
+        || changes.some(c => c.label.toLowerCase().includes(term));
+    });
+  }, [versions, search, entity, action, actor]);
+
+  useEffect(() => { setVisibleCount(PAGE_SIZE); }, [search, entity, action, actor]);
+
+  const handleRevert = async (version: AuditVersion) => {
+    await revert(version, latest.get(auditRecordKey(version.entry)));
+  };
+
+  return (
+    <div className="flex min-h-screen mesh-bg relative">
+      <div className="glass-canvas" />
+      <Sidebar />
+      <div className={`flex-1 flex flex-col min-w-0 transition-all duration-500 ease-in-out ${isSidebarCollapsed ? 'lg:ml-28' : 'lg:ml-80'}`}>
+        <Navbar />
+
+        <div className="flex-1 px-4 lg:px-12 py-6 lg:py-10 pb-32">
+          <div className="flex flex-col xl:flex-row xl:items-end justify-between gap-6 lg:gap-8 mb-8 lg:mb-16 animate-premium">
+            <div>
+              <div className="flex items-center gap-3 mb-2 lg:mb-4">
+                <div className="h-1.5 lg:h-2 w-1.5 lg:w-2 rounded-full bg-brand-500 animate-pulse" />
+                <span className="text-[9px] lg:text-[10px] font-black text-brand-600 uppercase tracking-[0.5em]">Change History</span>
+              </div>
+              <h1 className="text-4xl lg:text-7xl font-black text-slate-900 tracking-tighter leading-none display-text">Audit Log.</h1>
+              <p className="text-slate-500 text-sm lg:text-lg mt-2 lg:mt-4 font-medium">Every change to deals, tasks, meetings and users.</p>
+            </div>
+          </div>
+
+          <div className="bg-white/30 backdrop-blur-2xl rounded-[2rem] lg:rounded-[3rem] border border-white/60 shadow-xl overflow-hidden">
+            <div className="p-4 lg:p-6 border-b border-gray-100 bg-white/40 grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+              <div className="relative group">
+                <Search className="absolute left-4 lg:left-6 top-1/2 -translate-y-1/2 h-4 lg:h-5 w-4 lg:w-5 text-gray-300 group-focus-within:text-brand-500 transition-colors" />
+                <input
+                  type="text"
+                  placeholder="Record, ID or field..."
+                  className="w-full pl-12 lg:pl-16 pr-6 py-3 lg:py-4 bg-white border border-gray-200 rounded-xl lg:rounded-2xl text-xs lg:text-sm focus:outline-none focus:ring-4 focus:ring-brand-500/10 transition-all font-bold shadow-inner"
+                  value={search}
+                  onChange={e => setSearch(e.target.value)}
+                />
+              </div>
+              <CustomSelect value={entity} onChange={setEntity} options={ENTITY_OPTIONS} placeholder="Record Type" className="w-full" />
+              <CustomSelect value={action} onChange={setAction} options={ACTION_OPTIONS} placeholder="Action" className="w-full" />
+              <CustomSelect value={actor} onChange={setActor} options={actorOptions} placeholder="Changed By" className="w-full" />
+            </div>
+
+            <div className="p-4 lg:p-6 space-y-3">
+              {isLoading ? (
+                <div className="py-20 text-center text-[10px] font-black text-slate-400 uppercase tracking-[0.4em] animate-pulse">Loading audit log...</div>
+              ) : filtered.length === 0 ? (
+                <div className="py-20 text-center">
+                  <ScrollText className="h-10 w-10 text-slate-300 mx-auto mb-4" />
+                  <p className="text-sm font-bold text-slate-500">{entries.length === 0 ? 'No changes recorded yet.' : 'No changes match these filters.'}</p>
+                </div>
+              ) : (
+                <>
+                  {filtered.slice(0, visibleCount).map(version => (
+                    <AuditVersionCard
+                      key={version.entry.id}
+                      version={version}
+                      showRecord
+                      onRevert={canRevert && canRevertVersion(version, latest.get(auditRecordKey(version.entry))) ? () => handleRevert(version) : undefined}
+                    />
+                  ))}
+                  {filtered.length > visibleCount && (
+                    <button
+                      onClick={() => setVisibleCount(c => c + PAGE_SIZE)}
+                      className="w-full py-4 border-2 border-dashed border-slate-200 rounded-[2rem] text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600 hover:border-indigo-200 transition-all"
+                    >
+                      Show {Math.min(PAGE_SIZE, filtered.length - visibleCount)} more of {filtered.length - visibleCount}
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
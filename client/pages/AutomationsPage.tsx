@@ -0,0 +1,311 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Navbar } from '../components/layout/Navbar';
+import { Sidebar } from '../components/layout/Sidebar';
+import { automationLogsApi, automationRulesApi, companiesApi, meetingsApi, tasksApi, usersApi } from '../services/api';
+import { AutomationRule, AutomationRunLog, AutomationRunStatus, CRMEntry, Meeting, Task, User } from '../types';
+import { AUTOMATION_ENTITY_LABELS, AutomationRecords, RulePreview, describeRule, previewRule } from '../services/automation';
+import { AutomationRuleForm } from '../components/automation/AutomationRuleForm';
+import { RulePreviewModal } from '../components/automation/RulePreviewModal';
+import { DeleteConfirmationModal } from '../components/ui/DeleteConfirmationModal';
+import { CustomSelect } from '../components/ui/CustomSelect';
+import { Plus, Workflow, Edit2, Trash2, FlaskConical, History, ListChecks, ArrowRight } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useLayout } from '../context/LayoutContext';
+import { useToast } from '../context/ToastContext';
+import { useAutomation } from '../context/AutomationContext';
+import { formatDateTime } from '../utils';
+
+type ViewMode = 'rules' | 'log';
+
+const STATUS_STYLES: Record<AutomationRunStatus, string> = {
+  success: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+  failed: 'bg-rose-50 text-rose-700 border-rose-100',
+  dry_run: 'bg-amber-50 text-amber-700 border-amber-100'
+};
+
+const STATUS_LABELS: Record<AutomationRunStatus, string> = {
+  success: 'Applied',
+  failed: 'Failed',
+  dry_run: 'Dry Run'
+};
+
+export const AutomationsPage: React.FC = () => {
+  const { user, isReadOnly } = useAuth();
+  const { isSidebarCollapsed } = useLayout();
+  const { showToast } = useToast();
+  const { reloadRules, lastRun } = useAutomation();
+  const [viewMode, setViewMode] = useState<ViewMode>('rules');
+  const [rules, setRules] = useState<AutomationRule[]>([]);
+  const [logs, setLogs] = useState<AutomationRunLog[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editing, setEditing] = useState<AutomationRule | undefined>(undefined);
+  const [deleteId, setDeleteId] = useState<number | null>(null);
+  const [logRuleFilter, setLogRuleFilter] = useState('');
+  const [logStatusFilter, setLogStatusFilter] = useState('');
+
+  // Dry-run preview, records are fetched once on the first preview
+  const [previewTarget, setPreviewTarget] = useState<AutomationRule | undefined>(undefined);
+  const [previewRecords, setPreviewRecords] = useState<(AutomationRecords & { companies: CRMEntry[] }) | null>(null);
+  const [isPreviewLoading, setIsPreviewLoading] = useState(false);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      setIsLoading(true);
+      try {
+        const [rulesData, logsData, usersData] = await Promise.all([
+          automationRulesApi.getAll(),
+          automationLogsApi.getAll().catch(() => [] as AutomationRunLog[]),
+          usersApi.getAll().catch(() => [] as User[])
+        ]);
+        setRules(rulesData);
+        setLogs(logsData);
+        setUsers(usersData);
+      } catch (e) {
+        console.error(e);
+        showToast("Failed to load automations", "error");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchData();
+  }, []);
+
+  useEffect(() => {
+    if (lastRun) setLogs(prev => [...lastRun.logs.filter(l => !prev.some(p => p.id === l.id)), ...prev]);
+  }, [lastRun]);
+
+  const handleSave = async (data: Omit<AutomationRule, 'id' | 'createdAt'>) => {
+    const audit = { lastUpdatedBy: user?.name || 'Unknown', lastUpdatedAt: new Date().toISOString() };
+    try {
+      if (editing) {
+        const updated = await automationRulesApi.update(editing.id, { ...data, ...audit });
+        setRules(prev => prev.map(r => r.id === editing.id ? { ...r, ...data, ...audit, ...updated } : r));
+        showToast("Rule updated", "success");
+      } else {
+        const created = await automationRulesApi.create({ ...data, ...audit });
+        setRules(prev => [...prev, created]);
+        showToast("Rule created", "success");
+      }
+      setIsFormOpen(false);
+      reloadRules();
+    } catch (e: any) {
+      showToast(e.message || "Failed to save rule", "error");
+    }
+  };
+
+  const handleToggle = async (rule: AutomationRule) => {
+    const audit = { lastUpdatedBy: user?.name || 'Unknown', lastUpdatedAt: new Date().toISOString() };
+    const next = { ...rule, isEnabled: !rule.isEnabled, ...audit };
+    setRules(prev => prev.map(r => r.id === rule.id ? next : r));
+    try {
+      await automationRulesApi.update(rule.id, { isEnabled: next.isEnabled, ...audit });
+      reloadRules();
+    } catch (e) {
+      setRules(prev => prev.map(r => r.id === rule.id ? rule : r));
+      showToast("Failed to update rule", "error");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteId) return;
+    const target = rules.find(r => r.id === deleteId);
+    setDeleteId(null);
+    if (!target) return;
+    setRules(prev => prev.filter(r => r.id !== target.id));
+    try {
+      await automationRulesApi.delete(target.id);
+      showToast("Rule removed", "info");
+      reloadRules();
+    } catch (e) {
+      setRules(prev => [...prev, target]);
+      showToast("Failed to remove rule", "error");
+    }
+  };
+
+  const openPreview = async (rule: AutomationRule) => {
+    setPreviewTarget(rule);
+    if (previewRecords) return;
+    setIsPreviewLoading(true);
+    try {
+      const [companies, tasks, meetings] = await Promise.all([
+        companiesApi.getAll().catch(() => [] as CRMEntry[]),
+        tasksApi.getAll().catch(() => [] as Task[]),
+        meetingsApi.getAll().catch(() => [] as Meeting[])
+      ]);
+      setPreviewRecords({ crm: companies, task: tasks, meeting: meetings, companies });
+    } catch (e) {
+      showToast("Failed to load records for the preview", "error");
+    } finally {
+      setIsPreviewLoading(false);
+    }
+  };
+
+  const previews = useMemo<RulePreview[]>(() => {
+    if (!previewTarget || !previewRecords) return [];
+    return previewRule(previewTarget, previewRecords, { users, companies: previewRecords.companies });
+  }, [previewTarget, previewRecords, users]);
+
+  const filteredLogs = useMemo(() => logs
+    .filter(l => !logRuleFilter || l.ruleId.toString() === logRuleFilter)
+    .filter(l => !logStatusFilter || l.status === logStatusFilter)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()),
+  [logs, logRuleFilter, logStatusFilter]);
+
+  const runCount = (ruleId: number) => logs.filter(l => l.ruleId === ruleId).length;
+
+  return (
+    <div className="flex min-h-screen mesh-bg relative">
+      <div className="glass-canvas" />
+      <Sidebar />
+      <div className={`flex-1 flex flex-col min-w-0 transition-all duration-500 ease-in-out ${isSidebarCollapsed ? 'lg:ml-28' : 'lg:ml-80'}`}>
+        <Navbar />
+
+        <div className="flex-1 px-4 lg:px-12 py-6 lg:py-10 pb-32">
+          <div className="flex flex-col xl:flex-row xl:items-end justify-between gap-6 lg:gap-8 mb-8 lg:mb-16 animate-premium">
+            <div>
+              <div className="flex items-center gap-3 mb-2 lg:mb-4">
+                <div className="h-1.5 lg:h-2 w-1.5 lg:w-2 rounded-full bg-brand-500 animate-pulse" />
+                <span className="text-[9px] lg:text-[10px] font-black text-brand-600 uppercase tracking-[0.5em]">Workflow Rules</span>
+              </div>
+              <h1 className="text-4xl lg:text-7xl font-black text-slate-900 tracking-tighter leading-none display-text">Automations.</h1>
+            </div>
+
+            <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-3">
+              <div className="flex bg-white/50 backdrop-blur-xl p-1.5 rounded-2xl border border-white shadow-sm">
+                {([['rules', 'Rules', ListChecks], ['log', 'Execution Log', History]] as const).map(([mode, label, Icon]) => (
+                  <button
+                    key={mode}
+                    onClick={() => setViewMode(mode)}
+                    className={`px-5 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center gap-2 transition-all ${viewMode === mode ? 'bg-slate-950 text-white shadow-lg' : 'text-slate-500 hover:text-slate-900'}`}
+                  >
+                    <Icon className="h-4 w-4" /> {label}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => { setEditing(undefined); setIsFormOpen(true); }}
+                disabled={isReadOnly}
+                className="bg-slate-950 hover:bg-slate-900 text-white px-6 lg:px-10 py-3 lg:py-5 rounded-2xl lg:rounded-[2rem] flex items-center justify-center gap-3 lg:gap-4 font-black uppercase tracking-[0.2em] shadow-2xl active:scale-95 transition-all w-full sm:w-auto text-xs lg:text-sm disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Plus className="h-5 lg:h-6 w-5 lg:w-6 text-brand-400" /> New Rule
+              </button>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="py-20 text-center text-[10px] font-black text-slate-400 uppercase tracking-[0.4em]">Loading automations...</div>
+          ) : viewMode === 'rules' ? (
+            rules.length === 0 ? (
+              <div className="py-20 text-center bg-white/30 backdrop-blur-2xl rounded-[3rem] border border-white/60">
+                <Workflow className="h-10 w-10 text-slate-300 mx-auto mb-4" />
+                <p className="text-sm font-bold text-slate-500">Move follow-ups, owners and priorities along without anyone having to remember.</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+                {rules.map(rule => {
+                  const summary = describeRule(rule);
+                  return (
+                    <div key={rule.id} className={`bg-white/40 backdrop-blur-3xl rounded-[2.5rem] border border-white shadow-premium p-8 flex flex-col group transition-opacity ${rule.isEnabled ? '' : 'opacity-60'}`}>
+                      <div className="flex items-start justify-between gap-4 mb-4">
+                        <div className="h-12 w-12 rounded-2xl bg-slate-950 flex items-center justify-center text-indigo-400 shadow-xl shrink-0">
+                          <Workflow className="h-6 w-6" />
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                            <button onClick={() => openPreview(rule)} title="Dry run preview" className="p-2 text-slate-400 hover:text-amber-600 hover:bg-white rounded-xl transition-all">
+                              <FlaskConical className="h-4 w-4" />
+                            </button>
+                            <button onClick={() => { setEditing(rule); setIsFormOpen(true); }} className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-white rounded-xl transition-all">
+                              <Edit2 className="h-4 w-4" />
+                            </button>
+                            <button onClick={() => setDeleteId(rule.id)} className="p-2 text-slate-400 hover:text-rose-600 hover:bg-white rounded-xl transition-all">
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </div>
+                          <button onClick={() => handleToggle(rule)} title={rule.isEnabled ? 'Pause rule' : 'Enable rule'} className={`relative inline-flex h-7 w-12 items-center rounded-full transition-colors ml-1 ${rule.isEnabled ? 'bg-indigo-600' : 'bg-slate-300'}`}>
+                            <span className={`inline-block h-5 w-5 transform rounded-full bg-white transition-transform duration-300 ${rule.isEnabled ? 'translate-x-6' : 'translate-x-1'}`} />
+                          </button>
+                        </div>
+                      </div>
+                      <h3 className="text-xl font-black text-slate-900 tracking-tight">{rule.name}</h3>
+
+                      <div className="flex flex-wrap gap-2 mt-4">
+                        <span className="px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest bg-slate-50 border border-slate-100 text-slate-600">{AUTOMATION_ENTITY_LABELS[rule.entity]}s</span>
+                        {rule.dryRun && (
+                          <span className="px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest bg-amber-50 border border-amber-100 text-amber-700 flex items-center gap-1.5">
+                            <FlaskConical className="h-3 w-3" /> Dry Run
+                          </span>
+                        )}
+                        <span className="px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest bg-slate-50 border border-slate-100 text-slate-600">{runCount(rule.id)} Runs</span>
+                      </div>
+
+                      <div className="mt-6 space-y-2 flex-1 text-xs">
+                        <p className="font-bold text-slate-800">{summary.when}</p>
+                        {summary.conditions.map((c, i) => <p key={i} className="font-medium text-slate-500">and {c}</p>)}
+                        {summary.actions.map((a, i) => (
+                          <p key={i} className="font-bold text-indigo-600 flex items-center gap-2"><ArrowRight className="h-3 w-3 shrink-0" /> {a}</p>
+                        ))}
+                      </div>
+
+                      {rule.lastUpdatedAt && (
+                        <p className="mt-6 pt-4 border-t border-slate-100 text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                          Updated {formatDateTime(rule.lastUpdatedAt)}{rule.lastUpdatedBy ? ` by ${rule.lastUpdatedBy}` : ''}
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )
+          ) : (
+            <div className="bg-white/40 backdrop-blur-3xl rounded-[3rem] border border-white shadow-premium p-8 space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <CustomSelect label="Rule" value={logRuleFilter} onChange={setLogRuleFilter} options={[{ label: 'All rules', value: '' }, ...rules.map(r => ({ label: r.name, value: r.id.toString() }))]} placeholder="All rules" />
+                <CustomSelect label="Outcome" value={logStatusFilter} onChange={setLogStatusFilter} options={[{ label: 'All outcomes', value: '' }, ...(Object.keys(STATUS_LABELS) as AutomationRunStatus[]).map(s => ({ label: STATUS_LABELS[s], value: s }))]} placeholder="All outcomes" />
+              </div>
+
+              {filteredLogs.length === 0 ? (
+                <div className="py-16 text-center text-[10px] font-black text-slate-300 uppercase tracking-[0.4em]">No runs recorded yet</div>
+              ) : (
+                <div className="space-y-3">
+                  {filteredLogs.map(log => (
+                    <div key={log.id} className="px-6 py-4 bg-white border border-slate-100 rounded-2xl flex flex-col md:flex-row md:items-start gap-3 md:gap-6">
+                      <div className="md:w-48 shrink-0">
+                        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{formatDateTime(log.createdAt)}</p>
+                        <span className={`inline-block mt-2 px-2.5 py-0.5 rounded-full border text-[9px] font-black uppercase tracking-widest ${STATUS_STYLES[log.status]}`}>{STATUS_LABELS[log.status]}</span>
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-bold text-slate-800 truncate">
+                          {log.ruleName} <span className="text-slate-300 mx-1">·</span> <span className="text-slate-500">{AUTOMATION_ENTITY_LABELS[log.entity]} "{log.recordLabel}"</span>
+                        </p>
+                        <ul className="mt-1.5 space-y-0.5">
+                          {log.effects.map((effect, i) => <li key={i} className="text-xs font-medium text-slate-500">{effect}</li>)}
+                        </ul>
+                        {log.error && <p className="mt-1.5 text-xs font-bold text-rose-600">{log.error}</p>}
+                      </div>
+                      <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest md:text-right shrink-0">
+                        {log.triggerKey}{log.triggeredBy ? <><br />by {log.triggeredBy}</> : null}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <AutomationRuleForm isOpen={isFormOpen} onClose={() => setIsFormOpen(false)} onSubmit={handleSave} initialData={editing} users={users} />
+      <RulePreviewModal isOpen={!!previewTarget} onClose={() => setPreviewTarget(undefined)} rule={previewTarget} previews={previews} isLoading={isPreviewLoading} />
+      <DeleteConfirmationModal
+        isOpen={!!deleteId}
+        onClose={() => setDeleteId(null)}
+        onConfirm={handleDelete}
+        title="Delete Rule"
+        message="Past runs stay in the execution log. This cannot be undone."
+      />
+    </div>
+  );
+};
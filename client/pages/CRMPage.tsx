@@ -1,26 +1,40 @@
 import React, { useState, useEffect, useMemo } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { Navbar } from '../components/layout/Navbar';
 import { Sidebar } from '../components/layout/Sidebar';
 import { CRMFilters } from '../components/crm/CRMFilters';
 import { CRMStats } from '../components/crm/CRMStats';
 import { CRMForm } from '../components/crm/CRMForm';
 import { CRMTable } from '../components/crm/CRMTable';
+import { CRMPipelineBoard } from '../components/crm/CRMPipelineBoard';
+import { CRMImportWizard } from '../components/crm/CRMImportWizard';
 import { FilterState, CRMEntry, CRMStatus } from '../types';
-import { Plus } from 'lucide-react';
+import { Plus, LayoutList, Kanban, Upload } from 'lucide-react';
 import { crmApi, usersApi } from '../services/api';
+import { startOnboarding } from '../services/playbooks';
 import { useAuth } from '../context/AuthContext';
 import { useToast } from '../context/ToastContext';
 import { useLayout } from '../context/LayoutContext';
+import { useAutomation } from '../context/AutomationContext';
+import { Can, usePermissions } from '../context/PermissionContext';
+import { useConcurrency } from '../context/ConcurrencyContext';
 
 export const CRMPage: React.FC = () => {
   const { isSidebarCollapsed } = useLayout();
-  const { user } = useAuth();
+  const { user, isReadOnly } = useAuth();
   const { showToast } = useToast();
+  const { runAutomations, lastRun } = useAutomation();
+  const { can } = usePermissions();
+  const { saveWithVersion } = useConcurrency();
+  const location = useLocation();
+  const navigate = useNavigate();
   const [entries, setEntries] = useState<CRMEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingEntry, setEditingEntry] = useState<CRMEntry | undefined>(undefined);
   const [userAvatarMap, setUserAvatarMap] = useState<Record<string, string>>({});
+  const [viewMode, setViewMode] = useState<'table' | 'board'>('table');
+  const [isImportOpen, setIsImportOpen] = useState(false);
   
   const [filters, setFilters] = useState<FilterState>({
     status: '', assignedTo: '', search: '', dateRangeStart: '', dateRangeEnd: ''
@@ -45,6 +59,24 @@ export const CRMPage: React.FC = () => {
 
   useEffect(() => { fetchData(); }, []);
 
+  useEffect(() => {
+    if (lastRun?.entity === 'crm') setEntries(prev => prev.map(e => e.id === lastRun.recordId ? { ...e, ...lastRun.patch } as CRMEntry : e));
+  }, [lastRun]);
+
+  // Deep links from the command palette
+  useEffect(() => {
+    const state = location.state as { openEntryId?: number; createEntry?: boolean } | null;
+    if (!state || isLoading) return;
+    if (state.createEntry) {
+      setEditingEntry(undefined);
+      setIsModalOpen(true);
+    } else if (state.openEntryId) {
+      const target = entries.find(e => e.id === state.openEntryId);
+      if (target) { setEditingEntry(target); setIsModalOpen(true); }
+    }
+    navigate(location.pathname, { replace: true, state: null });
+  }, [location.state, isLoading]);
+
   const filteredData = useMemo(() => {
     return entries.filter(item => {
       const matchesSearch = filters.search === '' || 
@@ -57,25 +89,62 @@ export const CRMPage: React.FC = () => {
     }).sort((a, b) => b.id - a.id);
   }, [entries, filters]);
 
+  // The board shows every stage as a column, so only the search filter applies
+  const boardData = useMemo(() => {
+    const q = filters.search.toLowerCase();
+    return entries.filter(item =>
+      q === '' || (item.company || '').toLowerCase().includes(q) || (item.contactName || '').toLowerCase().includes(q)
+    ).sort((a, b) => b.id - a.id);
+  }, [entries, filters.search]);
+
+  const runOnboarding = (companyId: number) => startOnboarding(companyId, user?.name || 'Unknown', showToast);
+
   const handleSave = async (data: Partial<CRMEntry>) => {
+      if (!can('crm.edit')) { showToast("You don't have permission to edit deals.", 'error'); return; }
       try {
           if (editingEntry) {
-              await crmApi.update(editingEntry.id, data);
+              const saved = await saveWithVersion('crm', editingEntry, data, (payload, version) => crmApi.update(editingEntry.id, payload, version));
+              if (!saved) {
+                  showToast("Your changes were discarded, the newer version was kept.", 'info');
+                  fetchData();
+                  return;
+              }
               showToast("Identity synchronized.", 'success');
+              if (saved.status === 'onboarded' && editingEntry.status !== 'onboarded') runOnboarding(editingEntry.id);
+              runAutomations('crm', editingEntry, saved);
           } else {
-              await crmApi.create(data as CRMEntry);
+              const created = await crmApi.create(data as CRMEntry);
               showToast("New deal deployed.", 'success');
+              if (created.status === 'onboarded') runOnboarding(created.id);
+              runAutomations('crm', undefined, created);
           }
           fetchData();
       } catch (e) { showToast("Action failed.", 'error'); }
   };
 
   const handleStatusChange = async (entry: CRMEntry, newStatus: CRMStatus) => {
+    if (isReadOnly) return;
+    if (!can('crm.edit')) { showToast("You don't have permission to edit deals.", 'error'); return; }
+    const previousEntries = [...entries];
+    // Optimistic Update
+    setEntries(prev => prev.map(e => e.id === entry.id ? { ...e, status: newStatus } : e));
+
     try {
-      await crmApi.update(entry.id, { status: newStatus });
-      fetchData();
-      showToast(`Status updated to ${newStatus}`, 'success');
-    } catch (e) { showToast("Update failed", 'error'); }
+      // The server stamps lastUpdatedBy and lastUpdatedAt itself
+      const saved = await saveWithVersion('crm', entry, { status: newStatus }, (payload, version) => crmApi.update(entry.id, payload, version));
+      if (!saved) {
+        showToast("Your changes were discarded, the newer version was kept.", "info");
+        fetchData();
+        return;
+      }
+      setEntries(prev => prev.map(e => e.id === entry.id ? { ...e, ...saved } : e));
+      showToast(`Status updated to ${saved.status}`, 'success');
+      if (saved.status === 'onboarded' && entry.status !== 'onboarded') runOnboarding(entry.id);
+      runAutomations('crm', entry, saved);
+    } catch (e) {
+      showToast("Update failed", 'error');
+      setEntries(previousEntries); // Revert
+    }
   };
 
   const handleDelete = async (id: number) => {
@@ -100,38 +169,86 @@ export const CRMPage: React.FC = () => {
                 <p className="text-slate-500 text-sm lg:text-lg mt-2 lg:mt-4 font-medium">Manage your global lead pipeline with precision.</p>
              </div>
              
-             <button 
-                onClick={() => { setEditingEntry(undefined); setIsModalOpen(true); }}
-                className="bg-slate-950 hover:bg-slate-900 text-white px-6 lg:px-8 py-3 lg:py-4 rounded-2xl lg:rounded-3xl flex items-center justify-center gap-3 lg:gap-4 font-black uppercase tracking-[0.2em] shadow-2xl active:scale-95 transition-all w-full sm:w-auto text-xs lg:text-sm"
-             >
-                <Plus className="h-4 w-4 lg:h-5 lg:w-5 text-indigo-400" /> Initialize Deal
-             </button>
+             <Can permission="crm.edit">
+             <div className="flex flex-col sm:flex-row gap-3">
+                <button 
+                   onClick={() => setIsImportOpen(true)}
+                   disabled={isReadOnly}
+                   className="bg-white/60 hover:bg-white text-slate-700 border border-white px-6 lg:px-8 py-3 lg:py-4 rounded-2xl lg:rounded-3xl flex items-center justify-center gap-3 font-black uppercase tracking-[0.2em] shadow-sm active:scale-95 transition-all w-full sm:w-auto text-xs lg:text-sm disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                   <Upload className="h-4 w-4 lg:h-5 lg:w-5 text-indigo-500" /> Import
+                </button>
+                <button 
+                   onClick={() => { setEditingEntry(undefined); setIsModalOpen(true); }}
+                   disabled={isReadOnly}
+                   className="bg-slate-950 hover:bg-slate-900 text-white px-6 lg:px-8 py-3 lg:py-4 rounded-2xl lg:rounded-3xl flex items-center justify-center gap-3 lg:gap-4 font-black uppercase tracking-[0.2em] shadow-2xl active:scale-95 transition-all w-full sm:w-auto text-xs lg:text-sm disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                   <Plus className="h-4 w-4 lg:h-5 lg:w-5 text-indigo-400" /> Initialize Deal
+                </button>
+             </div>
+             </Can>
           </div>
 
           <CRMStats entries={entries} />
 
           <div className="bg-white/30 backdrop-blur-2xl rounded-[2rem] lg:rounded-[3rem] border border-white/60 shadow-xl flex flex-col mb-12 overflow-hidden">
+            <div className="flex items-center gap-1.5 p-2 lg:p-3 border-b border-white/40 bg-white/20 overflow-x-auto no-scrollbar">
+                {[
+                    { id: 'table', label: 'Registry', icon: LayoutList },
+                    { id: 'board', label: 'Pipeline Board', icon: Kanban },
+                ].map((view) => (
+                    <button 
+                        key={view.id} 
+                        onClick={() => setViewMode(view.id as 'table' | 'board')} 
+                        className={`flex items-center gap-2 px-4 lg:px-6 py-2 lg:py-3 rounded-xl lg:rounded-2xl text-[9px] lg:text-[11px] font-black uppercase tracking-widest transition-all whitespace-nowrap ${
+                            viewMode === view.id 
+                            ? 'bg-white text-brand-700 shadow-xl ring-1 ring-black/5' 
+                            : 'text-slate-400 hover:text-slate-700 hover:bg-white/40'
+                        }`}
+                    >
+                        <view.icon className="h-3.5 w-3.5 lg:h-4 lg:w-4" /> {view.label}
+                    </button>
+                ))}
+            </div>
+
             <CRMFilters filters={filters} setFilters={setFilters} onRefresh={fetchData} />
             
-            <div className="pt-4 pb-10 overflow-x-auto">
-                <CRMTable 
-                    data={filteredData} 
-                    isLoading={isLoading} 
-                    userAvatarMap={userAvatarMap}
-                    onView={(e) => { setEditingEntry(e); setIsModalOpen(true); }}
-                    onDelete={handleDelete}
-                    onStatusChange={handleStatusChange}
-                />
-            </div>
+            {viewMode === 'table' ? (
+                <div className="pt-4 pb-10 overflow-x-auto">
+                    <CRMTable 
+                        data={filteredData} 
+                        isLoading={isLoading} 
+                        userAvatarMap={userAvatarMap}
+                        onView={(e) => { setEditingEntry(e); setIsModalOpen(true); }}
+                        onDelete={can('crm.delete') ? handleDelete : undefined}
+                        onStatusChange={handleStatusChange}
+                    />
+                </div>
+            ) : isLoading ? (
+                <div className="p-40 flex items-center justify-center">
+                    <div className="animate-spin rounded-full h-12 w-12 border-[4px] border-slate-100 border-t-brand-600" />
+                </div>
+            ) : (
+                <div className="p-4 lg:p-8 h-[600px] lg:h-[700px] animate-premium overflow-x-auto">
+                    <CRMPipelineBoard 
+                        entries={boardData} 
+                        userAvatarMap={userAvatarMap}
+                        onView={(e) => { setEditingEntry(e); setIsModalOpen(true); }}
+                        onStatusChange={handleStatusChange}
+                        readOnly={isReadOnly || !can('crm.edit')}
+                    />
+                </div>
+            )}
             
             <div className="p-4 lg:p-5 border-t border-white/40 bg-white/20 text-[8px] lg:text-[9px] font-black text-slate-400 uppercase tracking-[0.3em] flex justify-between rounded-b-[2rem] lg:rounded-b-[3rem]">
                 <span>System Index: Active</span>
-                <span>Registry Records: {filteredData.length}</span>
+                <span>Registry Records: {viewMode === 'table' ? filteredData.length : boardData.length}</span>
             </div>
           </div>
         </div>
 
-        <CRMForm isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} onSubmit={handleSave} initialData={editingEntry} />
+        <CRMForm isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} onSubmit={handleSave} initialData={editingEntry} onReverted={() => fetchData()} />
+        <CRMImportWizard isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} existingEntries={entries} onComplete={fetchData} />
       </div>
     </div>
   );
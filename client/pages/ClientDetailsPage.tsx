@@ -1,30 +1,49 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { Navbar } from '../components/layout/Navbar';
 import { Sidebar } from '../components/layout/Sidebar';
-import { useParams, Link } from 'react-router-dom';
-import { crmApi, tasksApi, usersApi } from '../services/api';
-import { CRMEntry, Task, TaskFilterState, TaskStatus, TaskPriority } from '../types';
+import { useParams, Link, useLocation, useNavigate } from 'react-router-dom';
+import { crmApi, companiesApi, tasksApi, usersApi, timeEntriesApi, playbooksApi, ConcurrencyConflictError } from '../services/api';
+import { CRMEntry, Task, TaskFilterState, TaskStatus, TaskPriority, RecurrenceScope, TimeEntry, RetainerBudget, Playbook } from '../types';
+import { createRecurringSeries, updateRecurringSeries } from '../services/recurringTasks';
+import { logTaskChanges } from '../services/taskActivity';
+import { applyPlaybook } from '../services/playbooks';
 import { ClientTaskTable } from '../components/client-tracker/ClientTaskTable';
 import { ClientTaskForm } from '../components/client-tracker/ClientTaskForm';
 import { TasksKanban } from '../components/tasks/TasksKanban';
 import { TasksCalendar } from '../components/tasks/TasksCalendar';
 import { TasksFilter } from '../components/tasks/TasksFilter';
+import { RetainerBurnDown } from '../components/client-tracker/RetainerBurnDown';
+import { RetainerBudgetForm } from '../components/client-tracker/RetainerBudgetForm';
+import { ContentCalendar } from '../components/content/ContentCalendar';
+import { TaskTimeline } from '../components/client-tracker/TaskTimeline';
+import { ApplyPlaybookModal } from '../components/playbooks/ApplyPlaybookModal';
 import { DeleteConfirmationModal } from '../components/ui/DeleteConfirmationModal';
-import { CheckCircle, Plus, HardDrive, LayoutList, Calendar as CalendarIcon, ExternalLink, Kanban, Archive, ChevronDown, ChevronRight, AlertCircle, Building, Zap, Rocket, User } from 'lucide-react';
+import { CheckCircle, Plus, HardDrive, LayoutList, Calendar as CalendarIcon, ExternalLink, Kanban, Archive, ChevronDown, ChevronRight, AlertCircle, Building, Zap, Rocket, User, ListChecks, Timer, Megaphone, GanttChart, BookOpen } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { useLayout } from '../context/LayoutContext';
 import { useToast } from '../context/ToastContext';
-import { getStatusStyles, formatDate, formatDateTime } from '../utils';
+import { useReschedule } from '../hooks/useReschedule';
+import { useTimeTracking } from '../context/TimeTrackingContext';
+import { useAutomation } from '../context/AutomationContext';
+import { usePermission } from '../context/PermissionContext';
+import { useConcurrency } from '../context/ConcurrencyContext';
+import { getStatusStyles, formatDate, formatDateTime, getSubtaskProgress, formatDuration } from '../utils';
+import { getRetainerUsage, getMonthElapsedPercent } from '../services/retainers';
 
-type ViewMode = 'list' | 'kanban' | 'calendar';
+type ViewMode = 'list' | 'kanban' | 'calendar' | 'timeline' | 'content';
 
 export const ClientDetailsPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
-  const { user } = useAuth();
+  const { user, isReadOnly } = useAuth();
   const { isSidebarCollapsed } = useLayout();
   const { showToast } = useToast();
+  const { lastLoggedEntry } = useTimeTracking();
+  const { runAutomations, lastRun } = useAutomation();
+  const location = useLocation();
+  const navigate = useNavigate();
   const [client, setClient] = useState<CRMEntry | null>(null);
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
   const [userAvatarMap, setUserAvatarMap] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(true);
   
@@ -33,6 +52,12 @@ export const ClientDetailsPage: React.FC = () => {
   const [editingTask, setEditingTask] = useState<Task | undefined>(undefined);
   const [deleteId, setDeleteId] = useState<number | null>(null);
   const [isCompletedExpanded, setIsCompletedExpanded] = useState(false);
+  const [isRetainerOpen, setIsRetainerOpen] = useState(false);
+  const [isPlaybookOpen, setIsPlaybookOpen] = useState(false);
+  const [playbooks, setPlaybooks] = useState<Playbook[]>([]);
+  const canEditRetainer = usePermission('crm.edit');
+  const canDeleteTasks = usePermission('task.delete');
+  const { saveWithVersion } = useConcurrency();
 
   const [filters, setFilters] = useState<TaskFilterState>({
     search: '', status: '', priority: '', assignedTo: ''
@@ -58,8 +83,30 @@ export const ClientDetailsPage: React.FC = () => {
       } catch (e) { console.error(e); } finally { setIsLoading(false); }
     };
     fetchData();
+    // Effort is secondary, the dashboard still loads when time tracking is unavailable
+    timeEntriesApi.getAll()
+      .then(entries => setTimeEntries(entries.filter(e => e.companyId === parseInt(id || ''))))
+      .catch(e => console.error(e));
   }, [id]);
 
+  useEffect(() => {
+    if (lastLoggedEntry && lastLoggedEntry.companyId === parseInt(id || '')) {
+      setTimeEntries(prev => prev.some(e => e.id === lastLoggedEntry.id) ? prev : [...prev, lastLoggedEntry]);
+    }
+  }, [lastLoggedEntry]);
+
+  useEffect(() => {
+    if (!lastRun) return;
+    const companyId = parseInt(id || '');
+    if (lastRun.entity === 'crm' && lastRun.recordId === companyId) {
+      setClient(prev => prev ? { ...prev, ...lastRun.patch } as CRMEntry : prev);
+    }
+    setTasks(prev => {
+      const patched = lastRun.entity === 'task' ? prev.map(t => t.id === lastRun.recordId ? { ...t, ...lastRun.patch } as Task : t) : prev;
+      return [...patched, ...lastRun.createdTasks.filter(c => c.companyId === companyId && !patched.some(t => t.id === c.id))];
+    });
+  }, [lastRun]);
+
   const filteredBaseTasks = useMemo(() => {
     let result = tasks.filter(t => {
       const matchesSearch = (t.title || '').toLowerCase().includes(filters.search.toLowerCase());
@@ -80,32 +127,134 @@ export const ClientDetailsPage: React.FC = () => {
   const progressStats = useMemo(() => {
       const total = tasks.length;
       const completed = tasks.filter(t => t.status === 'Completed' || t.status === 'Done' || t.status === 'Posted').length;
-      const progress = total > 0 ? Math.round((completed / total) * 100) : 0;
+      // Open tasks with a checklist contribute their partial progress
+      const isDone = (t: Task) => t.status === 'Completed' || t.status === 'Done' || t.status === 'Posted';
+      const weighted = tasks.reduce((sum, t) => sum + (isDone(t) ? 1 : (getSubtaskProgress(t.subtasks)?.percent || 0) / 100), 0);
+      const progress = total > 0 ? Math.round((weighted / total) * 100) : 0;
+      const checklistItems = tasks.flatMap(t => t.subtasks || []);
+      const checklistDone = checklistItems.filter(s => s.isDone).length;
       const highPriority = tasks.filter(t => t.priority === 'High' && t.status !== 'Completed' && t.status !== 'Done').length;
-      return { total, completed, progress, highPriority };
+      return { total, completed, progress, highPriority, checklistDone, checklistTotal: checklistItems.length };
   }, [tasks]);
 
+  const effortStats = useMemo(() => {
+      const monthPrefix = new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Kolkata' }).format(new Date()).slice(0, 7);
+      const total = timeEntries.reduce((sum, e) => sum + e.durationMinutes, 0);
+      const thisMonth = timeEntries.filter(e => e.date.startsWith(monthPrefix)).reduce((sum, e) => sum + e.durationMinutes, 0);
+      const byPerson: Record<string, number> = {};
+      timeEntries.forEach(e => { byPerson[e.userName] = (byPerson[e.userName] || 0) + e.durationMinutes; });
+      const contributors = Object.entries(byPerson).sort((a, b) => b[1] - a[1]).slice(0, 5);
+      return { total, thisMonth, contributors };
+  }, [timeEntries]);
+
+  const retainerUsage = useMemo(() => {
+      const today = new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Kolkata' }).format(new Date());
+      const month = today.slice(0, 7);
+      const monthLabel = new Date(`${month}-01T00:00:00`).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+      return { ...getRetainerUsage(client?.retainer, tasks, timeEntries, month), monthLabel, elapsed: getMonthElapsedPercent(month, today) };
+  }, [client?.retainer, tasks, timeEntries]);
+
+  const handleSaveRetainer = async (retainer: RetainerBudget) => {
+      if (!client) return;
+      const previous = client.retainer;
+      const audit = { lastUpdatedBy: user?.name || 'Unknown', lastUpdatedAt: new Date().toISOString() };
+      setClient(prev => prev ? { ...prev, retainer } : prev);
+      setIsRetainerOpen(false);
+      try {
+          const saved = await saveWithVersion('crm', client, { retainer, ...audit }, (payload, version) => companiesApi.update(client.id, payload, version));
+          if (!saved) {
+              showToast("Your changes were discarded, the newer version was kept.", "info");
+              crmApi.getAll().then(data => setClient(data.crmList.find(c => c.id === client.id) || null)).catch(e => console.error(e));
+              return;
+          }
+          setClient(prev => prev ? { ...prev, ...saved } : prev);
+          showToast("Retainer updated", "success");
+      } catch (e) {
+          setClient(prev => prev ? { ...prev, retainer: previous } : prev);
+          showToast("Failed to update retainer", "error");
+      }
+  };
+
+  const openPlaybooks = async () => {
+      try {
+          setPlaybooks(await playbooksApi.getAll());
+          setIsPlaybookOpen(true);
+      } catch (e) {
+          showToast("Failed to load playbooks", "error");
+      }
+  };
+
+  const handleApplyPlaybook = async (playbook: Playbook, startDate: string) => {
+      if (isReadOnly) return;
+      if (!client) return;
+      const audit = { lastUpdatedBy: user?.name || 'Unknown', lastUpdatedAt: new Date().toISOString() };
+      try {
+          const created = await applyPlaybook(playbook, client.id, startDate, audit);
+          setTasks(prev => [...prev, ...created]);
+          setIsPlaybookOpen(false);
+          showToast(`"${playbook.name}" created ${created.length} tasks`, "success");
+      } catch (e) {
+          showToast("Playbook run failed", "error");
+          // Some tasks may have been created before the failure
+          const updatedTasks = await tasksApi.getAll();
+          setTasks(updatedTasks.filter(t => t.companyId === client.id));
+      }
+  };
+
   const handleEdit = (task: Task) => {
     setEditingTask(task);
     setIsModalOpen(true);
   };
 
-  const handleSave = async (data: Partial<Task>) => {
+  // Deep links from the command palette
+  useEffect(() => {
+    const state = location.state as { openTaskId?: number } | null;
+    if (!state || isLoading) return;
+    if (state.openTaskId) {
+        const target = tasks.find(t => t.id === state.openTaskId);
+        if (target) handleEdit(target);
+    }
+    navigate(location.pathname, { replace: true, state: null });
+  }, [location.state, isLoading]);
+
+  const handleSave = async (data: Partial<Task>, scope?: RecurrenceScope) => {
       if (!client) return;
+      const audit = { lastUpdatedBy: user?.name || 'Unknown', lastUpdatedAt: new Date().toISOString() };
       try {
-          if (editingTask) {
+          if (editingTask && (editingTask.seriesId || data.recurrence)) {
+              const saved = await updateRecurringSeries(editingTask, data, scope || 'future', tasks, audit);
+              logTaskChanges(editingTask, data, user);
+              runAutomations('task', editingTask, saved);
+              showToast(scope === 'this' ? "Occurrence synchronized" : "Series synchronized", "success");
+              const updatedTasks = await tasksApi.getAll();
+              setTasks(updatedTasks.filter(t => t.companyId === client.id));
+          } else if (editingTask) {
               // Optimistic update
               setTasks(prev => prev.map(t => t.id === editingTask.id ? { ...t, ...data } as Task : t));
               
-              await tasksApi.update(editingTask.id, data);
+              const saved = await saveWithVersion('task', editingTask, { ...data, ...audit }, (payload, version) => tasksApi.update(editingTask.id, payload, version));
+              if (!saved) {
+                  showToast("Your changes were discarded, the newer version was kept.", "info");
+                  const updatedTasks = await tasksApi.getAll();
+                  setTasks(updatedTasks.filter(t => t.companyId === client.id));
+                  return;
+              }
+              setTasks(prev => prev.map(t => t.id === editingTask.id ? { ...t, ...saved } : t));
+              logTaskChanges(editingTask, saved, user);
+              runAutomations('task', editingTask, saved);
               showToast("Milestone synchronized", "success");
+          } else if (data.recurrence) {
+              const series = await createRecurringSeries({ ...data, companyId: client.id }, audit);
+              setTasks(prev => [...prev, ...series]);
+              showToast(`Recurring milestone scheduled (${series.length} occurrences)`, "success");
           } else {
               const newTask = await tasksApi.create({ ...data, companyId: client.id } as Task);
               setTasks(prev => [...prev, newTask]);
+              runAutomations('task', undefined, newTask);
               showToast("New milestone deployed", "success");
           }
       } catch(e) { 
-          showToast("Sync failed", "error");
+          showToast(e instanceof ConcurrencyConflictError ? "Someone else changed this in the meantime, showing their version" : "Sync failed", e instanceof ConcurrencyConflictError ? "info" : "error");
           console.error(e); 
           // Reload on error
           const updatedTasks = await tasksApi.getAll();
@@ -113,17 +262,34 @@ export const ClientDetailsPage: React.FC = () => {
       }
   };
 
+  // Quick edits from the list and board, saved against the version on screen
+  const saveTaskChange = async (task: Task, changes: Partial<Task>): Promise<Task | null> => {
+      const saved = await saveWithVersion('task', task, {
+          ...changes,
+          lastUpdatedAt: new Date().toISOString(),
+          lastUpdatedBy: user?.name || 'System'
+      }, (payload, version) => tasksApi.update(task.id, payload, version));
+      if (!saved) {
+          showToast("Your changes were discarded, the newer version was kept.", "info");
+          const updatedTasks = await tasksApi.getAll();
+          setTasks(updatedTasks.filter(t => t.companyId === client?.id));
+          return null;
+      }
+      setTasks(prev => prev.map(t => t.id === task.id ? { ...t, ...saved } : t));
+      return saved;
+  };
+
   const handleStatusChange = async (task: Task, newStatus: TaskStatus) => {
+      if (isReadOnly) return;
       const previousTasks = [...tasks];
       // Optimistic Update
-      setTasks(prev => prev.map(t => t.id === task.id ? { ...t, status: newStatus, lastUpdatedAt: new Date().toISOString() } : t));
+      setTasks(prev => prev.map(t => t.id === task.id ? { ...t, status: newStatus } : t));
       
       try {
-          await tasksApi.update(task.id, { 
-              status: newStatus,
-              lastUpdatedAt: new Date().toISOString(),
-              lastUpdatedBy: user?.name || 'System'
-          });
+          const saved = await saveTaskChange(task, { status: newStatus });
+          if (!saved) return;
+          logTaskChanges(task, { status: saved.status }, user);
+          runAutomations('task', task, saved);
       } catch (e) {
           showToast("Status sync failed", "error");
           setTasks(previousTasks); // Revert
@@ -131,31 +297,37 @@ export const ClientDetailsPage: React.FC = () => {
   };
 
   const handlePriorityChange = async (task: Task, newPriority: TaskPriority) => {
+      if (isReadOnly) return;
       const previousTasks = [...tasks];
       // Optimistic Update
-      setTasks(prev => prev.map(t => t.id === task.id ? { ...t, priority: newPriority, lastUpdatedAt: new Date().toISOString() } : t));
+      setTasks(prev => prev.map(t => t.id === task.id ? { ...t, priority: newPriority } : t));
       
       try {
-          await tasksApi.update(task.id, { 
-              priority: newPriority,
-              lastUpdatedAt: new Date().toISOString(),
-              lastUpdatedBy: user?.name || 'System'
-          });
-          showToast(`Priority set to ${newPriority}`, "success");
+          const saved = await saveTaskChange(task, { priority: newPriority });
+          if (!saved) return;
+          logTaskChanges(task, { priority: saved.priority }, user);
+          runAutomations('task', task, saved);
+          showToast(`Priority set to ${saved.priority}`, "success");
       } catch (e) {
           showToast("Priority sync failed", "error");
           setTasks(previousTasks); // Revert
       }
   };
 
+  const handleReschedule = useReschedule<Task, 'dueDate'>({
+      entity: 'task', field: 'dueDate', update: tasksApi.update, describe: formatDate,
+      patch: (id, changes) => setTasks(prev => prev.map(t => t.id === id ? { ...t, ...changes } : t))
+  });
+
   const handleToggleVisibility = async (task: Task) => {
+      if (isReadOnly) return;
       const newVisibility = !task.isVisibleOnMainBoard;
       const previousTasks = [...tasks];
       // Optimistic Update
       setTasks(prev => prev.map(t => t.id === task.id ? { ...t, isVisibleOnMainBoard: newVisibility } : t));
       
       try {
-          await tasksApi.update(task.id, { isVisibleOnMainBoard: newVisibility });
+          if (!(await saveTaskChange(task, { isVisibleOnMainBoard: newVisibility }))) return;
           showToast(newVisibility ? "Task promoted to main board" : "Task hidden from main board", "success");
       } catch (e) {
           setTasks(previousTasks); // Revert
@@ -248,6 +420,11 @@ export const ClientDetailsPage: React.FC = () => {
                        <div className="h-3 w-full bg-white/5 rounded-full overflow-hidden shadow-inner">
                            <div className="h-full bg-gradient-to-r from-brand-500 to-indigo-400 rounded-full transition-all duration-[1500ms] shadow-[0_0_20px_rgba(99,102,241,0.5)]" style={{ width: `${progressStats.progress}%` }} />
                        </div>
+                       {progressStats.checklistTotal > 0 && (
+                           <p className="text-[9px] font-black text-slate-500 uppercase tracking-widest mt-4 flex items-center gap-2">
+                               <ListChecks className="h-3 w-3 text-brand-400" /> {progressStats.checklistDone} / {progressStats.checklistTotal} checklist steps done
+                           </p>
+                       )}
                    </div>
 
                    <div className="relative z-10 grid grid-cols-2 gap-8 mt-10 pt-10 border-t border-white/5">
@@ -263,6 +440,47 @@ export const ClientDetailsPage: React.FC = () => {
                </div>
            </div>
 
+           {/* Retainer Burn-down */}
+           {(retainerUsage.lines.length > 0 || canEditRetainer) && (
+               <div className="mb-8">
+                   <RetainerBurnDown
+                       lines={retainerUsage.lines}
+                       health={retainerUsage.health}
+                       monthLabel={retainerUsage.monthLabel}
+                       monthElapsed={retainerUsage.elapsed}
+                       warnAtPercent={client.retainer?.warnAtPercent}
+                       onEdit={canEditRetainer ? () => setIsRetainerOpen(true) : undefined}
+                   />
+               </div>
+           )}
+
+           {/* Effort Ledger */}
+           {effortStats.total > 0 && (
+               <div className="bg-white/40 backdrop-blur-3xl rounded-[3rem] p-8 lg:p-10 border border-white shadow-premium mb-12 flex flex-col lg:flex-row gap-8 lg:gap-12">
+                   <div className="flex gap-10 shrink-0">
+                       <div>
+                           <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1.5 flex items-center gap-2"><Timer className="h-3 w-3 text-brand-500" /> Time Invested</p>
+                           <p className="text-4xl font-black text-slate-900 tracking-tighter">{formatDuration(effortStats.total)}</p>
+                       </div>
+                       <div>
+                           <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1.5">This Month</p>
+                           <p className="text-4xl font-black text-brand-600 tracking-tighter">{formatDuration(effortStats.thisMonth)}</p>
+                       </div>
+                   </div>
+                   <div className="flex-1 space-y-3">
+                       {effortStats.contributors.map(([name, minutes]) => (
+                           <div key={name} className="flex items-center gap-4">
+                               <span className="w-32 text-xs font-bold text-slate-700 truncate">{name}</span>
+                               <div className="h-2 flex-1 bg-slate-100 rounded-full overflow-hidden">
+                                   <div className="h-full bg-gradient-to-r from-brand-500 to-indigo-400 rounded-full" style={{ width: `${Math.round((minutes / effortStats.total) * 100)}%` }} />
+                               </div>
+                               <span className="w-16 text-right text-xs font-black font-mono text-slate-500">{formatDuration(minutes)}</span>
+                           </div>
+                       ))}
+                   </div>
+               </div>
+           )}
+
            {/* Workflow Workspace */}
            <div className="bg-white/30 backdrop-blur-3xl rounded-[3.5rem] border border-white shadow-2xl flex flex-col mb-12">
                 
@@ -271,7 +489,9 @@ export const ClientDetailsPage: React.FC = () => {
                         {[
                             { id: 'list', label: 'Milestones', icon: LayoutList },
                             { id: 'kanban', label: 'Board', icon: Kanban },
-                            { id: 'calendar', label: 'Timeline', icon: CalendarIcon },
+                            { id: 'calendar', label: 'Calendar', icon: CalendarIcon },
+                            { id: 'timeline', label: 'Timeline', icon: GanttChart },
+                            { id: 'content', label: 'Content', icon: Megaphone },
                         ].map((view) => (
                             <button
                                 key={view.id}
@@ -285,15 +505,25 @@ export const ClientDetailsPage: React.FC = () => {
                         ))}
                     </div>
 
-                    <button 
-                        onClick={() => { setEditingTask(undefined); setIsModalOpen(true); }}
-                        className="bg-slate-950 hover:bg-slate-900 text-white px-10 py-4 rounded-[1.5rem] flex items-center gap-4 text-[11px] font-black uppercase tracking-[0.2em] shadow-2xl active:scale-95 transition-all"
-                    >
-                        <Plus className="h-5 w-5 text-brand-400" /> New Task
-                    </button>
+                    <div className="flex items-center gap-3">
+                        <button
+                            onClick={openPlaybooks}
+                            disabled={isReadOnly}
+                            className="bg-white/70 hover:bg-white text-slate-700 border border-white px-8 py-4 rounded-[1.5rem] flex items-center gap-3 text-[11px] font-black uppercase tracking-[0.2em] shadow-sm active:scale-95 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                            <BookOpen className="h-5 w-5 text-indigo-500" /> Playbook
+                        </button>
+                        <button 
+                            onClick={() => { setEditingTask(undefined); setIsModalOpen(true); }}
+                            disabled={isReadOnly}
+                            className="bg-slate-950 hover:bg-slate-900 text-white px-10 py-4 rounded-[1.5rem] flex items-center gap-4 text-[11px] font-black uppercase tracking-[0.2em] shadow-2xl active:scale-95 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                            <Plus className="h-5 w-5 text-brand-400" /> New Task
+                        </button>
+                    </div>
                 </div>
 
-                {viewMode !== 'calendar' && <TasksFilter filters={filters} setFilters={setFilters} />}
+                {(viewMode === 'list' || viewMode === 'kanban' || viewMode === 'timeline') && <TasksFilter filters={filters} setFilters={setFilters} />}
 
                 <div className="pb-10">
                     {viewMode === 'list' && (
@@ -307,7 +537,7 @@ export const ClientDetailsPage: React.FC = () => {
                                 tasks={activeTasks} 
                                 userAvatarMap={userAvatarMap} 
                                 onEdit={handleEdit} 
-                                onDelete={(id) => setDeleteId(id)} 
+                                onDelete={canDeleteTasks ? (id) => setDeleteId(id) : undefined} 
                                 onStatusChange={handleStatusChange} 
                                 onPriorityChange={handlePriorityChange}
                                 onToggleVisibility={handleToggleVisibility}
@@ -330,7 +560,7 @@ export const ClientDetailsPage: React.FC = () => {
                                             tasks={completedTasks} 
                                             userAvatarMap={userAvatarMap} 
                                             onEdit={handleEdit} 
-                                            onDelete={(id) => setDeleteId(id)} 
+                                            onDelete={canDeleteTasks ? (id) => setDeleteId(id) : undefined} 
                                             onStatusChange={handleStatusChange} 
                                             onPriorityChange={handlePriorityChange}
                                             onToggleVisibility={handleToggleVisibility}
@@ -348,6 +578,7 @@ export const ClientDetailsPage: React.FC = () => {
                                 userAvatarMap={userAvatarMap} 
                                 onEdit={handleEdit} 
                                 onStatusChange={handleStatusChange} 
+                                readOnly={isReadOnly}
                             />
                         </div>
                     )}
@@ -357,9 +588,22 @@ export const ClientDetailsPage: React.FC = () => {
                             <TasksCalendar 
                                 tasks={filteredBaseTasks} 
                                 onEdit={handleEdit} 
+                                onReschedule={user?.role !== 'ROLE_CLIENT' && !isReadOnly ? handleReschedule : undefined}
                             />
                         </div>
                     )}
+
+                    {viewMode === 'timeline' && (
+                        <div className="px-4 lg:px-8 py-6">
+                            <TaskTimeline tasks={filteredBaseTasks} onEdit={handleEdit} />
+                        </div>
+                    )}
+
+                    {viewMode === 'content' && (
+                        <div className="px-4 lg:px-8 py-6">
+                            <ContentCalendar tasks={tasks} onOpen={handleEdit} />
+                        </div>
+                    )}
                 </div>
                 
                 <div className="p-8 border-t border-white/40 bg-white/20 text-[9px] font-black text-slate-400 uppercase tracking-[0.4em] flex justify-between rounded-b-[3.5rem]">
@@ -370,7 +614,16 @@ export const ClientDetailsPage: React.FC = () => {
         </div>
       </div>
 
-      <ClientTaskForm isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} onSubmit={handleSave} initialData={editingTask} companyId={client.id} />
+      <ClientTaskForm isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} onSubmit={handleSave} initialData={editingTask} companyId={client.id} socials={client.socials} tasks={tasks} />
+      <ApplyPlaybookModal
+        isOpen={isPlaybookOpen}
+        onClose={() => setIsPlaybookOpen(false)}
+        onApply={handleApplyPlaybook}
+        playbooks={playbooks}
+        companyName={client.company}
+        appliedIds={Array.from(new Set(tasks.map(t => t.sourcePlaybookId).filter((id): id is number => !!id)))}
+      />
+      <RetainerBudgetForm isOpen={isRetainerOpen} onClose={() => setIsRetainerOpen(false)} onSubmit={handleSaveRetainer} initialData={client.retainer} companyName={client.company} />
       <DeleteConfirmationModal isOpen={!!deleteId} onClose={() => setDeleteId(null)} onConfirm={async () => { if(deleteId) { 
           setTasks(prev => prev.filter(t => t.id !== deleteId)); // Optimistic delete
           await tasksApi.delete(deleteId); 
@@ -2,26 +2,33 @@
 import React, { useState, useEffect } from 'react';
 import { Navbar } from '../components/layout/Navbar';
 import { Sidebar } from '../components/layout/Sidebar';
-import { crmApi, tasksApi } from '../services/api';
-import { CRMEntry, Task, TaskPriority } from '../types';
+import { crmApi, tasksApi, taskCommentsApi, ConcurrencyConflictError } from '../services/api';
+import { logTaskChanges } from '../services/taskActivity';
+import { CRMEntry, Task, TaskPriority, ReviewDecision } from '../types';
 import { ClientTaskTable } from '../components/client-tracker/ClientTaskTable';
 import { ClientTaskForm } from '../components/client-tracker/ClientTaskForm';
+import { ReviewDecisionModal } from '../components/client-tracker/ReviewDecisionModal';
+import { ContentCalendar } from '../components/content/ContentCalendar';
 import { AlertCircle, LogOut, Phone, Mail, MapPin, Globe, Linkedin, Instagram, ExternalLink, Plus, Sparkles, Target, Layout } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { useToast } from '../context/ToastContext';
 import { formatMoney, getStatusStyles } from '../utils';
+import { isContentTask } from '../services/contentCalendar';
 import { useLayout } from '../context/LayoutContext';
+import { useConcurrency } from '../context/ConcurrencyContext';
 
 export const ClientPortalPage: React.FC = () => {
-  const { user, logout } = useAuth();
+  const { user, logout, isReadOnly } = useAuth();
   const { showToast } = useToast();
   const { isSidebarCollapsed } = useLayout();
+  const { saveWithVersion } = useConcurrency();
   const [client, setClient] = useState<CRMEntry | null>(null);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | undefined>(undefined);
+  const [reviewing, setReviewing] = useState<{ task: Task; decision: ReviewDecision } | null>(null);
 
   const fetchData = async () => {
     if (!user?.clientCrmId) { 
@@ -50,8 +57,15 @@ export const ClientPortalPage: React.FC = () => {
   const handleTaskSubmit = async (data: Partial<Task>) => {
     try {
         if (data.id) {
-            await tasksApi.update(data.id, data);
-            showToast("Update successful", "success");
+            // Edits are based on the row as the server has it, never turned into a new request
+            const original = tasks.find(t => t.id === data.id) || (await tasksApi.getClientTasks()).find(t => t.id === data.id);
+            if (!original) {
+                showToast("This request no longer exists.", "error");
+                fetchData();
+                return;
+            }
+            const saved = await saveWithVersion('task', original, data, (payload, version) => tasksApi.update(original.id, payload, version));
+            showToast(saved ? "Update successful" : "Your changes were discarded, the newer version was kept.", saved ? "success" : "info");
         } else {
             await tasksApi.create({ ...data, companyId: user?.clientCrmId } as any);
             showToast("New request submitted", "success");
@@ -63,15 +77,50 @@ export const ClientPortalPage: React.FC = () => {
   };
 
   const handlePriorityChange = async (task: Task, newPriority: TaskPriority) => {
+    if (isReadOnly) return;
     try {
-        await tasksApi.update(task.id, { priority: newPriority });
-        showToast("Priority updated", "success");
+        const saved = await saveWithVersion('task', task, { priority: newPriority }, (payload, version) => tasksApi.update(task.id, payload, version));
+        if (saved) {
+            logTaskChanges(task, { priority: saved.priority }, user);
+            showToast("Priority updated", "success");
+        } else {
+            showToast("Your changes were discarded, the newer version was kept.", "info");
+        }
         fetchData();
     } catch (e) {
         showToast("Update failed", "error");
     }
   };
 
+  const handleReviewDecision = async (task: Task, decision: ReviewDecision, note: string) => {
+    if (isReadOnly) return;
+    const isApproved = decision === 'approve';
+    const now = new Date().toISOString();
+    const changes: Partial<Task> = isApproved
+        ? { status: 'Approved', approvedBy: user?.name || 'Client', approvedAt: now }
+        : { status: 'In Progress', revisionCount: (task.revisionCount || 0) + 1 };
+    setReviewing(null);
+    try {
+        // A decision on a version that has moved on is not sent, the client sees the latest first
+        await tasksApi.update(task.id, { ...changes, lastUpdatedBy: user?.name || 'Client', lastUpdatedAt: now }, task.lastUpdatedAt);
+        logTaskChanges(task, changes, user);
+        await taskCommentsApi.create({
+            taskId: task.id,
+            kind: 'comment',
+            body: `${isApproved ? 'Approved' : 'Changes requested'}: ${note}`,
+            authorId: user?.id,
+            authorName: user?.name || 'Client',
+            isClientVisible: true
+        });
+        showToast(isApproved ? "Deliverable approved" : "Change request sent to the team", "success");
+        fetchData();
+    } catch (e) {
+        if (e instanceof ConcurrencyConflictError) showToast("This deliverable changed since you opened it, please review it again", "info");
+        else showToast("Decision failed to sync", "error");
+        fetchData();
+    }
+  };
+
   if (isLoading) return (
     <div className="flex h-screen flex-col items-center justify-center gap-4 bg-[#F8FAFC]">
         <div className="animate-spin rounded-full h-10 w-10 border-4 border-brand-100 border-t-brand-600"></div>
@@ -90,7 +139,7 @@ export const ClientPortalPage: React.FC = () => {
                 {error || "Your account is not linked to an active project. Please contact the Incial support team."}
             </p>
         </div>
-        <button onClick={logout} className="px-10 py-4 bg-gray-900 text-white rounded-[1.5rem] font-bold shadow-2xl active:scale-95 transition-all">
+        <button onClick={() => logout()} className="px-10 py-4 bg-gray-900 text-white rounded-[1.5rem] font-bold shadow-2xl active:scale-95 transition-all">
             Return to Login
         </button>
     </div>
@@ -139,7 +188,8 @@ export const ClientPortalPage: React.FC = () => {
                         </div>
                         <button 
                             onClick={() => { setEditingTask(undefined); setIsFormOpen(true); }}
-                            className="bg-brand-600 hover:bg-brand-500 text-white px-6 lg:px-8 py-3 lg:py-4 rounded-[1.5rem] lg:rounded-[2rem] font-bold flex flex-col items-center justify-center shadow-xl shadow-brand-600/20 active:scale-95 transition-all group min-w-[120px] lg:min-w-0"
+                            disabled={isReadOnly}
+                            className="bg-brand-600 hover:bg-brand-500 text-white px-6 lg:px-8 py-3 lg:py-4 rounded-[1.5rem] lg:rounded-[2rem] font-bold flex flex-col items-center justify-center shadow-xl shadow-brand-600/20 active:scale-95 transition-all group min-w-[120px] lg:min-w-0 disabled:opacity-40 disabled:cursor-not-allowed"
                         >
                             <Plus className="h-5 w-5 lg:h-6 lg:w-6 mb-1 group-hover:rotate-90 transition-transform duration-300" />
                             <span className="text-[9px] lg:text-[10px] font-black uppercase tracking-widest">New Request</span>
@@ -195,9 +245,15 @@ export const ClientPortalPage: React.FC = () => {
                             tasks={tasks} 
                             onEdit={(t) => { setEditingTask(t); setIsFormOpen(true); }}
                             onPriorityChange={handlePriorityChange}
+                            onReview={(task, decision) => setReviewing({ task, decision })}
                             isClientView={true}
                         />
                     </div>
+
+                    {/* Content Calendar, read-only preview of the planned posts */}
+                    {tasks.some(isContentTask) && (
+                        <ContentCalendar tasks={tasks} onOpen={(t) => { setEditingTask(t); setIsFormOpen(true); }} />
+                    )}
                 </div>
 
                 {/* Sidebar Info Column */}
@@ -268,6 +324,15 @@ export const ClientPortalPage: React.FC = () => {
         onSubmit={handleTaskSubmit}
         initialData={editingTask}
         companyId={client.id}
+        socials={client.socials}
+        isClientView
+      />
+
+      <ReviewDecisionModal
+        task={reviewing?.task || null}
+        initialDecision={reviewing?.decision}
+        onClose={() => setReviewing(null)}
+        onConfirm={handleReviewDecision}
       />
     </div>
   );
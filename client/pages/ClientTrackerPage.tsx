@@ -3,13 +3,14 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Navbar } from '../components/layout/Navbar';
 import { Sidebar } from '../components/layout/Sidebar';
-import { crmApi, tasksApi } from '../services/api';
-import { Search, Building, ChevronRight, Activity, ChevronUp, ChevronDown, Layers, Target, ArrowUpRight } from 'lucide-react';
+import { crmApi, tasksApi, timeEntriesApi } from '../services/api';
+import { Search, Building, ChevronRight, Activity, ChevronUp, ChevronDown, Layers, Target, ArrowUpRight, Gauge, AlertTriangle } from 'lucide-react';
 import { getStatusStyles } from '../utils';
+import { getRetainerUsage } from '../services/retainers';
 import { useLayout } from '../context/LayoutContext';
 import { PremiumLogo } from '../components/ui/PremiumLogo';
 
-type SortKey = 'company' | 'progress' | 'status' | 'completed' | 'total';
+type SortKey = 'company' | 'progress' | 'status' | 'completed' | 'total' | 'budget';
 type SortDirection = 'asc' | 'desc';
 
 export const ClientTrackerPage: React.FC = () => {
@@ -26,16 +27,23 @@ export const ClientTrackerPage: React.FC = () => {
   useEffect(() => {
     const fetchData = async () => {
       try {
-        const [crmData, tasksData] = await Promise.all([crmApi.getAll(), tasksApi.getAll()]);
+        const [crmData, tasksData, timeData] = await Promise.all([
+            crmApi.getAll(),
+            tasksApi.getAll(),
+            timeEntriesApi.getAll().catch(() => [])
+        ]);
         const activeCompanies = crmData.crmList.filter(c => ['onboarded', 'on progress', 'Quote Sent'].includes(c.status));
+        const month = new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Kolkata' }).format(new Date()).slice(0, 7);
         setClients(activeCompanies.map(client => {
             const clientTasks = tasksData.filter(t => t.companyId === client.id);
             const completed = clientTasks.filter(t => ['Completed', 'Done', 'Posted'].includes(t.status)).length;
+            const retainer = getRetainerUsage(client.retainer, clientTasks, timeData.filter(e => e.companyId === client.id), month);
             return { 
                 ...client, 
                 total: clientTasks.length, 
                 completed, 
-                progress: clientTasks.length > 0 ? Math.round((completed / clientTasks.length) * 100) : 0 
+                progress: clientTasks.length > 0 ? Math.round((completed / clientTasks.length) * 100) : 0,
+                retainer
             };
         }));
       } catch (e) {
@@ -68,12 +76,15 @@ export const ClientTrackerPage: React.FC = () => {
             case 'status': return direction * a.status.localeCompare(b.status);
             case 'completed': return direction * (a.completed - b.completed);
             case 'total': return direction * (a.total - b.total);
+            case 'budget': return direction * (a.retainer.peak - b.retainer.peak);
             default: return 0;
         }
     });
     return result;
   }, [clients, search, sortConfig]);
 
+  const budgetAlerts = useMemo(() => clients.filter(c => c.retainer.health === 'near' || c.retainer.health === 'over'), [clients]);
+
   const SortIcon = ({ column }: { column: SortKey }) => {
     if (sortConfig.key !== column) return <ChevronDown className="h-3 w-3 opacity-20 group-hover:opacity-50 transition-opacity" />;
     return sortConfig.direction === 'asc' 
@@ -129,6 +140,27 @@ export const ClientTrackerPage: React.FC = () => {
                ))}
            </div>
 
+           {/* Retainer Alerts */}
+           {budgetAlerts.length > 0 && (
+               <div className="mb-8 lg:mb-12 p-5 lg:p-6 bg-amber-50/80 backdrop-blur-xl border border-amber-200 rounded-[2rem] flex flex-col md:flex-row md:items-center gap-4">
+                   <div className="flex items-center gap-3 shrink-0">
+                       <AlertTriangle className="h-5 w-5 text-amber-600" />
+                       <p className="text-[10px] font-black text-amber-700 uppercase tracking-widest">{budgetAlerts.length} client{budgetAlerts.length > 1 ? 's' : ''} near or over retainer</p>
+                   </div>
+                   <div className="flex flex-wrap gap-2">
+                       {budgetAlerts.map(c => (
+                           <button
+                               key={c.id}
+                               onClick={() => navigate(`/client-tracker/${c.id}`)}
+                               className={`px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all hover:shadow-md ${c.retainer.health === 'over' ? 'bg-rose-50 border-rose-200 text-rose-600' : 'bg-white border-amber-200 text-amber-700'}`}
+                           >
+                               {c.company} · {c.retainer.peak}%
+                           </button>
+                       ))}
+                   </div>
+               </div>
+           )}
+
            {/* Premium Registry Table */}
            <div className="bg-white/30 backdrop-blur-3xl rounded-[2rem] lg:rounded-[3.5rem] border border-white/60 shadow-2xl overflow-hidden flex flex-col relative w-full">
                 {/* Decorative background blur for table area */}
@@ -159,6 +191,11 @@ export const ClientTrackerPage: React.FC = () => {
                                         Roadmap Progress <SortIcon column="total" />
                                     </button>
                                 </th>
+                                <th className="sticky top-0 z-30 bg-white/80 backdrop-blur-xl px-6 lg:px-8 py-6 border-b border-white/50 text-[9px] lg:text-[10px] font-black text-slate-400 uppercase tracking-[0.3em]">
+                                    <button onClick={() => handleSort('budget')} className="flex items-center gap-2 group outline-none hover:text-indigo-600 transition-colors">
+                                        Retainer <SortIcon column="budget" />
+                                    </button>
+                                </th>
                                 <th className="sticky top-0 z-30 bg-white/80 backdrop-blur-xl px-6 lg:px-10 py-6 border-b border-white/50 text-right"></th>
                             </tr>
                         </thead>
@@ -166,14 +203,14 @@ export const ClientTrackerPage: React.FC = () => {
                             {isLoading ? (
                                 Array.from({ length: 5 }).map((_, i) => (
                                     <tr key={i} className="animate-pulse">
-                                        <td colSpan={5} className="p-8"><div className="h-20 bg-white/40 rounded-[2rem] w-full border border-white/50"></div></td>
+                                        <td colSpan={6} className="p-8"><div className="h-20 bg-white/40 rounded-[2rem] w-full border border-white/50"></div></td>
                                     </tr>
                                 ))
                             ) : processedClients.map(client => (
                                 <tr 
                                     key={client.id} 
                                     onClick={() => navigate(`/client-tracker/${client.id}`)}
-                                    className="group transition-all duration-500 cursor-pointer hover:bg-white/40"
+                                    className={`group transition-all duration-500 cursor-pointer hover:bg-white/40 ${client.retainer.health === 'over' ? 'bg-rose-50/50' : client.retainer.health === 'near' ? 'bg-amber-50/50' : ''}`}
                                 >
                                     {/* Note: Sticky on left only for Large screens (lg:) */}
                                     <td className="px-6 lg:px-12 py-6 relative lg:sticky lg:left-0 group-hover:bg-white/90 transition-colors z-20 lg:shadow-[4px_0_24px_rgba(0,0,0,0.02)] border-r border-transparent group-hover:border-white/50 rounded-r-[2rem]">
@@ -236,6 +273,22 @@ export const ClientTrackerPage: React.FC = () => {
                                         </div>
                                     </td>
 
+                                    <td className="px-6 lg:px-8 py-6 align-middle">
+                                        {client.retainer.health === 'none' ? (
+                                            <span className="text-[9px] font-black text-slate-300 uppercase tracking-widest">No retainer</span>
+                                        ) : (
+                                            <div className="w-40">
+                                                <div className="flex justify-between items-center mb-2">
+                                                    <span className={`text-[11px] font-black ${client.retainer.health === 'over' ? 'text-rose-600' : client.retainer.health === 'near' ? 'text-amber-600' : 'text-slate-900'}`}>{client.retainer.peak}%</span>
+                                                    <span className="text-[9px] font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1"><Gauge className="h-3 w-3" /> Burned</span>
+                                                </div>
+                                                <div className="h-2 w-full bg-slate-100 rounded-full overflow-hidden shadow-inner">
+                                                    <div className={`h-full rounded-full ${client.retainer.health === 'over' ? 'bg-rose-500' : client.retainer.health === 'near' ? 'bg-amber-500' : 'bg-emerald-500'}`} style={{ width: `${Math.min(client.retainer.peak, 100)}%` }} />
+                                                </div>
+                                            </div>
+                                        )}
+                                    </td>
+
                                     <td className="px-6 lg:px-10 py-6 align-middle text-right">
                                         <div className="inline-flex items-center justify-center h-12 w-12 rounded-full bg-white border border-slate-100 text-slate-300 group-hover:text-white group-hover:bg-slate-950 group-hover:border-slate-950 group-hover:shadow-2xl transition-all duration-500 transform group-hover:rotate-0 rotate-[-45deg]">
                                             <ChevronRight className="h-5 w-5" />
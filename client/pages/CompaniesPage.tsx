@@ -8,13 +8,18 @@ import { CompaniesForm } from '../components/companies/CompaniesForm';
 import { DeleteConfirmationModal } from '../components/ui/DeleteConfirmationModal';
 import { CRMEntry, CompanyFilterState, CRMStatus } from '../types';
 import { companiesApi } from '../services/api';
+import { startOnboarding } from '../services/playbooks';
 import { useAuth } from '../context/AuthContext';
 import { useToast } from '../context/ToastContext';
 import { useLayout } from '../context/LayoutContext';
+import { useAutomation } from '../context/AutomationContext';
+import { useConcurrency } from '../context/ConcurrencyContext';
 
 export const CompaniesPage: React.FC = () => {
-  const { user } = useAuth();
+  const { user, isReadOnly } = useAuth();
   const { showToast } = useToast();
+  const { runAutomations, lastRun } = useAutomation();
+  const { saveWithVersion } = useConcurrency();
   const { isSidebarCollapsed } = useLayout();
   const [crmEntries, setCrmEntries] = useState<CRMEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -48,6 +53,10 @@ export const CompaniesPage: React.FC = () => {
     fetchData();
   }, []);
 
+  useEffect(() => {
+    if (lastRun?.entity === 'crm') setCrmEntries(prev => prev.map(e => e.id === lastRun.recordId ? { ...e, ...lastRun.patch } as CRMEntry : e));
+  }, [lastRun]);
+
   const allCompanies = useMemo(() => {
     // Registry now strictly includes those that have passed initial lead stages
     return crmEntries.filter(entry => ['onboarded', 'on progress', 'Quote Sent', 'completed', 'drop'].includes(entry.status));
@@ -87,6 +96,8 @@ export const CompaniesPage: React.FC = () => {
       setIsEditModalOpen(true);
   };
 
+  const runOnboarding = (companyId: number) => startOnboarding(companyId, user?.name || 'Unknown', showToast);
+
   const handleUpdateCompany = async (updatedData: Partial<CRMEntry>) => {
       if (editingCompany) {
           const updatedEntry: CRMEntry = {
@@ -98,8 +109,16 @@ export const CompaniesPage: React.FC = () => {
           setCrmEntries(crmEntries.map(e => e.id === updatedEntry.id ? updatedEntry : e));
           setIsEditModalOpen(false);
           try {
-            await companiesApi.update(updatedEntry.id, updatedEntry);
+            const saved = await saveWithVersion('crm', editingCompany, updatedEntry, (payload, version) => companiesApi.update(updatedEntry.id, payload, version));
+            if (!saved) {
+                showToast("Your changes were discarded, the newer version was kept.", "info");
+                fetchData();
+                return;
+            }
+            setCrmEntries(prev => prev.map(e => e.id === saved.id ? saved : e));
             showToast("Company details updated", "success");
+            if (saved.status === 'onboarded' && editingCompany.status !== 'onboarded') runOnboarding(saved.id);
+            runAutomations('crm', editingCompany, saved);
           } catch(e) {
             fetchData();
             showToast("Failed to update company", "error");
@@ -108,18 +127,26 @@ export const CompaniesPage: React.FC = () => {
   };
 
   const handleStatusChange = async (company: CRMEntry, newStatus: CRMStatus) => {
-      const updatedEntry = {
-          ...company,
+      if (isReadOnly) return;
+      const changes: Partial<CRMEntry> = {
           status: newStatus,
           lastUpdatedBy: user?.name || 'Unknown',
           lastUpdatedAt: new Date().toISOString()
       };
-      setCrmEntries(prev => prev.map(e => e.id === company.id ? updatedEntry : e));
+      setCrmEntries(prev => prev.map(e => e.id === company.id ? { ...e, status: newStatus } : e));
       try {
-          await companiesApi.update(company.id, updatedEntry);
-          showToast(`Status updated to ${newStatus}`, "success");
+          const saved = await saveWithVersion('crm', company, changes, (payload, version) => companiesApi.update(company.id, payload, version));
+          if (!saved) {
+              showToast("Your changes were discarded, the newer version was kept.", "info");
+              fetchData();
+              return;
+          }
+          setCrmEntries(prev => prev.map(e => e.id === saved.id ? saved : e));
+          showToast(`Status updated to ${saved.status}`, "success");
+          if (saved.status === 'onboarded' && company.status !== 'onboarded') runOnboarding(company.id);
+          runAutomations('crm', company, saved);
           // If status changes out of registry criteria, re-fetch to update view
-          if (!['onboarded', 'on progress', 'Quote Sent', 'completed', 'drop'].includes(newStatus)) {
+          if (!['onboarded', 'on progress', 'Quote Sent', 'completed', 'drop'].includes(saved.status)) {
               fetchData();
           }
       } catch (e) {
@@ -215,7 +242,10 @@ export const CompaniesPage: React.FC = () => {
           </div>
         </div>
 
-        <CompanyDetailsModal isOpen={isViewModalOpen} onClose={() => setIsViewModalOpen(false)} onEdit={handleEdit} company={viewingCompany} />
+        <CompanyDetailsModal isOpen={isViewModalOpen} onClose={() => setIsViewModalOpen(false)} onEdit={handleEdit} company={viewingCompany} onReverted={(id, patch) => {
+            setCrmEntries(prev => prev.map(e => e.id === id ? { ...e, ...patch } : e));
+            setViewingCompany(prev => prev && prev.id === id ? { ...prev, ...patch } : prev);
+        }} />
         <CompaniesForm 
             isOpen={isEditModalOpen} 
             onClose={() => setIsEditModalOpen(false)} 
@@ -0,0 +1,93 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Navbar } from '../components/layout/Navbar';
+import { Sidebar } from '../components/layout/Sidebar';
+import { tasksApi, companiesApi } from '../services/api';
+import { Task } from '../types';
+import { ContentCalendar } from '../components/content/ContentCalendar';
+import { CustomSelect } from '../components/ui/CustomSelect';
+import { useLayout } from '../context/LayoutContext';
+import { useToast } from '../context/ToastContext';
+import { isContentTask } from '../services/contentCalendar';
+
+export const ContentCalendarPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { isSidebarCollapsed } = useLayout();
+  const { showToast } = useToast();
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [companyMap, setCompanyMap] = useState<Record<number, string>>({});
+  const [clientFilter, setClientFilter] = useState('all');
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      setIsLoading(true);
+      try {
+        const [tasksData, companiesData] = await Promise.all([tasksApi.getAll(), companiesApi.getAll()]);
+        setTasks(tasksData.filter(isContentTask));
+        const map: Record<number, string> = {};
+        companiesData.forEach(c => { map[c.id] = c.company; });
+        setCompanyMap(map);
+      } catch (e) {
+        console.error(e);
+        showToast("Failed to load content calendar", "error");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchData();
+  }, []);
+
+  const clientOptions = useMemo(() => {
+    const ids = Array.from(new Set(tasks.map(t => t.companyId).filter((id): id is number => !!id)));
+    return [
+      { label: 'All Clients', value: 'all' },
+      ...ids.map(id => ({ label: companyMap[id] || `Client #${id}`, value: String(id) })).sort((a, b) => a.label.localeCompare(b.label)),
+      { label: 'Internal', value: 'internal' }
+    ];
+  }, [tasks, companyMap]);
+
+  const visibleTasks = useMemo(() => {
+    if (clientFilter === 'all') return tasks;
+    if (clientFilter === 'internal') return tasks.filter(t => !t.companyId);
+    return tasks.filter(t => String(t.companyId) === clientFilter);
+  }, [tasks, clientFilter]);
+
+  // Posts are edited where they live, on the client's tracker or the internal board
+  const handleOpen = (task: Task) => {
+    if (task.companyId) navigate(`/client-tracker/${task.companyId}`, { state: { openTaskId: task.id } });
+    else navigate('/tasks', { state: { openTaskId: task.id } });
+  };
+
+  return (
+    <div className="flex min-h-screen mesh-bg relative">
+      <div className="glass-canvas" />
+      <Sidebar />
+      <div className={`flex-1 flex flex-col min-w-0 transition-all duration-500 ease-in-out ${isSidebarCollapsed ? 'lg:ml-28' : 'lg:ml-80'}`}>
+        <Navbar />
+
+        <div className="flex-1 px-4 lg:px-12 py-6 lg:py-10 pb-32">
+          <div className="flex flex-col xl:flex-row xl:items-end justify-between gap-6 lg:gap-8 mb-8 lg:mb-16 animate-premium">
+            <div>
+              <div className="flex items-center gap-3 mb-2 lg:mb-4">
+                <div className="h-1.5 lg:h-2 w-1.5 lg:w-2 rounded-full bg-brand-500 animate-pulse" />
+                <span className="text-[9px] lg:text-[10px] font-black text-brand-600 uppercase tracking-[0.5em]">Publishing Plan</span>
+              </div>
+              <h1 className="text-4xl lg:text-7xl font-black text-slate-900 tracking-tighter leading-none display-text">Content.</h1>
+            </div>
+
+            <div className="w-full sm:w-72">
+              <CustomSelect label="Client" value={clientFilter} onChange={setClientFilter} options={clientOptions} />
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="py-20 text-center text-[10px] font-black text-slate-400 uppercase tracking-[0.4em]">Loading content calendar...</div>
+          ) : (
+            <ContentCalendar tasks={visibleTasks} onOpen={handleOpen} companyMap={clientFilter === 'all' ? companyMap : undefined} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
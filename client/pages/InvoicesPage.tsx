@@ -0,0 +1,287 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Navbar } from '../components/layout/Navbar';
+import { Sidebar } from '../components/layout/Sidebar';
+import { invoicesApi, crmApi } from '../services/api';
+import { Invoice, InvoiceStatus, CRMEntry } from '../types';
+import { InvoiceTable } from '../components/invoices/InvoiceTable';
+import { InvoiceForm } from '../components/invoices/InvoiceForm';
+import { InvoicePrintView } from '../components/invoices/InvoicePrintView';
+import { DeleteConfirmationModal } from '../components/ui/DeleteConfirmationModal';
+import { Plus, Search, Receipt, Wallet, AlertTriangle, CheckCircle, FileText } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useToast } from '../context/ToastContext';
+import { useLayout } from '../context/LayoutContext';
+import { formatMoney } from '../utils';
+import { resolveInvoiceStatus, storedInvoiceStatus } from '../services/invoices';
+
+const FILTERS: ('All' | InvoiceStatus)[] = ['All', 'Draft', 'Pending', 'Overdue', 'Paid'];
+
+export const InvoicesPage: React.FC = () => {
+  const { user, isReadOnly } = useAuth();
+  const { showToast } = useToast();
+  const { isSidebarCollapsed } = useLayout();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [crmEntries, setCrmEntries] = useState<CRMEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // UI State
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingInvoice, setEditingInvoice] = useState<Invoice | undefined>(undefined);
+  const [prefillEntryId, setPrefillEntryId] = useState<number | undefined>(undefined);
+  const [printInvoice, setPrintInvoice] = useState<Invoice | null>(null);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [activeFilter, setActiveFilter] = useState<'All' | InvoiceStatus>('All');
+  const [search, setSearch] = useState('');
+
+  const auditData = () => ({
+      lastUpdatedBy: user?.name || 'Unknown',
+      lastUpdatedAt: new Date().toISOString()
+  });
+
+  // Pending invoices past their due date show as Overdue (and back, if the due date moved); nothing is written on load
+  const withDisplayStatus = (data: Invoice[]) => data.map(inv => ({ ...inv, status: resolveInvoiceStatus(inv) }));
+
+  const fetchData = async () => {
+    setIsLoading(true);
+    try {
+      const [invoiceData, crmData] = await Promise.all([
+          invoicesApi.getAll(),
+          crmApi.getAll().then(res => res.crmList).catch(() => [] as CRMEntry[])
+      ]);
+      setInvoices(withDisplayStatus(invoiceData));
+      setCrmEntries(crmData);
+    } catch (err) {
+      console.error(err);
+      showToast("Failed to load invoices", "error");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const filteredInvoices = useMemo(() => {
+      const q = search.toLowerCase();
+      return invoices
+        .filter(inv => activeFilter === 'All' || inv.status === activeFilter)
+        .filter(inv => !q || [inv.number, inv.clientCompany, inv.clientName].some(v => v?.toLowerCase().includes(q)))
+        .sort((a, b) => b.date.localeCompare(a.date) || b.number.localeCompare(a.number));
+  }, [invoices, search, activeFilter]);
+
+  const stats = useMemo(() => {
+      const sum = (list: Invoice[]) => list.reduce((acc, inv) => acc + (inv.total || 0), 0);
+      const monthPrefix = new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Kolkata' }).format(new Date()).slice(0, 7);
+      return {
+          outstanding: sum(invoices.filter(i => i.status === 'Pending' || i.status === 'Overdue')),
+          overdue: sum(invoices.filter(i => i.status === 'Overdue')),
+          overdueCount: invoices.filter(i => i.status === 'Overdue').length,
+          paidThisMonth: sum(invoices.filter(i => i.status === 'Paid' && (i.paidAt || i.lastUpdatedAt || '').startsWith(monthPrefix))),
+          drafts: invoices.filter(i => i.status === 'Draft').length
+      };
+  }, [invoices]);
+
+  const handleCreate = (entryId?: number) => {
+      setEditingInvoice(undefined);
+      setPrefillEntryId(entryId);
+      setIsModalOpen(true);
+  };
+
+  const handleEdit = (invoice: Invoice) => {
+      setEditingInvoice(invoice);
+      setPrefillEntryId(undefined);
+      setIsModalOpen(true);
+  };
+
+  // Deep links from the command palette and the CRM record view
+  useEffect(() => {
+      const state = location.state as { openInvoiceId?: string; createInvoice?: boolean; crmEntryId?: number } | null;
+      if (!state || isLoading) return;
+      if (state.createInvoice) {
+          handleCreate(state.crmEntryId);
+      } else if (state.openInvoiceId) {
+          const target = invoices.find(i => i.id === state.openInvoiceId);
+          if (target) handleEdit(target);
+      }
+      navigate(location.pathname, { replace: true, state: null });
+  }, [location.state, isLoading]);
+
+  const handleSave = async (data: Partial<Invoice>) => {
+      try {
+          if (editingInvoice) {
+              await invoicesApi.update(editingInvoice.id, {
+                  ...data,
+                  status: storedInvoiceStatus(editingInvoice.status),
+                  ...auditData()
+              });
+              showToast(`${editingInvoice.number} updated`, 'success');
+          } else {
+              // The server numbers the invoice, so two admins drafting at once never share one
+              const created = await invoicesApi.create({ ...data, status: 'Draft', ...auditData() } as Invoice);
+              showToast(`${created.number} drafted`, 'success');
+          }
+          fetchData();
+      } catch (e: any) {
+          showToast(e.message || "Failed to save invoice", "error");
+      }
+  };
+
+  const handleDelete = async () => {
+      if (!deleteId) return;
+      try {
+        await invoicesApi.delete(deleteId);
+        setIsModalOpen(false);
+        fetchData();
+      } catch (e: any) {
+        showToast(e.message || "Failed to delete invoice", "error");
+      }
+      setDeleteId(null);
+  };
+
+  const handleStatusChange = async (invoice: Invoice, newStatus: InvoiceStatus) => {
+      if (isReadOnly) return;
+      const status = resolveInvoiceStatus({ status: newStatus, dueDate: invoice.dueDate });
+      // The server stamps paidAt on payment and clears it on a reversal
+      const updates: Partial<Invoice> = { status: storedInvoiceStatus(newStatus), ...auditData() };
+      const paidAt = newStatus === 'Paid' ? new Date().toISOString() : undefined;
+
+      const previousInvoices = [...invoices];
+      setInvoices(prev => prev.map(i => i.id === invoice.id ? { ...i, ...updates, paidAt, status } : i));
+
+      try {
+          const saved = await invoicesApi.update(invoice.id, updates);
+          setInvoices(prev => prev.map(i => i.id === invoice.id ? { ...saved, status: resolveInvoiceStatus(saved) } : i));
+          if (status === 'Overdue') showToast(`${invoice.number} is already past due and was marked Overdue`, 'info');
+      } catch (e) {
+          showToast("Failed to update invoice status", "error");
+          setInvoices(previousInvoices);
+      }
+  };
+
+  return (
+    <div className="flex min-h-screen mesh-bg relative">
+      <div className="glass-canvas" />
+      <Sidebar />
+      <div className={`flex-1 flex flex-col min-w-0 transition-all duration-500 ease-in-out ${isSidebarCollapsed ? 'lg:ml-28' : 'lg:ml-80'}`}>
+        <Navbar />
+
+        <div className="flex-1 px-4 lg:px-12 py-6 lg:py-10 pb-32">
+           <div className="flex flex-col xl:flex-row xl:items-end justify-between gap-6 lg:gap-8 mb-8 lg:mb-16 animate-premium">
+             <div>
+                <div className="flex items-center gap-3 mb-2 lg:mb-4">
+                     <div className="h-1.5 lg:h-2 w-1.5 lg:w-2 rounded-full bg-brand-500 animate-pulse" />
+                     <span className="text-[9px] lg:text-[10px] font-black text-brand-600 uppercase tracking-[0.5em]">Revenue Operations</span>
+                </div>
+                <h1 className="text-4xl lg:text-7xl font-black text-slate-900 tracking-tighter leading-none display-text">Billing.</h1>
+             </div>
+
+             <button
+                onClick={() => handleCreate()}
+                disabled={isReadOnly}
+                className="bg-slate-950 hover:bg-slate-900 text-white px-6 lg:px-10 py-3 lg:py-5 rounded-2xl lg:rounded-[2rem] flex items-center justify-center gap-3 lg:gap-4 font-black uppercase tracking-[0.2em] shadow-2xl active:scale-95 transition-all w-full sm:w-auto text-xs lg:text-sm disabled:opacity-40 disabled:cursor-not-allowed"
+             >
+                <Plus className="h-5 lg:h-6 w-5 lg:w-6 text-brand-400" /> New Invoice
+             </button>
+           </div>
+
+           <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-4 lg:gap-6 mb-8 lg:mb-12">
+                {[
+                    { label: 'Outstanding', value: formatMoney(stats.outstanding), icon: Wallet, color: 'bg-indigo-50 text-indigo-600' },
+                    { label: `Overdue (${stats.overdueCount})`, value: formatMoney(stats.overdue), icon: AlertTriangle, color: 'bg-rose-50 text-rose-600' },
+                    { label: 'Collected This Month', value: formatMoney(stats.paidThisMonth), icon: CheckCircle, color: 'bg-emerald-50 text-emerald-600' },
+                    { label: 'Drafts', value: stats.drafts.toString(), icon: FileText, color: 'bg-slate-100 text-slate-600' },
+                ].map(card => (
+                    <div key={card.label} className="bg-white/40 backdrop-blur-xl rounded-[2rem] border border-white shadow-premium p-6 flex items-center gap-5 bento-card">
+                        <div className={`h-12 w-12 rounded-2xl flex items-center justify-center shrink-0 ${card.color}`}>
+                            <card.icon className="h-6 w-6" />
+                        </div>
+                        <div className="min-w-0">
+                            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">{card.label}</p>
+                            <h3 className="text-2xl font-black text-slate-900 tracking-tight truncate">{card.value}</h3>
+                        </div>
+                    </div>
+                ))}
+           </div>
+
+           <div className="bg-white/30 backdrop-blur-2xl rounded-[2rem] lg:rounded-[3rem] border border-white/60 shadow-xl flex flex-col mb-20 overflow-hidden">
+
+                <div className="p-4 lg:p-5 border-b border-gray-100 flex flex-col md:flex-row gap-4 lg:gap-6 items-start md:items-center justify-between bg-white/40">
+                    <div className="flex p-1 bg-white/60 rounded-xl lg:rounded-2xl border border-white shadow-inner w-full md:w-auto overflow-x-auto no-scrollbar">
+                        {FILTERS.map(f => (
+                            <button
+                                key={f}
+                                onClick={() => setActiveFilter(f)}
+                                className={`flex-1 md:flex-none px-4 lg:px-6 py-2 lg:py-2.5 rounded-lg lg:rounded-xl text-[10px] lg:text-xs font-black uppercase tracking-widest transition-all whitespace-nowrap ${
+                                    activeFilter === f ? 'bg-white text-brand-700 shadow-sm' : 'text-gray-400 hover:text-gray-600'
+                                }`}
+                            >
+                                {f}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="relative w-full md:w-96 group">
+                        <Search className="absolute left-4 top-1/2 -translate-y-1/2 h-4 lg:h-5 w-4 lg:w-5 text-gray-400 group-focus-within:text-brand-500 transition-colors" />
+                        <input
+                            type="text"
+                            placeholder="Search number or client..."
+                            className="w-full pl-10 lg:pl-12 pr-4 py-2.5 lg:py-3 bg-white/80 border border-gray-200 rounded-xl lg:rounded-2xl text-sm focus:outline-none focus:ring-4 focus:ring-brand-500/10 transition-all font-medium shadow-inner"
+                            value={search}
+                            onChange={e => setSearch(e.target.value)}
+                        />
+                    </div>
+                </div>
+
+                <div className="flex-1">
+                    {isLoading ? (
+                        <div className="flex items-center justify-center p-20 lg:p-32">
+                            <div className="animate-spin rounded-full h-8 lg:h-10 w-8 lg:w-10 border-[4px] border-slate-100 border-t-brand-600" />
+                        </div>
+                    ) : filteredInvoices.length > 0 ? (
+                        <div className="p-4 lg:p-8">
+                            <InvoiceTable
+                                data={filteredInvoices}
+                                onEdit={handleEdit}
+                                onPrint={setPrintInvoice}
+                                onStatusChange={handleStatusChange}
+                            />
+                        </div>
+                    ) : (
+                        <div className="py-32 flex flex-col items-center gap-4 text-center">
+                            <div className="h-16 w-16 bg-slate-50 rounded-[2rem] flex items-center justify-center border border-slate-100">
+                                <Receipt className="h-8 w-8 text-slate-300" />
+                            </div>
+                            <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.4em]">No invoices found</p>
+                        </div>
+                    )}
+                </div>
+           </div>
+        </div>
+
+        <InvoiceForm
+            isOpen={isModalOpen}
+            onClose={() => setIsModalOpen(false)}
+            onSubmit={handleSave}
+            initialData={editingInvoice}
+            onDelete={(id) => setDeleteId(id)}
+            crmEntries={crmEntries}
+            defaultEntryId={prefillEntryId}
+        />
+
+        <InvoicePrintView invoice={printInvoice} onClose={() => setPrintInvoice(null)} />
+
+        <DeleteConfirmationModal
+            isOpen={!!deleteId}
+            onClose={() => setDeleteId(null)}
+            onConfirm={handleDelete}
+            title="Discard Draft"
+            message="Are you sure you want to delete this draft invoice?"
+        />
+      </div>
+    </div>
+  );
+};
@@ -26,7 +26,7 @@ export const LoginPage: React.FC = () => {
     const [showPassword, setShowPassword] = useState(false);
     const [error, setError] = useState('');
     const [isLoading, setIsLoading] = useState(false);
-    const { login } = useAuth();
+    const { login, sessionEndReason } = useAuth();
 
     // Refs for stable initialization
     const googleBtnWrapperRef = useRef<HTMLDivElement>(null);
@@ -46,7 +46,7 @@ export const LoginPage: React.FC = () => {
             if (!response.user || !response.token) {
                 throw new Error("Invalid response from server");
             }
-            login(response.token, response.user);
+            login(response.token, response.user, response.refreshToken);
         } catch (err: any) {
             setError(err.message || 'Authentication failed');
         } finally {
@@ -74,7 +74,7 @@ export const LoginPage: React.FC = () => {
                 throw new Error("Login failed: Missing user profile data");
             }
 
-            login(authRes.token, authRes.user);
+            login(authRes.token, authRes.user, authRes.refreshToken);
         } catch (err: any) {
             console.error("Google Login Backend Error:", err);
             setError(err.message || 'Google Login Failed');
@@ -220,6 +220,12 @@ export const LoginPage: React.FC = () => {
                     </div>
 
                     <form onSubmit={handleSubmit} className="space-y-5">
+                        {!error && sessionEndReason && (
+                            <div className="p-4 rounded-xl bg-amber-50 text-amber-700 text-sm font-medium border border-amber-100 flex items-center gap-3 animate-in slide-in-from-top-2">
+                                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                                {sessionEndReason === 'idle' ? 'You were signed out after a period of inactivity.' : 'Your session expired. Please sign in again.'}
+                            </div>
+                        )}
                         {error && (
                             <div className="p-4 rounded-xl bg-red-50 text-red-600 text-sm font-medium border border-red-100 flex items-center gap-3 animate-in slide-in-from-top-2">
                                 <AlertCircle className="h-5 w-5 flex-shrink-0" />
@@ -1,9 +1,11 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { Navbar } from '../components/layout/Navbar';
 import { Sidebar } from '../components/layout/Sidebar';
-import { meetingsApi } from '../services/api';
-import { Meeting, MeetingStatus } from '../types';
+import { meetingsApi, ConcurrencyConflictError } from '../services/api';
+import { Meeting, MeetingStatus, RecurrenceScope } from '../types';
+import { createRecurringMeetingSeries, updateRecurringMeetingSeries, extendRecurringMeetingSeries } from '../services/recurringMeetings';
 import { MeetingTable } from '../components/meetings/MeetingTable';
 import { MeetingForm } from '../components/meetings/MeetingForm';
 import { MeetingsCalendar } from '../components/meetings/MeetingsCalendar';
@@ -11,10 +13,20 @@ import { DeleteConfirmationModal } from '../components/ui/DeleteConfirmationModa
 import { Calendar, Plus, Search, LayoutList, Calendar as CalendarIcon, Archive, ChevronDown, ChevronRight, Video } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { useLayout } from '../context/LayoutContext';
+import { useToast } from '../context/ToastContext';
+import { useReschedule } from '../hooks/useReschedule';
+import { useAutomation } from '../context/AutomationContext';
+import { useConcurrency } from '../context/ConcurrencyContext';
+import { formatDateTime } from '../utils';
 
 export const MeetingTrackerPage: React.FC = () => {
-  const { user } = useAuth();
+  const { user, isReadOnly } = useAuth();
   const { isSidebarCollapsed } = useLayout();
+  const { showToast } = useToast();
+  const { runAutomations, lastRun } = useAutomation();
+  const { saveWithVersion } = useConcurrency();
+  const location = useLocation();
+  const navigate = useNavigate();
   const [meetings, setMeetings] = useState<Meeting[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   
@@ -32,6 +44,9 @@ export const MeetingTrackerPage: React.FC = () => {
     try {
       const data = await meetingsApi.getAll();
       setMeetings(data);
+      extendRecurringMeetingSeries(data)
+        .then(created => { if (created.length) setMeetings(prev => [...prev, ...created.filter(c => !prev.some(m => m.id === c.id))]); })
+        .catch(console.error);
     } catch (err) {
       console.error(err);
     } finally {
@@ -43,6 +58,10 @@ export const MeetingTrackerPage: React.FC = () => {
     fetchData();
   }, []);
 
+  useEffect(() => {
+    if (lastRun?.entity === 'meeting') setMeetings(prev => prev.map(m => m.id === lastRun.recordId ? { ...m, ...lastRun.patch } as Meeting : m));
+  }, [lastRun]);
+
   const { activeMeetings, historyMeetings } = useMemo(() => {
       const baseFiltered = meetings.filter(m => {
           const matchesSearch = m.title.toLowerCase().includes(search.toLowerCase());
@@ -82,7 +101,20 @@ export const MeetingTrackerPage: React.FC = () => {
       setIsModalOpen(true);
   };
 
-  const handleSave = async (data: Partial<Meeting>) => {
+  // Deep links from the command palette
+  useEffect(() => {
+      const state = location.state as { openMeetingId?: number; createMeeting?: boolean } | null;
+      if (!state || isLoading) return;
+      if (state.createMeeting) {
+          handleCreate();
+      } else if (state.openMeetingId) {
+          const target = meetings.find(m => m.id === state.openMeetingId);
+          if (target) handleEdit(target);
+      }
+      navigate(location.pathname, { replace: true, state: null });
+  }, [location.state, isLoading]);
+
+  const handleSave = async (data: Partial<Meeting>, scope?: RecurrenceScope) => {
       const auditData = {
           lastUpdatedBy: user?.name || 'Unknown',
           lastUpdatedAt: new Date().toISOString()
@@ -91,13 +123,30 @@ export const MeetingTrackerPage: React.FC = () => {
 
       try {
           if (editingMeeting && editingMeeting.id !== 0) {
-              await meetingsApi.update(editingMeeting.id, finalData);
+              if (editingMeeting.seriesId || data.recurrence) {
+                  const saved = await updateRecurringMeetingSeries(editingMeeting, data, scope || 'future', meetings, auditData);
+                  runAutomations('meeting', editingMeeting, saved);
+              } else {
+                  const saved = await saveWithVersion('meeting', editingMeeting, finalData, (payload, version) => meetingsApi.update(editingMeeting.id, payload, version));
+                  if (!saved) {
+                      showToast("Your changes were discarded, the newer version was kept.", "info");
+                      fetchData();
+                      return;
+                  }
+                  runAutomations('meeting', editingMeeting, saved);
+              }
+          } else if (data.recurrence) {
+              await createRecurringMeetingSeries(data, auditData);
           } else {
               await meetingsApi.create(finalData as Meeting);
           }
           fetchData();
       } catch (e) {
           console.error(e);
+          if (e instanceof ConcurrencyConflictError) {
+              showToast("Someone else changed this in the meantime, showing their version", "info");
+              fetchData();
+          }
       }
   };
 
@@ -113,18 +162,26 @@ export const MeetingTrackerPage: React.FC = () => {
   };
 
   const handleStatusChange = async (meeting: Meeting, newStatus: MeetingStatus) => {
+      if (isReadOnly) return;
       try {
-          await meetingsApi.update(meeting.id, { 
+          const saved = await saveWithVersion('meeting', meeting, { 
               status: newStatus,
               lastUpdatedBy: user?.name || 'Unknown',
               lastUpdatedAt: new Date().toISOString()
-          });
+          }, (payload, version) => meetingsApi.update(meeting.id, payload, version));
+          if (!saved) showToast("Your changes were discarded, the newer version was kept.", "info");
+          else runAutomations('meeting', meeting, saved);
           fetchData();
       } catch (e) {
           console.error(e);
       }
   };
 
+  const handleReschedule = useReschedule<Meeting, 'dateTime'>({
+      entity: 'meeting', field: 'dateTime', update: meetingsApi.update, describe: formatDateTime,
+      patch: (id, changes) => setMeetings(prev => prev.map(m => m.id === id ? { ...m, ...changes } : m))
+  });
+
   return (
     <div className="flex min-h-screen mesh-bg relative">
       <div className="glass-canvas" />
@@ -144,7 +201,8 @@ export const MeetingTrackerPage: React.FC = () => {
              
              <button 
                 onClick={() => handleCreate()}
-                className="bg-slate-950 hover:bg-slate-900 text-white px-6 lg:px-10 py-3 lg:py-5 rounded-2xl lg:rounded-[2rem] flex items-center justify-center gap-3 lg:gap-4 font-black uppercase tracking-[0.2em] shadow-2xl active:scale-95 transition-all w-full sm:w-auto text-xs lg:text-sm"
+                disabled={isReadOnly}
+                className="bg-slate-950 hover:bg-slate-900 text-white px-6 lg:px-10 py-3 lg:py-5 rounded-2xl lg:rounded-[2rem] flex items-center justify-center gap-3 lg:gap-4 font-black uppercase tracking-[0.2em] shadow-2xl active:scale-95 transition-all w-full sm:w-auto text-xs lg:text-sm disabled:opacity-40 disabled:cursor-not-allowed"
              >
                 <Plus className="h-5 lg:h-6 w-5 lg:w-6 text-brand-400" /> New Sync
              </button>
@@ -236,6 +294,7 @@ export const MeetingTrackerPage: React.FC = () => {
                                         meetings={meetings} 
                                         onEdit={handleEdit} 
                                         onCreateAt={(date) => handleCreate(date)}
+                                        onReschedule={user?.role !== 'ROLE_CLIENT' && !isReadOnly ? handleReschedule : undefined}
                                     />
                                 </div>
                             )}
@@ -250,6 +309,7 @@ export const MeetingTrackerPage: React.FC = () => {
             onClose={() => setIsModalOpen(false)} 
             onSubmit={handleSave}
             initialData={editingMeeting}
+            existingMeetings={meetings}
             onDelete={(id) => setDeleteId(id)}
         />
 
@@ -4,6 +4,8 @@ import { Navbar } from '../components/layout/Navbar';
 import { Sidebar } from '../components/layout/Sidebar';
 import { useAuth } from '../context/AuthContext';
 import { useLayout } from '../context/LayoutContext';
+import { useToast } from '../context/ToastContext';
+import { useReschedule } from '../hooks/useReschedule';
 import { tasksApi, meetingsApi } from '../services/api';
 import { Task, Meeting } from '../types';
 import { 
@@ -23,14 +25,17 @@ import {
     CheckSquare
 } from 'lucide-react';
 import { Link } from 'react-router-dom';
-import { formatDate } from '../utils';
+import { formatDate, formatDateTime } from '../utils';
+import { moveMeetingToDate } from '../services/meetingSchedule';
+import { TaskTimerButton } from '../components/time/TaskTimerButton';
 
 // Hoist formatter to avoid expensive re-instantiation on every render
 const DATE_FORMATTER = new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Kolkata' });
 
 export const MyDashboardPage: React.FC = () => {
-    const { user } = useAuth();
+    const { user, isReadOnly } = useAuth();
     const { isSidebarCollapsed } = useLayout();
+    const { showToast } = useToast();
     const [allTasks, setAllTasks] = useState<Task[]>([]);
     const [meetings, setMeetings] = useState<Meeting[]>([]);
     const [isLoading, setIsLoading] = useState(true);
@@ -38,6 +43,8 @@ export const MyDashboardPage: React.FC = () => {
     // Calendar State
     const [selectedDate, setSelectedDate] = useState(new Date());
     const [calendarViewDate, setCalendarViewDate] = useState(new Date());
+    const [dragOverDate, setDragOverDate] = useState<string | null>(null);
+    const canReschedule = !!user && user.role !== 'ROLE_CLIENT' && !isReadOnly;
 
     useEffect(() => {
         const loadData = async () => {
@@ -143,6 +150,27 @@ export const MyDashboardPage: React.FC = () => {
         };
     }, [selectedDateStr, meetings, allTasks]);
 
+    // Agenda items can be dropped onto a day of the mini calendar
+    const handleRescheduleTask = useReschedule<Task, 'dueDate'>({
+        entity: 'task', field: 'dueDate', update: tasksApi.update, describe: formatDate,
+        patch: (id, changes) => setAllTasks(prev => prev.map(t => t.id === id ? { ...t, ...changes } : t))
+    });
+
+    const handleRescheduleMeeting = useReschedule<Meeting, 'dateTime'>({
+        entity: 'meeting', field: 'dateTime', update: meetingsApi.update, describe: formatDateTime,
+        patch: (id, changes) => setMeetings(prev => prev.map(m => m.id === id ? { ...m, ...changes } : m))
+    });
+
+    const handleCalendarDrop = (e: React.DragEvent, dateStr: string) => {
+        if (!canReschedule) return;
+        e.preventDefault();
+        setDragOverDate(null);
+        const task = allTasks.find(t => t.id === parseInt(e.dataTransfer.getData("taskId")));
+        const meeting = meetings.find(m => m.id === parseInt(e.dataTransfer.getData("meetingId")));
+        if (task && task.dueDate !== dateStr) handleRescheduleTask(task, dateStr);
+        if (meeting && !meeting.dateTime.startsWith(dateStr)) handleRescheduleMeeting(meeting, moveMeetingToDate(meeting.dateTime, dateStr));
+    };
+
     // Pre-calculate event existence for calendar grid O(1) lookup
     const { meetingDates, taskDates } = useMemo(() => {
         const mDates = new Set(meetings.map(m => m.dateTime.split('T')[0]));
@@ -177,8 +205,13 @@ export const MyDashboardPage: React.FC = () => {
                 <button
                     key={day}
                     onClick={() => setSelectedDate(new Date(year, month, day))}
+                    onDragOver={(e) => { if (canReschedule) { e.preventDefault(); setDragOverDate(dateStr); } }}
+                    onDragLeave={() => setDragOverDate(null)}
+                    onDrop={(e) => handleCalendarDrop(e, dateStr)}
                     className={`h-10 w-10 rounded-xl flex flex-col items-center justify-center relative transition-all duration-200 ${
-                        isSelected 
+                        dragOverDate === dateStr
+                        ? 'bg-brand-100 text-brand-700 ring-2 ring-brand-400'
+                        : isSelected 
                         ? 'bg-brand-600 text-white shadow-lg shadow-brand-500/30' 
                         : isToday 
                             ? 'bg-brand-50 text-brand-700 font-bold' 
@@ -194,7 +227,7 @@ export const MyDashboardPage: React.FC = () => {
             );
         }
         return cells;
-    }, [calendarViewDate, meetingDates, taskDates, selectedDateStr, todayStr]);
+    }, [calendarViewDate, meetingDates, taskDates, selectedDateStr, todayStr, dragOverDate, canReschedule, allTasks, meetings]);
 
     // Loading Skeleton
     if (isLoading) {
@@ -347,6 +380,7 @@ export const MyDashboardPage: React.FC = () => {
                                                         </div>
                                                     </div>
 
+                                                    <TaskTimerButton task={task} />
                                                     <ChevronRight className="h-4 w-4 text-gray-300 group-hover:text-brand-400 transition-colors flex-shrink-0" />
                                                 </div>
                                             ))}
@@ -402,7 +436,13 @@ export const MyDashboardPage: React.FC = () => {
                                     <div className="space-y-3 min-h-[150px]">
                                         {/* Meetings */}
                                         {agendaItems.meetings.map(m => (
-                                            <div key={m.id} className="flex gap-3 items-start group">
+                                            <div
+                                                key={m.id}
+                                                draggable={canReschedule}
+                                                onDragStart={(e) => { e.dataTransfer.setData("meetingId", m.id.toString()); e.dataTransfer.effectAllowed = "move"; }}
+                                                className={`flex gap-3 items-start group ${canReschedule ? 'cursor-grab active:cursor-grabbing' : ''}`}
+                                                title={canReschedule ? 'Drag onto a day to reschedule' : undefined}
+                                            >
                                                 <div className="flex flex-col items-center min-w-[40px]">
                                                     <span className="text-xs font-bold text-gray-900">
                                                         {new Date(m.dateTime).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true })}
@@ -421,7 +461,13 @@ export const MyDashboardPage: React.FC = () => {
 
                                         {/* Tasks */}
                                         {agendaItems.tasks.map(t => (
-                                            <div key={t.id} className="flex gap-3 items-center group">
+                                            <div
+                                                key={t.id}
+                                                draggable={canReschedule}
+                                                onDragStart={(e) => { e.dataTransfer.setData("taskId", t.id.toString()); e.dataTransfer.effectAllowed = "move"; }}
+                                                className={`flex gap-3 items-center group ${canReschedule ? 'cursor-grab active:cursor-grabbing' : ''}`}
+                                                title={canReschedule ? 'Drag onto a day to reschedule' : undefined}
+                                            >
                                                 <div className="flex flex-col items-center min-w-[40px] text-gray-400">
                                                     <CheckSquare className="h-4 w-4" />
                                                 </div>
@@ -0,0 +1,164 @@
+import React, { useState, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Navbar } from '../components/layout/Navbar';
+import { Sidebar } from '../components/layout/Sidebar';
+import { NotificationItem, NOTIFICATION_TYPE_META } from '../components/notifications/NotificationItem';
+import { DeleteConfirmationModal } from '../components/ui/DeleteConfirmationModal';
+import { AppNotification, NotificationType } from '../types';
+import { Bell, BellOff, CheckCheck, Trash2, RefreshCw, Inbox } from 'lucide-react';
+import { useNotifications } from '../context/NotificationContext';
+import { useLayout } from '../context/LayoutContext';
+
+type ArchiveFilter = 'all' | 'unread' | NotificationType;
+
+export const NotificationsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { isSidebarCollapsed } = useLayout();
+  const { notifications, unreadCount, mutedTypes, markAsRead, markAllAsRead, toggleMute, clearArchive, refresh } = useNotifications();
+  const [filter, setFilter] = useState<ArchiveFilter>('all');
+  const [isClearOpen, setIsClearOpen] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const filtered = useMemo(() => {
+    return notifications.filter(n => {
+      if (filter === 'all') return true;
+      if (filter === 'unread') return !n.read;
+      return n.type === filter;
+    });
+  }, [notifications, filter]);
+
+  const handleOpen = (notification: AppNotification) => {
+    markAsRead(notification.id);
+    if (notification.link) navigate(notification.link, notification.linkState ? { state: notification.linkState } : undefined);
+  };
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await refresh();
+    setIsRefreshing(false);
+  };
+
+  const types = Object.keys(NOTIFICATION_TYPE_META) as NotificationType[];
+
+  return (
+    <div className="flex min-h-screen mesh-bg relative">
+      <div className="glass-canvas" />
+      <Sidebar />
+      <div className={`flex-1 flex flex-col min-w-0 transition-all duration-500 ease-in-out ${isSidebarCollapsed ? 'lg:ml-28' : 'lg:ml-80'}`}>
+        <Navbar />
+
+        <div className="px-4 lg:px-12 py-6 lg:py-10 pb-32">
+          <div className="flex flex-col xl:flex-row xl:items-end justify-between gap-6 lg:gap-8 mb-8 lg:mb-16 animate-premium">
+            <div>
+              <div className="flex items-center gap-3 mb-2 lg:mb-4">
+                <div className="h-1.5 lg:h-2 w-1.5 lg:w-2 rounded-full bg-indigo-500 animate-pulse" />
+                <span className="text-[9px] lg:text-[10px] font-black text-indigo-600 uppercase tracking-[0.5em]">Signal Intelligence</span>
+              </div>
+              <h1 className="text-4xl lg:text-7xl font-black text-slate-900 tracking-tighter leading-none display-text">Log Archive.</h1>
+              <p className="text-sm lg:text-lg text-slate-500 mt-2 lg:mt-6 font-medium max-w-xl">Every assignment, status shift and deadline signal routed to you.</p>
+            </div>
+
+            <div className="flex flex-wrap gap-3">
+              <button
+                onClick={handleRefresh}
+                className="px-5 py-3 lg:py-4 bg-white/60 border border-white rounded-2xl text-[10px] font-black uppercase tracking-widest text-slate-600 hover:bg-white shadow-sm flex items-center gap-2 transition-all"
+              >
+                <RefreshCw className={`h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} /> Sync
+              </button>
+              <button
+                onClick={markAllAsRead}
+                disabled={unreadCount === 0}
+                className="px-5 py-3 lg:py-4 bg-slate-950 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest shadow-xl flex items-center gap-2 active:scale-95 transition-all disabled:opacity-40"
+              >
+                <CheckCheck className="h-4 w-4 text-indigo-400" /> Mark all read
+              </button>
+              <button
+                onClick={() => setIsClearOpen(true)}
+                disabled={notifications.length === 0}
+                className="p-3 lg:p-4 bg-rose-50 text-rose-500 hover:bg-rose-100 rounded-2xl transition-all disabled:opacity-40"
+                title="Clear archive"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 xl:grid-cols-12 gap-8">
+            {/* Preferences */}
+            <div className="xl:col-span-4 bg-white/40 backdrop-blur-3xl rounded-[2rem] lg:rounded-[3rem] border border-white shadow-premium p-6 lg:p-8 h-fit">
+              <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em] mb-6">Channel Muting</h3>
+              <div className="space-y-3">
+                {types.map(type => {
+                  const meta = NOTIFICATION_TYPE_META[type];
+                  const isMuted = mutedTypes.includes(type);
+                  const Icon = meta.icon;
+                  return (
+                    <button
+                      key={type}
+                      onClick={() => toggleMute(type)}
+                      className={`w-full flex items-center justify-between gap-4 p-4 rounded-2xl border transition-all ${isMuted ? 'bg-slate-50 border-slate-100 opacity-60' : 'bg-white border-white shadow-sm hover:shadow-md'}`}
+                    >
+                      <div className="flex items-center gap-3">
+                        <div className={`p-2 rounded-xl border ${meta.color}`}>
+                          <Icon className="h-4 w-4" />
+                        </div>
+                        <span className="text-xs font-black text-slate-700">{meta.label}</span>
+                      </div>
+                      {isMuted
+                        ? <BellOff className="h-4 w-4 text-slate-400" />
+                        : <Bell className="h-4 w-4 text-indigo-500" />}
+                    </button>
+                  );
+                })}
+              </div>
+              <p className="text-[10px] font-medium text-slate-400 mt-6 leading-relaxed">Muted channels stop generating new signals and are excluded from the unread count.</p>
+            </div>
+
+            {/* Archive */}
+            <div className="xl:col-span-8 bg-white/30 backdrop-blur-2xl rounded-[2rem] lg:rounded-[3rem] border border-white/60 shadow-xl overflow-hidden flex flex-col min-h-[500px]">
+              <div className="flex items-center gap-1.5 p-2 lg:p-3 border-b border-white/40 bg-white/20 overflow-x-auto no-scrollbar">
+                {([
+                  { id: 'all', label: `All (${notifications.length})` },
+                  { id: 'unread', label: `Unread (${unreadCount})` },
+                  ...types.map(t => ({ id: t, label: NOTIFICATION_TYPE_META[t].label }))
+                ] as { id: ArchiveFilter; label: string }[]).map(tab => (
+                  <button
+                    key={tab.id}
+                    onClick={() => setFilter(tab.id)}
+                    className={`px-4 lg:px-5 py-2 lg:py-2.5 rounded-xl lg:rounded-2xl text-[9px] lg:text-[10px] font-black uppercase tracking-widest transition-all whitespace-nowrap ${
+                      filter === tab.id ? 'bg-white text-brand-700 shadow-xl ring-1 ring-black/5' : 'text-slate-400 hover:text-slate-700 hover:bg-white/40'
+                    }`}
+                  >
+                    {tab.label}
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex-1 p-4 lg:p-6 space-y-3">
+                {filtered.map(n => (
+                  <NotificationItem key={n.id} notification={n} onOpen={handleOpen} onMarkRead={markAsRead} />
+                ))}
+                {filtered.length === 0 && (
+                  <div className="py-32 flex flex-col items-center gap-4 text-center">
+                    <div className="h-16 w-16 bg-slate-50 rounded-[2rem] flex items-center justify-center border border-slate-100">
+                      <Inbox className="h-8 w-8 text-slate-300" />
+                    </div>
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.4em]">Archive is clear</p>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <DeleteConfirmationModal
+        isOpen={isClearOpen}
+        onClose={() => setIsClearOpen(false)}
+        onConfirm={() => { clearArchive(); setIsClearOpen(false); }}
+        title="Clear Archive"
+        message="Remove every stored notification? New signals will keep arriving."
+      />
+    </div>
+  );
+};
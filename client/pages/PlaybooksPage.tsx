@@ -0,0 +1,175 @@
+import React, { useState, useEffect } from 'react';
+import { Navbar } from '../components/layout/Navbar';
+import { Sidebar } from '../components/layout/Sidebar';
+import { playbooksApi, usersApi } from '../services/api';
+import { Playbook, User } from '../types';
+import { PlaybookForm } from '../components/playbooks/PlaybookForm';
+import { DeleteConfirmationModal } from '../components/ui/DeleteConfirmationModal';
+import { Plus, BookOpen, Zap, Edit2, Trash2, CalendarRange } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useLayout } from '../context/LayoutContext';
+import { useToast } from '../context/ToastContext';
+import { formatDateTime } from '../utils';
+
+export const PlaybooksPage: React.FC = () => {
+  const { user, isReadOnly } = useAuth();
+  const { isSidebarCollapsed } = useLayout();
+  const { showToast } = useToast();
+  const [playbooks, setPlaybooks] = useState<Playbook[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editing, setEditing] = useState<Playbook | undefined>(undefined);
+  const [deleteId, setDeleteId] = useState<number | null>(null);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      setIsLoading(true);
+      try {
+        const [playbooksData, usersData] = await Promise.all([playbooksApi.getAll(), usersApi.getAll().catch(() => [])]);
+        setPlaybooks(playbooksData);
+        setUsers(usersData);
+      } catch (e) {
+        console.error(e);
+        showToast("Failed to load playbooks", "error");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchData();
+  }, []);
+
+  const handleSave = async (data: Omit<Playbook, 'id' | 'createdAt'>) => {
+    const audit = { lastUpdatedBy: user?.name || 'Unknown', lastUpdatedAt: new Date().toISOString() };
+    try {
+      if (editing) {
+        const updated = await playbooksApi.update(editing.id, { ...data, ...audit });
+        setPlaybooks(prev => prev.map(p => p.id === editing.id ? { ...p, ...data, ...audit, ...updated } : p));
+        showToast("Playbook updated", "success");
+      } else {
+        const created = await playbooksApi.create({ ...data, ...audit });
+        setPlaybooks(prev => [...prev, created]);
+        showToast("Playbook created", "success");
+      }
+      setIsFormOpen(false);
+    } catch (e: any) {
+      showToast(e.message || "Failed to save playbook", "error");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteId) return;
+    const target = playbooks.find(p => p.id === deleteId);
+    setDeleteId(null);
+    if (!target) return;
+    setPlaybooks(prev => prev.filter(p => p.id !== target.id));
+    try {
+      await playbooksApi.delete(target.id);
+      showToast("Playbook removed", "info");
+    } catch (e) {
+      setPlaybooks(prev => [...prev, target]);
+      showToast("Failed to remove playbook", "error");
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen mesh-bg relative">
+      <div className="glass-canvas" />
+      <Sidebar />
+      <div className={`flex-1 flex flex-col min-w-0 transition-all duration-500 ease-in-out ${isSidebarCollapsed ? 'lg:ml-28' : 'lg:ml-80'}`}>
+        <Navbar />
+
+        <div className="flex-1 px-4 lg:px-12 py-6 lg:py-10 pb-32">
+          <div className="flex flex-col xl:flex-row xl:items-end justify-between gap-6 lg:gap-8 mb-8 lg:mb-16 animate-premium">
+            <div>
+              <div className="flex items-center gap-3 mb-2 lg:mb-4">
+                <div className="h-1.5 lg:h-2 w-1.5 lg:w-2 rounded-full bg-brand-500 animate-pulse" />
+                <span className="text-[9px] lg:text-[10px] font-black text-brand-600 uppercase tracking-[0.5em]">Task Templates</span>
+              </div>
+              <h1 className="text-4xl lg:text-7xl font-black text-slate-900 tracking-tighter leading-none display-text">Playbooks.</h1>
+            </div>
+
+            <button
+              onClick={() => { setEditing(undefined); setIsFormOpen(true); }}
+              disabled={isReadOnly}
+              className="bg-slate-950 hover:bg-slate-900 text-white px-6 lg:px-10 py-3 lg:py-5 rounded-2xl lg:rounded-[2rem] flex items-center justify-center gap-3 lg:gap-4 font-black uppercase tracking-[0.2em] shadow-2xl active:scale-95 transition-all w-full sm:w-auto text-xs lg:text-sm disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Plus className="h-5 lg:h-6 w-5 lg:w-6 text-brand-400" /> New Playbook
+            </button>
+          </div>
+
+          {isLoading ? (
+            <div className="py-20 text-center text-[10px] font-black text-slate-400 uppercase tracking-[0.4em]">Loading playbooks...</div>
+          ) : playbooks.length === 0 ? (
+            <div className="py-20 text-center bg-white/30 backdrop-blur-2xl rounded-[3rem] border border-white/60">
+              <BookOpen className="h-10 w-10 text-slate-300 mx-auto mb-4" />
+              <p className="text-sm font-bold text-slate-500">Bundle the kickoff tasks you create for every new client.</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+              {playbooks.map(playbook => {
+                const span = Math.max(0, ...playbook.tasks.map(t => t.offsetDays));
+                return (
+                  <div key={playbook.id} className="bg-white/40 backdrop-blur-3xl rounded-[2.5rem] border border-white shadow-premium p-8 flex flex-col group">
+                    <div className="flex items-start justify-between gap-4 mb-4">
+                      <div className="h-12 w-12 rounded-2xl bg-slate-950 flex items-center justify-center text-indigo-400 shadow-xl shrink-0">
+                        <BookOpen className="h-6 w-6" />
+                      </div>
+                      <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button onClick={() => { setEditing(playbook); setIsFormOpen(true); }} className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-white rounded-xl transition-all">
+                          <Edit2 className="h-4 w-4" />
+                        </button>
+                        <button onClick={() => setDeleteId(playbook.id)} className="p-2 text-slate-400 hover:text-rose-600 hover:bg-white rounded-xl transition-all">
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+                    <h3 className="text-xl font-black text-slate-900 tracking-tight">{playbook.name}</h3>
+                    {playbook.description && <p className="text-xs font-medium text-slate-500 mt-2 line-clamp-2">{playbook.description}</p>}
+
+                    <div className="flex flex-wrap gap-2 mt-5">
+                      <span className="px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest bg-slate-50 border border-slate-100 text-slate-600">{playbook.tasks.length} Tasks</span>
+                      <span className="px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest bg-slate-50 border border-slate-100 text-slate-600 flex items-center gap-1.5">
+                        <CalendarRange className="h-3 w-3" /> {span === 0 ? 'Same day' : `${span} days`}
+                      </span>
+                      {playbook.runOnOnboard && (
+                        <span className="px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest bg-indigo-50 border border-indigo-100 text-indigo-700 flex items-center gap-1.5">
+                          <Zap className="h-3 w-3" /> On Onboard
+                        </span>
+                      )}
+                    </div>
+
+                    <ol className="mt-6 space-y-2 flex-1">
+                      {[...playbook.tasks].sort((a, b) => a.offsetDays - b.offsetDays).slice(0, 5).map(t => (
+                        <li key={t.key} className="flex items-center gap-3 text-xs">
+                          <span className="text-[9px] font-black text-indigo-500 uppercase tracking-widest w-12 shrink-0">Day {t.offsetDays}</span>
+                          <span className="font-bold text-slate-700 truncate">{t.title}</span>
+                        </li>
+                      ))}
+                      {playbook.tasks.length > 5 && <li className="text-[10px] font-black text-slate-400 uppercase tracking-widest">+{playbook.tasks.length - 5} more</li>}
+                    </ol>
+
+                    {playbook.lastUpdatedAt && (
+                      <p className="mt-6 pt-4 border-t border-slate-100 text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                        Updated {formatDateTime(playbook.lastUpdatedAt)}{playbook.lastUpdatedBy ? ` by ${playbook.lastUpdatedBy}` : ''}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <PlaybookForm isOpen={isFormOpen} onClose={() => setIsFormOpen(false)} onSubmit={handleSave} initialData={editing} users={users} />
+      <DeleteConfirmationModal
+        isOpen={!!deleteId}
+        onClose={() => setDeleteId(null)}
+        onConfirm={handleDelete}
+        title="Delete Playbook"
+        message="Tasks already created from this playbook are kept. This cannot be undone."
+      />
+    </div>
+  );
+};
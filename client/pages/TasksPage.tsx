@@ -1,9 +1,12 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { Navbar } from '../components/layout/Navbar';
 import { Sidebar } from '../components/layout/Sidebar';
-import { tasksApi, crmApi, usersApi } from '../services/api';
-import { Task, TaskFilterState, TaskPriority, TaskStatus } from '../types';
+import { tasksApi, crmApi, usersApi, ConcurrencyConflictError } from '../services/api';
+import { Task, TaskFilterState, TaskPriority, TaskStatus, RecurrenceScope } from '../types';
+import { createRecurringSeries, updateRecurringSeries, extendRecurringSeries } from '../services/recurringTasks';
+import { logTaskChanges } from '../services/taskActivity';
 import { TasksTable } from '../components/tasks/TasksTable';
 import { TasksKanban } from '../components/tasks/TasksKanban';
 import { TasksFilter } from '../components/tasks/TasksFilter';
@@ -13,13 +16,21 @@ import { Plus, LayoutList, Kanban, User, Archive, ChevronDown, ChevronRight, Act
 import { useAuth } from '../context/AuthContext';
 import { useLayout } from '../context/LayoutContext';
 import { useToast } from '../context/ToastContext';
+import { useAutomation } from '../context/AutomationContext';
+import { usePermission } from '../context/PermissionContext';
+import { useConcurrency } from '../context/ConcurrencyContext';
 
 type ViewMode = 'list' | 'kanban' | 'mine';
 
 export const TasksPage: React.FC = () => {
-  const { user } = useAuth();
+  const { user, isReadOnly } = useAuth();
   const { showToast } = useToast();
   const { isSidebarCollapsed } = useLayout();
+  const { runAutomations, lastRun } = useAutomation();
+  const canDeleteTasks = usePermission('task.delete');
+  const { saveWithVersion } = useConcurrency();
+  const location = useLocation();
+  const navigate = useNavigate();
   const [tasks, setTasks] = useState<Task[]>([]);
   const [companyMap, setCompanyMap] = useState<Record<number, string>>({});
   const [userAvatarMap, setUserAvatarMap] = useState<Record<string, string>>({});
@@ -37,6 +48,9 @@ export const TasksPage: React.FC = () => {
     try {
       const [tasksData, crmData, usersData] = await Promise.all([tasksApi.getAll(), crmApi.getAll(), usersApi.getAll()]);
       setTasks(tasksData);
+      // Keep recurring series stocked up to the scheduling horizon; the tasks board is the one place that tops them up
+      extendRecurringSeries(tasksData)
+        .then(generated => { if (generated.length) setTasks(prev => [...prev, ...generated.filter(g => !prev.some(t => t.id === g.id))]); });
       const cMap: Record<number, string> = {};
       crmData.crmList.forEach(c => cMap[c.id] = c.company);
       setCompanyMap(cMap);
@@ -48,6 +62,29 @@ export const TasksPage: React.FC = () => {
 
   useEffect(() => { fetchData(); }, []);
 
+  // Fold in whatever a rule changed or created after one of our saves
+  useEffect(() => {
+    if (!lastRun) return;
+    setTasks(prev => {
+      const patched = lastRun.entity === 'task' ? prev.map(t => t.id === lastRun.recordId ? { ...t, ...lastRun.patch } as Task : t) : prev;
+      return [...patched, ...lastRun.createdTasks.filter(c => !patched.some(t => t.id === c.id))];
+    });
+  }, [lastRun]);
+
+  // Deep links from the command palette
+  useEffect(() => {
+    const state = location.state as { openTaskId?: number; createTask?: boolean } | null;
+    if (!state || isLoading) return;
+    if (state.createTask) {
+        setEditingTask(undefined);
+        setIsModalOpen(true);
+    } else if (state.openTaskId) {
+        const target = tasks.find(t => t.id === state.openTaskId);
+        if (target) handleEdit(target);
+    }
+    navigate(location.pathname, { replace: true, state: null });
+  }, [location.state, isLoading]);
+
   const filteredTasks = useMemo(() => {
     return tasks.filter(t => {
       const isVisible = !t.companyId || t.isVisibleOnMainBoard;
@@ -86,18 +123,42 @@ export const TasksPage: React.FC = () => {
       setIsModalOpen(true);
   };
 
-  const handleSaveTask = async (data: Partial<Task>) => {
+  const handleSaveTask = async (data: Partial<Task>, scope?: RecurrenceScope) => {
+    const audit = { lastUpdatedBy: user?.name || 'Unknown', lastUpdatedAt: new Date().toISOString() };
     try {
-        if (data.id && data.id !== 0) {
+        const original = tasks.find(t => t.id === data.id);
+        if (original && (original.seriesId || data.recurrence)) {
+            const saved = await updateRecurringSeries(original, data, scope || 'future', tasks, audit);
+            logTaskChanges(original, data, user);
+            runAutomations('task', original, saved);
+            showToast(scope === 'this' ? "Occurrence synchronized" : "Series synchronized", "success");
+            fetchData();
+        } else if (data.id && data.id !== 0) {
             // Optimistic update for edits
             setTasks(prev => prev.map(t => t.id === data.id ? { ...t, ...data } as Task : t));
             
-            await tasksApi.update(data.id, {
-                ...data,
-                lastUpdatedBy: user?.name || 'Unknown',
-                lastUpdatedAt: new Date().toISOString()
-            });
+            const taskId = data.id;
+            const changes = { ...data, ...audit };
+            // A task missing from the loaded list is based on the server copy, so the write still carries a version
+            const base = original || await tasksApi.getById(taskId);
+            const saved = await saveWithVersion('task', base, changes, (payload, version) => tasksApi.update(taskId, payload, version));
+            if (!saved) {
+                showToast("Your changes were discarded, the newer version was kept.", "info");
+                fetchData();
+                return;
+            }
+            setTasks(prev => prev.map(t => t.id === taskId ? { ...t, ...saved } : t));
+            logTaskChanges(base, saved, user);
+            runAutomations('task', base, saved);
             showToast("Milestone synchronized", "success");
+        } else if (data.recurrence) {
+            const series = await createRecurringSeries({
+                ...data,
+                companyId: data.companyId || undefined,
+                isVisibleOnMainBoard: true
+            }, audit);
+            setTasks(prev => [...prev, ...series]);
+            showToast(`Recurring milestone scheduled (${series.length} occurrences)`, "success");
         } else {
             const newTask = await tasksApi.create({
                 ...data,
@@ -105,25 +166,35 @@ export const TasksPage: React.FC = () => {
                 isVisibleOnMainBoard: true // Main board tasks are always visible
             } as any);
             setTasks(prev => [...prev, newTask]);
+            runAutomations('task', undefined, newTask);
             showToast("Internal milestone created", "success");
         }
     } catch (e) {
-        showToast("Operation failed", "error");
+        showToast(e instanceof ConcurrencyConflictError ? "Someone else changed this in the meantime, showing their version" : "Operation failed", e instanceof ConcurrencyConflictError ? "info" : "error");
         fetchData(); // Revert/Reload on error
     }
   };
 
   const handleStatusChange = async (task: Task, newStatus: TaskStatus) => {
+    if (isReadOnly) return;
     const previousTasks = [...tasks];
     // Optimistic Update
-    setTasks(prev => prev.map(t => t.id === task.id ? { ...t, status: newStatus, lastUpdatedAt: new Date().toISOString() } : t));
+    setTasks(prev => prev.map(t => t.id === task.id ? { ...t, status: newStatus } : t));
     
     try {
-      await tasksApi.update(task.id, { 
+      const saved = await saveWithVersion('task', task, { 
         status: newStatus,
         lastUpdatedBy: user?.name || 'Unknown',
         lastUpdatedAt: new Date().toISOString()
-      });
+      }, (payload, version) => tasksApi.update(task.id, payload, version));
+      if (!saved) {
+        showToast("Your changes were discarded, the newer version was kept.", "info");
+        fetchData();
+        return;
+      }
+      setTasks(prev => prev.map(t => t.id === task.id ? { ...t, ...saved } : t));
+      logTaskChanges(task, { status: saved.status }, user);
+      runAutomations('task', task, saved);
       // Silent success for smoother Kanban flow
     } catch (e) { 
         console.error(e);
@@ -133,17 +204,26 @@ export const TasksPage: React.FC = () => {
   };
 
   const handlePriorityChange = async (task: Task, newPriority: TaskPriority) => {
+      if (isReadOnly) return;
       const previousTasks = [...tasks];
       // Optimistic Update
-      setTasks(prev => prev.map(t => t.id === task.id ? { ...t, priority: newPriority, lastUpdatedAt: new Date().toISOString() } : t));
+      setTasks(prev => prev.map(t => t.id === task.id ? { ...t, priority: newPriority } : t));
 
       try {
-          await tasksApi.update(task.id, { 
+          const saved = await saveWithVersion('task', task, { 
               priority: newPriority,
               lastUpdatedBy: user?.name || 'Unknown',
               lastUpdatedAt: new Date().toISOString()
-          });
-          showToast(`Priority updated to ${newPriority}`, "success");
+          }, (payload, version) => tasksApi.update(task.id, payload, version));
+          if (!saved) {
+              showToast("Your changes were discarded, the newer version was kept.", "info");
+              fetchData();
+              return;
+          }
+          setTasks(prev => prev.map(t => t.id === task.id ? { ...t, ...saved } : t));
+          logTaskChanges(task, { priority: saved.priority }, user);
+          runAutomations('task', task, saved);
+          showToast(`Priority updated to ${saved.priority}`, "success");
       } catch (e) { 
           console.error(e);
           showToast("Priority update failed", "error");
@@ -172,7 +252,8 @@ export const TasksPage: React.FC = () => {
              
              <button 
                 onClick={() => { setEditingTask(undefined); setIsModalOpen(true); }} 
-                className="bg-slate-950 hover:bg-slate-900 text-white px-6 lg:px-10 py-3 lg:py-5 rounded-2xl lg:rounded-[2rem] flex items-center justify-center gap-3 lg:gap-4 font-black uppercase tracking-[0.2em] shadow-2xl active:scale-95 transition-all group w-full sm:w-auto text-xs lg:text-sm"
+                disabled={isReadOnly}
+                className="bg-slate-950 hover:bg-slate-900 text-white px-6 lg:px-10 py-3 lg:py-5 rounded-2xl lg:rounded-[2rem] flex items-center justify-center gap-3 lg:gap-4 font-black uppercase tracking-[0.2em] shadow-2xl active:scale-95 transition-all group w-full sm:w-auto text-xs lg:text-sm disabled:opacity-40 disabled:cursor-not-allowed"
              >
                 <Plus className="h-5 w-5 lg:h-6 lg:w-6 text-brand-400 group-hover:rotate-90 transition-transform duration-300" /> New Milestone
              </button>
@@ -259,6 +340,7 @@ export const TasksPage: React.FC = () => {
                                     userAvatarMap={userAvatarMap} 
                                     onEdit={handleEdit} 
                                     onStatusChange={handleStatusChange} 
+                                    readOnly={isReadOnly}
                                 />
                             </div>
                         )}
@@ -283,10 +365,11 @@ export const TasksPage: React.FC = () => {
         onSubmit={handleSaveTask} 
         initialData={editingTask} 
         companyMap={companyMap}
-        onDelete={(id) => {
+        onDelete={canDeleteTasks ? (id) => {
             setIsModalOpen(false);
             setDeleteId(id);
-        }}
+        } : undefined}
+        onReverted={(id, patch) => setTasks(prev => prev.map(t => t.id === id ? { ...t, ...patch } : t))}
       />
       
       <DeleteConfirmationModal 
@@ -0,0 +1,300 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Navbar } from '../components/layout/Navbar';
+import { Sidebar } from '../components/layout/Sidebar';
+import { timeEntriesApi, tasksApi, companiesApi } from '../services/api';
+import { Task, TimeEntry } from '../types';
+import { TimeEntryModal } from '../components/time/TimeEntryModal';
+import { DeleteConfirmationModal } from '../components/ui/DeleteConfirmationModal';
+import { Plus, ChevronLeft, ChevronRight, Users, Building, Download, Trash2, Timer, PenLine } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useLayout } from '../context/LayoutContext';
+import { useToast } from '../context/ToastContext';
+import { useTimeTracking } from '../context/TimeTrackingContext';
+import { usePermission } from '../context/PermissionContext';
+import { formatDate, formatDuration, getWeekDates, exportToCSV } from '../utils';
+
+type GroupBy = 'user' | 'client';
+
+interface TimesheetRow {
+  key: string;
+  label: string;
+  perDay: number[];
+  total: number;
+}
+
+const shiftDate = (dateStr: string, days: number) => {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return new Intl.DateTimeFormat('en-CA').format(new Date(y, m - 1, d + days));
+};
+
+export const TimesheetPage: React.FC = () => {
+  const { user, isReadOnly } = useAuth();
+  const { isSidebarCollapsed } = useLayout();
+  const { showToast } = useToast();
+  const { lastLoggedEntry, logManualEntry } = useTimeTracking();
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [companyMap, setCompanyMap] = useState<Record<number, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  const todayStr = new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Kolkata' }).format(new Date());
+  const [weekAnchor, setWeekAnchor] = useState(todayStr);
+  const [groupBy, setGroupBy] = useState<GroupBy>('user');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [deleteId, setDeleteId] = useState<number | null>(null);
+
+  const isAdmin = usePermission('time.manage');
+
+  useEffect(() => {
+    const fetchData = async () => {
+      setIsLoading(true);
+      try {
+        const [entriesData, tasksData, companiesData] = await Promise.all([
+          timeEntriesApi.getAll(),
+          tasksApi.getAll(),
+          companiesApi.getAll()
+        ]);
+        setEntries(entriesData);
+        setTasks(tasksData);
+        const map: Record<number, string> = {};
+        companiesData.forEach(c => { map[c.id] = c.company; });
+        setCompanyMap(map);
+      } catch (e) {
+        console.error(e);
+        showToast("Failed to load timesheet", "error");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchData();
+  }, []);
+
+  // Timers stopped from the navbar or a task row land here without a refetch
+  useEffect(() => {
+    if (lastLoggedEntry) setEntries(prev => prev.some(e => e.id === lastLoggedEntry.id) ? prev : [...prev, lastLoggedEntry]);
+  }, [lastLoggedEntry]);
+
+  // Admins review everyone, the rest of the team sees their own time
+  const visibleEntries = useMemo(() => {
+    if (isAdmin) return entries;
+    return entries.filter(e => e.userId ? e.userId === user?.id : e.userName === user?.name);
+  }, [entries, isAdmin, user]);
+
+  const weekDates = useMemo(() => getWeekDates(weekAnchor), [weekAnchor]);
+
+  const weekEntries = useMemo(() => {
+    return visibleEntries
+      .filter(e => e.date >= weekDates[0] && e.date <= weekDates[6])
+      .sort((a, b) => b.date.localeCompare(a.date) || (b.startedAt || b.createdAt).localeCompare(a.startedAt || a.createdAt));
+  }, [visibleEntries, weekDates]);
+
+  const { rows, dayTotals, weekTotal } = useMemo(() => {
+    const grouped: Record<string, TimesheetRow> = {};
+    weekEntries.forEach(e => {
+      const key = groupBy === 'user' ? (e.userId ? `id:${e.userId}` : `name:${e.userName}`) : String(e.companyId || 'internal');
+      const label = groupBy === 'user' ? e.userName : (e.companyId ? companyMap[e.companyId] || `Client #${e.companyId}` : 'Internal');
+      const row = grouped[key] = grouped[key] || { key, label, perDay: Array(7).fill(0), total: 0 };
+      row.perDay[weekDates.indexOf(e.date)] += e.durationMinutes;
+      row.total += e.durationMinutes;
+    });
+    const sorted = Object.values(grouped).sort((a, b) => b.total - a.total);
+    const totals = weekDates.map((_, i) => sorted.reduce((sum, r) => sum + r.perDay[i], 0));
+    return { rows: sorted, dayTotals: totals, weekTotal: totals.reduce((a, b) => a + b, 0) };
+  }, [weekEntries, groupBy, companyMap, weekDates]);
+
+  const handleLogTime = async (data: Omit<TimeEntry, 'id' | 'createdAt' | 'userId' | 'userName' | 'isManual'>) => {
+    try {
+      const entry = await logManualEntry(data);
+      setEntries(prev => prev.some(e => e.id === entry.id) ? prev : [...prev, entry]);
+      showToast(`Logged ${formatDuration(entry.durationMinutes)}`, "success");
+      setIsModalOpen(false);
+    } catch (e: any) {
+      showToast(e.message || "Failed to log time", "error");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteId) return;
+    const target = entries.find(e => e.id === deleteId);
+    setDeleteId(null);
+    if (!target) return;
+    setEntries(prev => prev.filter(e => e.id !== target.id));
+    try {
+      await timeEntriesApi.delete(target.id);
+      showToast("Time entry removed", "info");
+    } catch (e) {
+      setEntries(prev => [...prev, target]);
+      showToast("Failed to remove time entry", "error");
+    }
+  };
+
+  const handleExport = () => {
+    exportToCSV(weekEntries.map(e => ({
+      Date: e.date,
+      Person: e.userName,
+      Client: e.companyId ? companyMap[e.companyId] || '' : 'Internal',
+      Task: e.taskTitle || `Task #${e.taskId}`,
+      Minutes: e.durationMinutes,
+      Source: e.isManual ? 'Manual' : 'Timer',
+      Note: e.note || ''
+    })), `timesheet-${weekDates[0]}`);
+  };
+
+  const canDelete = (entry: TimeEntry) => isAdmin || (entry.userId ? entry.userId === user?.id : entry.userName === user?.name);
+  const assignableTasks = useMemo(() => tasks.filter(t => t.status !== 'Completed' && t.status !== 'Done'), [tasks]);
+  const weekLabel = `${formatDate(weekDates[0])} – ${formatDate(weekDates[6])}`;
+
+  return (
+    <div className="flex min-h-screen mesh-bg relative">
+      <div className="glass-canvas" />
+      <Sidebar />
+      <div className={`flex-1 flex flex-col min-w-0 transition-all duration-500 ease-in-out ${isSidebarCollapsed ? 'lg:ml-28' : 'lg:ml-80'}`}>
+        <Navbar />
+
+        <div className="flex-1 px-4 lg:px-12 py-6 lg:py-10 pb-32">
+          <div className="flex flex-col xl:flex-row xl:items-end justify-between gap-6 lg:gap-8 mb-8 lg:mb-16 animate-premium">
+            <div>
+              <div className="flex items-center gap-3 mb-2 lg:mb-4">
+                <div className="h-1.5 lg:h-2 w-1.5 lg:w-2 rounded-full bg-brand-500 animate-pulse" />
+                <span className="text-[9px] lg:text-[10px] font-black text-brand-600 uppercase tracking-[0.5em]">Effort Ledger</span>
+              </div>
+              <h1 className="text-4xl lg:text-7xl font-black text-slate-900 tracking-tighter leading-none display-text">Timesheet.</h1>
+            </div>
+
+            <button
+              onClick={() => setIsModalOpen(true)}
+              disabled={isReadOnly}
+              className="bg-slate-950 hover:bg-slate-900 text-white px-6 lg:px-10 py-3 lg:py-5 rounded-2xl lg:rounded-[2rem] flex items-center justify-center gap-3 lg:gap-4 font-black uppercase tracking-[0.2em] shadow-2xl active:scale-95 transition-all w-full sm:w-auto text-xs lg:text-sm disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Plus className="h-5 lg:h-6 w-5 lg:w-6 text-brand-400" /> Log Time
+            </button>
+          </div>
+
+          <div className="bg-white/30 backdrop-blur-2xl rounded-[2rem] lg:rounded-[3rem] border border-white/60 shadow-xl flex flex-col mb-10 overflow-hidden">
+            <div className="p-4 lg:p-5 border-b border-gray-100 flex flex-col md:flex-row gap-4 lg:gap-6 items-start md:items-center justify-between bg-white/40">
+              <div className="flex items-center gap-2">
+                <button onClick={() => setWeekAnchor(shiftDate(weekAnchor, -7))} className="p-2.5 bg-white border border-gray-200 rounded-xl hover:bg-gray-50 transition-colors">
+                  <ChevronLeft className="h-4 w-4 text-gray-600" />
+                </button>
+                <button onClick={() => setWeekAnchor(todayStr)} className="px-4 py-2.5 bg-white border border-gray-200 rounded-xl text-[10px] font-black uppercase tracking-widest text-gray-600 hover:bg-gray-50 transition-colors">
+                  This Week
+                </button>
+                <button onClick={() => setWeekAnchor(shiftDate(weekAnchor, 7))} className="p-2.5 bg-white border border-gray-200 rounded-xl hover:bg-gray-50 transition-colors">
+                  <ChevronRight className="h-4 w-4 text-gray-600" />
+                </button>
+                <span className="ml-2 text-sm font-black text-slate-900">{weekLabel}</span>
+              </div>
+
+              <div className="flex items-center gap-3 w-full md:w-auto">
+                <div className="flex p-1 bg-white/60 rounded-xl lg:rounded-2xl border border-white shadow-inner flex-1 md:flex-none">
+                  {([
+                    { id: 'user', label: 'By Person', icon: Users },
+                    { id: 'client', label: 'By Client', icon: Building }
+                  ] as const).map(option => (
+                    <button
+                      key={option.id}
+                      onClick={() => setGroupBy(option.id)}
+                      className={`flex-1 md:flex-none flex items-center justify-center gap-2 px-4 lg:px-6 py-2 lg:py-2.5 rounded-lg lg:rounded-xl text-[10px] lg:text-xs font-black uppercase tracking-widest transition-all ${
+                        groupBy === option.id ? 'bg-white text-brand-700 shadow-sm' : 'text-gray-400 hover:text-gray-600'
+                      }`}
+                    >
+                      <option.icon className="h-3.5 w-3.5" /> {option.label}
+                    </button>
+                  ))}
+                </div>
+                <button onClick={handleExport} disabled={weekEntries.length === 0} title="Export week as CSV" className="p-3 bg-white border border-gray-200 rounded-xl hover:bg-gray-50 transition-colors disabled:opacity-40">
+                  <Download className="h-4 w-4 text-gray-600" />
+                </button>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto custom-scrollbar">
+              <table className="w-full text-left min-w-[860px]">
+                <thead>
+                  <tr className="text-gray-400 border-b border-gray-100">
+                    <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-widest w-[22%]">{groupBy === 'user' ? 'Person' : 'Client'}</th>
+                    {weekDates.map(date => {
+                      const [y, m, d] = date.split('-').map(Number);
+                      const day = new Date(y, m - 1, d);
+                      return (
+                        <th key={date} className={`px-3 py-4 text-[10px] font-bold uppercase tracking-widest text-center ${date === todayStr ? 'text-brand-600' : ''}`}>
+                          {day.toLocaleDateString('en-US', { weekday: 'short' })} <span className="font-mono">{d}</span>
+                        </th>
+                      );
+                    })}
+                    <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-widest text-right">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.key} className="border-b border-gray-50 hover:bg-white/50 transition-colors">
+                      <td className="px-6 py-4 text-sm font-bold text-slate-900 truncate">{row.label}</td>
+                      {row.perDay.map((minutes, i) => (
+                        <td key={i} className={`px-3 py-4 text-center text-xs font-mono font-bold ${minutes ? 'text-slate-700' : 'text-slate-300'}`}>
+                          {minutes ? formatDuration(minutes) : '–'}
+                        </td>
+                      ))}
+                      <td className="px-6 py-4 text-right text-sm font-black text-slate-900 font-mono">{formatDuration(row.total)}</td>
+                    </tr>
+                  ))}
+                  {rows.length === 0 && (
+                    <tr>
+                      <td colSpan={9} className="px-6 py-16 text-center text-sm font-medium text-gray-400">
+                        {isLoading ? 'Loading timesheet...' : 'No time logged this week.'}
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+                {rows.length > 0 && (
+                  <tfoot>
+                    <tr className="bg-slate-950 text-white">
+                      <td className="px-6 py-4 text-[10px] font-black uppercase tracking-widest">Week Total</td>
+                      {dayTotals.map((minutes, i) => (
+                        <td key={i} className="px-3 py-4 text-center text-xs font-mono font-bold">{minutes ? formatDuration(minutes) : '–'}</td>
+                      ))}
+                      <td className="px-6 py-4 text-right text-sm font-black font-mono text-brand-300">{formatDuration(weekTotal)}</td>
+                    </tr>
+                  </tfoot>
+                )}
+              </table>
+            </div>
+          </div>
+
+          {weekEntries.length > 0 && (
+            <div className="bg-white/30 backdrop-blur-2xl rounded-[2rem] lg:rounded-[3rem] border border-white/60 shadow-xl overflow-hidden">
+              <div className="px-6 lg:px-10 py-6 flex items-center gap-3 border-b border-gray-100">
+                <div className="h-2 w-2 rounded-full bg-brand-500" />
+                <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.4em]">Entries ({weekEntries.length})</h3>
+              </div>
+              <div className="divide-y divide-gray-50">
+                {weekEntries.map(entry => (
+                  <div key={entry.id} className="group px-6 lg:px-10 py-4 flex items-center gap-4 hover:bg-white/50 transition-colors">
+                    <div className={`h-9 w-9 rounded-xl flex items-center justify-center shrink-0 ${entry.isManual ? 'bg-amber-50 text-amber-600' : 'bg-brand-50 text-brand-600'}`} title={entry.isManual ? 'Manual entry' : 'Timer'}>
+                      {entry.isManual ? <PenLine className="h-4 w-4" /> : <Timer className="h-4 w-4" />}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-bold text-slate-900 truncate">{entry.taskTitle || `Task #${entry.taskId}`}</p>
+                      <p className="text-[11px] text-slate-400 font-medium truncate">
+                        {formatDate(entry.date)} · {entry.userName} · {entry.companyId ? companyMap[entry.companyId] || `Client #${entry.companyId}` : 'Internal'}
+                        {entry.note && <> · <span className="italic">{entry.note}</span></>}
+                      </p>
+                    </div>
+                    <span className="text-sm font-black font-mono text-slate-900 shrink-0">{formatDuration(entry.durationMinutes)}</span>
+                    {canDelete(entry) && (
+                      <button onClick={() => setDeleteId(entry.id)} className="p-2 text-slate-300 hover:text-rose-500 opacity-0 group-hover:opacity-100 transition-all">
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <TimeEntryModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} onSubmit={handleLogTime} tasks={assignableTasks} companyMap={companyMap} defaultDate={todayStr} />
+      <DeleteConfirmationModal isOpen={!!deleteId} onClose={() => setDeleteId(null)} onConfirm={handleDelete} title="Remove Time Entry" message="This time will no longer count towards the timesheet." />
+    </div>
+  );
+};
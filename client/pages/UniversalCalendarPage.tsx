@@ -2,23 +2,41 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { Navbar } from '../components/layout/Navbar';
 import { Sidebar } from '../components/layout/Sidebar';
-import { tasksApi, meetingsApi, crmApi } from '../services/api';
+import { tasksApi, meetingsApi, crmApi, ConcurrencyConflictError } from '../services/api';
 import { Task, Meeting, CalendarItem } from '../types';
-import { ChevronLeft, ChevronRight, CheckSquare, Video, Clock, Filter, Calendar, Briefcase, X, Plus, AlertCircle, MoreHorizontal, Target, Zap, Layout } from 'lucide-react';
+import { createRecurringSeries, updateRecurringSeries } from '../services/recurringTasks';
+import { createRecurringMeetingSeries, updateRecurringMeetingSeries } from '../services/recurringMeetings';
+import { logTaskChanges } from '../services/taskActivity';
+import { ChevronLeft, ChevronRight, CheckSquare, Video, Clock, Filter, Calendar, Briefcase, X, Plus, AlertCircle, AlertTriangle, MoreHorizontal, Target, Zap, Layout } from 'lucide-react';
 import { TaskForm } from '../components/tasks/TaskForm';
 import { MeetingForm } from '../components/meetings/MeetingForm';
 import { DayDetailsModal } from '../components/calendar/DayDetailsModal';
+import { CalendarTimeGrid } from '../components/calendar/CalendarTimeGrid';
 import { useAuth } from '../context/AuthContext';
 import { useToast } from '../context/ToastContext';
+import { useReschedule } from '../hooks/useReschedule';
 import { useLayout } from '../context/LayoutContext';
+import { useAutomation } from '../context/AutomationContext';
+import { useConcurrency } from '../context/ConcurrencyContext';
+import { formatDate, formatDateTime } from '../utils';
+import { getMeetingWallClock, moveMeetingToDate, getConflictingMeetingIds } from '../services/meetingSchedule';
+
+type CalendarView = 'month' | 'week' | 'day';
+
+const toDateStr = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
 
 export const UniversalCalendarPage: React.FC = () => {
-    const { user } = useAuth();
+    const { user, isReadOnly } = useAuth();
     const { showToast } = useToast();
     const { isSidebarCollapsed } = useLayout();
+    const { runAutomations, lastRun } = useAutomation();
+    const { saveWithVersion } = useConcurrency();
     const [items, setItems] = useState<CalendarItem[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [currentDate, setCurrentDate] = useState(new Date());
+    const [view, setView] = useState<CalendarView>('month');
+    const [dragOverDate, setDragOverDate] = useState<string | null>(null);
+    const canReschedule = user?.role !== 'ROLE_CLIENT' && !isReadOnly;
     const [companyMap, setCompanyMap] = useState<Record<number, string>>({});
 
     const [showTasks, setShowTasks] = useState(true);
@@ -64,10 +82,9 @@ export const UniversalCalendarPage: React.FC = () => {
 
             meetingsData.forEach(m => {
                 const mDate = new Date(m.dateTime);
-                const localDateStr = `${mDate.getFullYear()}-${String(mDate.getMonth() + 1).padStart(2, '0')}-${String(mDate.getDate()).padStart(2, '0')}`;
                 allItems.push({
                     id: `meeting-${m.id}`,
-                    dateStr: localDateStr,
+                    dateStr: getMeetingWallClock(m.dateTime).slice(0, 10),
                     sortTime: mDate.getTime(),
                     title: m.title,
                     type: 'meeting',
@@ -87,10 +104,35 @@ export const UniversalCalendarPage: React.FC = () => {
 
     useEffect(() => { fetchData(); }, []);
 
-    const handlePrevMonth = () => setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() - 1, 1));
-    const handleNextMonth = () => setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 1));
+    // A rule may have moved a date or created a task, reload so the grid reflects it
+    useEffect(() => { if (lastRun) fetchData(); }, [lastRun]);
+
+    const shiftPeriod = (direction: 1 | -1) => {
+        const y = currentDate.getFullYear(), m = currentDate.getMonth(), d = currentDate.getDate();
+        if (view === 'month') setCurrentDate(new Date(y, m + direction, 1));
+        else setCurrentDate(new Date(y, m, d + direction * (view === 'week' ? 7 : 1)));
+    };
     const jumpToToday = () => setCurrentDate(new Date());
 
+    // Columns of the time grid: the Sunday-based week around currentDate, or just that day
+    const visibleDays = useMemo(() => {
+        if (view === 'day') return [toDateStr(currentDate)];
+        const weekStart = new Date(currentDate.getFullYear(), currentDate.getMonth(), currentDate.getDate() - currentDate.getDay());
+        return Array.from({ length: 7 }, (_, i) => toDateStr(new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + i)));
+    }, [view, currentDate]);
+
+    const periodLabel = useMemo(() => {
+        if (view === 'month') return currentDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+        if (view === 'day') return currentDate.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+        const [first, last] = [visibleDays[0], visibleDays[6]].map(s => { const [y, m, d] = s.split('-').map(Number); return new Date(y, m - 1, d); });
+        return `${first.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – ${last.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+    }, [view, currentDate, visibleDays]);
+
+    const allMeetings = useMemo(() => items.filter(i => i.type === 'meeting').map(i => i.data as Meeting), [items]);
+    const conflictIds = useMemo(() => getConflictingMeetingIds(allMeetings), [allMeetings]);
+
+    const visibleItems = useMemo(() => items.filter(i => (i.type === 'task' && showTasks) || (i.type === 'meeting' && showMeetings)), [items, showTasks, showMeetings]);
+
     const handleDayClick = (dateStr: string) => {
         // Parse date from YYYY-MM-DD string to ensure correct day in local time
         const [y, m, d] = dateStr.split('-').map(Number);
@@ -114,14 +156,47 @@ export const UniversalCalendarPage: React.FC = () => {
 
     const handleCreateMeetingForDate = (date: Date) => {
         const now = new Date();
-        const dateStr = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
-        const timeStr = `${String(now.getHours()).padStart(2, '0')}:00`;
-        const formatted = `${dateStr}T${timeStr}`;
+        handleCreateMeetingAt(toDateStr(date), `${String(now.getHours()).padStart(2, '0')}:00`);
+    };
+
+    const patchTaskItem = (taskId: number, changes: Partial<Task>) => setItems(prev => prev.map(i => {
+        if (i.type !== 'task' || (i.data as Task).id !== taskId) return i;
+        const data = { ...(i.data as Task), ...changes };
+        return { ...i, dateStr: data.dueDate || i.dateStr, data };
+    }));
 
+    const patchMeetingItem = (meetingId: number, changes: Partial<Meeting>) => setItems(prev => prev.map(i => {
+        if (i.type !== 'meeting' || (i.data as Meeting).id !== meetingId) return i;
+        const data = { ...(i.data as Meeting), ...changes };
+        return { ...i, dateStr: data.dateTime.slice(0, 10), sortTime: new Date(data.dateTime).getTime(), data };
+    }));
+
+    const handleRescheduleTask = useReschedule<Task, 'dueDate'>({
+        entity: 'task', field: 'dueDate', update: tasksApi.update, patch: patchTaskItem, describe: formatDate
+    });
+
+    const handleRescheduleMeeting = useReschedule<Meeting, 'dateTime'>({
+        entity: 'meeting', field: 'dateTime', update: meetingsApi.update, patch: patchMeetingItem, describe: formatDateTime
+    });
+
+    const handleMonthDrop = (e: React.DragEvent, dateStr: string) => {
+        if (!canReschedule) return;
+        e.preventDefault();
+        setDragOverDate(null);
+        const taskId = parseInt(e.dataTransfer.getData("taskId"));
+        const meetingId = parseInt(e.dataTransfer.getData("meetingId"));
+        const item = items.find(i => (i.type === 'task' && (i.data as Task).id === taskId) || (i.type === 'meeting' && (i.data as Meeting).id === meetingId));
+        if (!item || item.dateStr === dateStr) return;
+        if (item.type === 'task') handleRescheduleTask(item.data as Task, dateStr);
+        else handleRescheduleMeeting(item.data as Meeting, moveMeetingToDate((item.data as Meeting).dateTime, dateStr));
+    };
+
+    const handleCreateMeetingAt = (dateStr: string, time: string) => {
         setEditingMeeting({
             title: '',
             status: 'Scheduled',
-            dateTime: formatted
+            dateTime: `${dateStr}T${time}`,
+            durationMinutes: 60
         } as Meeting);
         setIsMeetingModalOpen(true);
     };
@@ -147,14 +222,17 @@ export const UniversalCalendarPage: React.FC = () => {
 
         for (let day = 1; day <= totalDays; day++) {
             const dateStr = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-            const dayItems = items.filter(i => i.dateStr === dateStr && ((i.type === 'task' && showTasks) || (i.type === 'meeting' && showMeetings)));
+            const dayItems = visibleItems.filter(i => i.dateStr === dateStr);
             const isToday = todayStr === dateStr;
 
             cells.push(
                 <div 
                     key={day} 
                     onClick={() => handleDayClick(dateStr)}
-                    className={`border-b border-r border-slate-100/60 min-h-[140px] p-3 hover:bg-white/60 transition-all relative flex flex-col cursor-pointer group active:bg-white/80 ${isToday ? 'bg-indigo-50/10' : 'bg-white/20'}`}
+                    onDragOver={(e) => { if (canReschedule) { e.preventDefault(); setDragOverDate(dateStr); } }}
+                    onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setDragOverDate(null); }}
+                    onDrop={(e) => handleMonthDrop(e, dateStr)}
+                    className={`border-b border-r border-slate-100/60 min-h-[140px] p-3 hover:bg-white/60 transition-all relative flex flex-col cursor-pointer group active:bg-white/80 ${dragOverDate === dateStr ? 'bg-indigo-50/60 ring-2 ring-inset ring-indigo-300' : isToday ? 'bg-indigo-50/10' : 'bg-white/20'}`}
                 >
                     <div className="flex justify-between items-start mb-2">
                         <div className={`text-xs lg:text-sm font-black w-7 h-7 lg:w-8 lg:h-8 flex items-center justify-center rounded-xl transition-all group-hover:scale-110 ${isToday ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-500/30' : 'text-slate-400 group-hover:bg-white group-hover:text-slate-900 group-hover:shadow-sm'}`}>
@@ -167,13 +245,25 @@ export const UniversalCalendarPage: React.FC = () => {
                     
                     <div className="space-y-1.5 flex-1 overflow-hidden">
                         {dayItems.slice(0, 3).map(item => (
-                            <div key={item.id} className={`p-1.5 rounded-lg border text-[9px] font-black uppercase tracking-tight truncate shadow-sm backdrop-blur-sm transition-transform hover:scale-[1.02] flex items-center gap-1.5 ${
+                            <div
+                                key={item.id}
+                                draggable={canReschedule}
+                                onDragStart={(e) => {
+                                    e.dataTransfer.setData(item.type === 'task' ? "taskId" : "meetingId", String((item.data as Task | Meeting).id));
+                                    e.dataTransfer.effectAllowed = "move";
+                                }}
+                                className={`p-1.5 rounded-lg border text-[9px] font-black uppercase tracking-tight truncate shadow-sm backdrop-blur-sm transition-transform hover:scale-[1.02] flex items-center gap-1.5 ${
                                 item.type === 'task' 
                                     ? 'bg-white/80 border-slate-100 text-slate-700' 
-                                    : 'bg-indigo-50/80 border-indigo-100 text-indigo-700'
+                                    : conflictIds.has((item.data as Meeting).id)
+                                        ? 'bg-rose-50/80 border-rose-200 text-rose-700'
+                                        : 'bg-indigo-50/80 border-indigo-100 text-indigo-700'
                             }`}>
                                 <div className={`w-1 h-1 rounded-full ${item.type === 'task' ? 'bg-slate-400' : 'bg-indigo-500'}`} />
                                 <span className="truncate">{item.title}</span>
+                                {item.type === 'meeting' && conflictIds.has((item.data as Meeting).id) && (
+                                    <span className="ml-auto shrink-0" title="Double-booked"><AlertTriangle className="h-2.5 w-2.5" /></span>
+                                )}
                             </div>
                         ))}
                         {dayItems.length > 3 && (
@@ -224,10 +314,22 @@ export const UniversalCalendarPage: React.FC = () => {
                                 </button>
                              </div>
 
+                             <div className="flex items-center gap-1 p-1 bg-white/40 rounded-2xl border border-white/60 shadow-sm w-full sm:w-auto">
+                                {(['month', 'week', 'day'] as CalendarView[]).map(v => (
+                                    <button
+                                        key={v}
+                                        onClick={() => setView(v)}
+                                        className={`flex-1 sm:flex-none px-4 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${view === v ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500 hover:text-slate-900'}`}
+                                    >
+                                        {v}
+                                    </button>
+                                ))}
+                             </div>
+
                              <div className="flex items-center justify-between gap-3 bg-white/40 backdrop-blur-md p-1.5 rounded-2xl border border-white/60 w-full sm:w-auto shadow-sm">
-                                 <button onClick={handlePrevMonth} className="p-3 hover:bg-white hover:text-indigo-600 text-slate-500 rounded-xl transition-all shadow-sm active:scale-90"><ChevronLeft className="h-5 w-5" /></button>
-                                 <button onClick={jumpToToday} className="text-sm font-black text-slate-900 min-w-[120px] text-center hover:text-indigo-600 transition-colors uppercase tracking-tight">{currentDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}</button>
-                                 <button onClick={handleNextMonth} className="p-3 hover:bg-white hover:text-indigo-600 text-slate-500 rounded-xl transition-all shadow-sm active:scale-90"><ChevronRight className="h-5 w-5" /></button>
+                                 <button onClick={() => shiftPeriod(-1)} className="p-3 hover:bg-white hover:text-indigo-600 text-slate-500 rounded-xl transition-all shadow-sm active:scale-90"><ChevronLeft className="h-5 w-5" /></button>
+                                 <button onClick={jumpToToday} className="text-sm font-black text-slate-900 min-w-[120px] text-center hover:text-indigo-600 transition-colors uppercase tracking-tight">{periodLabel}</button>
+                                 <button onClick={() => shiftPeriod(1)} className="p-3 hover:bg-white hover:text-indigo-600 text-slate-500 rounded-xl transition-all shadow-sm active:scale-90"><ChevronRight className="h-5 w-5" /></button>
                              </div>
                         </div>
                     </div>
@@ -235,6 +337,27 @@ export const UniversalCalendarPage: React.FC = () => {
                     <div className="bg-white/40 backdrop-blur-3xl rounded-[2rem] lg:rounded-[3.5rem] border border-white/60 shadow-premium overflow-hidden flex flex-col flex-1 min-h-[600px] lg:min-h-[700px] relative">
                         {/* Wrapper for horizontal scroll on mobile */}
                         <div className="overflow-x-auto custom-scrollbar h-full relative z-10">
+                            {view !== 'month' ? (
+                                isLoading ? (
+                                    <div className="flex flex-col items-center justify-center p-32 gap-6">
+                                        <div className="animate-spin rounded-full h-12 w-12 border-[4px] border-slate-100 border-t-indigo-600" />
+                                        <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em] animate-pulse">Syncing Timeline...</p>
+                                    </div>
+                                ) : (
+                                    <div className={`${view === 'week' ? 'min-w-[800px]' : ''} h-full`}>
+                                        <CalendarTimeGrid
+                                            days={visibleDays}
+                                            items={visibleItems}
+                                            onEditTask={(task) => { setEditingTask(task); setIsTaskModalOpen(true); }}
+                                            onEditMeeting={(meeting) => { setEditingMeeting(meeting); setIsMeetingModalOpen(true); }}
+                                            onCreateAt={handleCreateMeetingAt}
+                                            conflictIds={conflictIds}
+                                            onRescheduleTask={canReschedule ? handleRescheduleTask : undefined}
+                                            onRescheduleMeeting={canReschedule ? handleRescheduleMeeting : undefined}
+                                        />
+                                    </div>
+                                )
+                            ) : (
                             <div className="min-w-[800px] h-full flex flex-col">
                                 <div className="grid grid-cols-7 bg-slate-50/30 border-b border-slate-100/60">
                                     {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map(d => (
@@ -250,6 +373,7 @@ export const UniversalCalendarPage: React.FC = () => {
                                     ) : renderCells()}
                                 </div>
                             </div>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -259,23 +383,45 @@ export const UniversalCalendarPage: React.FC = () => {
             <TaskForm 
                 isOpen={isTaskModalOpen} 
                 onClose={() => setIsTaskModalOpen(false)} 
-                onSubmit={async (data) => {
+                onReverted={() => fetchData()}
+                onSubmit={async (data, scope) => {
                     const auditData = {
                         lastUpdatedBy: user?.name || 'Unknown',
                         lastUpdatedAt: new Date().toISOString()
                     };
                     const finalData = { ...data, ...auditData };
                     try {
-                        if (editingTask && editingTask.id) {
-                            await tasksApi.update(editingTask.id, finalData);
-                            showToast("Task updated", "success");
+                        if (editingTask && editingTask.id && (editingTask.seriesId || data.recurrence)) {
+                            const calendarTasks = items.filter(i => i.type === 'task').map(i => i.data as Task);
+                            const saved = await updateRecurringSeries(editingTask, data, scope || 'future', calendarTasks, auditData);
+                            logTaskChanges(editingTask, data, user);
+                            runAutomations('task', editingTask, saved);
+                            showToast("Series updated", "success");
+                        } else if (editingTask && editingTask.id) {
+                            const taskId = editingTask.id;
+                            const saved = await saveWithVersion('task', editingTask, finalData, (payload, version) => tasksApi.update(taskId, payload, version));
+                            if (saved) {
+                                logTaskChanges(editingTask, saved, user);
+                                runAutomations('task', editingTask, saved);
+                                showToast("Task updated", "success");
+                            } else {
+                                showToast("Your changes were discarded, the newer version was kept.", "info");
+                            }
+                        } else if (data.recurrence) {
+                            await createRecurringSeries(data, auditData);
+                            showToast("Recurring task created", "success");
                         } else {
                             await tasksApi.create(finalData as Task);
                             showToast("Task created", "success");
                         }
                         fetchData();
                     } catch(e) {
-                        showToast("Operation failed", "error");
+                        if (e instanceof ConcurrencyConflictError) {
+                            showToast("Someone else changed this in the meantime, showing their version", "info");
+                            fetchData();
+                        } else {
+                            showToast("Operation failed", "error");
+                        }
                     }
                 }}
                 initialData={editingTask}
@@ -285,26 +431,45 @@ export const UniversalCalendarPage: React.FC = () => {
             <MeetingForm 
                 isOpen={isMeetingModalOpen}
                 onClose={() => setIsMeetingModalOpen(false)}
-                onSubmit={async (data) => {
+                onSubmit={async (data, scope) => {
                     const auditData = {
                         lastUpdatedBy: user?.name || 'Unknown',
                         lastUpdatedAt: new Date().toISOString()
                     };
                     const finalData = { ...data, ...auditData };
                     try {
-                        if (editingMeeting && editingMeeting.id) {
-                            await meetingsApi.update(editingMeeting.id, finalData);
-                            showToast("Meeting updated", "success");
+                        if (editingMeeting && editingMeeting.id && (editingMeeting.seriesId || data.recurrence)) {
+                            const saved = await updateRecurringMeetingSeries(editingMeeting, data, scope || 'future', allMeetings, auditData);
+                            runAutomations('meeting', editingMeeting, saved);
+                            showToast("Series updated", "success");
+                        } else if (editingMeeting && editingMeeting.id) {
+                            const meetingId = editingMeeting.id;
+                            const saved = await saveWithVersion('meeting', editingMeeting, finalData, (payload, version) => meetingsApi.update(meetingId, payload, version));
+                            if (saved) {
+                                runAutomations('meeting', editingMeeting, saved);
+                                showToast("Meeting updated", "success");
+                            } else {
+                                showToast("Your changes were discarded, the newer version was kept.", "info");
+                            }
+                        } else if (data.recurrence) {
+                            await createRecurringMeetingSeries(data, auditData);
+                            showToast("Recurring meeting scheduled", "success");
                         } else {
                             await meetingsApi.create(finalData as Meeting);
                             showToast("Meeting scheduled", "success");
                         }
                         fetchData();
                     } catch(e) {
-                        showToast("Operation failed", "error");
+                        if (e instanceof ConcurrencyConflictError) {
+                            showToast("Someone else changed this in the meantime, showing their version", "info");
+                            fetchData();
+                        } else {
+                            showToast("Operation failed", "error");
+                        }
                     }
                 }}
                 initialData={editingMeeting}
+                existingMeetings={allMeetings}
             />
 
             {selectedDate && (
@@ -1,5 +1,7 @@
-import axios from 'axios';
-import { CRMEntry, Task, Meeting, AuthResponse, User, ForgotPasswordRequest, VerifyOtpRequest, ChangePasswordRequest, UpdatePasswordRequest, ApiResponse, RegisterRequest } from '../types';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { SESSION_KEYS, clearSession, readEffectiveUser, readImpersonation, saveRefreshedTokens } from './session';
+import { userCan } from './permissions';
+import { CRMEntry, Task, TaskComment, TimeEntry, Playbook, AutomationRule, AutomationRunLog, Meeting, Invoice, Permission, PermissionMatrix, ImpersonationLog, AuditEntity, AuditEntry, AuthResponse, TokenRefreshResponse, User, ForgotPasswordRequest, VerifyOtpRequest, ChangePasswordRequest, UpdatePasswordRequest, ApiResponse, RegisterRequest } from '../types';
 
 // ============================================================================
 // ⚙️ API CONFIGURATION
@@ -16,30 +18,114 @@ const api = axios.create({
 
 // Attach JWT token to every request if available
 api.interceptors.request.use((config) => {
-  const token = localStorage.getItem("token");
+  const token = localStorage.getItem(SESSION_KEYS.token);
   if (token) config.headers.Authorization = `Bearer ${token}`;
+
+  // "View as user": the server scopes data to the target and attributes writes to the audit record
+  const impersonation = readImpersonation();
+  if (impersonation) {
+    const method = (config.method || 'get').toLowerCase();
+    const isAuditCall = config.url?.startsWith('/impersonation/');
+    if (!impersonation.allowWrites && method !== 'get' && !isAuditCall) {
+      return Promise.reject(new Error(`Read-only while viewing as ${impersonation.targetUser.name}.`));
+    }
+    if (!isAuditCall) {
+      config.headers['X-Impersonate-User'] = String(impersonation.targetUser.id);
+      if (impersonation.logId) config.headers['X-Impersonation-Id'] = String(impersonation.logId);
+    }
+  }
   return config;
 });
 
-// Response Interceptor to handle Token Expiration (401/403)
+type RetriableRequest = InternalAxiosRequestConfig & { _retried?: boolean };
+
+// One refresh at a time; requests failing meanwhile wait on it and replay with the new token
+let refreshInFlight: Promise<string> | null = null;
+
+const refreshAccessToken = (): Promise<string> => {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      const refreshToken = localStorage.getItem(SESSION_KEYS.refreshToken);
+      if (!refreshToken) throw new Error("No refresh token");
+      // Plain axios so the refresh call never re-enters these interceptors
+      const res = await axios.post<TokenRefreshResponse>(`${API_URL}/auth/refresh`, { refreshToken });
+      saveRefreshedTokens(res.data.token, res.data.refreshToken, res.data.user);
+      window.dispatchEvent(new Event('auth:refreshed'));
+      return res.data.token;
+    })().finally(() => { refreshInFlight = null; });
+  }
+  return refreshInFlight;
+};
+
+const endSession = () => {
+  clearSession();
+  // AuthContext listens for this and signs the user out
+  window.dispatchEvent(new Event('auth:unauthorized'));
+};
+
+// Response Interceptor: the refresh path is only taken when sign-in handed out a refresh token.
+// Without one the session cannot be renewed, and since the server answers an expired token with a
+// 403 as often as a 401, both end the session. With one, the token is refreshed silently and the
+// request replayed; a replay that is refused again is a real permission denial.
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    // Check for Unauthorized (401) or Forbidden (403) which usually means token expired/invalid
-    if (error.response && (error.response.status === 401 || error.response.status === 403)) {
-        // Dispatch a custom event that AuthContext will listen to
-        window.dispatchEvent(new Event('auth:unauthorized'));
+  async (error: AxiosError) => {
+    const request = error.config as RetriableRequest | undefined;
+    const status = error.response?.status;
+    if (!request || (status !== 401 && status !== 403) || request.url?.startsWith('/auth/')) {
+        return Promise.reject(error);
+    }
+
+    if (!localStorage.getItem(SESSION_KEYS.refreshToken)) {
+        endSession();
+        return Promise.reject(error);
+    }
+
+    if (request._retried) return Promise.reject(error);
+    request._retried = true;
+
+    try {
+        // Another tab may have refreshed already, in which case its token is simply reused
+        const sentToken = String(request.headers.Authorization || '').replace('Bearer ', '');
+        const storedToken = localStorage.getItem(SESSION_KEYS.token);
+        const token = storedToken && storedToken !== sentToken ? storedToken : await refreshAccessToken();
+        request.headers.Authorization = `Bearer ${token}`;
+        return api(request);
+    } catch (refreshError) {
+        endSession();
+        return Promise.reject(error);
     }
-    return Promise.reject(error);
   }
 );
 
+/**
+ * Thrown when an update carried a version that is no longer the latest on the server.
+ * `current` is the record as the server has it now.
+ */
+export class ConcurrencyConflictError<T = Record<string, unknown>> extends Error {
+    current: T;
+
+    constructor(message: string, current: T) {
+        super(message);
+        this.name = 'ConcurrencyConflictError';
+        this.current = current;
+    }
+}
+
+// 409 with the server copy attached, anything else is an ordinary failure
+const isVersionConflict = (error: any) => error?.response?.status === 409 && !!error.response.data?.current;
+
+// Updates name the version they were based on, the server answers 409 when it has moved on
+const versionConfig = (version?: string) => version ? { headers: { 'If-Match': version } } : undefined;
+
 // Helper to extract error message from backend response
 const handleApiError = (error: any) => {
+    if (error instanceof ConcurrencyConflictError) throw error;
     if (error.response) {
         // Backend returned an error response (4xx, 5xx)
         console.error("API Error:", error.response.status, error.response.data);
         const message = error.response.data?.message || error.response.data?.error || "Request failed";
+        if (isVersionConflict(error)) throw new ConcurrencyConflictError(message, error.response.data.current);
         throw new Error(message);
     } else if (error.request) {
         // Network error (Backend not reachable)
@@ -76,17 +162,11 @@ const cleanPayload = (data: any): any => {
     return data;
 };
 
-// Helper to check if current user is Admin
-const isAdminUser = (): boolean => {
-    try {
-        const userStr = localStorage.getItem('user');
-        if (!userStr) return false;
-        const user = JSON.parse(userStr);
-        return user.role === 'ROLE_ADMIN' || user.role === 'ROLE_SUPER_ADMIN';
-    } catch (e) {
-        return false;
-    }
-};
+// Incremental reads: only the rows the server changed at or after this timestamp
+const sinceParams = (updatedSince?: string) => updatedSince ? { params: { updatedSince } } : undefined;
+
+// Helper to check a capability of the signed-in (or viewed-as) user outside React
+const storedUserCan = (permission: Permission): boolean => userCan(readEffectiveUser(), permission);
 
 // ============================================================================
 // 🔌 API ENDPOINTS
@@ -117,9 +197,16 @@ export const usersApi = {
 
 // --- CRM API ---
 export const crmApi = {
-  getAll: async (): Promise<{crmList: CRMEntry[]}> => {
+  getAll: async (updatedSince?: string): Promise<{crmList: CRMEntry[]}> => {
     try {
-        const res = await api.get("/crm/all");
+        const res = await api.get("/crm/all", sinceParams(updatedSince));
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  getById: async (id: number): Promise<CRMEntry> => {
+    try {
+        const res = await api.get(`/crm/details/${id}`);
         return res.data;
     } catch (error) { throw handleApiError(error); }
   },
@@ -139,10 +226,10 @@ export const crmApi = {
     } catch (error) { throw handleApiError(error); }
   },
 
-  update: async (id: number, data: Partial<CRMEntry>): Promise<CRMEntry> => {
+  update: async (id: number, data: Partial<CRMEntry>, version?: string): Promise<CRMEntry> => {
      try {
         const payload = cleanPayload(data);
-        const res = await api.put(`/crm/update/${id}`, payload);
+        const res = await api.put(`/crm/update/${id}`, payload, versionConfig(version));
         return res.data;
      } catch (error) { throw handleApiError(error); }
   },
@@ -157,7 +244,7 @@ export const crmApi = {
 // --- COMPANIES API ---
 export const companiesApi = {
   getAll: async (): Promise<CRMEntry[]> => {
-    if (isAdminUser()) {
+    if (storedUserCan('crm.view')) {
         try {
             const res = await api.get("/crm/all");
             const data = res.data.crmList || [];
@@ -192,27 +279,30 @@ export const companiesApi = {
     }
   },
   
-  update: async (id: number, data: Partial<CRMEntry>): Promise<CRMEntry> => {
+  update: async (id: number, data: Partial<CRMEntry>, version?: string): Promise<CRMEntry> => {
      const payload = cleanPayload(data);
-     if (isAdminUser()) {
+     if (storedUserCan('crm.edit')) {
         try {
-            const res = await api.put(`/crm/update/${id}`, payload);
+            const res = await api.put(`/crm/update/${id}`, payload, versionConfig(version));
             return { ...res.data, company: res.data.name || res.data.company };
         } catch (e) {
+             // A stale version is an answer, not an outage, so it must not fall through to another endpoint
+             if (isVersionConflict(e)) throw handleApiError(e);
              console.warn("Admin CRM update failed, falling back to companies endpoint...", e);
         }
      }
 
      try {
-        const res = await api.put(`/companies/update/${id}`, payload);
+        const res = await api.put(`/companies/update/${id}`, payload, versionConfig(version));
         return { ...res.data, company: res.data.name || res.data.company };
      } catch (error: any) { 
+         if (isVersionConflict(error)) throw handleApiError(error);
          console.warn("Primary companies update failed, attempting fallback to CRM...", error.message);
          try {
-            const res = await api.put(`/crm/update/${id}`, payload);
+            const res = await api.put(`/crm/update/${id}`, payload, versionConfig(version));
             return { ...res.data, company: res.data.name || res.data.company };
          } catch (fallbackError) {
-            throw handleApiError(error);
+            throw handleApiError(isVersionConflict(fallbackError) ? fallbackError : error);
          }
      }
   }
@@ -220,16 +310,23 @@ export const companiesApi = {
 
 // --- TASKS API ---
 export const tasksApi = {
-  getAll: async (): Promise<Task[]> => {
+  getAll: async (updatedSince?: string): Promise<Task[]> => {
     try {
-        const res = await api.get("/tasks/all");
+        const res = await api.get("/tasks/all", sinceParams(updatedSince));
         return res.data;
     } catch (error) { throw handleApiError(error); }
   },
 
-  getClientTasks: async (): Promise<Task[]> => {
+  getClientTasks: async (updatedSince?: string): Promise<Task[]> => {
     try {
-        const res = await api.get("/tasks/client-tasks");
+        const res = await api.get("/tasks/client-tasks", sinceParams(updatedSince));
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  getById: async (id: number): Promise<Task> => {
+    try {
+        const res = await api.get(`/tasks/details/${id}`);
         return res.data;
     } catch (error) { throw handleApiError(error); }
   },
@@ -242,10 +339,36 @@ export const tasksApi = {
     } catch (error) { throw handleApiError(error); }
   },
 
-  update: async (id: number, data: Partial<Task>): Promise<Task> => {
+  // Keyed on the automation run that asked for it: repeating it returns the task already made
+  createForAutomation: async (key: string, data: Omit<Task, 'id' | 'createdAt'>): Promise<Task> => {
+    try {
+        const payload = cleanPayload(data);
+        const res = await api.put(`/tasks/automation/${encodeURIComponent(key)}`, payload);
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  // Keyed on (seriesId, occurrenceIndex): repeating it returns the occurrence already there instead of a duplicate
+  createOccurrence: async (data: Omit<Task, 'id' | 'createdAt'> & { seriesId: string; occurrenceIndex: number }): Promise<Task> => {
+    try {
+        const payload = cleanPayload(data);
+        const res = await api.put(`/tasks/series/${encodeURIComponent(data.seriesId)}/occurrences/${data.occurrenceIndex}`, payload);
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  // The server generates the occurrences inside its scheduling horizon and returns the ones it created
+  extendSeries: async (seriesId: string): Promise<Task[]> => {
+    try {
+        const res = await api.post(`/tasks/series/${encodeURIComponent(seriesId)}/extend`);
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  update: async (id: number, data: Partial<Task>, version?: string): Promise<Task> => {
      try {
         const payload = cleanPayload(data);
-        const res = await api.put(`/tasks/update/${id}`, payload);
+        const res = await api.put(`/tasks/update/${id}`, payload, versionConfig(version));
         return res.data;
      } catch (error) { throw handleApiError(error); }
   },
@@ -257,11 +380,233 @@ export const tasksApi = {
   }
 };
 
+// --- TASK COMMENTS API ---
+export const taskCommentsApi = {
+  getByTask: async (taskId: number): Promise<TaskComment[]> => {
+    try {
+        const res = await api.get(`/task-comments/task/${taskId}`);
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  // Client accounts: the server only returns the entries shared with the client
+  getClientVisibleByTask: async (taskId: number): Promise<TaskComment[]> => {
+    try {
+        const res = await api.get(`/task-comments/client/task/${taskId}`);
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  // Comments that @mention the signed-in user
+  getMentions: async (updatedSince?: string): Promise<TaskComment[]> => {
+    try {
+        const res = await api.get("/task-comments/mentions", sinceParams(updatedSince));
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  create: async (data: Omit<TaskComment, 'id' | 'createdAt'>): Promise<TaskComment> => {
+    try {
+        const payload = cleanPayload(data);
+        const res = await api.post("/task-comments/create", payload);
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  delete: async (id: number): Promise<void> => {
+    try {
+        await api.delete(`/task-comments/delete/${id}`);
+    } catch (error) { throw handleApiError(error); }
+  }
+};
+
+// --- TIME ENTRIES API ---
+export const timeEntriesApi = {
+  getAll: async (): Promise<TimeEntry[]> => {
+    try {
+        const res = await api.get("/time-entries/all");
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  create: async (data: Omit<TimeEntry, 'id' | 'createdAt'>): Promise<TimeEntry> => {
+    try {
+        const payload = cleanPayload(data);
+        const res = await api.post("/time-entries/create", payload);
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  delete: async (id: number): Promise<void> => {
+    try {
+        await api.delete(`/time-entries/delete/${id}`);
+    } catch (error) { throw handleApiError(error); }
+  }
+};
+
+// --- PLAYBOOKS API ---
+export const playbooksApi = {
+  getAll: async (): Promise<Playbook[]> => {
+    try {
+        const res = await api.get("/playbooks/all");
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  create: async (data: Omit<Playbook, 'id' | 'createdAt'>): Promise<Playbook> => {
+    try {
+        const payload = cleanPayload(data);
+        const res = await api.post("/playbooks/create", payload);
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  update: async (id: number, data: Partial<Playbook>): Promise<Playbook> => {
+    try {
+        const payload = cleanPayload(data);
+        const res = await api.put(`/playbooks/update/${id}`, payload);
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  delete: async (id: number): Promise<void> => {
+    try {
+        await api.delete(`/playbooks/delete/${id}`);
+    } catch (error) { throw handleApiError(error); }
+  }
+};
+
+// --- PERMISSIONS API ---
+export const permissionsApi = {
+  getMatrix: async (): Promise<PermissionMatrix> => {
+    try {
+        const res = await api.get("/permissions/matrix");
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  updateMatrix: async (data: PermissionMatrix): Promise<PermissionMatrix> => {
+    try {
+        const res = await api.put("/permissions/matrix", data);
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  }
+};
+
+// --- IMPERSONATION API ---
+export const impersonationApi = {
+  getLogs: async (): Promise<ImpersonationLog[]> => {
+    try {
+        const res = await api.get("/impersonation/logs");
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  start: async (data: { targetUserId: number; reason?: string; allowWrites: boolean }): Promise<ImpersonationLog> => {
+    try {
+        const payload = cleanPayload(data);
+        const res = await api.post("/impersonation/start", payload);
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  end: async (id: number): Promise<void> => {
+    try {
+        await api.post(`/impersonation/${id}/end`);
+    } catch (error) { throw handleApiError(error); }
+  }
+};
+
+// --- AUDIT LOG API ---
+export const auditLogApi = {
+  getAll: async (): Promise<AuditEntry[]> => {
+    try {
+        const res = await api.get("/audit-log/all");
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  getForRecord: async (entity: AuditEntity, recordId: number): Promise<AuditEntry[]> => {
+    try {
+        const res = await api.get(`/audit-log/${entity}/${recordId}`);
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  // Sent as is, not through cleanPayload: null and [] are the clears that restore empty fields
+  revert: async (entity: AuditEntity, recordId: number, patch: Record<string, unknown>, version?: string): Promise<Record<string, unknown>> => {
+    try {
+        const res = await api.post(`/audit-log/${entity}/${recordId}/revert`, patch, versionConfig(version));
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  }
+};
+
+// --- AUTOMATION API ---
+export const automationRulesApi = {
+  getAll: async (): Promise<AutomationRule[]> => {
+    try {
+        const res = await api.get("/automation-rules/all");
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  create: async (data: Omit<AutomationRule, 'id' | 'createdAt'>): Promise<AutomationRule> => {
+    try {
+        const payload = cleanPayload(data);
+        const res = await api.post("/automation-rules/create", payload);
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  update: async (id: number, data: Partial<AutomationRule>): Promise<AutomationRule> => {
+    try {
+        const payload = cleanPayload(data);
+        const res = await api.put(`/automation-rules/update/${id}`, payload);
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  delete: async (id: number): Promise<void> => {
+    try {
+        await api.delete(`/automation-rules/delete/${id}`);
+    } catch (error) { throw handleApiError(error); }
+  }
+};
+
+export const automationLogsApi = {
+  getAll: async (updatedSince?: string): Promise<AutomationRunLog[]> => {
+    try {
+        const res = await api.get("/automation-logs/all", sinceParams(updatedSince));
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  // Takes the (ruleId, recordId, triggerKey) slot for one run; false when another run already holds it
+  claim: async (ruleId: number, recordId: number, triggerKey: string): Promise<boolean> => {
+    try {
+        await api.post("/automation-logs/claim", { ruleId, recordId, triggerKey });
+        return true;
+    } catch (error) {
+        if (axios.isAxiosError(error) && error.response?.status === 409) return false;
+        throw handleApiError(error);
+    }
+  },
+
+  create: async (data: Omit<AutomationRunLog, 'id' | 'createdAt'>): Promise<AutomationRunLog> => {
+    try {
+        const payload = cleanPayload(data);
+        const res = await api.post("/automation-logs/create", payload);
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  }
+};
+
 // --- MEETINGS API ---
 export const meetingsApi = {
-  getAll: async (): Promise<Meeting[]> => {
+  getAll: async (updatedSince?: string): Promise<Meeting[]> => {
     try {
-        const res = await api.get("/meetings/all");
+        const res = await api.get("/meetings/all", sinceParams(updatedSince));
         return res.data;
     } catch (error) { throw handleApiError(error); }
   },
@@ -274,10 +619,27 @@ export const meetingsApi = {
     } catch (error) { throw handleApiError(error); }
   },
 
-  update: async (id: number, data: Partial<Meeting>): Promise<Meeting> => {
+  // Keyed on (seriesId, occurrenceIndex): repeating it returns the occurrence already there instead of a duplicate
+  createOccurrence: async (data: Omit<Meeting, 'id' | 'createdAt'> & { seriesId: string; occurrenceIndex: number }): Promise<Meeting> => {
     try {
         const payload = cleanPayload(data);
-        const res = await api.put(`/meetings/update/${id}`, payload);
+        const res = await api.put(`/meetings/series/${encodeURIComponent(data.seriesId)}/occurrences/${data.occurrenceIndex}`, payload);
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  // The server generates the occurrences inside its scheduling horizon and returns the ones it created
+  extendSeries: async (seriesId: string): Promise<Meeting[]> => {
+    try {
+        const res = await api.post(`/meetings/series/${encodeURIComponent(seriesId)}/extend`);
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  update: async (id: number, data: Partial<Meeting>, version?: string): Promise<Meeting> => {
+    try {
+        const payload = cleanPayload(data);
+        const res = await api.put(`/meetings/update/${id}`, payload, versionConfig(version));
         return res.data;
     } catch (error) { throw handleApiError(error); }
   },
@@ -289,6 +651,38 @@ export const meetingsApi = {
   }
 };
 
+// --- INVOICES API ---
+export const invoicesApi = {
+  getAll: async (): Promise<Invoice[]> => {
+    try {
+        const res = await api.get("/invoices/all");
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  create: async (data: Omit<Invoice, 'id' | 'createdAt'>): Promise<Invoice> => {
+    try {
+        const payload = cleanPayload(data);
+        const res = await api.post("/invoices/create", payload);
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  update: async (id: string, data: Partial<Invoice>): Promise<Invoice> => {
+    try {
+        const payload = cleanPayload(data);
+        const res = await api.put(`/invoices/update/${id}`, payload);
+        return res.data;
+    } catch (error) { throw handleApiError(error); }
+  },
+
+  delete: async (id: string): Promise<void> => {
+    try {
+        await api.delete(`/invoices/delete/${id}`);
+    } catch (error) { throw handleApiError(error); }
+  }
+};
+
 // --- AUTH API ---
 export const authApi = {
   login: async (email: string, password: string): Promise<AuthResponse> => {
@@ -338,5 +732,11 @@ export const authApi = {
         const res = await api.post("/auth/update-password", data);
         return res.data;
     } catch (error) { throw handleApiError(error); }
+  },
+
+  logout: async (refreshToken: string): Promise<void> => {
+    try {
+        await api.post("/auth/logout", { refreshToken });
+    } catch (error) { throw handleApiError(error); }
   }
 };
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { buildRevertPatch, formatAuditValue } from './audit';
+
+describe('buildRevertPatch', () => {
+  it('sends only the fields that differ from the target version', () => {
+    const current = { title: 'Launch reel v2', status: 'Done', priority: 'High' };
+    const target = { title: 'Launch reel', status: 'Done', priority: 'High' };
+
+    expect(buildRevertPatch(current, target)).toEqual({ title: 'Launch reel' });
+  });
+
+  it('clears fields the target left empty, with [] for lists and null for the rest', () => {
+    const current = { driveLink: 'https://drive.example/acme', nextFollowUp: '2026-04-01', tags: ['vip'], notes: 'Call back' };
+    const target = { driveLink: '', tags: [], notes: 'Call back' };
+
+    expect(buildRevertPatch(current, target)).toEqual({ driveLink: null, nextFollowUp: null, tags: [] });
+  });
+
+  it('treats empty values as equal so nothing is sent for them', () => {
+    expect(buildRevertPatch({ driveLink: null, tags: [] }, { driveLink: '', tags: undefined })).toEqual({});
+  });
+
+  it('never writes back identity, bookkeeping or series fields', () => {
+    const current = {
+      id: 42, createdAt: '2026-03-02T10:00:00Z', lastUpdatedAt: '2026-03-05T10:00:00Z', lastUpdatedBy: 'ravi@example.com',
+      seriesId: 'series-b', occurrenceIndex: 4, recurrence: { frequency: 'weekly', interval: 2 }, title: 'Weekly sync'
+    };
+    const target = {
+      id: 42, createdAt: '2026-03-01T10:00:00Z', lastUpdatedAt: '2026-03-01T10:00:00Z', lastUpdatedBy: 'asha@example.com',
+      seriesId: 'series-a', occurrenceIndex: 1, recurrence: { frequency: 'weekly', interval: 1 }, title: 'Sync'
+    };
+
+    expect(buildRevertPatch(current, target)).toEqual({ title: 'Sync' });
+  });
+});
+
+describe('formatAuditValue', () => {
+  it('names list items by title or name and falls back to JSON', () => {
+    expect(formatAuditValue([{ title: 'Brief' }, { name: 'Asha' }, { id: 3 }, 'plain'])).toBe('Brief, Asha, {"id":3}, plain');
+  });
+
+  it('lists the filled fields of an object', () => {
+    expect(formatAuditValue({ name: 'Priya', email: '', phone: '555' })).toBe('name: Priya, phone: 555');
+  });
+});
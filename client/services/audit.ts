@@ -0,0 +1,163 @@
+import { AuditEntity, AuditEntry, AuditFieldChange } from '../types';
+import { auditLogApi } from './api';
+
+// ============================================================================
+// 🕰️ AUDIT
+// The server stores a snapshot per change; diffs and reverts are worked out here.
+// ============================================================================
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntity, string> = {
+  crm: 'Deal',
+  task: 'Task',
+  meeting: 'Meeting',
+  user: 'User'
+};
+
+// Bookkeeping fields that change on every save and say nothing on their own
+const IGNORED_FIELDS = ['id', 'createdAt', 'lastUpdatedAt', 'lastUpdatedBy'];
+
+// Never written back by a revert: identity, bookkeeping and the series a recurring item belongs to.
+// The server drops the same fields (AuditService.UNRESTORABLE_FIELDS).
+const UNRESTORABLE_FIELDS = [...IGNORED_FIELDS, 'seriesId', 'occurrenceIndex', 'recurrence', 'googleId', 'tasksCompleted'];
+
+const FIELD_LABELS: Record<AuditEntity, Record<string, string>> = {
+  crm: {
+    company: 'Company', contactName: 'Contact', dealValue: 'Deal Value', status: 'Status', assignedTo: 'Owner',
+    assigneeId: 'Owner ID', nextFollowUp: 'Next Follow-up', lastContact: 'Last Contact', leadSources: 'Lead Sources',
+    driveLink: 'Drive Link', companyImageUrl: 'Logo', referenceId: 'Reference ID', appliedPlaybookIds: 'Onboarding Playbooks'
+  },
+  task: {
+    title: 'Title', status: 'Status', priority: 'Priority', assignedTo: 'Assignee', assigneeId: 'Assignee ID',
+    dueDate: 'Due Date', startDate: 'Start Date', companyId: 'Client', taskType: 'Type', taskLink: 'Asset Link',
+    isVisibleOnMainBoard: 'On Main Board', blockedBy: 'Blocked By'
+  },
+  meeting: {
+    title: 'Title', dateTime: 'Date & Time', status: 'Status', meetingLink: 'Meeting Link', companyId: 'Client',
+    assignedTo: 'Organizer', durationMinutes: 'Duration (min)', minutes: 'Minutes'
+  },
+  user: {
+    name: 'Name', email: 'Email', role: 'Role', avatarUrl: 'Avatar', clientCrmId: 'Linked Client'
+  }
+};
+
+const humanize = (field: string) => field.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase());
+
+export const getFieldLabel = (entity: AuditEntity, field: string) => FIELD_LABELS[entity][field] || humanize(field);
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+export const isSameValue = (a: unknown, b: unknown) => (isEmpty(a) && isEmpty(b)) || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Field-level differences between two versions of a record.
+ */
+export const diffSnapshots = (entity: AuditEntity, before: Record<string, unknown>, after: Record<string, unknown>): AuditFieldChange[] => {
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  return fields
+    .filter(field => !IGNORED_FIELDS.includes(field) && !isSameValue(before[field], after[field]))
+    .map(field => ({ field, label: getFieldLabel(entity, field), from: before[field], to: after[field] }));
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Items in a list are named by their title or name where they have one
+const listItemLabel = (item: unknown): string => {
+  if (!isRecord(item)) return String(item);
+  const name = item.title ?? item.name;
+  return typeof name === 'string' && name ? name : JSON.stringify(item);
+};
+
+export const formatAuditValue = (value: unknown): string => {
+  if (isEmpty(value)) return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.map(listItemLabel).join(', ');
+  if (isRecord(value)) {
+    return Object.entries(value).filter(([, v]) => !isEmpty(v)).map(([k, v]) => `${k}: ${formatAuditValue(v)}`).join(', ') || '—';
+  }
+  return String(value);
+};
+
+export interface AuditVersion {
+  entry: AuditEntry;
+  changes: AuditFieldChange[];
+  isLatest: boolean; // Newest loaded entry for its record, i.e. the current state
+}
+
+export const auditRecordKey = (entry: Pick<AuditEntry, 'entity' | 'recordId'>) => `${entry.entity}:${entry.recordId}`;
+
+/**
+ * Pairs every entry with the previous version of the same record, newest first. Works on a
+ * single record's history as well as the global log.
+ */
+export const buildVersions = (entries: AuditEntry[]): AuditVersion[] => {
+  const sorted = [...entries].sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id - b.id);
+  const previous = new Map<string, Record<string, unknown>>();
+  const latestId = new Map<string, number>();
+
+  const versions = sorted.map(entry => {
+    const key = auditRecordKey(entry);
+    const before = previous.get(key) || {};
+    // Creates list nothing, deletes list nothing, everything else shows what moved
+    const changes = entry.action === 'update' ? diffSnapshots(entry.entity, before, entry.snapshot || {}) : [];
+    if (entry.action !== 'delete') previous.set(key, entry.snapshot || {});
+    latestId.set(key, entry.id);
+    return { entry, changes, isLatest: false };
+  });
+
+  return versions
+    .map(v => ({ ...v, isLatest: latestId.get(auditRecordKey(v.entry)) === v.entry.id }))
+    .reverse();
+};
+
+/**
+ * The fields to send so the record matches the target version again. Fields the target left
+ * empty are sent as an explicit clear, [] for lists and null for everything else.
+ */
+export const buildRevertPatch = (current: Record<string, unknown>, target: Record<string, unknown>): Record<string, unknown> => {
+  const patch: Record<string, unknown> = {};
+  new Set([...Object.keys(current), ...Object.keys(target)]).forEach(field => {
+    if (UNRESTORABLE_FIELDS.includes(field) || isSameValue(current[field], target[field])) return;
+    patch[field] = !isEmpty(target[field]) ? target[field] : Array.isArray(current[field]) ? [] : null;
+  });
+  return patch;
+};
+
+/**
+ * Whether a version can be restored: the record still exists and the version is not already current.
+ */
+export const canRevertVersion = (version: AuditVersion, latest: AuditVersion | undefined) =>
+  !version.isLatest && version.entry.action !== 'delete' && !!latest && latest.entry.action !== 'delete';
+
+export interface RevertResult {
+  patch: Record<string, unknown>;
+  unrestored: string[]; // Labels of the fields the saved record still disagrees with the target on
+}
+
+/**
+ * Writes the target version back through the revert endpoint, which applies clears as sent and
+ * records the revert as a new change. The write is based on the current version, so a record
+ * changed since the history was loaded is refused rather than overwritten. The saved record is
+ * checked against the target afterwards.
+ */
+export const revertToVersion = async (target: AuditEntry, current: AuditEntry): Promise<RevertResult> => {
+  const snapshot = target.snapshot || {};
+  const patch = buildRevertPatch(current.snapshot || {}, snapshot);
+  if (Object.keys(patch).length === 0) return { patch, unrestored: [] };
+  const version = typeof current.snapshot?.lastUpdatedAt === 'string' ? current.snapshot.lastUpdatedAt : undefined;
+
+  const saved = await auditLogApi.revert(target.entity, target.recordId, patch, version);
+  const unrestored = isRecord(saved)
+    ? Object.keys(patch).filter(field => !isSameValue(saved[field], snapshot[field])).map(field => getFieldLabel(target.entity, field))
+    : [];
+  return { patch, unrestored };
+};
+
+/**
+ * Latest version of each record in the list, keyed by `${entity}:${recordId}`.
+ */
+export const latestVersions = (versions: AuditVersion[]) => {
+  const map = new Map<string, AuditVersion>();
+  versions.forEach(v => { if (v.isLatest) map.set(auditRecordKey(v.entry), v); });
+  return map;
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { AutomationAction, AutomationRule, CRMEntry, Task, User } from '../types';
+import { AutomationDirectory, planActions } from './automation';
+
+const directory: AutomationDirectory = {
+  users: [{ id: 7, name: 'Asha' }, { id: 9, name: 'Ravi' }] as User[],
+  companies: [{ id: 3, company: 'Acme', assigneeId: 9 }] as CRMEntry[],
+};
+
+const rule = (actions: AutomationAction[]): AutomationRule => ({
+  id: 1, name: 'Follow up', entity: 'task', trigger: { type: 'status_change' }, conditions: [], actions, isEnabled: true, createdAt: '2026-01-01T00:00:00Z',
+});
+
+const task: Partial<Task> = { id: 42, title: 'Launch reel', status: 'In Review', priority: 'Low', dueDate: '2026-03-10', companyId: 3, assigneeId: 7 };
+
+describe('planActions', () => {
+  it('resolves relative dates against the run date and skips values already set', () => {
+    const plan = planActions(rule([
+      { type: 'set_field', field: 'dueDate', value: '+3d' },
+      { type: 'set_field', field: 'priority', value: 'Low' },
+      { type: 'set_field', field: 'title', value: 'Not settable' },
+    ]), task, directory, '2026-03-01');
+
+    expect(plan.patch).toEqual({ dueDate: '2026-03-04' });
+    expect(plan.effects).toEqual(['Set Due Date to 2026-03-04', 'Priority already Low']);
+  });
+
+  it('assigns by the user directory and drafts follow-up tasks from templates', () => {
+    const plan = planActions(rule([
+      { type: 'assign', assigneeId: 9 },
+      { type: 'create_task', title: 'Chase {{company}} on {{title}}', offsetDays: 2, assigneeId: 7 },
+    ]), task, directory, '2026-03-01');
+
+    expect(plan.patch).toEqual({ assigneeId: 9, assignedTo: 'Ravi' });
+    expect(plan.taskDrafts).toHaveLength(1);
+    expect(plan.taskDrafts[0]).toMatchObject({ title: 'Chase Acme on Launch reel', dueDate: '2026-03-03', assignedTo: 'Asha', assigneeId: 7, companyId: 3 });
+  });
+
+  it('notifies each recipient once and reports when there is nobody to notify', () => {
+    const plan = planActions(rule([
+      { type: 'notify', recipient: 'assignee', message: '{{title}} needs review' },
+      { type: 'notify', recipient: 'account_owner' },
+      { type: 'notify', recipient: 'user', assigneeId: 7 },
+    ]), task, directory, '2026-03-01');
+
+    expect(plan.notifyUserIds).toEqual([7, 9]);
+    expect(plan.effects).toEqual(['Notify Asha', 'Notify Ravi', 'Notify Asha']);
+
+    const unassigned = planActions(rule([{ type: 'notify', recipient: 'assignee' }]), { ...task, assigneeId: undefined }, directory, '2026-03-01');
+    expect(unassigned.notifyUserIds).toEqual([]);
+    expect(unassigned.effects).toEqual(['Notify: nobody to notify']);
+  });
+});
@@ -0,0 +1,368 @@
+import { AutomationAction, AutomationCondition, AutomationEntity, AutomationOutcome, AutomationRule, AutomationRunLog, CRMEntry, Meeting, Task, User } from '../types';
+import { automationLogsApi, companiesApi, meetingsApi, tasksApi } from './api';
+import { addDaysToDate } from '../utils';
+
+// ============================================================================
+// ⚙️ AUTOMATION
+// Admin-defined "when / if / then" rules evaluated in the browser, after saves and, for date
+// triggers, in a daily sweep run by the first staff member to open the app that day.
+// ============================================================================
+
+type AutomationRecord = CRMEntry | Task | Meeting;
+
+export type AutomationFieldKind = 'text' | 'status' | 'priority' | 'date' | 'user' | 'number' | 'list';
+
+export interface AutomationField {
+  key: string;
+  label: string;
+  kind: AutomationFieldKind;
+  options?: string[];
+  settable?: boolean; // Offered to the "set field" action
+}
+
+export const AUTOMATION_ENTITY_LABELS: Record<AutomationEntity, string> = {
+  crm: 'Deal',
+  task: 'Task',
+  meeting: 'Meeting'
+};
+
+export const AUTOMATION_FIELDS: Record<AutomationEntity, AutomationField[]> = {
+  crm: [
+    { key: 'status', label: 'Status', kind: 'status', options: ['lead', 'on progress', 'Quote Sent', 'onboarded', 'completed', 'drop'], settable: true },
+    { key: 'nextFollowUp', label: 'Next Follow Up', kind: 'date', settable: true },
+    { key: 'lastContact', label: 'Last Contact', kind: 'date', settable: true },
+    { key: 'assignedTo', label: 'Account Owner', kind: 'user' },
+    { key: 'dealValue', label: 'Deal Value', kind: 'number', settable: true },
+    { key: 'company', label: 'Company', kind: 'text' },
+    { key: 'tags', label: 'Tags', kind: 'list', settable: true },
+    { key: 'work', label: 'Services', kind: 'list' }
+  ],
+  task: [
+    { key: 'status', label: 'Status', kind: 'status', options: ['Not Started', 'In Progress', 'In Review', 'Approved', 'Posted', 'Completed', 'Done', 'Dropped'], settable: true },
+    { key: 'priority', label: 'Priority', kind: 'priority', options: ['Low', 'Medium', 'High'], settable: true },
+    { key: 'dueDate', label: 'Due Date', kind: 'date', settable: true },
+    { key: 'startDate', label: 'Start Date', kind: 'date', settable: true },
+    { key: 'assignedTo', label: 'Assignee', kind: 'user' },
+    { key: 'taskType', label: 'Type', kind: 'status', options: ['General', 'Reel', 'Post', 'Story', 'Carousel', 'Video'] },
+    { key: 'title', label: 'Title', kind: 'text' }
+  ],
+  meeting: [
+    { key: 'status', label: 'Status', kind: 'status', options: ['Scheduled', 'Completed', 'Cancelled', 'Postponed'], settable: true },
+    { key: 'dateTime', label: 'Meeting Date', kind: 'date' },
+    { key: 'assignedTo', label: 'Organizer', kind: 'user' },
+    { key: 'title', label: 'Title', kind: 'text' }
+  ]
+};
+
+export const getAutomationField = (entity: AutomationEntity, key?: string) => AUTOMATION_FIELDS[entity].find(f => f.key === key);
+
+const istToday = () => new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Kolkata' }).format(new Date());
+
+// Every comparison happens on strings; lists are joined and meeting times cut to their date
+const readField = (record: Partial<AutomationRecord> | undefined, key: string): string => {
+  const value = record ? (record as Record<string, unknown>)[key] : undefined;
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (key === 'dateTime') return String(value).slice(0, 10);
+  return String(value);
+};
+
+const splitList = (value?: string) => (value || '').split(',').map(v => v.trim().toLowerCase()).filter(Boolean);
+
+const recordLabel = (entity: AutomationEntity, record: Partial<AutomationRecord>) =>
+  (entity === 'crm' ? (record as CRMEntry).company : (record as Task | Meeting).title) || `#${record.id}`;
+
+const companyIdOf = (entity: AutomationEntity, record: Partial<AutomationRecord>) =>
+  entity === 'crm' ? record.id : (record as Task | Meeting).companyId;
+
+export const matchesConditions = (record: Partial<AutomationRecord>, conditions: AutomationCondition[]) => conditions.every(condition => {
+  const current = readField(record, condition.field).toLowerCase();
+  switch (condition.operator) {
+    case 'is': return splitList(condition.value).includes(current);
+    case 'is_not': return !splitList(condition.value).includes(current);
+    case 'contains': return current.includes((condition.value || '').trim().toLowerCase());
+    case 'is_empty': return !current;
+    case 'is_not_empty': return !!current;
+    default: return false;
+  }
+});
+
+/**
+ * Whether a save fires a status or field change trigger. A missing "before" is a new record,
+ * so a deal created straight into Quote Sent counts as becoming Quote Sent.
+ */
+export const matchesChangeTrigger = (rule: AutomationRule, before: Partial<AutomationRecord> | undefined, after: Partial<AutomationRecord>) => {
+  const { trigger } = rule;
+  if (trigger.type === 'date_reached') return false;
+  const field = trigger.type === 'status_change' ? 'status' : trigger.field;
+  if (!field) return false;
+  const next = readField(after, field);
+  if (readField(before, field) === next) return false;
+  return !trigger.toValue || next.toLowerCase() === trigger.toValue.trim().toLowerCase();
+};
+
+/**
+ * The key a date trigger fires under for this record, or null when the date has not been
+ * reached yet. Moving the date produces a new key, so the rule can fire again.
+ */
+export const dateTriggerKey = (rule: AutomationRule, record: Partial<AutomationRecord>, today = istToday()): string | null => {
+  const { trigger } = rule;
+  if (trigger.type !== 'date_reached' || !trigger.field) return null;
+  const date = readField(record, trigger.field).slice(0, 10);
+  if (!date) return null;
+  return addDaysToDate(date, trigger.offsetDays || 0) <= today ? `${trigger.field}:${date}` : null;
+};
+
+export interface AutomationDirectory {
+  users: User[];
+  companies: CRMEntry[];
+}
+
+interface ActionPlan {
+  effects: string[];
+  patch: Record<string, unknown>;
+  taskDrafts: Omit<Task, 'id' | 'createdAt'>[];
+  notifyUserIds: number[];
+  message?: string;
+}
+
+const fillTemplate = (template: string, entity: AutomationEntity, record: Partial<AutomationRecord>, directory: AutomationDirectory) =>
+  template.replace(/\{\{(\w+)\}\}/g, (_, key: string) => {
+    if (key === 'company' && entity !== 'crm') {
+      const companyId = companyIdOf(entity, record);
+      return directory.companies.find(c => c.id === companyId)?.company || '';
+    }
+    return readField(record, key);
+  });
+
+// "+3d" / "-1d" on a date field is relative to the day the rule runs
+const resolveValue = (entity: AutomationEntity, action: AutomationAction, today: string): unknown => {
+  const field = getAutomationField(entity, action.field);
+  const raw = (action.value || '').trim();
+  const relative = raw.match(/^([+-]\d+)d$/i);
+  if (field?.kind === 'date' && relative) return addDaysToDate(today, parseInt(relative[1]));
+  if (field?.kind === 'number') return Number(raw) || 0;
+  if (field?.kind === 'list') return raw.split(',').map(v => v.trim()).filter(Boolean);
+  return raw;
+};
+
+const resolveRecipients = (action: AutomationAction, entity: AutomationEntity, record: Partial<AutomationRecord>, directory: AutomationDirectory): number[] => {
+  if (action.recipient === 'user') return action.assigneeId ? [action.assigneeId] : [];
+  if (action.recipient === 'account_owner') {
+    const companyId = companyIdOf(entity, record);
+    const owner = entity === 'crm' ? record as CRMEntry : directory.companies.find(c => c.id === companyId);
+    return owner?.assigneeId ? [owner.assigneeId] : [];
+  }
+  const assigneeId = (record as Task).assigneeId;
+  return assigneeId ? [assigneeId] : [];
+};
+
+/**
+ * Works out what a rule would do to a record without touching anything. The same plan
+ * backs the dry-run preview and the real run, so the two can never disagree.
+ */
+export const planActions = (rule: AutomationRule, record: Partial<AutomationRecord>, directory: AutomationDirectory, today = istToday()): ActionPlan => {
+  const plan: ActionPlan = { effects: [], patch: {}, taskDrafts: [], notifyUserIds: [] };
+  const userName = (id?: number) => directory.users.find(u => u.id === id)?.name;
+
+  rule.actions.forEach(action => {
+    switch (action.type) {
+      case 'set_field': {
+        const field = getAutomationField(rule.entity, action.field);
+        if (!field?.settable) break;
+        const value = resolveValue(rule.entity, action, today);
+        if (readField({ [field.key]: value } as Partial<AutomationRecord>, field.key) === readField(record, field.key)) {
+          plan.effects.push(`${field.label} already ${Array.isArray(value) ? value.join(', ') : value}`);
+          break;
+        }
+        plan.patch[field.key] = value;
+        plan.effects.push(`Set ${field.label} to ${Array.isArray(value) ? value.join(', ') : value}`);
+        break;
+      }
+      case 'assign': {
+        const name = action.assignedTo || userName(action.assigneeId);
+        if (!action.assigneeId || !name) break;
+        plan.patch.assigneeId = action.assigneeId;
+        plan.patch.assignedTo = name;
+        plan.effects.push(`Assign to ${name}`);
+        break;
+      }
+      case 'create_task': {
+        const title = fillTemplate(action.title || 'Follow up on {{title}}', rule.entity, record, directory).trim();
+        const dueDate = addDaysToDate(today, action.offsetDays || 0);
+        plan.taskDrafts.push({
+          title,
+          status: 'Not Started',
+          priority: 'Medium',
+          taskType: 'General',
+          assignedTo: action.assignedTo || userName(action.assigneeId) || 'Unassigned',
+          assigneeId: action.assigneeId,
+          dueDate,
+          companyId: companyIdOf(rule.entity, record),
+          isVisibleOnMainBoard: true
+        });
+        plan.effects.push(`Create task "${title}" due ${dueDate}`);
+        break;
+      }
+      case 'notify': {
+        const ids = resolveRecipients(action, rule.entity, record, directory);
+        if (ids.length === 0) {
+          plan.effects.push('Notify: nobody to notify');
+          break;
+        }
+        ids.forEach(id => { if (!plan.notifyUserIds.includes(id)) plan.notifyUserIds.push(id); });
+        plan.message = fillTemplate(action.message || `${rule.name}: {{title}}`, rule.entity, record, directory);
+        plan.effects.push(`Notify ${ids.map(id => userName(id) || `user #${id}`).join(', ')}`);
+        break;
+      }
+    }
+  });
+  return plan;
+};
+
+// Saved against the version the rule evaluated, a record changed since then fails the run instead of being overwritten
+const updateRecord = (entity: AutomationEntity, id: number, patch: Record<string, unknown>, version?: string): Promise<AutomationRecord> => {
+  if (entity === 'crm') return companiesApi.update(id, patch as Partial<CRMEntry>, version);
+  if (entity === 'task') return tasksApi.update(id, patch as Partial<Task>, version);
+  return meetingsApi.update(id, patch as Partial<Meeting>, version);
+};
+
+type RuleResult = { log: AutomationRunLog | null; patch: Record<string, unknown>; createdTasks: Task[] };
+
+/**
+ * Runs one rule against one record and writes the execution log. Failures are logged rather
+ * than thrown so one broken rule never stops the others.
+ * With once, the (ruleId, recordId, triggerKey) slot is claimed through the API first and tasks are
+ * created under that key, so a run that several browsers reach at the same time acts only once.
+ * The rule itself is still evaluated and applied here in the browser.
+ */
+export const executeRule = async (rule: AutomationRule, record: Partial<AutomationRecord>, triggerKey: string, directory: AutomationDirectory, triggeredBy?: string, once = false): Promise<RuleResult> => {
+  const recordId = record.id as number;
+  if (once && !(await automationLogsApi.claim(rule.id, recordId, triggerKey))) return { log: null, patch: {}, createdTasks: [] };
+
+  const plan = planActions(rule, record, directory);
+  const base = { ruleId: rule.id, ruleName: rule.name, entity: rule.entity, recordId, recordLabel: recordLabel(rule.entity, record), triggerKey, triggeredBy };
+  const audit = { lastUpdatedBy: `Automation: ${rule.name}`, lastUpdatedAt: new Date().toISOString() };
+  let createdTasks: Task[] = [];
+  let patch: Record<string, unknown> = {};
+  let entry: Omit<AutomationRunLog, 'id' | 'createdAt'>;
+
+  if (rule.dryRun) {
+    entry = { ...base, effects: plan.effects, status: 'dry_run' };
+  } else {
+    try {
+      if (Object.keys(plan.patch).length > 0) {
+        const saved = await updateRecord(rule.entity, recordId, { ...plan.patch, ...audit }, record.lastUpdatedAt);
+        patch = { ...plan.patch, ...audit, lastUpdatedAt: saved?.lastUpdatedAt || audit.lastUpdatedAt };
+      }
+      createdTasks = await Promise.all(plan.taskDrafts.map((draft, index) => once
+        ? tasksApi.createForAutomation(`${rule.id}|${recordId}|${triggerKey}|${index}`, { ...draft, ...audit })
+        : tasksApi.create({ ...draft, ...audit })));
+      entry = { ...base, effects: plan.effects, status: 'success', notifyUserIds: plan.notifyUserIds, message: plan.message };
+    } catch (e: any) {
+      entry = { ...base, effects: plan.effects, status: 'failed', error: e?.message || 'Unknown error' };
+    }
+  }
+
+  try {
+    const log = await automationLogsApi.create(entry);
+    return { log: { ...entry, ...log }, patch, createdTasks };
+  } catch (e) {
+    console.error('Failed to write automation log', e);
+    return { log: null, patch, createdTasks };
+  }
+};
+
+/**
+ * Evaluates every enabled change rule for the entity after a save. Rules run in order and
+ * each sees the previous rule's changes. Changes made here do not trigger further rules.
+ */
+export const runChangeAutomations = async (rules: AutomationRule[], entity: AutomationEntity, before: Partial<AutomationRecord> | undefined, after: Partial<AutomationRecord>, directory: AutomationDirectory, triggeredBy?: string): Promise<AutomationOutcome | null> => {
+  if (!after.id) return null;
+  const candidates = rules.filter(r => r.isEnabled && r.entity === entity && matchesChangeTrigger(r, before, after));
+  if (candidates.length === 0) return null;
+
+  const outcome: AutomationOutcome = { entity, recordId: after.id, patch: {}, createdTasks: [], logs: [] };
+  let current = { ...after };
+  for (const rule of candidates) {
+    if (!matchesConditions(current, rule.conditions)) continue;
+    const field = rule.trigger.type === 'status_change' ? 'status' : rule.trigger.field as string;
+    const result = await executeRule(rule, current, `${field}:${readField(current, field)}`, directory, triggeredBy);
+    current = { ...current, ...result.patch };
+    outcome.patch = { ...outcome.patch, ...result.patch };
+    outcome.createdTasks.push(...result.createdTasks);
+    if (result.log) outcome.logs.push(result.log);
+  }
+  return outcome.logs.length > 0 || outcome.createdTasks.length > 0 ? outcome : null;
+};
+
+export interface AutomationRecords {
+  crm: CRMEntry[];
+  task: Task[];
+  meeting: Meeting[];
+}
+
+/**
+ * Fires date rules whose date has been reached. This runs in the browser when a staff member opens the
+ * app, so a date rule fires on the first visit on or after its date, not at a fixed time. A rule fires
+ * once per record and date: the log read up front skips what already ran, and the claim settles sweeps
+ * running side by side in several browsers.
+ */
+export const runDateSweep = async (rules: AutomationRule[], records: AutomationRecords, logs: AutomationRunLog[], directory: AutomationDirectory, triggeredBy?: string): Promise<AutomationOutcome[]> => {
+  const fired = new Set(logs.map(l => `${l.ruleId}|${l.recordId}|${l.triggerKey}`));
+  const outcomes: AutomationOutcome[] = [];
+
+  for (const rule of rules.filter(r => r.isEnabled && r.trigger.type === 'date_reached')) {
+    for (const record of records[rule.entity] as Partial<AutomationRecord>[]) {
+      const key = dateTriggerKey(rule, record);
+      if (!key || fired.has(`${rule.id}|${record.id}|${key}`) || !matchesConditions(record, rule.conditions)) continue;
+      const result = await executeRule(rule, record, key, directory, triggeredBy, true);
+      fired.add(`${rule.id}|${record.id}|${key}`);
+      if (!result.log && result.createdTasks.length === 0 && Object.keys(result.patch).length === 0) continue;
+      outcomes.push({ entity: rule.entity, recordId: record.id as number, patch: result.patch, createdTasks: result.createdTasks, logs: result.log ? [result.log] : [] });
+    }
+  }
+  return outcomes;
+};
+
+export interface RulePreview {
+  record: Partial<AutomationRecord>;
+  label: string;
+  effects: string[];
+}
+
+/**
+ * Dry run against live data: which records the rule would act on right now and what it would
+ * do. Change rules are previewed against records already in the target state.
+ */
+export const previewRule = (rule: AutomationRule, records: AutomationRecords, directory: AutomationDirectory): RulePreview[] => {
+  const today = istToday();
+  return (records[rule.entity] as Partial<AutomationRecord>[])
+    .filter(record => {
+      if (rule.trigger.type === 'date_reached') return !!dateTriggerKey(rule, record, today);
+      const field = rule.trigger.type === 'status_change' ? 'status' : rule.trigger.field;
+      if (!field || !rule.trigger.toValue) return true;
+      return readField(record, field).toLowerCase() === rule.trigger.toValue.trim().toLowerCase();
+    })
+    .filter(record => matchesConditions(record, rule.conditions))
+    .map(record => ({ record, label: recordLabel(rule.entity, record), effects: planActions(rule, record, directory, today).effects }));
+};
+
+/**
+ * Plain-language summary for rule cards, e.g. "When Status becomes Quote Sent".
+ */
+export const describeRule = (rule: AutomationRule) => {
+  const label = (key?: string) => getAutomationField(rule.entity, key)?.label || key || '?';
+  const { trigger } = rule;
+  const when = trigger.type === 'date_reached'
+    ? `When ${label(trigger.field)} ${!trigger.offsetDays ? 'is reached' : trigger.offsetDays > 0 ? `passed ${trigger.offsetDays}d ago` : `is ${-trigger.offsetDays}d away`}`
+    : `When ${label(trigger.type === 'status_change' ? 'status' : trigger.field)} ${trigger.toValue ? `becomes ${trigger.toValue}` : 'changes'}`;
+  const conditions = rule.conditions.map(c => `${label(c.field)} ${c.operator.replace(/_/g, ' ')}${c.value ? ` ${c.value}` : ''}`);
+  const actions = rule.actions.map(a => {
+    if (a.type === 'set_field') return `set ${label(a.field)} to ${a.value}`;
+    if (a.type === 'assign') return `assign to ${a.assignedTo || 'someone'}`;
+    if (a.type === 'create_task') return `create "${a.title || 'Follow up on {{title}}'}"`;
+    return `notify ${a.recipient === 'user' ? a.assignedTo || 'someone' : a.recipient === 'account_owner' ? 'account owner' : 'assignee'}`;
+  });
+  return { when, conditions, actions };
+};
@@ -0,0 +1,67 @@
+import { AuditEntity, AuditFieldChange } from '../types';
+import { getFieldLabel, isSameValue } from './audit';
+
+// ============================================================================
+// 🔀 CONCURRENCY
+// Lines up a stale save against the server's newer copy, field by field.
+// ============================================================================
+
+export type VersionedEntity = Exclude<AuditEntity, 'user'>;
+
+export type MergeChoice = 'mine' | 'theirs';
+
+export interface MergeField {
+  field: string;
+  label: string;
+  base: unknown; // As the user loaded it
+  mine: unknown; // As the user saved it
+  theirs: unknown; // As the server has it now
+  isConflict: boolean; // Both sides changed it, to different values
+}
+
+type Snapshot = Record<string, unknown>;
+
+// Every save touches these, so they never count as a change
+const BOOKKEEPING_FIELDS = ['id', 'createdAt', 'lastUpdatedAt', 'lastUpdatedBy'];
+
+const changedFields = (base: Snapshot, next: Snapshot) =>
+  Object.keys(next).filter(field => !BOOKKEEPING_FIELDS.includes(field) && !isSameValue(base[field], next[field]));
+
+/**
+ * True when someone else changed anything since the user loaded the record. A bare version
+ * mismatch with identical data can simply be retried.
+ */
+export const hasServerChanges = (base: Snapshot, theirs: Snapshot) => changedFields(base, theirs).length > 0;
+
+/**
+ * The user's own edits, each with what the server holds for that field now.
+ */
+export const buildMergeFields = (entity: VersionedEntity, base: Snapshot, mine: Snapshot, theirs: Snapshot): MergeField[] =>
+  changedFields(base, mine).map(field => ({
+    field,
+    label: getFieldLabel(entity, field),
+    base: base[field],
+    mine: mine[field],
+    theirs: theirs[field],
+    isConflict: !isSameValue(base[field], theirs[field]) && !isSameValue(mine[field], theirs[field])
+  }));
+
+/**
+ * Edits made on the server to fields the user never touched. These are kept as they are.
+ */
+export const buildServerOnlyChanges = (entity: VersionedEntity, base: Snapshot, mine: Snapshot, theirs: Snapshot): AuditFieldChange[] => {
+  const edited = changedFields(base, mine);
+  return changedFields(base, theirs)
+    .filter(field => !edited.includes(field))
+    .map(field => ({ field, label: getFieldLabel(entity, field), from: base[field], to: theirs[field] }));
+};
+
+// Without a choice the user's value wins, that is what they pressed save for
+export const defaultChoices = (fields: MergeField[]): Record<string, MergeChoice> =>
+  Object.fromEntries(fields.map(f => [f.field, 'mine' as MergeChoice]));
+
+/**
+ * Only the fields where the user kept their own value, so nothing else on the server copy is overwritten.
+ */
+export const resolveMerge = (fields: MergeField[], choices: Record<string, MergeChoice>): Snapshot =>
+  Object.fromEntries(fields.filter(f => choices[f.field] !== 'theirs').map(f => [f.field, f.mine]));
@@ -0,0 +1,21 @@
+import { SocialLinks, SocialPlatform, Task, TaskType } from '../types';
+
+export const CONTENT_TASK_TYPES: TaskType[] = ['Reel', 'Post', 'Story', 'Carousel', 'Video'];
+
+export const isContentTask = (task: Pick<Task, 'taskType'>) => !!task.taskType && CONTENT_TASK_TYPES.includes(task.taskType);
+
+// Planned publish day; falls back to the due date until a slot is picked
+export const getContentPublishDate = (task: Pick<Task, 'content' | 'dueDate'>) => task.content?.publishAt ? task.content.publishAt.slice(0, 10) : task.dueDate;
+
+// Platforms the client actually has a profile on, or every platform when none are recorded
+export const getClientPlatforms = (socials?: SocialLinks): SocialPlatform[] => {
+  const all: SocialPlatform[] = ['instagram', 'linkedin', 'facebook', 'twitter'];
+  const linked = all.filter(platform => !!socials?.[platform]);
+  return linked.length > 0 ? linked : all;
+};
+
+// "#launch, #Diwali2026 offers" -> ['launch', 'Diwali2026', 'offers']
+export const parseHashtags = (text: string): string[] => {
+  const tags = text.split(/[\s,]+/).map(t => t.replace(/^#+/, '').replace(/[^\p{L}\p{N}_]/gu, '')).filter(Boolean);
+  return Array.from(new Set(tags));
+};
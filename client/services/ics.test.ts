@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { buildRRule, foldICSLine } from './ics';
+
+const octets = (text: string) => new TextEncoder().encode(text).length;
+
+describe('foldICSLine', () => {
+  it('leaves lines of up to 75 octets alone', () => {
+    const line = `SUMMARY:${'a'.repeat(67)}`;
+    expect(foldICSLine(line)).toBe(line);
+  });
+
+  it('folds on UTF-8 octets and never splits a character', () => {
+    const line = `SUMMARY:${'é'.repeat(40)}${'😀'.repeat(10)}`;
+    const folded = foldICSLine(line);
+    const lines = folded.split('\r\n');
+
+    expect(lines.length).toBeGreaterThan(1);
+    expect(octets(lines[0])).toBeLessThanOrEqual(75);
+    lines.slice(1).forEach(l => {
+      expect(l.startsWith(' ')).toBe(true);
+      expect(octets(l)).toBeLessThanOrEqual(75);
+    });
+    lines.forEach(l => expect(l).not.toMatch(/[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/));
+    expect(lines.map((l, i) => i ? l.slice(1) : l).join('')).toBe(line);
+  });
+});
+
+describe('buildRRule', () => {
+  it('lists sorted weekdays for weekly rules', () => {
+    expect(buildRRule({ frequency: 'weekly', interval: 2, weekdays: [5, 1], startDate: '2026-03-02' }))
+      .toBe('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR');
+  });
+
+  it('ends at 23:59:59 IST on the until date, in UTC', () => {
+    expect(buildRRule({ frequency: 'daily', interval: 1, startDate: '2026-03-02', until: '2026-03-31' }))
+      .toBe('RRULE:FREQ=DAILY;INTERVAL=1;UNTIL=20260331T182959Z');
+  });
+
+  it('counts only the occurrences left after a restarted schedule', () => {
+    expect(buildRRule({ frequency: 'monthly', interval: 1, startDate: '2026-03-02', startIndex: 4, count: 10 }))
+      .toBe('RRULE:FREQ=MONTHLY;INTERVAL=1;COUNT=6');
+  });
+});
@@ -0,0 +1,96 @@
+import { Meeting, RecurrenceRule } from '../types';
+import { getMeetingEnd, getMeetingWallClock } from './meetingSchedule';
+
+const ICS_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const toICSLocal = (wallClock: string) => `${wallClock.replace(/[-:]/g, '').slice(0, 13)}00`;
+
+const escapeICS = (text: string) => text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const utf8 = new TextEncoder();
+
+// RFC 5545 caps content lines at 75 octets of UTF-8; continuation lines spend one of them on the
+// leading space, and a line is only ever broken between characters
+export const foldICSLine = (line: string) => {
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8.encode(char).length;
+    if (octets + size > (chunks.length ? 74 : 75)) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+};
+
+export const buildRRule = (rule: RecurrenceRule) => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${Math.max(1, rule.interval || 1)}`];
+  if (rule.frequency === 'weekly' && rule.weekdays?.length) parts.push(`BYDAY=${[...rule.weekdays].sort().map(day => ICS_WEEKDAYS[day]).join(',')}`);
+  // UNTIL must be UTC when DTSTART carries a TZID; 23:59:59 IST is 18:29:59Z
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}T182959Z`);
+  // DTSTART is this schedule's start, so only the occurrences still left in the series count
+  else if (rule.count) parts.push(`COUNT=${Math.max(1, rule.count - (rule.startIndex || 0))}`);
+  return `RRULE:${parts.join(';')}`;
+};
+
+/**
+ * Builds an iCalendar file for the given meetings. With asSeries, a recurring meeting is
+ * exported once with its RRULE (anchored at the series start) instead of as a single occurrence.
+ */
+export const buildMeetingICS = (meetings: Meeting[], asSeries = false) => {
+  const stamp = `${new Date().toISOString().replace(/[-:]/g, '').slice(0, 15)}Z`;
+  const lines = [
+    'BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Incial//Meetings//EN', 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH',
+    'BEGIN:VTIMEZONE', 'TZID:Asia/Kolkata',
+    'BEGIN:STANDARD', 'DTSTART:19700101T000000', 'TZOFFSETFROM:+0530', 'TZOFFSETTO:+0530', 'TZNAME:IST', 'END:STANDARD',
+    'END:VTIMEZONE'
+  ];
+
+  meetings.forEach(meeting => {
+    const isSeries = asSeries && !!meeting.recurrence && !!meeting.seriesId;
+    const wallClock = getMeetingWallClock(meeting.dateTime);
+    const start = isSeries ? `${meeting.recurrence!.startDate}T${wallClock.slice(11, 16)}` : wallClock;
+    const description = [meeting.notes, meeting.meetingLink && `Join: ${meeting.meetingLink}`].filter(Boolean).join('\n\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${isSeries ? meeting.seriesId : `meeting-${meeting.id}`}@incial`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;TZID=Asia/Kolkata:${toICSLocal(start)}`,
+      `DTEND;TZID=Asia/Kolkata:${toICSLocal(getMeetingEnd({ dateTime: start, durationMinutes: meeting.durationMinutes }))}`,
+      `SUMMARY:${escapeICS(meeting.title)}`,
+      `STATUS:${meeting.status === 'Cancelled' ? 'CANCELLED' : 'CONFIRMED'}`
+    );
+    if (isSeries) lines.push(buildRRule(meeting.recurrence!));
+    if (description) lines.push(`DESCRIPTION:${escapeICS(description)}`);
+    if (meeting.meetingLink) lines.push(`LOCATION:${escapeICS(meeting.meetingLink)}`);
+    meeting.attendees?.filter(a => a.email).forEach(a => lines.push(`ATTENDEE;CN=${escapeICS(a.name)};ROLE=REQ-PARTICIPANT:mailto:${a.email}`));
+    if (meeting.clientContact?.email) {
+      lines.push(`ATTENDEE;CN=${escapeICS(meeting.clientContact.name)};ROLE=REQ-PARTICIPANT:mailto:${meeting.clientContact.email}`);
+    }
+    lines.push('END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldICSLine).join('\r\n') + '\r\n';
+};
+
+export const downloadMeetingICS = (meetings: Meeting[], filename: string, asSeries = false) => {
+  if (!meetings.length) return;
+  const blob = new Blob([buildMeetingICS(meetings, asSeries)], { type: 'text/calendar;charset=utf-8;' });
+  const link = document.createElement("a");
+  const url = URL.createObjectURL(blob);
+  link.setAttribute("href", url);
+  link.setAttribute("download", filename.endsWith('.ics') ? filename : `${filename}.ics`);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 100);
+};
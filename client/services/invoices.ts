@@ -0,0 +1,27 @@
+import { Invoice, InvoiceItem, InvoiceStatus } from '../types';
+
+// Manual moves allowed from each status; Overdue itself is only ever set by resolveInvoiceStatus
+export const INVOICE_STATUS_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  Draft: ['Pending'],
+  Pending: ['Paid', 'Draft'],
+  Overdue: ['Paid'],
+  Paid: ['Pending'],
+};
+
+export const calculateInvoiceTotals = (items: InvoiceItem[], taxRate: number) => {
+  const round = (n: number) => Math.round(n * 100) / 100;
+  const subtotal = round(items.reduce((sum, item) => sum + (item.quantity || 0) * (item.rate || 0), 0));
+  const tax = round(subtotal * (taxRate || 0) / 100);
+  return { subtotal, tax, total: round(subtotal + tax) };
+};
+
+export const resolveInvoiceStatus = (invoice: Pick<Invoice, 'status' | 'dueDate'>): InvoiceStatus => {
+  const todayIST = new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Kolkata' }).format(new Date());
+  const isPastDue = !!invoice.dueDate && invoice.dueDate < todayIST;
+  if (invoice.status === 'Pending' && isPastDue) return 'Overdue';
+  if (invoice.status === 'Overdue' && !isPastDue) return 'Pending';
+  return invoice.status;
+};
+
+// Overdue is only ever derived for display, so it is stored as the Pending it stands for
+export const storedInvoiceStatus = (status: InvoiceStatus): InvoiceStatus => status === 'Overdue' ? 'Pending' : status;
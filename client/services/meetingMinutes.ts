@@ -0,0 +1,43 @@
+import { Meeting, MeetingMinutes, Task } from '../types';
+import { meetingsApi, tasksApi } from './api';
+import { formatDate } from '../utils';
+import { getMeetingWallClock } from './meetingSchedule';
+
+// ============================================================================
+// 📝 MEETING MINUTES
+// Turns the action items recorded in a meeting's minutes into real tasks.
+// ============================================================================
+
+type Audit = Pick<Meeting, 'lastUpdatedBy' | 'lastUpdatedAt'>;
+
+/**
+ * Creates a task for every action item that has not been converted yet, then stores the
+ * new task ids on the minutes so running it again never duplicates work.
+ */
+export const convertActionItemsToTasks = async (meeting: Meeting, minutes: MeetingMinutes, audit: Audit): Promise<{ minutes: MeetingMinutes; tasks: Task[] }> => {
+  const meetingDate = getMeetingWallClock(meeting.dateTime).slice(0, 10);
+  const pending = minutes.actionItems.filter(item => !item.taskId && item.title.trim());
+
+  const created = await Promise.all(pending.map(item => tasksApi.create({
+    title: item.title.trim(),
+    description: `Action item from "${meeting.title}" on ${formatDate(meetingDate)}.`,
+    status: 'Not Started',
+    priority: 'Medium',
+    assignedTo: item.assignedTo || 'Unassigned',
+    assigneeId: item.assigneeId,
+    dueDate: item.dueDate || meetingDate,
+    companyId: meeting.companyId,
+    sourceMeetingId: meeting.id,
+    ...audit
+  })));
+
+  const taskIds: Record<string, number> = {};
+  pending.forEach((item, index) => { taskIds[item.id] = created[index].id; });
+  const updated: MeetingMinutes = {
+    ...minutes,
+    actionItems: minutes.actionItems.map(item => taskIds[item.id] ? { ...item, taskId: taskIds[item.id] } : item)
+  };
+
+  await meetingsApi.update(meeting.id, { minutes: updated, ...audit }, meeting.lastUpdatedAt);
+  return { minutes: updated, tasks: created };
+};
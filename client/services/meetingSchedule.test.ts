@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Meeting } from '../types';
+import { suggestFreeSlots } from './meetingSchedule';
+
+const meeting = (id: number, dateTime: string, overrides: Partial<Meeting> = {}): Meeting => ({
+  id, title: `Meeting ${id}`, dateTime, status: 'Scheduled', assigneeId: 1, durationMinutes: 60, createdAt: '2030-01-01T00:00:00Z', ...overrides,
+});
+
+describe('suggestFreeSlots', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2030-06-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('offers the closest free starts on either side, skipping meetings that do not block', () => {
+    const candidate = { dateTime: '2030-06-10T10:00', durationMinutes: 60, assigneeId: 1, status: 'Scheduled' as const };
+    const meetings = [
+      meeting(1, '2030-06-10T10:00'),
+      meeting(2, '2030-06-10T11:00', { status: 'Cancelled' }),
+      meeting(3, '2030-06-10T11:00', { assigneeId: 2 }),
+    ];
+
+    expect(suggestFreeSlots(candidate, meetings)).toEqual(['2030-06-10T11:00', '2030-06-10T09:00', '2030-06-10T11:15']);
+  });
+
+  it('keeps the whole meeting inside working hours', () => {
+    const candidate = { dateTime: '2030-06-10T18:30', durationMinutes: 60, assigneeId: 1, status: 'Scheduled' as const };
+
+    expect(suggestFreeSlots(candidate, [meeting(1, '2030-06-10T18:30')])).toEqual(['2030-06-10T17:30', '2030-06-10T17:15', '2030-06-10T17:00']);
+  });
+
+  it('never suggests a start in the past', () => {
+    vi.setSystemTime(new Date('2030-06-10T04:50:00Z')); // 10:20 IST
+    const candidate = { dateTime: '2030-06-10T10:00', durationMinutes: 60, assigneeId: 1, status: 'Scheduled' as const };
+
+    expect(suggestFreeSlots(candidate, [meeting(1, '2030-06-10T10:00')])).toEqual(['2030-06-10T11:00', '2030-06-10T11:15', '2030-06-10T11:30']);
+  });
+});
@@ -0,0 +1,102 @@
+import { Meeting } from '../types';
+import { toISODate } from '../utils';
+
+// Meetings store an IST wall-clock 'YYYY-MM-DDTHH:mm'; older records may carry a zone suffix
+export const getMeetingWallClock = (dateTime: string) => {
+  if (!/(Z|[+-]\d{2}:?\d{2})$/.test(dateTime)) return dateTime.slice(0, 16);
+  const parts = new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Kolkata', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).formatToParts(new Date(dateTime));
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '00';
+  return `${get('year')}-${get('month')}-${get('day')}T${get('hour')}:${get('minute')}`;
+};
+
+export const getMeetingEnd = (meeting: Pick<Meeting, 'dateTime' | 'durationMinutes'>) => {
+  const [date, time] = getMeetingWallClock(meeting.dateTime).split('T');
+  const [y, m, d] = date.split('-').map(Number);
+  const [h, min] = (time || '00:00').split(':').map(Number);
+  const end = new Date(y, m - 1, d, h, min + (meeting.durationMinutes || 60));
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${toISODate(end)}T${pad(end.getHours())}:${pad(end.getMinutes())}`;
+};
+
+// Moves a meeting to another day, keeping its time unless a new one is given
+export const moveMeetingToDate = (dateTime: string, dateStr: string, time?: string) => {
+  return `${dateStr}T${time || getMeetingWallClock(dateTime).slice(11, 16)}`;
+};
+
+// Identity keys for everyone in a meeting; names cover legacy records that only stored assignedTo
+const getMeetingParticipantKeys = (meeting: Partial<Meeting>) => {
+  const keys = new Set<string>();
+  if (meeting.assigneeId) keys.add(`id:${meeting.assigneeId}`);
+  if (meeting.assignedTo && meeting.assignedTo !== 'Unassigned') keys.add(`name:${meeting.assignedTo.toLowerCase()}`);
+  meeting.attendees?.forEach(a => {
+    keys.add(`id:${a.userId}`);
+    keys.add(`name:${a.name.toLowerCase()}`);
+  });
+  return keys;
+};
+
+const getMeetingRange = (meeting: Pick<Meeting, 'dateTime' | 'durationMinutes'>) => {
+  const start = new Date(getMeetingWallClock(meeting.dateTime)).getTime();
+  return { start, end: start + (meeting.durationMinutes || 60) * 60000 };
+};
+
+const blocksCalendar = (meeting: Partial<Meeting>) => meeting.status !== 'Cancelled' && meeting.status !== 'Completed';
+
+/**
+ * Meetings that share a participant with the candidate and overlap it in time.
+ */
+export const findMeetingConflicts = (candidate: Partial<Meeting>, meetings: Meeting[]): Meeting[] => {
+  if (!candidate.dateTime || !blocksCalendar(candidate)) return [];
+  const keys = getMeetingParticipantKeys(candidate);
+  if (keys.size === 0) return [];
+  const range = getMeetingRange(candidate as Meeting);
+  return meetings.filter(m => {
+    if (m.id === candidate.id || !blocksCalendar(m)) return false;
+    const other = getMeetingRange(m);
+    if (other.start >= range.end || other.end <= range.start) return false;
+    return Array.from(getMeetingParticipantKeys(m)).some(key => keys.has(key));
+  });
+};
+
+// Every meeting that double-books someone, for overlap markers on calendar views
+export const getConflictingMeetingIds = (meetings: Meeting[]) => {
+  const ids = new Set<number>();
+  meetings.forEach(m => {
+    if (ids.has(m.id)) return;
+    const clashes = findMeetingConflicts(m, meetings);
+    if (clashes.length) {
+      ids.add(m.id);
+      clashes.forEach(c => ids.add(c.id));
+    }
+  });
+  return ids;
+};
+
+const WORKDAY_START_MINUTES = 9 * 60;
+const WORKDAY_END_MINUTES = 19 * 60;
+
+/**
+ * Closest conflict-free start times to the candidate's, in 15 minute steps within working hours,
+ * looking up to a week either side and never in the past.
+ */
+export const suggestFreeSlots = (candidate: Partial<Meeting>, meetings: Meeting[], limit = 3): string[] => {
+  if (!candidate.dateTime) return [];
+  const duration = candidate.durationMinutes || 60;
+  const origin = new Date(getMeetingWallClock(candidate.dateTime));
+  const nowWallClock = getMeetingWallClock(new Date().toISOString());
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  const slots: string[] = [];
+
+  for (let step = 1; step <= 7 * 24 * 4 && slots.length < limit; step++) {
+    for (const direction of [1, -1]) {
+      const date = new Date(origin.getTime() + direction * step * 15 * 60000);
+      const minutes = date.getHours() * 60 + date.getMinutes();
+      if (minutes < WORKDAY_START_MINUTES || minutes + duration > WORKDAY_END_MINUTES) continue;
+      const wallClock = `${toISODate(date)}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+      if (wallClock < nowWallClock) continue;
+      if (findMeetingConflicts({ ...candidate, dateTime: wallClock }, meetings).length === 0) slots.push(wallClock);
+      if (slots.length >= limit) break;
+    }
+  }
+  return slots;
+};
@@ -0,0 +1,96 @@
+import { Permission, PermissionMatrix, User, UserRole } from '../types';
+
+// ============================================================================
+// 🛡️ PERMISSIONS
+// Role-to-capability matrix. The server stores and enforces it; super admins edit it and
+// everyone else reads it to decide what to show.
+// ============================================================================
+
+export interface PermissionMeta {
+  key: Permission;
+  label: string;
+  description: string;
+  group: string;
+}
+
+export const PERMISSIONS: PermissionMeta[] = [
+  { key: 'workspace.view', label: 'Team workspace', description: 'Open the dashboard, tasks, meetings and client trackers.', group: 'Access' },
+  { key: 'portal.view', label: 'Client portal', description: 'Open the portal for the linked deal.', group: 'Access' },
+  { key: 'crm.view', label: 'View pipeline', description: 'Open the CRM pipeline and deal details.', group: 'Pipeline' },
+  { key: 'crm.edit', label: 'Edit deals', description: 'Create, import and update deals, statuses and retainers.', group: 'Pipeline' },
+  { key: 'crm.delete', label: 'Delete deals', description: 'Remove deals from the pipeline.', group: 'Pipeline' },
+  { key: 'invoices.manage', label: 'Billing', description: 'Create and manage invoices.', group: 'Pipeline' },
+  { key: 'task.delete', label: 'Delete tasks', description: 'Remove tasks from boards and client trackers.', group: 'Delivery' },
+  { key: 'time.manage', label: 'Team timesheets', description: "See and remove everyone's time entries.", group: 'Delivery' },
+  { key: 'automations.manage', label: 'Automations', description: 'Create and edit workflow rules.', group: 'Delivery' },
+  { key: 'analytics.view', label: 'Reports', description: 'Open reports and team performance.', group: 'Insights' },
+  { key: 'analytics.export', label: 'Export data', description: 'Download CSV exports from reports.', group: 'Insights' },
+  { key: 'users.manage', label: 'Manage users', description: 'Invite users and change their roles.', group: 'Administration' },
+  { key: 'users.impersonate', label: 'View as user', description: 'See the app as another user sees it, read-only unless changes are allowed.', group: 'Administration' },
+  { key: 'audit.view', label: 'Audit log', description: 'Open the system-wide change history.', group: 'Administration' },
+  { key: 'audit.revert', label: 'Revert changes', description: 'Restore a record to an earlier version.', group: 'Administration' },
+  { key: 'permissions.manage', label: 'Manage permissions', description: 'Edit this matrix.', group: 'Administration' }
+];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  ROLE_SUPER_ADMIN: 'Super Admin',
+  ROLE_ADMIN: 'Admin',
+  ROLE_EMPLOYEE: 'Employee',
+  ROLE_CLIENT: 'Client'
+};
+
+// Matches the access the app had before the matrix existed
+export const DEFAULT_PERMISSION_MATRIX: PermissionMatrix = {
+  ROLE_SUPER_ADMIN: PERMISSIONS.map(p => p.key).filter(p => p !== 'portal.view'),
+  ROLE_ADMIN: ['workspace.view', 'crm.view', 'crm.edit', 'crm.delete', 'invoices.manage', 'task.delete', 'time.manage', 'automations.manage'],
+  ROLE_EMPLOYEE: ['workspace.view', 'task.delete'],
+  ROLE_CLIENT: ['portal.view']
+};
+
+const STAFF_ONLY: Permission[] = ['users.manage', 'users.impersonate', 'permissions.manage'];
+const STAFF_CEILING = PERMISSIONS.map(p => p.key).filter(p => p !== 'portal.view' && !STAFF_ONLY.includes(p));
+
+// The most each role can be granted, mirrored by PermissionService on the server, which drops anything
+// beyond it. User changes, view-as and this matrix stay with super admins, and clients only ever reach
+// their own deal through the portal.
+export const GRANTABLE_PERMISSIONS: PermissionMatrix = {
+  ROLE_SUPER_ADMIN: PERMISSIONS.map(p => p.key).filter(p => p !== 'portal.view'),
+  ROLE_ADMIN: STAFF_CEILING,
+  ROLE_EMPLOYEE: STAFF_CEILING,
+  ROLE_CLIENT: ['portal.view']
+};
+
+export const isGrantablePermission = (role: UserRole, permission: Permission) =>
+  GRANTABLE_PERMISSIONS[role].includes(permission);
+
+/**
+ * Super admins always keep the workspace and the ability to edit the matrix, so a bad save can
+ * never lock everybody out of it.
+ */
+export const isLockedPermission = (role: UserRole, permission: Permission) =>
+  role === 'ROLE_SUPER_ADMIN' && (permission === 'permissions.manage' || permission === 'workspace.view');
+
+export const normalizeMatrix = (matrix?: Partial<PermissionMatrix> | null): PermissionMatrix => {
+  const result = { ...DEFAULT_PERMISSION_MATRIX };
+  (Object.keys(result) as UserRole[]).forEach(role => {
+    const granted = matrix?.[role];
+    if (Array.isArray(granted)) result[role] = granted.filter(p => isGrantablePermission(role, p));
+  });
+  const locked = PERMISSIONS.map(p => p.key).filter(p => isLockedPermission('ROLE_SUPER_ADMIN', p) && !result.ROLE_SUPER_ADMIN.includes(p));
+  if (locked.length) result.ROLE_SUPER_ADMIN = [...result.ROLE_SUPER_ADMIN, ...locked];
+  return result;
+};
+
+// The server's matrix as last loaded this session, for checks made outside React. It is only ever
+// a hint for what to show: every request is checked against the server's own copy.
+let loadedMatrix: PermissionMatrix = DEFAULT_PERMISSION_MATRIX;
+
+export const setLoadedMatrix = (matrix: PermissionMatrix) => {
+  loadedMatrix = matrix;
+};
+
+export const roleCan = (matrix: PermissionMatrix, role: UserRole | undefined, permission: Permission) =>
+  !!role && matrix[role]?.includes(permission);
+
+export const userCan = (user: Pick<User, 'role'> | null | undefined, permission: Permission, matrix: PermissionMatrix = loadedMatrix) =>
+  roleCan(matrix, user?.role, permission);
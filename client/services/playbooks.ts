@@ -0,0 +1,94 @@
+import { CRMEntry, Playbook, Task } from '../types';
+import { ConcurrencyConflictError, crmApi, playbooksApi, tasksApi } from './api';
+import { addDaysToDate } from '../utils';
+
+// ============================================================================
+// 📋 PLAYBOOKS
+// Named bundles of task templates stamped onto a client in one go.
+// ============================================================================
+
+type Audit = Pick<Task, 'lastUpdatedBy' | 'lastUpdatedAt'>;
+
+/**
+ * Creates one task per template, due relative to the start date. Dependencies between
+ * templates are linked in a second pass once every task has a real id.
+ */
+export const applyPlaybook = async (playbook: Playbook, companyId: number, startDate: string, audit: Audit): Promise<Task[]> => {
+  const created = await Promise.all(playbook.tasks.map(template => tasksApi.create({
+    title: template.title,
+    description: template.description,
+    taskType: template.taskType || 'General',
+    priority: template.priority,
+    status: 'Not Started',
+    assignedTo: template.assignedTo || 'Unassigned',
+    assigneeId: template.assigneeId,
+    dueDate: addDaysToDate(startDate, template.offsetDays),
+    companyId,
+    isVisibleOnMainBoard: true,
+    sourcePlaybookId: playbook.id,
+    ...audit
+  })));
+
+  const taskIds: Record<string, number> = {};
+  playbook.tasks.forEach((template, index) => { taskIds[template.key] = created[index].id; });
+
+  return Promise.all(created.map(async (task, index) => {
+    const blockedBy = (playbook.tasks[index].blockedBy || []).map(key => taskIds[key]).filter(Boolean);
+    if (blockedBy.length === 0) return task;
+    const saved = await tasksApi.update(task.id, { blockedBy, ...audit }, task.lastUpdatedAt);
+    return { ...task, blockedBy, ...(saved || {}) };
+  }));
+};
+
+// A claim that keeps losing to other saves gives up rather than spinning
+const MAX_CLAIM_ATTEMPTS = 3;
+
+/**
+ * Records the playbooks as applied on the company before any task exists. The write carries the
+ * company's version, so when two runs race only one claim lands; the other sees them already taken.
+ */
+const claimPlaybooks = async (companyId: number, playbooks: Playbook[], legacy: Task[], audit: Audit): Promise<Playbook[]> => {
+  let company: CRMEntry = await crmApi.getById(companyId);
+  for (let attempt = 1; ; attempt++) {
+    const applied = company.appliedPlaybookIds || [];
+    // Companies onboarded before claims existed are recognised by the tasks the playbook left behind
+    const pending = playbooks.filter(p => !applied.includes(p.id) && !legacy.some(t => t.companyId === companyId && t.sourcePlaybookId === p.id));
+    if (pending.length === 0) return [];
+    try {
+      await crmApi.update(companyId, { appliedPlaybookIds: [...applied, ...pending.map(p => p.id)], ...audit }, company.lastUpdatedAt);
+      return pending;
+    } catch (e) {
+      if (!(e instanceof ConcurrencyConflictError) || attempt >= MAX_CLAIM_ATTEMPTS) throw e;
+      company = e.current as CRMEntry;
+    }
+  }
+};
+
+/**
+ * Applies every playbook flagged to run on onboarding. A playbook already claimed for this
+ * company is skipped, so toggling the status back and forth, or two people onboarding at once, is harmless.
+ */
+export const runOnboardingPlaybooks = async (companyId: number, audit: Audit): Promise<{ playbooks: Playbook[]; tasks: Task[] }> => {
+  const playbooks = (await playbooksApi.getAll()).filter(p => p.runOnOnboard && p.tasks.length > 0);
+  if (playbooks.length === 0) return { playbooks: [], tasks: [] };
+
+  const pending = await claimPlaybooks(companyId, playbooks, await tasksApi.getAll(), audit);
+  const today = new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Kolkata' }).format(new Date());
+
+  const tasks: Task[] = [];
+  for (const playbook of pending) {
+    tasks.push(...await applyPlaybook(playbook, companyId, today, audit));
+  }
+  return { playbooks: pending, tasks };
+};
+
+/**
+ * Onboarding kicks off any playbooks flagged to run automatically; a failure never undoes the status change.
+ */
+export const startOnboarding = (companyId: number, actorName: string, notify: (message: string, type: 'info' | 'error') => void) => {
+  runOnboardingPlaybooks(companyId, { lastUpdatedBy: actorName, lastUpdatedAt: new Date().toISOString() })
+    .then(({ playbooks, tasks }) => {
+      if (tasks.length > 0) notify(`${playbooks.map(p => p.name).join(', ')}: ${tasks.length} kickoff tasks created`, 'info');
+    })
+    .catch(() => notify("Onboarding playbooks failed to run", 'error'));
+};
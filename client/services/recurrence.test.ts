@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { listOccurrenceDates } from './recurrence';
+
+describe('listOccurrenceDates', () => {
+  it('steps daily rules by their interval up to the horizon', () => {
+    expect(listOccurrenceDates({ frequency: 'daily', interval: 2, startDate: '2026-03-01' }, '2026-03-07')).toEqual([
+      '2026-03-01', '2026-03-03', '2026-03-05', '2026-03-07',
+    ]);
+  });
+
+  it('lists the picked weekdays of every Nth week, never before the start date', () => {
+    // 2026-03-04 is a Wednesday; the Monday of its week is skipped
+    expect(listOccurrenceDates({ frequency: 'weekly', interval: 2, weekdays: [5, 1], startDate: '2026-03-04' }, '2026-03-31')).toEqual([
+      '2026-03-06', '2026-03-16', '2026-03-20', '2026-03-30',
+    ]);
+  });
+
+  it('repeats weekly rules on the start weekday when none are picked', () => {
+    expect(listOccurrenceDates({ frequency: 'weekly', interval: 1, startDate: '2026-03-04' }, '2026-03-18')).toEqual([
+      '2026-03-04', '2026-03-11', '2026-03-18',
+    ]);
+  });
+
+  it('clamps monthly rules to the last day of shorter months', () => {
+    expect(listOccurrenceDates({ frequency: 'monthly', interval: 1, startDate: '2026-01-31' }, '2026-04-30')).toEqual([
+      '2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30',
+    ]);
+  });
+
+  it('stops at until or count, whichever the rule sets', () => {
+    expect(listOccurrenceDates({ frequency: 'daily', interval: 1, startDate: '2026-03-01', until: '2026-03-03' }, '2026-12-31')).toEqual([
+      '2026-03-01', '2026-03-02', '2026-03-03',
+    ]);
+    expect(listOccurrenceDates({ frequency: 'daily', interval: 1, startDate: '2026-03-01', count: 2 }, '2026-12-31')).toEqual([
+      '2026-03-01', '2026-03-02',
+    ]);
+  });
+});
@@ -0,0 +1,65 @@
+import { RecurrenceRule } from '../types';
+import { formatDate, toISODate } from '../utils';
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Every date the rule produces from its start date up to the horizon, capped by until/count
+export const listOccurrenceDates = (rule: RecurrenceRule, horizon: string): string[] => {
+  const [y, m, d] = rule.startDate.split('-').map(Number);
+  const interval = Math.max(1, rule.interval || 1);
+  const end = rule.until && rule.until < horizon ? rule.until : horizon;
+  const limit = rule.count ? Math.min(rule.count, 500) : 500;
+  const dates: string[] = [];
+
+  const push = (date: Date) => {
+    const iso = toISODate(date);
+    if (iso < rule.startDate || iso > end || dates.length >= limit) return false;
+    dates.push(iso);
+    return true;
+  };
+
+  for (let step = 0; dates.length < limit; step++) {
+    if (rule.frequency === 'daily') {
+      const date = new Date(y, m - 1, d + step * interval);
+      if (toISODate(date) > end) break;
+      push(date);
+    } else if (rule.frequency === 'weekly') {
+      // Walk whole weeks from the start date's Sunday so weekday picks stay aligned
+      const weekStart = new Date(y, m - 1, d - new Date(y, m - 1, d).getDay() + step * 7 * interval);
+      if (toISODate(weekStart) > end) break;
+      const weekdays = rule.weekdays?.length ? [...rule.weekdays].sort() : [new Date(y, m - 1, d).getDay()];
+      weekdays.forEach(day => push(new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + day)));
+    } else {
+      // Clamp to the month's last day so the 31st still lands in shorter months
+      const target = new Date(y, m - 1 + step * interval, 1);
+      const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+      const date = new Date(target.getFullYear(), target.getMonth(), Math.min(d, lastDay));
+      if (toISODate(date) > end) break;
+      push(date);
+    }
+  }
+  return dates;
+};
+
+export const describeRecurrence = (rule?: RecurrenceRule) => {
+  if (!rule) return '';
+  const interval = Math.max(1, rule.interval || 1);
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[rule.frequency];
+  let text = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+  if (rule.frequency === 'weekly' && rule.weekdays?.length) {
+    text += ` on ${[...rule.weekdays].sort().map(day => WEEKDAY_LABELS[day]).join(', ')}`;
+  }
+  if (rule.until) text += ` until ${formatDate(rule.until)}`;
+  else if (rule.count) text += `, ${rule.count} times`;
+  return text;
+};
+
+export const isSameRecurrence = (a?: RecurrenceRule, b?: RecurrenceRule) => {
+  if (!a || !b) return a === b;
+  return a.frequency === b.frequency
+    && (a.interval || 1) === (b.interval || 1)
+    && [...(a.weekdays || [])].sort().join() === [...(b.weekdays || [])].sort().join()
+    && a.startDate === b.startDate
+    && (a.until || '') === (b.until || '')
+    && (a.count || 0) === (b.count || 0);
+};
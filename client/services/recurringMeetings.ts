@@ -0,0 +1,21 @@
+import { Meeting } from '../types';
+import { meetingsApi } from './api';
+import { getMeetingWallClock } from './meetingSchedule';
+import { createSeriesService } from './recurringSeries';
+
+// ============================================================================
+// 🔁 RECURRING MEETING SERIES
+// Same rolling-horizon model as recurring tasks; every occurrence keeps the time of day.
+// ============================================================================
+
+const meetingSeries = createSeriesService<Meeting>({
+  api: meetingsApi,
+  sharedFields: ['title', 'meetingLink', 'assignedTo', 'assigneeId', 'companyId', 'durationMinutes', 'attendees', 'clientContact'],
+  dateOf: meeting => meeting.dateTime ? getMeetingWallClock(meeting.dateTime).slice(0, 10) : '',
+  isOpen: meeting => meeting.status === 'Scheduled' || meeting.status === 'Postponed',
+  isMoved: (original, data) => !!data.dateTime && getMeetingWallClock(data.dateTime) !== getMeetingWallClock(original.dateTime)
+});
+
+export const createRecurringMeetingSeries = meetingSeries.create;
+export const updateRecurringMeetingSeries = meetingSeries.update;
+export const extendRecurringMeetingSeries = meetingSeries.extend;
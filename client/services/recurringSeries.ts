@@ -0,0 +1,118 @@
+import { RecurrenceRule, RecurrenceScope } from '../types';
+import { isSameRecurrence } from './recurrence';
+
+// ============================================================================
+// 🔁 RECURRING SERIES
+// Occurrences are real records the server creates ahead of time up to a rolling horizon.
+// ============================================================================
+
+export interface SeriesRecord {
+  id: number;
+  recurrence?: RecurrenceRule;
+  seriesId?: string;
+  occurrenceIndex?: number;
+  lastUpdatedBy?: string;
+  lastUpdatedAt?: string;
+}
+
+type Audit = Pick<SeriesRecord, 'lastUpdatedBy' | 'lastUpdatedAt'>;
+
+export type OccurrenceDraft<T> = Omit<T, 'id' | 'createdAt'> & { seriesId: string; occurrenceIndex: number };
+
+export interface SeriesConfig<T extends SeriesRecord> {
+  api: {
+    // Keyed on (seriesId, occurrenceIndex), so the same slot is never created twice
+    createOccurrence: (draft: OccurrenceDraft<T>) => Promise<T>;
+    // Generates the occurrences that have come inside the horizon and resolves with the ones it created
+    extendSeries: (seriesId: string) => Promise<T[]>;
+    update: (id: number, data: Partial<T>, version?: string) => Promise<T>; // Refused with a conflict once someone else has saved
+    delete: (id: number) => Promise<void>;
+  };
+  sharedFields: readonly (keyof T)[]; // Fields an edit to "this & future" carries over to the later occurrences
+  dateOf: (record: Partial<T>) => string; // YYYY-MM-DD the occurrence falls on, '' when unset
+  isOpen: (record: T) => boolean;
+  isMoved: (original: T, data: Partial<T>) => boolean; // Whether an edit moves the occurrence in time
+}
+
+const newSeriesId = () => `series-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * Series operations for one kind of record. Tasks and meetings share the model and differ only
+ * in their api and in which field holds a record's date.
+ */
+export const createSeriesService = <T extends SeriesRecord>({ api, sharedFields, dateOf, isOpen, isMoved }: SeriesConfig<T>) => {
+  const pickShared = (source: Partial<T>) => {
+    const shared: Partial<T> = {};
+    sharedFields.forEach(key => { if (source[key] !== undefined) shared[key] = source[key]; });
+    return shared;
+  };
+
+  /**
+   * Creates the first occurrence on its chosen date and has the server schedule the rest inside the horizon.
+   */
+  const create = async (data: Partial<T>, audit: Audit): Promise<T[]> => {
+    const rule: RecurrenceRule = { ...data.recurrence!, startDate: dateOf(data), startIndex: 0 };
+    const seriesId = newSeriesId();
+
+    const first = await api.createOccurrence({ ...data, recurrence: rule, seriesId, occurrenceIndex: 0, ...audit } as unknown as OccurrenceDraft<T>);
+    const rest = await api.extendSeries(seriesId);
+    return [first, ...rest];
+  };
+
+  /**
+   * Applies an edit to one occurrence or to it and every open occurrence after it, and resolves with
+   * the edited occurrence as saved.
+   * Changing the schedule (or moving it, for "future") restarts the series from the edited occurrence,
+   * which keeps its place in the series so the occurrence count still runs from the first one.
+   * Every write names the version it was based on, and the edited occurrence is saved first, so a series
+   * someone else has since edited is left as they saved it.
+   */
+  const update = async (original: T, data: Partial<T>, scope: RecurrenceScope, all: T[], audit: Audit): Promise<T> => {
+    if (scope === 'this' && original.seriesId) {
+      return api.update(original.id, { ...data, recurrence: original.recurrence, occurrenceIndex: original.occurrenceIndex, ...audit }, original.lastUpdatedAt);
+    }
+
+    const seriesId = original.seriesId || newSeriesId();
+    const anchorIndex = original.seriesId ? original.occurrenceIndex ?? 0 : 0;
+    const date = dateOf(data) || dateOf(original);
+    const future = original.seriesId
+      ? all.filter(r => r.seriesId === seriesId && r.id !== original.id && dateOf(r) >= dateOf(original) && isOpen(r))
+      : [];
+
+    // Turning recurrence off ends the series at this occurrence
+    if (!data.recurrence) {
+      const ended: RecurrenceRule = { ...original.recurrence!, startDate: date, startIndex: anchorIndex, until: date, count: undefined };
+      const saved = await api.update(original.id, { ...data, recurrence: ended, seriesId, occurrenceIndex: anchorIndex, ...audit }, original.lastUpdatedAt);
+      await Promise.all(future.map(r => api.delete(r.id)));
+      return saved;
+    }
+
+    const rule: RecurrenceRule = { ...data.recurrence, startDate: date, startIndex: anchorIndex };
+    const isReschedule = !original.recurrence || isMoved(original, data)
+      || !isSameRecurrence(rule, { ...original.recurrence, startDate: date });
+
+    if (isReschedule) {
+      const saved = await api.update(original.id, { ...data, recurrence: rule, seriesId, occurrenceIndex: anchorIndex, ...audit }, original.lastUpdatedAt);
+      await Promise.all(future.map(r => api.delete(r.id)));
+      await api.extendSeries(seriesId);
+      return saved;
+    }
+
+    const saved = await api.update(original.id, { ...data, recurrence: original.recurrence, ...audit }, original.lastUpdatedAt);
+    await Promise.all(future.map(r => api.update(r.id, { ...pickShared(data), ...audit }, r.lastUpdatedAt)));
+    return saved;
+  };
+
+  /**
+   * Tops up every series with the occurrences that have come inside the horizon since it was last extended.
+   * Safe to run from several places at once: the server creates each slot by its (seriesId, occurrenceIndex) key.
+   */
+  const extend = async (records: T[]): Promise<T[]> => {
+    const seriesIds = [...new Set(records.filter(r => r.seriesId && r.recurrence).map(r => r.seriesId!))];
+    if (seriesIds.length === 0) return [];
+    const results = await Promise.allSettled(seriesIds.map(seriesId => api.extendSeries(seriesId)));
+    return results.flatMap(r => r.status === 'fulfilled' ? r.value : []);
+  };
+
+  return { create, update, extend };
+};
@@ -0,0 +1,20 @@
+import { Task } from '../types';
+import { tasksApi } from './api';
+import { createSeriesService } from './recurringSeries';
+
+// ============================================================================
+// 🔁 RECURRING TASK SERIES
+// Every occurrence is due on a scheduled date and starts from scratch.
+// ============================================================================
+
+const taskSeries = createSeriesService<Task>({
+  api: tasksApi,
+  sharedFields: ['title', 'description', 'priority', 'taskType', 'assignedTo', 'assigneeId', 'taskLink', 'companyId', 'isVisibleOnMainBoard'],
+  dateOf: task => task.dueDate || '',
+  isOpen: task => !['Completed', 'Done', 'Dropped', 'Posted'].includes(task.status),
+  isMoved: (original, data) => !!data.dueDate && data.dueDate !== original.dueDate
+});
+
+export const createRecurringSeries = taskSeries.create;
+export const updateRecurringSeries = taskSeries.update;
+export const extendRecurringSeries = taskSeries.extend;
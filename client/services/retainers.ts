@@ -0,0 +1,35 @@
+import { RetainerBudget, RetainerHealth, RetainerUsageLine, Task, TaskType, TimeEntry } from '../types';
+
+/**
+ * Month-to-date consumption of a client's retainer. Hours come from logged time, deliverables from
+ * tasks of each quota'd type due that month; dropped tasks never count.
+ */
+export const getRetainerUsage = (retainer: RetainerBudget | undefined, tasks: Task[], entries: TimeEntry[], month: string) => {
+  const lines: RetainerUsageLine[] = [];
+  const percentOf = (used: number, budget: number) => budget > 0 ? Math.round((used / budget) * 100) : 0;
+
+  if (retainer?.monthlyHours) {
+    const minutes = entries.filter(e => e.date.startsWith(month)).reduce((sum, e) => sum + e.durationMinutes, 0);
+    const used = Math.round((minutes / 60) * 10) / 10;
+    lines.push({ key: 'hours', used, budget: retainer.monthlyHours, percent: percentOf(used, retainer.monthlyHours) });
+  }
+
+  Object.entries(retainer?.deliverables || {}).forEach(([type, quota]) => {
+    if (!quota) return;
+    const scheduled = tasks.filter(t => (t.taskType || 'General') === type && (t.dueDate || '').startsWith(month) && t.status !== 'Dropped');
+    const done = scheduled.filter(t => ['Completed', 'Done', 'Posted'].includes(t.status)).length;
+    lines.push({ key: type as TaskType, used: scheduled.length, done, budget: quota, percent: percentOf(scheduled.length, quota) });
+  });
+
+  const peak = lines.reduce((max, line) => Math.max(max, line.percent), 0);
+  const health: RetainerHealth = lines.length === 0 ? 'none' : peak > 100 ? 'over' : peak >= (retainer?.warnAtPercent || 80) ? 'near' : 'ok';
+  return { lines, peak, health };
+};
+
+// Share of the month already behind us, the "ideal" burn line for a retainer
+export const getMonthElapsedPercent = (month: string, today: string) => {
+  if (today.slice(0, 7) !== month) return today > month ? 100 : 0;
+  const [y, m] = month.split('-').map(Number);
+  const daysInMonth = new Date(y, m, 0).getDate();
+  return Math.round((Number(today.slice(8, 10)) / daysInMonth) * 100);
+};
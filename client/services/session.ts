@@ -0,0 +1,95 @@
+import { ImpersonationSession, User } from '../types';
+
+// ============================================================================
+// 🔐 SESSION
+// Token storage shared by the axios client and AuthContext. Every write goes
+// through localStorage, so other open tabs pick it up via the storage event.
+// ============================================================================
+
+export const SESSION_KEYS = {
+  token: 'token',
+  refreshToken: 'refreshToken',
+  user: 'user',
+  lastActivity: 'lastActivityAt',
+  impersonation: 'impersonation'
+} as const;
+
+// Signed out after this long without input in any tab
+export const IDLE_TIMEOUT_MS = 2 * 60 * 60 * 1000;
+
+// Activity is persisted at most this often, other tabs get a storage event on every write
+const ACTIVITY_WRITE_INTERVAL_MS = 30 * 1000;
+
+export type SessionEndReason = 'idle' | 'expired' | 'signed_out';
+
+export const readStoredUser = (): User | null => {
+  try {
+    const raw = localStorage.getItem(SESSION_KEYS.user);
+    return raw ? JSON.parse(raw) : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const readImpersonation = (): ImpersonationSession | null => {
+  try {
+    const raw = localStorage.getItem(SESSION_KEYS.impersonation);
+    const session: ImpersonationSession | null = raw ? JSON.parse(raw) : null;
+    // Only honoured for the admin who started it, a different sign-in in another tab drops it
+    return session && session.impersonatorId === readStoredUser()?.id ? session : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const saveImpersonation = (session: ImpersonationSession | null) => {
+  if (session) localStorage.setItem(SESSION_KEYS.impersonation, JSON.stringify(session));
+  else localStorage.removeItem(SESSION_KEYS.impersonation);
+};
+
+// The user the app renders for, which is the impersonated one while "view as" is active
+export const readEffectiveUser = (): User | null => readImpersonation()?.targetUser || readStoredUser();
+
+export const saveSession = (token: string, user: User, refreshToken?: string) => {
+  localStorage.setItem(SESSION_KEYS.token, token);
+  localStorage.setItem(SESSION_KEYS.user, JSON.stringify(user));
+  if (refreshToken) localStorage.setItem(SESSION_KEYS.refreshToken, refreshToken);
+  localStorage.setItem(SESSION_KEYS.lastActivity, String(Date.now()));
+  localStorage.removeItem(SESSION_KEYS.impersonation);
+};
+
+/**
+ * Stores a refreshed token pair. The user is only rewritten when the server sent a changed
+ * profile, e.g. after a role change, so idle tabs are not re-rendered on every refresh.
+ */
+export const saveRefreshedTokens = (token: string, refreshToken?: string, user?: User) => {
+  localStorage.setItem(SESSION_KEYS.token, token);
+  if (refreshToken) localStorage.setItem(SESSION_KEYS.refreshToken, refreshToken);
+  if (user && JSON.stringify(user) !== localStorage.getItem(SESSION_KEYS.user)) {
+    localStorage.setItem(SESSION_KEYS.user, JSON.stringify(user));
+  }
+};
+
+export const clearSession = () => {
+  Object.values(SESSION_KEYS).forEach(key => localStorage.removeItem(key));
+  // Left behind by the old fixed three hour limit
+  localStorage.removeItem('loginTimestamp');
+};
+
+export const recordActivity = () => {
+  const last = getLastActivity();
+  if (Date.now() - last < ACTIVITY_WRITE_INTERVAL_MS) return;
+  localStorage.setItem(SESSION_KEYS.lastActivity, String(Date.now()));
+};
+
+export const getLastActivity = () => parseInt(localStorage.getItem(SESSION_KEYS.lastActivity) || '0', 10) || 0;
+
+export const isSessionIdle = () => {
+  const last = getLastActivity();
+  // Sessions from before idle tracking have no timestamp; start counting now instead of ending them
+  if (!last) {
+    localStorage.setItem(SESSION_KEYS.lastActivity, String(Date.now()));
+    return false;
+  }
+  return Date.now() - last > IDLE_TIMEOUT_MS;
+};
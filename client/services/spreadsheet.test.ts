@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { parseCSV } from './spreadsheet';
+
+describe('parseCSV', () => {
+  it('splits rows and fields', () => {
+    expect(parseCSV('Name,Email\nAcme,hello@acme.com')).toEqual([
+      ['Name', 'Email'],
+      ['Acme', 'hello@acme.com'],
+    ]);
+  });
+
+  it('keeps commas and line breaks inside quoted fields', () => {
+    expect(parseCSV('Company,Notes\n"Acme, Inc.","Line one\nLine two"')).toEqual([
+      ['Company', 'Notes'],
+      ['Acme, Inc.', 'Line one\nLine two'],
+    ]);
+  });
+
+  it('unescapes doubled quotes', () => {
+    expect(parseCSV('"She said ""hi"""')).toEqual([['She said "hi"']]);
+  });
+
+  it('handles CRLF line endings and a byte order mark', () => {
+    expect(parseCSV('\uFEFFa,b\r\nc,d\r\n')).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+    ]);
+  });
+
+  it('drops blank rows but keeps empty cells', () => {
+    expect(parseCSV('a,,c\n\n , \nd,e,')).toEqual([
+      ['a', '', 'c'],
+      ['d', 'e', ''],
+    ]);
+  });
+});
@@ -0,0 +1,59 @@
+import { readSheet } from 'read-excel-file/browser';
+
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+// Cell values as the import wizard maps them: dates as YYYY-MM-DD, everything else as text
+const cellToText = (cell: unknown): string => {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) return isNaN(cell.getTime()) ? '' : cell.toISOString().slice(0, 10);
+  if (typeof cell === 'boolean') return cell ? 'TRUE' : 'FALSE';
+  return String(cell);
+};
+
+// The first worksheet of an .xlsx workbook
+const readXLSX = async (file: File): Promise<string[][]> => {
+  const rows = await readSheet(file);
+  return rows
+    .map(row => row.map(cellToText))
+    .filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+export const readSpreadsheet = async (file: File): Promise<string[][]> => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.xlsx')) return readXLSX(file);
+  if (name.endsWith('.csv') || name.endsWith('.txt')) return parseCSV(await file.text());
+  throw new Error("Unsupported file type. Upload a .csv or .xlsx file.");
+};
@@ -0,0 +1,42 @@
+import { Task, TaskComment, User } from '../types';
+import { taskCommentsApi } from './api';
+
+// ============================================================================
+// 🧾 TASK ACTIVITY
+// System events written next to comments whenever tracked fields change.
+// ============================================================================
+
+type Actor = Pick<User, 'id' | 'name'> | null | undefined;
+
+const describeChanges = (before: Task, after: Partial<Task>) => {
+  const events: Pick<TaskComment, 'kind' | 'body' | 'isClientVisible'>[] = [];
+  if (after.status && after.status !== before.status) {
+    events.push({ kind: 'status', body: `moved this from ${before.status} to ${after.status}`, isClientVisible: true });
+  }
+  if (after.assignedTo && after.assignedTo !== before.assignedTo) {
+    events.push({ kind: 'assignee', body: `reassigned this from ${before.assignedTo || 'Unassigned'} to ${after.assignedTo}`, isClientVisible: false });
+  }
+  if (after.priority && after.priority !== before.priority) {
+    events.push({ kind: 'priority', body: `changed priority from ${before.priority} to ${after.priority}`, isClientVisible: false });
+  }
+  return events;
+};
+
+/**
+ * Best effort: a failed activity write never blocks the task update it describes.
+ */
+export const logTaskChanges = async (before: Task | undefined, after: Partial<Task>, actor: Actor): Promise<void> => {
+  if (!before) return;
+  const events = describeChanges(before, after);
+  if (events.length === 0) return;
+  try {
+    await Promise.all(events.map(event => taskCommentsApi.create({
+      ...event,
+      taskId: before.id,
+      authorId: actor?.id,
+      authorName: actor?.name || 'Unknown',
+    })));
+  } catch (e) {
+    console.error('Failed to record task activity', e);
+  }
+};
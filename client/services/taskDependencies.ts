@@ -0,0 +1,36 @@
+import { DependencyConflict, Task } from '../types';
+import { isTaskDone } from '../utils';
+
+// Tasks the given one is waiting on; ids of deleted tasks are skipped
+export const getBlockers = (task: Pick<Task, 'blockedBy'>, tasks: Task[]) => (task.blockedBy || []).map(id => tasks.find(t => t.id === id)).filter((t): t is Task => !!t);
+
+export const getBlockedTasks = (taskId: number, tasks: Task[]) => tasks.filter(t => t.blockedBy?.includes(taskId));
+
+// True when blockerId already depends on taskId, directly or through a chain
+export const wouldCreateDependencyCycle = (taskId: number, blockerId: number, tasks: Task[]) => {
+  if (taskId === blockerId) return true;
+  const seen = new Set<number>();
+  const stack = [blockerId];
+  while (stack.length) {
+    const current = tasks.find(t => t.id === stack.pop());
+    if (!current || seen.has(current.id)) continue;
+    seen.add(current.id);
+    for (const id of current.blockedBy || []) {
+      if (id === taskId) return true;
+      stack.push(id);
+    }
+  }
+  return false;
+};
+
+// Dependencies that cannot hold as scheduled: the task is due before its blocker
+export const getDependencyConflicts = (tasks: Task[]): DependencyConflict[] => {
+  const conflicts: DependencyConflict[] = [];
+  tasks.forEach(task => {
+    if (!task.dueDate || task.status === 'Dropped') return;
+    getBlockers(task, tasks).forEach(blocker => {
+      if (blocker.dueDate && blocker.status !== 'Dropped' && !isTaskDone(blocker) && task.dueDate < blocker.dueDate) conflicts.push({ task, blocker });
+    });
+  });
+  return conflicts;
+};
@@ -3,6 +3,21 @@ export type CRMStatus = 'onboarded' | 'drop' | 'on progress' | 'Quote Sent' | 'l
 
 export type UserRole = 'ROLE_SUPER_ADMIN' | 'ROLE_ADMIN' | 'ROLE_EMPLOYEE' | 'ROLE_CLIENT';
 
+export type Permission =
+  | 'workspace.view' | 'portal.view'
+  | 'crm.view' | 'crm.edit' | 'crm.delete'
+  | 'invoices.manage'
+  | 'task.delete'
+  | 'time.manage' // See and remove everyone's time entries
+  | 'automations.manage'
+  | 'analytics.view' | 'analytics.export'
+  | 'users.manage'
+  | 'users.impersonate'
+  | 'audit.view' | 'audit.revert'
+  | 'permissions.manage';
+
+export type PermissionMatrix = Record<UserRole, Permission[]>;
+
 export interface User {
   id: number;
   name: string;
@@ -19,11 +34,42 @@ export interface User {
 export interface AuthResponse {
   statusCode: number;
   token: string;
+  refreshToken?: string; // Long-lived, exchanged for a new access token when it expires
   role: string;
   user: User;
   message: string;
 }
 
+export interface TokenRefreshResponse {
+  token: string;
+  refreshToken?: string; // Present when the server rotates refresh tokens
+  user?: User; // Current profile, so role changes reach an open session
+}
+
+// Server-side audit record of one "view as user" session
+export interface ImpersonationLog {
+  id: number;
+  impersonatorId: number;
+  impersonatorName: string;
+  targetUserId: number;
+  targetUserName: string;
+  targetRole: UserRole;
+  reason?: string;
+  allowWrites: boolean;
+  startedAt: string;
+  endedAt?: string;
+}
+
+// The active session as stored in the browser
+export interface ImpersonationSession {
+  logId?: number;
+  targetUser: User;
+  impersonatorId: number;
+  reason?: string;
+  allowWrites: boolean; // Read-only unless the admin opted in when starting
+  startedAt: string;
+}
+
 export interface RegisterRequest {
   name: string;
   email: string;
@@ -89,6 +135,24 @@ export interface CRMEntry {
   lastUpdatedBy?: string;
   lastUpdatedAt?: string;
   referenceId?: string; 
+  retainer?: RetainerBudget;
+  appliedPlaybookIds?: number[]; // Onboarding playbooks already run for this company, claimed before their tasks are created
+}
+
+export interface RetainerBudget {
+  monthlyHours?: number;
+  deliverables?: Partial<Record<TaskType, number>>; // Monthly quota per task type, e.g. 8 Reels + 12 Posts
+  warnAtPercent?: number; // Usage that counts as "near budget", defaults to 80
+}
+
+export type RetainerHealth = 'none' | 'ok' | 'near' | 'over';
+
+export interface RetainerUsageLine {
+  key: 'hours' | TaskType;
+  used: number; // Hours for the time line, scheduled deliverables otherwise
+  done?: number; // Deliverables already completed or posted
+  budget: number;
+  percent: number;
 }
 
 export interface FilterState {
@@ -105,7 +169,7 @@ export interface CompanyFilterState {
   workType: string;
 }
 
-export type TaskStatus = 'Not Started' | 'In Progress' | 'In Review' | 'Posted' | 'Completed' | 'Dropped' | 'Done';
+export type TaskStatus = 'Not Started' | 'In Progress' | 'In Review' | 'Approved' | 'Posted' | 'Completed' | 'Dropped' | 'Done';
 export type TaskPriority = 'Low' | 'Medium' | 'High';
 export type TaskType = 'General' | 'Reel' | 'Post' | 'Story' | 'Carousel' | 'Video';
 
@@ -120,14 +184,231 @@ export interface Task {
   assignedTo: string; 
   assigneeId?: number; // Linked User ID
   dueDate: string; 
+  startDate?: string; // Work window start for the timeline; a task without one is a single-day bar on dueDate
   attachments?: string[]; 
   taskLink?: string; 
   createdAt: string;
   lastUpdatedBy?: string;
   lastUpdatedAt?: string;
   isVisibleOnMainBoard?: boolean; 
+  recurrence?: RecurrenceRule; // Present on every occurrence of a recurring series
+  seriesId?: string; // Shared by all occurrences generated from the same rule
+  occurrenceIndex?: number; // Position in the rule's schedule, counted from recurrence.startDate
+  subtasks?: Subtask[];
+  approvedBy?: string; // Client sign-off on an In Review deliverable
+  approvedAt?: string;
+  revisionCount?: number; // Times the client sent the deliverable back
+  sourceMeetingId?: number; // Set when the task was created from a meeting's action items
+  sourcePlaybookId?: number; // Set when the task was created by applying a playbook
+  content?: ContentDetails; // Publishing plan for Reel / Post / Story / Carousel / Video tasks
+  blockedBy?: number[]; // Tasks that must finish first; the reverse "blocking" links are derived
+}
+
+export type SocialPlatform = 'instagram' | 'linkedin' | 'facebook' | 'twitter';
+
+export interface ContentDetails {
+  platform?: SocialPlatform;
+  publishAt?: string; // IST wall-clock 'YYYY-MM-DDTHH:mm', same convention as meetings
+  caption?: string;
+  hashtags?: string[]; // Stored without the leading '#'
+}
+
+export interface PlaybookTaskTemplate {
+  key: string; // Stable within the playbook; 'id' would be stripped from nested payloads
+  title: string;
+  description?: string;
+  taskType?: TaskType;
+  priority: TaskPriority;
+  offsetDays: number; // Due this many days after the playbook's start date
+  assigneeId?: number;
+  assignedTo?: string;
+  blockedBy?: string[]; // Keys of templates in the same playbook
 }
 
+export interface Playbook {
+  id: number;
+  name: string;
+  description?: string;
+  tasks: PlaybookTaskTemplate[];
+  runOnOnboard?: boolean; // Applied automatically when a company moves to 'onboarded'
+  createdAt: string;
+  lastUpdatedBy?: string;
+  lastUpdatedAt?: string;
+}
+
+export type AutomationEntity = 'crm' | 'task' | 'meeting';
+
+export type AutomationTriggerType = 'status_change' | 'field_change' | 'date_reached';
+
+export interface AutomationTrigger {
+  type: AutomationTriggerType;
+  field?: string; // Watched field for field_change, the date field for date_reached
+  toValue?: string; // status_change target; any status change when empty
+  offsetDays?: number; // date_reached fires this many days after the date, negative for before
+}
+
+// 'is' and 'is_not' accept a comma separated list, e.g. "Completed, Done"
+export type AutomationOperator = 'is' | 'is_not' | 'contains' | 'is_empty' | 'is_not_empty';
+
+export interface AutomationCondition {
+  field: string;
+  operator: AutomationOperator;
+  value?: string;
+}
+
+export type AutomationActionType = 'set_field' | 'create_task' | 'assign' | 'notify';
+
+export type AutomationRecipient = 'assignee' | 'account_owner' | 'user';
+
+export interface AutomationAction {
+  type: AutomationActionType;
+  field?: string; // set_field
+  value?: string; // set_field; date fields also take "+3d" relative to the run date
+  title?: string; // create_task; {{field}} placeholders are filled from the record
+  offsetDays?: number; // create_task due date, days after the run date
+  assigneeId?: number; // assign, create_task, or the notified user
+  assignedTo?: string;
+  recipient?: AutomationRecipient; // notify
+  message?: string; // notify; supports the same placeholders as title
+}
+
+export interface AutomationRule {
+  id: number;
+  name: string;
+  entity: AutomationEntity;
+  trigger: AutomationTrigger;
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+  isEnabled: boolean;
+  dryRun?: boolean; // Logs what would happen without touching any record
+  createdAt: string;
+  lastUpdatedBy?: string;
+  lastUpdatedAt?: string;
+}
+
+export type AutomationRunStatus = 'success' | 'failed' | 'dry_run';
+
+export interface AutomationRunLog {
+  id: number;
+  ruleId: number;
+  ruleName: string;
+  entity: AutomationEntity;
+  recordId: number;
+  recordLabel: string;
+  triggerKey: string; // Date triggers fire once per key, e.g. 'dueDate:2026-10-19'
+  effects: string[]; // Human readable, one line per action
+  status: AutomationRunStatus;
+  error?: string;
+  notifyUserIds?: number[];
+  message?: string; // Text of the notify action, shown in the recipient's inbox
+  triggeredBy?: string;
+  createdAt: string;
+}
+
+// What a batch of rule runs changed, so open pages can merge it without refetching
+export interface AutomationOutcome {
+  entity: AutomationEntity;
+  recordId: number;
+  patch: Record<string, unknown>;
+  createdTasks: Task[];
+  logs: AutomationRunLog[];
+}
+
+export type AuditEntity = 'crm' | 'task' | 'meeting' | 'user';
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+// Written by the server on every create, update and delete
+export interface AuditEntry {
+  id: number;
+  entity: AuditEntity;
+  recordId: number;
+  recordLabel?: string; // Deal, task or meeting title at the time of the change
+  action: AuditAction;
+  actorId?: number;
+  actorName: string;
+  impersonationId?: number; // Set when the change was made during a "view as" session
+  snapshot: Record<string, unknown>; // Full record after the change, empty for deletes
+  createdAt: string;
+}
+
+export interface AuditFieldChange {
+  field: string;
+  label: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface DependencyConflict {
+  task: Task;
+  blocker: Task; // Due after the task it blocks
+}
+
+export type ReviewDecision = 'approve' | 'request_changes';
+
+export interface Subtask {
+  id: string;
+  title: string;
+  isDone: boolean;
+  assigneeId?: number;
+  assignedTo?: string;
+  dueDate?: string;
+  completedAt?: string;
+}
+
+export type TaskActivityKind = 'comment' | 'status' | 'assignee' | 'priority';
+
+export interface TaskComment {
+  id: number;
+  taskId: number;
+  kind: TaskActivityKind; // Anything but 'comment' is a system event
+  body: string;
+  authorId?: number;
+  authorName: string;
+  mentions?: number[]; // User IDs tagged with @
+  parentId?: number; // Set on replies, threads are one level deep
+  isClientVisible: boolean;
+  createdAt: string;
+}
+
+export interface TimeEntry {
+  id: number;
+  taskId: number;
+  taskTitle?: string; // Copied at logging time so the timesheet still reads after the task is gone
+  companyId?: number;
+  userId?: number;
+  userName: string;
+  date: string; // YYYY-MM-DD (IST) the time counts towards
+  durationMinutes: number;
+  startedAt?: string; // Only on entries recorded with the timer
+  endedAt?: string;
+  note?: string;
+  isManual: boolean;
+  createdAt: string;
+}
+
+// The timer a user has running, persisted locally until it is stopped and logged
+export interface ActiveTimer {
+  taskId: number;
+  taskTitle: string;
+  companyId?: number;
+  startedAt: string;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every N days / weeks / months
+  weekdays?: number[]; // 0 (Sun) - 6 (Sat), weekly rules only
+  startDate: string; // YYYY-MM-DD of the first occurrence
+  startIndex?: number; // Occurrences the series already had before startDate, set when a schedule is restarted
+  until?: string; // YYYY-MM-DD, inclusive
+  count?: number; // Total occurrences, counted from the series' very first one
+}
+
+export type RecurrenceScope = 'this' | 'future';
+
 export interface TaskFilterState {
   search: string;
   status: string;
@@ -147,11 +428,47 @@ export interface Meeting {
   companyId?: number; 
   assignedTo?: string;
   assigneeId?: number; // Linked User ID
+  durationMinutes?: number; // Defaults to 60 when absent
+  attendees?: MeetingAttendee[]; // Internal participants besides the organizer
+  clientContact?: MeetingClientContact; // Taken from the CRM entry behind companyId
+  recurrence?: RecurrenceRule; // Shared by every occurrence, startDate is the first meeting's date
+  seriesId?: string;
+  occurrenceIndex?: number;
+  minutes?: MeetingMinutes; // Structured notes, recorded once the meeting is completed
   createdAt: string;
   lastUpdatedBy?: string;
   lastUpdatedAt?: string;
 }
 
+export interface MeetingMinutes {
+  present: string[]; // Names of the people who actually attended
+  decisions: string[];
+  actionItems: MeetingActionItem[];
+  recordedBy?: string;
+  recordedAt?: string;
+}
+
+export interface MeetingActionItem {
+  id: string;
+  title: string;
+  assigneeId?: number;
+  assignedTo?: string;
+  dueDate?: string;
+  taskId?: number; // Set once the item has been converted into a task
+}
+
+export interface MeetingAttendee {
+  userId: number;
+  name: string;
+  email?: string;
+}
+
+export interface MeetingClientContact {
+  name: string;
+  email?: string;
+  phone?: string;
+}
+
 export interface MeetingFilterState {
   search: string;
   status: string;
@@ -170,18 +487,23 @@ export interface InvoiceItem {
 
 export interface Invoice {
   id: string;
-  number: string;
+  number: string; // Assigned by the server when the invoice is created
   date: string;
   dueDate: string;
   clientName: string;
   clientCompany: string;
   clientAddress: string;
   clientEmail: string;
+  crmEntryId?: number; // Source deal the client details were taken from
   items: InvoiceItem[];
   subtotal: number;
+  taxRate: number; // Percentage applied to the subtotal
   tax: number;
   total: number;
   status: InvoiceStatus;
+  notes?: string;
+  paidAt?: string; // Set by the server on payment, cleared when a payment is reversed
+  createdAt?: string;
   lastUpdatedBy?: string;
   lastUpdatedAt?: string;
 }
@@ -196,3 +518,17 @@ export type CalendarItem = {
     status: string;
     priority?: string; 
 };
+
+export type NotificationType = 'task_assigned' | 'task_status' | 'task_overdue' | 'task_mention' | 'follow_up_due' | 'meeting_soon' | 'automation';
+
+export interface AppNotification {
+  id: string; // Deterministic per event so re-derivation never duplicates
+  type: NotificationType;
+  title: string;
+  message: string;
+  createdAt: string;
+  read: boolean;
+  actor?: string; // Taken from lastUpdatedBy where the source carries it
+  link?: string;
+  linkState?: Record<string, number>;
+}
@@ -1,4 +1,6 @@
 
+import { Subtask, Task } from './types';
+
 export const formatMoney = (amount: number) => {
   return new Intl.NumberFormat('en-IN', {
     style: 'currency',
@@ -79,6 +81,7 @@ export const getTaskStatusStyles = (status: string) => {
   if (lowerStatus === 'completed' || lowerStatus === 'done') return base + 'bg-emerald-500/10 text-emerald-600 border-emerald-500/20';
   if (lowerStatus === 'posted') return base + 'bg-sky-500/10 text-sky-600 border-sky-500/20';
   if (lowerStatus === 'in review') return base + 'bg-purple-500/10 text-purple-600 border-purple-500/20';
+  if (lowerStatus === 'approved') return base + 'bg-teal-500/10 text-teal-600 border-teal-500/20';
   if (lowerStatus === 'in progress') return base + 'bg-brand-500/10 text-brand-600 border-brand-500/20';
   if (lowerStatus === 'dropped') return base + 'bg-rose-500/10 text-rose-600 border-rose-500/20';
   return base + 'bg-slate-100 text-slate-600 border-slate-200';
@@ -104,6 +107,17 @@ export const getMeetingStatusStyles = (status: string) => {
   }
 };
 
+export const getInvoiceStatusStyles = (status: string) => {
+  const base = "font-black tracking-widest uppercase border ";
+  switch (status) {
+      case 'Paid': return base + 'bg-emerald-500/10 text-emerald-600 border-emerald-500/20';
+      case 'Overdue': return base + 'bg-rose-500/10 text-rose-600 border-rose-500/20';
+      case 'Pending': return base + 'bg-amber-500/10 text-amber-600 border-amber-500/20';
+      case 'Draft': return base + 'bg-slate-100 text-slate-600 border-slate-200';
+      default: return base + 'bg-slate-100 text-slate-600 border-slate-200';
+  }
+};
+
 export const getWorkTypeStyles = (work: string) => {
   const lower = work?.toLowerCase() || '';
   // Premium base style with standard layout
@@ -167,3 +181,74 @@ export const exportToCSV = (data: any[], filename: string) => {
   document.body.removeChild(link);
   setTimeout(() => URL.revokeObjectURL(url), 100);
 };
+
+export const fuzzyScore = (query: string, text?: string): number => {
+  const q = query.trim().toLowerCase();
+  const t = (text || '').toLowerCase();
+  if (!q) return 1;
+  if (!t) return 0;
+
+  // Contiguous matches win, earlier and exact matches rank highest
+  const index = t.indexOf(q);
+  if (index !== -1) {
+    let score = 1000 - Math.min(index, 100) * 2;
+    if (index === 0) score += 200;
+    if (t === q) score += 300;
+    return score;
+  }
+
+  // Fall back to an in-order subsequence match with streak and word-boundary bonuses
+  let score = 0;
+  let cursor = 0;
+  let streak = 0;
+  for (const ch of q) {
+    if (ch === ' ') continue;
+    const found = t.indexOf(ch, cursor);
+    if (found === -1) return 0;
+    streak = found === cursor ? streak + 1 : 0;
+    score += 10 + streak * 5 - Math.min(found - cursor, 10);
+    if (found === 0 || /[\s\-_.@/]/.test(t[found - 1])) score += 15;
+    cursor = found + 1;
+  }
+  return Math.max(score, 1);
+};
+
+export const isAssignedToUser = (item: { assigneeId?: number; assignedTo?: string }, user?: { id: number; name: string } | null): boolean => {
+  if (!user) return false;
+  if (item.assigneeId) return item.assigneeId === user.id;
+  return item.assignedTo === user.name;
+};
+
+export const toISODate = (date: Date) => {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Checklist rollup; null when the task has no subtasks so callers can skip rendering
+export const getSubtaskProgress = (subtasks?: Subtask[]) => {
+  if (!subtasks || subtasks.length === 0) return null;
+  const done = subtasks.filter(s => s.isDone).length;
+  return { done, total: subtasks.length, percent: Math.round((done / subtasks.length) * 100) };
+};
+
+export const isTaskDone = (task: Pick<Task, 'status'>) => task.status === 'Completed' || task.status === 'Done' || task.status === 'Posted';
+
+// Logged time as "2h 05m", or just minutes under an hour
+export const formatDuration = (minutes: number) => {
+  const total = Math.max(0, Math.round(minutes));
+  if (total < 60) return `${total}m`;
+  return `${Math.floor(total / 60)}h ${(total % 60).toString().padStart(2, '0')}m`;
+};
+
+// Calendar arithmetic on 'YYYY-MM-DD' strings, independent of the browser's timezone
+export const addDaysToDate = (dateStr: string, days: number) => {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return new Intl.DateTimeFormat('en-CA').format(new Date(y, m - 1, d + days));
+};
+
+// Monday-first YYYY-MM-DD dates of the week containing dateStr
+export const getWeekDates = (dateStr: string): string[] => {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  const offset = (new Date(y, m - 1, d).getDay() + 6) % 7;
+  return Array.from({ length: 7 }, (_, i) => toISODate(new Date(y, m - 1, d - offset + i)));
+};
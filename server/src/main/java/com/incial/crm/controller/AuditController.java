@@ -0,0 +1,63 @@
+package com.incial.crm.controller;
+
+import com.incial.crm.dto.AuditEntryDto;
+import com.incial.crm.service.AuditService;
+import com.incial.crm.service.CrmService;
+import com.incial.crm.service.MeetingService;
+import com.incial.crm.service.TaskService;
+import com.incial.crm.service.UserService;
+import io.swagger.v3.oas.annotations.Operation;
+import io.swagger.v3.oas.annotations.tags.Tag;
+import lombok.RequiredArgsConstructor;
+import org.springframework.http.ResponseEntity;
+import org.springframework.security.access.prepost.PreAuthorize;
+import org.springframework.web.bind.annotation.*;
+
+import java.util.List;
+import java.util.Map;
+
+@RestController
+@RequestMapping("/api/v1/audit-log")
+@CrossOrigin(origins = "*")
+@Tag(name = "Audit Log", description = "Change history and revert APIs")
+@RequiredArgsConstructor
+public class AuditController {
+
+    private final AuditService auditService;
+    private final CrmService crmService;
+    private final TaskService taskService;
+    private final MeetingService meetingService;
+    private final UserService userService;
+
+    @GetMapping("/all")
+    @PreAuthorize("@permissionService.has(authentication, 'audit.view')")
+    @Operation(summary = "Get the audit log", description = "Every recorded change, newest first")
+    public ResponseEntity<List<AuditEntryDto>> getAll() {
+        return ResponseEntity.ok(auditService.getAll());
+    }
+
+    @GetMapping("/{entity}/{recordId}")
+    @PreAuthorize("hasAnyAuthority('ROLE_ADMIN', 'ROLE_EMPLOYEE', 'ROLE_SUPER_ADMIN')")
+    @Operation(summary = "Get a record's history", description = "Recorded changes to one deal, task, meeting or user, oldest first")
+    public ResponseEntity<List<AuditEntryDto>> getForRecord(@PathVariable String entity, @PathVariable Long recordId) {
+        return ResponseEntity.ok(auditService.getForRecord(entity, recordId));
+    }
+
+    @PostMapping("/{entity}/{recordId}/revert")
+    @PreAuthorize("@permissionService.has(authentication, 'audit.revert') and (#entity != 'user' or @permissionService.has(authentication, 'users.manage'))")
+    @Operation(summary = "Revert fields of a record", description = "Write the given fields back as sent; null and empty values clear the field")
+    public ResponseEntity<Object> revert(
+            @PathVariable String entity,
+            @PathVariable Long recordId,
+            @RequestBody Map<String, Object> fields,
+            @RequestHeader(value = "If-Match", required = false) String version) {
+        Object reverted = switch (entity) {
+            case "crm" -> crmService.revertEntry(recordId, fields, version);
+            case "task" -> taskService.revertTask(recordId, fields, version);
+            case "meeting" -> meetingService.revertMeeting(recordId, fields, version);
+            case "user" -> userService.revertUser(recordId, fields);
+            default -> throw new RuntimeException("Unknown audit entity: " + entity);
+        };
+        return ResponseEntity.ok(reverted);
+    }
+}
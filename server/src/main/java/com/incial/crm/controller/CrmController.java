@@ -3,12 +3,14 @@ package com.incial.crm.controller;
 import com.incial.crm.dto.CrmEntryDto;
 import com.incial.crm.service.CrmService;
 import lombok.RequiredArgsConstructor;
+import org.springframework.format.annotation.DateTimeFormat;
 import org.springframework.http.HttpStatus;
 import org.springframework.http.ResponseEntity;
 import org.springframework.security.access.prepost.PreAuthorize;
 import org.springframework.security.core.Authentication;
 import org.springframework.web.bind.annotation.*;
 
+import java.time.LocalDateTime;
 import java.util.List;
 import java.util.Map;
 
@@ -24,8 +26,9 @@ public class CrmController {
     @PreAuthorize(
             "hasAuthority('ROLE_ADMIN') or hasAuthority('ROLE_SUPER_ADMIN') or hasAuthority('ROLE_EMPLOYEE')"
     )
-    public ResponseEntity<Map<String, List<CrmEntryDto>>> getAllEntries() {
-        return ResponseEntity.ok(crmService.getAllEntries());
+    public ResponseEntity<Map<String, List<CrmEntryDto>>> getAllEntries(
+            @RequestParam(required = false) @DateTimeFormat(iso = DateTimeFormat.ISO.DATE_TIME) LocalDateTime updatedSince) {
+        return ResponseEntity.ok(crmService.getAllEntries(updatedSince));
     }
 
     @GetMapping("/details/{id}")
@@ -46,7 +49,9 @@ public class CrmController {
     }
 
     @PostMapping("/create")
-    @PreAuthorize("hasAuthority('ROLE_ADMIN') or hasAuthority('ROLE_SUPER_ADMIN')")
+    @PreAuthorize(
+            "hasAnyAuthority('ROLE_ADMIN', 'ROLE_EMPLOYEE', 'ROLE_SUPER_ADMIN') and @permissionService.has(authentication, 'crm.edit')"
+    )
     public ResponseEntity<CrmEntryDto> createEntry(@RequestBody CrmEntryDto dto) {
         CrmEntryDto created = crmService.createEntry(dto);
         return ResponseEntity.status(HttpStatus.CREATED).body(created);
@@ -56,13 +61,18 @@ public class CrmController {
     @PreAuthorize(
             "hasAuthority('ROLE_ADMIN') or hasAuthority('ROLE_SUPER_ADMIN') or hasAuthority('ROLE_EMPLOYEE')"
     )
-    public ResponseEntity<CrmEntryDto> updateEntry(@PathVariable Long id, @RequestBody CrmEntryDto dto) {
-        CrmEntryDto updated = crmService.updateEntry(id, dto);
+    public ResponseEntity<CrmEntryDto> updateEntry(
+            @PathVariable Long id,
+            @RequestBody CrmEntryDto dto,
+            @RequestHeader(value = "If-Match", required = false) String version) {
+        CrmEntryDto updated = crmService.updateEntry(id, dto, version);
         return ResponseEntity.ok(updated);
     }
 
     @DeleteMapping("/delete/{id}")
-    @PreAuthorize("hasAuthority('ROLE_ADMIN') or hasAuthority('ROLE_SUPER_ADMIN')")
+    @PreAuthorize(
+            "hasAnyAuthority('ROLE_ADMIN', 'ROLE_EMPLOYEE', 'ROLE_SUPER_ADMIN') and @permissionService.has(authentication, 'crm.delete')"
+    )
     public ResponseEntity<Void> deleteEntry(@PathVariable Long id) {
         crmService.deleteEntry(id);
         return ResponseEntity.noContent().build();
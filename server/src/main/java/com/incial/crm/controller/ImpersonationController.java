@@ -0,0 +1,45 @@
+package com.incial.crm.controller;
+
+import com.incial.crm.dto.ImpersonationLogDto;
+import com.incial.crm.dto.StartImpersonationRequest;
+import com.incial.crm.service.ImpersonationService;
+import io.swagger.v3.oas.annotations.Operation;
+import io.swagger.v3.oas.annotations.tags.Tag;
+import jakarta.validation.Valid;
+import lombok.RequiredArgsConstructor;
+import org.springframework.http.ResponseEntity;
+import org.springframework.security.access.prepost.PreAuthorize;
+import org.springframework.web.bind.annotation.*;
+
+import java.util.List;
+
+@RestController
+@RequestMapping("/api/v1/impersonation")
+@CrossOrigin(origins = "*")
+@Tag(name = "Impersonation", description = "View-as-user session APIs")
+@RequiredArgsConstructor
+public class ImpersonationController {
+
+    private final ImpersonationService impersonationService;
+
+    @GetMapping("/logs")
+    @PreAuthorize("hasAuthority('ROLE_SUPER_ADMIN')")
+    @Operation(summary = "Get impersonation logs", description = "Every view-as session, newest first (Super Admin only)")
+    public ResponseEntity<List<ImpersonationLogDto>> getLogs() {
+        return ResponseEntity.ok(impersonationService.getLogs());
+    }
+
+    @PostMapping("/start")
+    @PreAuthorize("hasAuthority('ROLE_SUPER_ADMIN') and @permissionService.has(authentication, 'users.impersonate')")
+    @Operation(summary = "Start viewing as a user", description = "Record a view-as session; its id must accompany every request made under it")
+    public ResponseEntity<ImpersonationLogDto> start(@Valid @RequestBody StartImpersonationRequest request) {
+        return ResponseEntity.ok(impersonationService.start(request));
+    }
+
+    @PostMapping("/{id}/end")
+    @PreAuthorize("hasAuthority('ROLE_SUPER_ADMIN')")
+    @Operation(summary = "End a view-as session", description = "Close the session so its id is no longer honoured")
+    public ResponseEntity<ImpersonationLogDto> end(@PathVariable Long id) {
+        return ResponseEntity.ok(impersonationService.end(id));
+    }
+}
@@ -0,0 +1,54 @@
+package com.incial.crm.controller;
+
+import com.incial.crm.dto.InvoiceDto;
+import com.incial.crm.service.InvoiceService;
+import io.swagger.v3.oas.annotations.Operation;
+import io.swagger.v3.oas.annotations.tags.Tag;
+import lombok.RequiredArgsConstructor;
+import org.springframework.http.HttpStatus;
+import org.springframework.http.ResponseEntity;
+import org.springframework.security.access.prepost.PreAuthorize;
+import org.springframework.web.bind.annotation.*;
+
+import java.util.List;
+
+@RestController
+@RequestMapping("/api/v1/invoices")
+@CrossOrigin(origins = "*")
+@Tag(name = "Invoices", description = "Invoicing APIs")
+@RequiredArgsConstructor
+public class InvoiceController {
+
+    private final InvoiceService invoiceService;
+
+    @GetMapping("/all")
+    @PreAuthorize("hasAnyAuthority('ROLE_ADMIN', 'ROLE_EMPLOYEE', 'ROLE_SUPER_ADMIN') and @permissionService.has(authentication, 'invoices.manage')")
+    @Operation(summary = "Get all invoices", description = "Retrieve all invoices")
+    public ResponseEntity<List<InvoiceDto>> getAllInvoices() {
+        return ResponseEntity.ok(invoiceService.getAllInvoices());
+    }
+
+    @PostMapping("/create")
+    @PreAuthorize("hasAnyAuthority('ROLE_ADMIN', 'ROLE_EMPLOYEE', 'ROLE_SUPER_ADMIN') and @permissionService.has(authentication, 'invoices.manage')")
+    @Operation(summary = "Create an invoice", description = "Create an invoice; the server assigns its number")
+    public ResponseEntity<InvoiceDto> createInvoice(@RequestBody InvoiceDto dto) {
+        InvoiceDto created = invoiceService.createInvoice(dto);
+        return ResponseEntity.status(HttpStatus.CREATED).body(created);
+    }
+
+    @PutMapping("/update/{id}")
+    @PreAuthorize("hasAnyAuthority('ROLE_ADMIN', 'ROLE_EMPLOYEE', 'ROLE_SUPER_ADMIN') and @permissionService.has(authentication, 'invoices.manage')")
+    @Operation(summary = "Update an invoice", description = "Update an invoice; its number never changes")
+    public ResponseEntity<InvoiceDto> updateInvoice(@PathVariable String id, @RequestBody InvoiceDto dto) {
+        InvoiceDto updated = invoiceService.updateInvoice(id, dto);
+        return ResponseEntity.ok(updated);
+    }
+
+    @DeleteMapping("/delete/{id}")
+    @PreAuthorize("hasAnyAuthority('ROLE_ADMIN', 'ROLE_EMPLOYEE', 'ROLE_SUPER_ADMIN') and @permissionService.has(authentication, 'invoices.manage')")
+    @Operation(summary = "Delete an invoice", description = "Delete an invoice by ID")
+    public ResponseEntity<Void> deleteInvoice(@PathVariable String id) {
+        invoiceService.deleteInvoice(id);
+        return ResponseEntity.noContent().build();
+    }
+}
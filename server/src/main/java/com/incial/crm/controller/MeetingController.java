@@ -3,11 +3,13 @@ package com.incial.crm.controller;
 import com.incial.crm.dto.MeetingDto;
 import com.incial.crm.service.MeetingService;
 import lombok.RequiredArgsConstructor;
+import org.springframework.format.annotation.DateTimeFormat;
 import org.springframework.http.HttpStatus;
 import org.springframework.http.ResponseEntity;
 import org.springframework.security.access.prepost.PreAuthorize;
 import org.springframework.web.bind.annotation.*;
 
+import java.time.LocalDateTime;
 import java.util.List;
 
 @RestController
@@ -20,7 +22,11 @@ public class MeetingController {
 
     @GetMapping("/all")
     @PreAuthorize("hasAnyAuthority('ROLE_ADMIN', 'ROLE_EMPLOYEE', 'ROLE_SUPER_ADMIN')")
-    public ResponseEntity<List<MeetingDto>> getAllMeetings() {
+    public ResponseEntity<List<MeetingDto>> getAllMeetings(
+            @RequestParam(required = false) @DateTimeFormat(iso = DateTimeFormat.ISO.DATE_TIME) LocalDateTime updatedSince) {
+        if (updatedSince != null) {
+            return ResponseEntity.ok(meetingService.getMeetingsUpdatedSince(updatedSince));
+        }
         return ResponseEntity.ok(meetingService.getAllMeetings());
     }
 
@@ -33,11 +39,26 @@ public class MeetingController {
 
     @PutMapping("/update/{id}")
     @PreAuthorize("hasAnyAuthority('ROLE_ADMIN', 'ROLE_EMPLOYEE', 'ROLE_SUPER_ADMIN')")
-    public ResponseEntity<MeetingDto> updateMeeting(@PathVariable Long id, @RequestBody MeetingDto dto) {
-        MeetingDto updated = meetingService.updateMeeting(id, dto);
+    public ResponseEntity<MeetingDto> updateMeeting(
+            @PathVariable Long id,
+            @RequestBody MeetingDto dto,
+            @RequestHeader(value = "If-Match", required = false) String version) {
+        MeetingDto updated = meetingService.updateMeeting(id, dto, version);
         return ResponseEntity.ok(updated);
     }
 
+    @PutMapping("/series/{seriesId}/occurrences/{index}")
+    @PreAuthorize("hasAnyAuthority('ROLE_ADMIN', 'ROLE_EMPLOYEE', 'ROLE_SUPER_ADMIN')")
+    public ResponseEntity<MeetingDto> saveOccurrence(@PathVariable String seriesId, @PathVariable Integer index, @RequestBody MeetingDto dto) {
+        return ResponseEntity.ok(meetingService.saveOccurrence(seriesId, index, dto));
+    }
+
+    @PostMapping("/series/{seriesId}/extend")
+    @PreAuthorize("hasAnyAuthority('ROLE_ADMIN', 'ROLE_EMPLOYEE', 'ROLE_SUPER_ADMIN')")
+    public ResponseEntity<List<MeetingDto>> extendSeries(@PathVariable String seriesId) {
+        return ResponseEntity.ok(meetingService.extendSeries(seriesId));
+    }
+
     @DeleteMapping("/delete/{id}")
     @PreAuthorize("hasAnyAuthority('ROLE_ADMIN', 'ROLE_EMPLOYEE', 'ROLE_SUPER_ADMIN')")
     public ResponseEntity<Void> deleteMeeting(@PathVariable Long id) {
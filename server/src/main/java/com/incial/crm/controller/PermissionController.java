@@ -0,0 +1,36 @@
+package com.incial.crm.controller;
+
+import com.incial.crm.service.PermissionService;
+import io.swagger.v3.oas.annotations.Operation;
+import io.swagger.v3.oas.annotations.tags.Tag;
+import lombok.RequiredArgsConstructor;
+import org.springframework.http.ResponseEntity;
+import org.springframework.security.access.prepost.PreAuthorize;
+import org.springframework.web.bind.annotation.*;
+
+import java.util.List;
+import java.util.Map;
+
+@RestController
+@RequestMapping("/api/v1/permissions")
+@CrossOrigin(origins = "*")
+@Tag(name = "Permissions", description = "Role permission matrix APIs")
+@RequiredArgsConstructor
+public class PermissionController {
+
+    private final PermissionService permissionService;
+
+    @GetMapping("/matrix")
+    @PreAuthorize("isAuthenticated()")
+    @Operation(summary = "Get the permission matrix", description = "Permissions granted to each role")
+    public ResponseEntity<Map<String, List<String>>> getMatrix() {
+        return ResponseEntity.ok(permissionService.getMatrix());
+    }
+
+    @PutMapping("/matrix")
+    @PreAuthorize("@permissionService.has(authentication, 'permissions.manage')")
+    @Operation(summary = "Update the permission matrix", description = "Replace the permissions granted to each role (Super Admin only)")
+    public ResponseEntity<Map<String, List<String>>> updateMatrix(@RequestBody Map<String, List<String>> matrix) {
+        return ResponseEntity.ok(permissionService.updateMatrix(matrix));
+    }
+}
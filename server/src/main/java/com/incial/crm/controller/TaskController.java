@@ -5,12 +5,14 @@ import com.incial.crm.service.TaskService;
 import io.swagger.v3.oas.annotations.Operation;
 import io.swagger.v3.oas.annotations.tags.Tag;
 import lombok.RequiredArgsConstructor;
+import org.springframework.format.annotation.DateTimeFormat;
 import org.springframework.http.HttpStatus;
 import org.springframework.http.ResponseEntity;
 import org.springframework.security.access.prepost.PreAuthorize;
 import org.springframework.security.core.Authentication;
 import org.springframework.web.bind.annotation.*;
 
+import java.time.LocalDateTime;
 import java.util.List;
 
 @RestController
@@ -24,8 +26,12 @@ public class TaskController {
 
     @GetMapping("/all")
     @PreAuthorize("hasAnyAuthority('ROLE_ADMIN', 'ROLE_EMPLOYEE', 'ROLE_SUPER_ADMIN')")
-    @Operation(summary = "Get all tasks", description = "Retrieve all tasks")
-    public ResponseEntity<List<TaskDto>> getAllTasks() {
+    @Operation(summary = "Get all tasks", description = "Retrieve all tasks, or only those changed at or after updatedSince")
+    public ResponseEntity<List<TaskDto>> getAllTasks(
+            @RequestParam(required = false) @DateTimeFormat(iso = DateTimeFormat.ISO.DATE_TIME) LocalDateTime updatedSince) {
+        if (updatedSince != null) {
+            return ResponseEntity.ok(taskService.getTasksUpdatedSince(updatedSince));
+        }
         return ResponseEntity.ok(taskService.getAllTasks());
     }
 
@@ -39,10 +45,12 @@ public class TaskController {
 
     @GetMapping("/client-tasks")
     @PreAuthorize("hasAuthority('ROLE_CLIENT')")
-    @Operation(summary = "Get client's CRM tasks", description = "Retrieve tasks for the client's linked CRM entry")
-    public ResponseEntity<List<TaskDto>> getClientTasks(Authentication authentication) {
+    @Operation(summary = "Get client's CRM tasks", description = "Retrieve tasks for the client's linked CRM entry, or only those changed at or after updatedSince")
+    public ResponseEntity<List<TaskDto>> getClientTasks(
+            Authentication authentication,
+            @RequestParam(required = false) @DateTimeFormat(iso = DateTimeFormat.ISO.DATE_TIME) LocalDateTime updatedSince) {
         String userEmail = authentication.getName();
-        return ResponseEntity.ok(taskService.getClientTasks(userEmail));
+        return ResponseEntity.ok(taskService.getClientTasks(userEmail, updatedSince));
     }
 
     @PostMapping("/create")
@@ -53,16 +61,40 @@ public class TaskController {
         return ResponseEntity.status(HttpStatus.CREATED).body(created);
     }
 
+    @GetMapping("/details/{id}")
+    @PreAuthorize("hasAnyAuthority('ROLE_ADMIN', 'ROLE_EMPLOYEE', 'ROLE_SUPER_ADMIN')")
+    @Operation(summary = "Get a task", description = "Retrieve one task as it is now")
+    public ResponseEntity<TaskDto> getTaskById(@PathVariable Long id) {
+        return ResponseEntity.ok(taskService.getTaskById(id));
+    }
+
     @PutMapping("/update/{id}")
     @PreAuthorize("hasAnyAuthority('ROLE_ADMIN', 'ROLE_EMPLOYEE', 'ROLE_SUPER_ADMIN', 'ROLE_CLIENT')")
-    @Operation(summary = "Update a task", description = "Update an existing task (increments user counter when status changes to completed)")
-    public ResponseEntity<TaskDto> updateTask(@PathVariable Long id, @RequestBody TaskDto dto) {
-        TaskDto updated = taskService.updateTask(id, dto);
+    @Operation(summary = "Update a task", description = "Update an existing task (increments user counter when status changes to completed); refused with 409 when If-Match names an outdated version")
+    public ResponseEntity<TaskDto> updateTask(
+            @PathVariable Long id,
+            @RequestBody TaskDto dto,
+            @RequestHeader(value = "If-Match", required = false) String version) {
+        TaskDto updated = taskService.updateTask(id, dto, version);
         return ResponseEntity.ok(updated);
     }
 
-    @DeleteMapping("/delete/{id}")
+    @PutMapping("/series/{seriesId}/occurrences/{index}")
+    @PreAuthorize("hasAnyAuthority('ROLE_ADMIN', 'ROLE_EMPLOYEE', 'ROLE_SUPER_ADMIN')")
+    @Operation(summary = "Create a series occurrence", description = "Create one occurrence of a recurring series, or return it if that slot already exists")
+    public ResponseEntity<TaskDto> saveOccurrence(@PathVariable String seriesId, @PathVariable Integer index, @RequestBody TaskDto dto) {
+        return ResponseEntity.ok(taskService.saveOccurrence(seriesId, index, dto));
+    }
+
+    @PostMapping("/series/{seriesId}/extend")
     @PreAuthorize("hasAnyAuthority('ROLE_ADMIN', 'ROLE_EMPLOYEE', 'ROLE_SUPER_ADMIN')")
+    @Operation(summary = "Extend a recurring series", description = "Generate the occurrences that fall inside the scheduling horizon and return the ones created")
+    public ResponseEntity<List<TaskDto>> extendSeries(@PathVariable String seriesId) {
+        return ResponseEntity.ok(taskService.extendSeries(seriesId));
+    }
+
+    @DeleteMapping("/delete/{id}")
+    @PreAuthorize("hasAnyAuthority('ROLE_ADMIN', 'ROLE_EMPLOYEE', 'ROLE_SUPER_ADMIN') and @permissionService.has(authentication, 'task.delete')")
     @Operation(summary = "Delete a task", description = "Delete a task by ID")
     public ResponseEntity<Void> deleteTask(@PathVariable Long id) {
         taskService.deleteTask(id);
@@ -44,13 +44,13 @@ public class UserController {
     }
 
     @DeleteMapping("/delete/{id}")
-    @PreAuthorize("hasAuthority('ROLE_SUPER_ADMIN')")
+    @PreAuthorize("hasAuthority('ROLE_SUPER_ADMIN') and @permissionService.has(authentication, 'users.manage')")
     public ResponseEntity<Void> deleteUser(@PathVariable  Long id){
         return ResponseEntity.ok(userService.deleteUser(id));
     }
 
     @PutMapping("/update/{id}")
-    @PreAuthorize("hasAnyAuthority('ROLE_SUPER_ADMIN')")
+    @PreAuthorize("hasAuthority('ROLE_SUPER_ADMIN') and @permissionService.has(authentication, 'users.manage')")
     public ResponseEntity<UserDto> updateUser(@RequestBody UserDto user , @PathVariable Long id){
         return ResponseEntity.ok(userService.updateUserRole(user,id));
     }
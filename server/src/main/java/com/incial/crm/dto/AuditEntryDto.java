@@ -0,0 +1,29 @@
+package com.incial.crm.dto;
+
+import com.fasterxml.jackson.annotation.JsonFormat;
+import lombok.AllArgsConstructor;
+import lombok.Builder;
+import lombok.Data;
+import lombok.NoArgsConstructor;
+
+import java.time.LocalDateTime;
+import java.util.Map;
+
+@Data
+@Builder
+@NoArgsConstructor
+@AllArgsConstructor
+public class AuditEntryDto {
+    private Long id;
+    private String entity;
+    private Long recordId;
+    private String recordLabel;
+    private String action;
+    private Long actorId;
+    private String actorName;
+    private Long impersonationId;
+    private Map<String, Object> snapshot;
+
+    @JsonFormat(pattern = "yyyy-MM-dd'T'HH:mm:ss'Z'")
+    private LocalDateTime createdAt;
+}
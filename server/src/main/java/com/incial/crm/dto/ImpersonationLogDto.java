@@ -0,0 +1,31 @@
+package com.incial.crm.dto;
+
+import com.fasterxml.jackson.annotation.JsonFormat;
+import lombok.AllArgsConstructor;
+import lombok.Builder;
+import lombok.Data;
+import lombok.NoArgsConstructor;
+
+import java.time.LocalDateTime;
+
+@Data
+@Builder
+@NoArgsConstructor
+@AllArgsConstructor
+public class ImpersonationLogDto {
+    private Long id;
+    private Long impersonatorId;
+    private String impersonatorName;
+    private Long targetUserId;
+    private String targetUserName;
+    private String targetRole;
+    private String reason;
+    private Boolean allowWrites;
+    private Integer writeCount;
+
+    @JsonFormat(pattern = "yyyy-MM-dd'T'HH:mm:ss'Z'")
+    private LocalDateTime startedAt;
+
+    @JsonFormat(pattern = "yyyy-MM-dd'T'HH:mm:ss'Z'")
+    private LocalDateTime endedAt;
+}
@@ -2,12 +2,16 @@ package com.incial.crm.dto;
 
 import com.fasterxml.jackson.annotation.JsonFormat;
 import com.fasterxml.jackson.annotation.JsonProperty;
+import com.incial.crm.entity.MeetingAttendee;
+import com.incial.crm.entity.MeetingClientContact;
+import com.incial.crm.entity.RecurrenceRule;
 import lombok.AllArgsConstructor;
 import lombok.Builder;
 import lombok.Data;
 import lombok.NoArgsConstructor;
 
 import java.time.LocalDateTime;
+import java.util.List;
 
 @Data
 @Builder
@@ -28,6 +32,12 @@ public class MeetingDto {
     private Long crmEntryId;
     
     private String assignedTo;
+    private Integer durationMinutes;
+    private List<MeetingAttendee> attendees;
+    private MeetingClientContact clientContact;
+    private RecurrenceRule recurrence;
+    private String seriesId;
+    private Integer occurrenceIndex;
     
     @JsonFormat(pattern = "yyyy-MM-dd'T'HH:mm:ss'Z'")
     private LocalDateTime createdAt;
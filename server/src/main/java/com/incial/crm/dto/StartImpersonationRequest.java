@@ -0,0 +1,13 @@
+package com.incial.crm.dto;
+
+import jakarta.validation.constraints.NotNull;
+import lombok.Data;
+
+@Data
+public class StartImpersonationRequest {
+    @NotNull(message = "Target user is required")
+    private Long targetUserId;
+
+    private String reason;
+    private boolean allowWrites; // Read-only unless the admin opts in
+}
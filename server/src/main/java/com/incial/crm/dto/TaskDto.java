@@ -1,6 +1,7 @@
 package com.incial.crm.dto;
 
 import com.fasterxml.jackson.annotation.JsonFormat;
+import com.incial.crm.entity.RecurrenceRule;
 import lombok.AllArgsConstructor;
 import lombok.Builder;
 import lombok.Data;
@@ -30,6 +31,9 @@ public class TaskDto {
     private List<String> attachments;
     private String taskLink;
     private Boolean isVisibleOnMainBoard;
+    private RecurrenceRule recurrence;
+    private String seriesId;
+    private Integer occurrenceIndex;
     
     @JsonFormat(pattern = "yyyy-MM-dd'T'HH:mm:ss'Z'")
     private LocalDateTime createdAt;
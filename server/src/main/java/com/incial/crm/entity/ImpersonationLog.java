@@ -0,0 +1,67 @@
+package com.incial.crm.entity;
+
+import jakarta.persistence.*;
+import lombok.AllArgsConstructor;
+import lombok.Builder;
+import lombok.Data;
+import lombok.NoArgsConstructor;
+
+import java.time.LocalDateTime;
+
+@Entity
+@Table(name = "impersonation_logs")
+@Data
+@Builder
+@NoArgsConstructor
+@AllArgsConstructor
+public class ImpersonationLog {
+    @Id
+    @GeneratedValue(strategy = GenerationType.IDENTITY)
+    private Long id;
+
+    @Column(name = "impersonator_id", nullable = false)
+    private Long impersonatorId;
+
+    @Column(name = "impersonator_email", nullable = false, length = 255)
+    private String impersonatorEmail;
+
+    @Column(name = "impersonator_name", nullable = false, length = 255)
+    private String impersonatorName;
+
+    @Column(name = "target_user_id", nullable = false)
+    private Long targetUserId;
+
+    @Column(name = "target_user_name", nullable = false, length = 255)
+    private String targetUserName;
+
+    @Column(name = "target_role", nullable = false, length = 50)
+    private String targetRole;
+
+    @Column(columnDefinition = "TEXT")
+    private String reason;
+
+    @Column(name = "allow_writes", nullable = false)
+    @Builder.Default
+    private Boolean allowWrites = false;
+
+    @Column(name = "write_count", nullable = false)
+    @Builder.Default
+    private Integer writeCount = 0;
+
+    @Column(name = "started_at", nullable = false, updatable = false)
+    private LocalDateTime startedAt;
+
+    @Column(name = "ended_at")
+    private LocalDateTime endedAt;
+
+    @PrePersist
+    protected void onCreate() {
+        startedAt = LocalDateTime.now();
+        if (allowWrites == null) {
+            allowWrites = false;
+        }
+        if (writeCount == null) {
+            writeCount = 0;
+        }
+    }
+}
@@ -0,0 +1,102 @@
+package com.incial.crm.entity;
+
+import jakarta.persistence.*;
+import lombok.AllArgsConstructor;
+import lombok.Builder;
+import lombok.Data;
+import lombok.NoArgsConstructor;
+
+import java.math.BigDecimal;
+import java.time.LocalDate;
+import java.time.LocalDateTime;
+import java.util.List;
+import java.util.UUID;
+
+@Entity
+@Table(name = "invoices")
+@Data
+@Builder
+@NoArgsConstructor
+@AllArgsConstructor
+public class Invoice {
+    @Id
+    @Column(length = 36)
+    private String id;
+
+    // Assigned by InvoiceService, never taken from a request
+    @Column(nullable = false, unique = true, length = 50)
+    private String number;
+
+    @Column(name = "invoice_date", nullable = false)
+    private LocalDate date;
+
+    @Column(name = "due_date")
+    private LocalDate dueDate;
+
+    @Column(name = "client_name", length = 255)
+    private String clientName;
+
+    @Column(name = "client_company", length = 255)
+    private String clientCompany;
+
+    @Column(name = "client_address", length = 500)
+    private String clientAddress;
+
+    @Column(name = "client_email", length = 255)
+    private String clientEmail;
+
+    @Column(name = "crm_entry_id")
+    private Long crmEntryId;
+
+    @Convert(converter = InvoiceItemListConverter.class)
+    @Column(columnDefinition = "TEXT")
+    private List<InvoiceItem> items;
+
+    @Column(precision = 15, scale = 2)
+    private BigDecimal subtotal;
+
+    @Column(name = "tax_rate", precision = 5, scale = 2)
+    private BigDecimal taxRate;
+
+    @Column(precision = 15, scale = 2)
+    private BigDecimal tax;
+
+    @Column(precision = 15, scale = 2)
+    private BigDecimal total;
+
+    // Draft, Pending or Paid; Overdue is derived by the client from dueDate
+    @Column(length = 50)
+    private String status;
+
+    @Column(columnDefinition = "TEXT")
+    private String notes;
+
+    @Column(name = "paid_at")
+    private LocalDateTime paidAt;
+
+    @Column(name = "created_at", nullable = false, updatable = false)
+    private LocalDateTime createdAt;
+
+    @Column(name = "last_updated_by", length = 255)
+    private String lastUpdatedBy;
+
+    @Column(name = "last_updated_at")
+    private LocalDateTime lastUpdatedAt;
+
+    @PrePersist
+    protected void onCreate() {
+        if (id == null) {
+            id = UUID.randomUUID().toString();
+        }
+        createdAt = LocalDateTime.now();
+        lastUpdatedAt = LocalDateTime.now();
+        if (status == null || status.isEmpty()) {
+            status = "Draft";
+        }
+    }
+
+    @PreUpdate
+    protected void onUpdate() {
+        lastUpdatedAt = LocalDateTime.now();
+    }
+}
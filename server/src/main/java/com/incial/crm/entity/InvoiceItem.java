@@ -0,0 +1,20 @@
+package com.incial.crm.entity;
+
+import lombok.AllArgsConstructor;
+import lombok.Builder;
+import lombok.Data;
+import lombok.NoArgsConstructor;
+
+import java.math.BigDecimal;
+
+@Data
+@Builder
+@NoArgsConstructor
+@AllArgsConstructor
+public class InvoiceItem {
+    private String id;
+    private String description;
+    private BigDecimal quantity;
+    private BigDecimal rate;
+    private BigDecimal amount;
+}
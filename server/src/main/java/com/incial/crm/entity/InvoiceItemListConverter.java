@@ -0,0 +1,40 @@
+package com.incial.crm.entity;
+
+import com.fasterxml.jackson.core.JsonProcessingException;
+import com.fasterxml.jackson.core.type.TypeReference;
+import com.fasterxml.jackson.databind.ObjectMapper;
+import jakarta.persistence.AttributeConverter;
+import jakarta.persistence.Converter;
+
+import java.util.ArrayList;
+import java.util.List;
+
+@Converter
+public class InvoiceItemListConverter implements AttributeConverter<List<InvoiceItem>, String> {
+
+    private final ObjectMapper objectMapper = new ObjectMapper();
+
+    @Override
+    public String convertToDatabaseColumn(List<InvoiceItem> attribute) {
+        if (attribute == null || attribute.isEmpty()) {
+            return null;
+        }
+        try {
+            return objectMapper.writeValueAsString(attribute);
+        } catch (JsonProcessingException e) {
+            throw new RuntimeException("Failed to convert invoice items to JSON", e);
+        }
+    }
+
+    @Override
+    public List<InvoiceItem> convertToEntityAttribute(String dbData) {
+        if (dbData == null || dbData.isEmpty()) {
+            return new ArrayList<>();
+        }
+        try {
+            return objectMapper.readValue(dbData, new TypeReference<List<InvoiceItem>>() {});
+        } catch (JsonProcessingException e) {
+            throw new RuntimeException("Failed to convert JSON to invoice items", e);
+        }
+    }
+}
@@ -8,9 +8,13 @@ import lombok.Data;
 import lombok.NoArgsConstructor;
 
 import java.time.LocalDateTime;
+import java.util.List;
 
 @Entity
-@Table(name = "meetings")
+@Table(name = "meetings", uniqueConstraints = {
+        // One record per slot of a recurring series, so generating it twice is harmless
+        @UniqueConstraint(name = "uk_meetings_series_occurrence", columnNames = {"series_id", "occurrence_index"})
+})
 @Data
 @Builder
 @NoArgsConstructor
@@ -42,6 +46,27 @@ public class Meeting {
     @Column(name = "assigned_to", length = 255)
     private String assignedTo;
 
+    @Column(name = "duration_minutes")
+    private Integer durationMinutes;
+
+    @Convert(converter = MeetingAttendeeListConverter.class)
+    @Column(name = "attendees", columnDefinition = "TEXT")
+    private List<MeetingAttendee> attendees;
+
+    @Convert(converter = MeetingClientContactConverter.class)
+    @Column(name = "client_contact", columnDefinition = "TEXT")
+    private MeetingClientContact clientContact;
+
+    @Convert(converter = RecurrenceRuleConverter.class)
+    @Column(name = "recurrence", columnDefinition = "TEXT")
+    private RecurrenceRule recurrence;
+
+    @Column(name = "series_id", length = 64)
+    private String seriesId;
+
+    @Column(name = "occurrence_index")
+    private Integer occurrenceIndex;
+
     @Column(name = "created_at", nullable = false, updatable = false)
     private LocalDateTime createdAt;
 
@@ -0,0 +1,36 @@
+package com.incial.crm.entity;
+
+import com.fasterxml.jackson.core.JsonProcessingException;
+import com.fasterxml.jackson.databind.ObjectMapper;
+import jakarta.persistence.AttributeConverter;
+import jakarta.persistence.Converter;
+
+@Converter
+public class MeetingClientContactConverter implements AttributeConverter<MeetingClientContact, String> {
+
+    private final ObjectMapper objectMapper = new ObjectMapper();
+
+    @Override
+    public String convertToDatabaseColumn(MeetingClientContact attribute) {
+        if (attribute == null) {
+            return null;
+        }
+        try {
+            return objectMapper.writeValueAsString(attribute);
+        } catch (JsonProcessingException e) {
+            throw new RuntimeException("Failed to convert client contact to JSON", e);
+        }
+    }
+
+    @Override
+    public MeetingClientContact convertToEntityAttribute(String dbData) {
+        if (dbData == null || dbData.isEmpty()) {
+            return null;
+        }
+        try {
+            return objectMapper.readValue(dbData, MeetingClientContact.class);
+        } catch (JsonProcessingException e) {
+            throw new RuntimeException("Failed to convert JSON to client contact", e);
+        }
+    }
+}
@@ -0,0 +1,32 @@
+package com.incial.crm.entity;
+
+import com.fasterxml.jackson.annotation.JsonFormat;
+import com.fasterxml.jackson.annotation.JsonIgnoreProperties;
+import lombok.AllArgsConstructor;
+import lombok.Builder;
+import lombok.Data;
+import lombok.NoArgsConstructor;
+
+import java.time.LocalDate;
+import java.util.List;
+
+@Data
+@Builder
+@NoArgsConstructor
+@AllArgsConstructor
+@JsonIgnoreProperties(ignoreUnknown = true)
+public class RecurrenceRule {
+    private String frequency; // daily, weekly or monthly
+    private Integer interval;
+    private List<Integer> weekdays; // 0 (Sun) - 6 (Sat), weekly rules only
+
+    @JsonFormat(pattern = "yyyy-MM-dd")
+    private LocalDate startDate;
+
+    private Integer startIndex; // Occurrences the series already had before startDate
+
+    @JsonFormat(pattern = "yyyy-MM-dd")
+    private LocalDate until;
+
+    private Integer count; // Total occurrences, counted from the series' very first one
+}
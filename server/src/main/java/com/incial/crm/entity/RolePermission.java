@@ -0,0 +1,27 @@
+package com.incial.crm.entity;
+
+import jakarta.persistence.*;
+import lombok.AllArgsConstructor;
+import lombok.Builder;
+import lombok.Data;
+import lombok.NoArgsConstructor;
+
+@Entity
+@Table(name = "role_permissions", uniqueConstraints = {
+        @UniqueConstraint(name = "uk_role_permissions_role_permission", columnNames = {"role", "permission"})
+})
+@Data
+@Builder
+@NoArgsConstructor
+@AllArgsConstructor
+public class RolePermission {
+    @Id
+    @GeneratedValue(strategy = GenerationType.IDENTITY)
+    private Long id;
+
+    @Column(nullable = false, length = 50)
+    private String role;
+
+    @Column(nullable = false, length = 100)
+    private String permission;
+}
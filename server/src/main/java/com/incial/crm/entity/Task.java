@@ -11,7 +11,10 @@ import java.time.LocalDateTime;
 import java.util.List;
 
 @Entity
-@Table(name = "tasks")
+@Table(name = "tasks", uniqueConstraints = {
+        // One record per slot of a recurring series, so generating it twice is harmless
+        @UniqueConstraint(name = "uk_tasks_series_occurrence", columnNames = {"series_id", "occurrence_index"})
+})
 @Data
 @Builder
 @NoArgsConstructor
@@ -55,6 +58,16 @@ public class Task {
     @Column(name = "is_visible_on_main_board")
     private Boolean isVisibleOnMainBoard;
 
+    @Convert(converter = RecurrenceRuleConverter.class)
+    @Column(name = "recurrence", columnDefinition = "TEXT")
+    private RecurrenceRule recurrence;
+
+    @Column(name = "series_id", length = 64)
+    private String seriesId;
+
+    @Column(name = "occurrence_index")
+    private Integer occurrenceIndex;
+
     @Column(name = "created_at", nullable = false, updatable = false)
     private LocalDateTime createdAt;
 
@@ -0,0 +1,18 @@
+package com.incial.crm.exception;
+
+import lombok.Getter;
+
+/**
+ * An update was based on a version of the record that is no longer the latest. Carries the record
+ * as it is now, so the client can show what changed and merge.
+ */
+@Getter
+public class VersionConflictException extends RuntimeException {
+
+    private final Object current;
+
+    public VersionConflictException(String message, Object current) {
+        super(message);
+        this.current = current;
+    }
+}
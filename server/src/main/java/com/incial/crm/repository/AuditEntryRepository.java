@@ -0,0 +1,13 @@
+package com.incial.crm.repository;
+
+import com.incial.crm.entity.AuditEntry;
+import org.springframework.data.jpa.repository.JpaRepository;
+import org.springframework.stereotype.Repository;
+
+import java.util.List;
+
+@Repository
+public interface AuditEntryRepository extends JpaRepository<AuditEntry, Long> {
+    List<AuditEntry> findAllByOrderByCreatedAtDesc();
+    List<AuditEntry> findByEntityAndRecordIdOrderByCreatedAtAsc(String entity, Long recordId);
+}
@@ -4,6 +4,10 @@ import com.incial.crm.entity.CrmEntry;
 import org.springframework.data.jpa.repository.JpaRepository;
 import org.springframework.stereotype.Repository;
 
+import java.time.LocalDateTime;
+import java.util.List;
+
 @Repository
 public interface CrmEntryRepository extends JpaRepository<CrmEntry, Long> {
+    List<CrmEntry> findByLastUpdatedAtGreaterThanEqual(LocalDateTime since);
 }
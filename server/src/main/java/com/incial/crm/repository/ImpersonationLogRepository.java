@@ -0,0 +1,12 @@
+package com.incial.crm.repository;
+
+import com.incial.crm.entity.ImpersonationLog;
+import org.springframework.data.jpa.repository.JpaRepository;
+import org.springframework.stereotype.Repository;
+
+import java.util.List;
+
+@Repository
+public interface ImpersonationLogRepository extends JpaRepository<ImpersonationLog, Long> {
+    List<ImpersonationLog> findAllByOrderByStartedAtDesc();
+}
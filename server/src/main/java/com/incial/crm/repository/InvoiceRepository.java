@@ -0,0 +1,12 @@
+package com.incial.crm.repository;
+
+import com.incial.crm.entity.Invoice;
+import org.springframework.data.jpa.repository.JpaRepository;
+import org.springframework.stereotype.Repository;
+
+import java.util.Optional;
+
+@Repository
+public interface InvoiceRepository extends JpaRepository<Invoice, String> {
+    Optional<Invoice> findTopByNumberStartingWithOrderByNumberDesc(String prefix);
+}
@@ -4,6 +4,13 @@ import com.incial.crm.entity.Meeting;
 import org.springframework.data.jpa.repository.JpaRepository;
 import org.springframework.stereotype.Repository;
 
+import java.time.LocalDateTime;
+import java.util.List;
+import java.util.Optional;
+
 @Repository
 public interface MeetingRepository extends JpaRepository<Meeting, Long> {
+    List<Meeting> findByLastUpdatedAtGreaterThanEqual(LocalDateTime since);
+    List<Meeting> findBySeriesId(String seriesId);
+    Optional<Meeting> findBySeriesIdAndOccurrenceIndex(String seriesId, Integer occurrenceIndex);
 }
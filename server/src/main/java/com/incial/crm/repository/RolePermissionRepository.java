@@ -0,0 +1,10 @@
+package com.incial.crm.repository;
+
+import com.incial.crm.entity.RolePermission;
+import org.springframework.data.jpa.repository.JpaRepository;
+import org.springframework.stereotype.Repository;
+
+@Repository
+public interface RolePermissionRepository extends JpaRepository<RolePermission, Long> {
+    boolean existsByRoleAndPermission(String role, String permission);
+}
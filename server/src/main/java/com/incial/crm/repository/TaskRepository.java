@@ -4,10 +4,15 @@ import com.incial.crm.entity.Task;
 import org.springframework.data.jpa.repository.JpaRepository;
 import org.springframework.stereotype.Repository;
 
+import java.time.LocalDateTime;
 import java.util.List;
+import java.util.Optional;
 
 @Repository
 public interface TaskRepository extends JpaRepository<Task, Long> {
     List<Task> findByAssignedTo(String assignedTo);
     List<Task> findByCompanyId(Long companyId);
+    List<Task> findByLastUpdatedAtGreaterThanEqual(LocalDateTime since);
+    List<Task> findBySeriesId(String seriesId);
+    Optional<Task> findBySeriesIdAndOccurrenceIndex(String seriesId, Integer occurrenceIndex);
 }
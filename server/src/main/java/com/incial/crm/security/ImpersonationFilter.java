@@ -0,0 +1,140 @@
+package com.incial.crm.security;
+
+import com.fasterxml.jackson.databind.ObjectMapper;
+import com.incial.crm.entity.ImpersonationLog;
+import com.incial.crm.service.ImpersonationService;
+import jakarta.servlet.FilterChain;
+import jakarta.servlet.ServletException;
+import jakarta.servlet.http.HttpServletRequest;
+import jakarta.servlet.http.HttpServletResponse;
+import lombok.RequiredArgsConstructor;
+import org.springframework.http.HttpStatus;
+import org.springframework.http.MediaType;
+import org.springframework.security.authentication.UsernamePasswordAuthenticationToken;
+import org.springframework.security.core.Authentication;
+import org.springframework.security.core.authority.SimpleGrantedAuthority;
+import org.springframework.security.core.context.SecurityContextHolder;
+import org.springframework.security.core.userdetails.User;
+import org.springframework.security.core.userdetails.UserDetails;
+import org.springframework.stereotype.Component;
+import org.springframework.web.filter.OncePerRequestFilter;
+
+import java.io.IOException;
+import java.util.List;
+import java.util.Map;
+import java.util.Optional;
+import java.util.Set;
+
+/**
+ * Runs after {@link JwtAuthenticationFilter}. A request carrying {@code X-Impersonate-User} is
+ * re-authenticated as that user, so role checks and data scoping apply to the target, but only
+ * when the signed-in caller is a super admin with an open session for that target
+ * ({@code X-Impersonation-Id}). Writes are refused unless the session allows them.
+ */
+@Component
+@RequiredArgsConstructor
+public class ImpersonationFilter extends OncePerRequestFilter {
+
+    public static final String TARGET_HEADER = "X-Impersonate-User";
+    public static final String SESSION_HEADER = "X-Impersonation-Id";
+    // The session a request runs under, so changes can be attributed to the admin behind it
+    public static final String SESSION_ATTRIBUTE = ImpersonationFilter.class.getName() + ".session";
+
+    private static final Set<String> READ_METHODS = Set.of("GET", "HEAD", "OPTIONS");
+    private static final ObjectMapper objectMapper = new ObjectMapper();
+
+    private final ImpersonationService impersonationService;
+
+    @Override
+    protected boolean shouldNotFilter(HttpServletRequest request) {
+        // Starting, ending and listing sessions always run as the real admin
+        return request.getHeader(TARGET_HEADER) == null
+                || request.getServletPath().startsWith("/api/v1/auth/")
+                || request.getServletPath().startsWith("/api/v1/impersonation/");
+    }
+
+    @Override
+    protected void doFilterInternal(
+            HttpServletRequest request,
+            HttpServletResponse response,
+            FilterChain filterChain
+    ) throws ServletException, IOException {
+
+        if ("OPTIONS".equalsIgnoreCase(request.getMethod())) {
+            filterChain.doFilter(request, response);
+            return;
+        }
+
+        Authentication caller = SecurityContextHolder.getContext().getAuthentication();
+        if (caller == null) {
+            // Unauthenticated; let the security chain answer with 401
+            filterChain.doFilter(request, response);
+            return;
+        }
+
+        boolean isSuperAdmin = caller.getAuthorities().stream()
+                .anyMatch(authority -> "ROLE_SUPER_ADMIN".equals(authority.getAuthority()));
+        if (!isSuperAdmin) {
+            reject(response, "Only super admins can view as another user");
+            return;
+        }
+
+        Long targetUserId = parseId(request.getHeader(TARGET_HEADER));
+        Long logId = parseId(request.getHeader(SESSION_HEADER));
+        if (targetUserId == null || logId == null) {
+            reject(response, "View-as requests must name the target user and an open session");
+            return;
+        }
+
+        Optional<ImpersonationLog> session = impersonationService.findActiveSession(logId, caller.getName(), targetUserId);
+        if (session.isEmpty()) {
+            reject(response, "This view-as session has ended or doesn't match the requested user");
+            return;
+        }
+
+        ImpersonationLog log = session.get();
+        boolean isWrite = !READ_METHODS.contains(request.getMethod().toUpperCase());
+        if (isWrite && !Boolean.TRUE.equals(log.getAllowWrites())) {
+            reject(response, "Read-only while viewing as " + log.getTargetUserName());
+            return;
+        }
+
+        Optional<com.incial.crm.entity.User> target = impersonationService.findTarget(log);
+        if (target.isEmpty()) {
+            reject(response, "The user being viewed as no longer exists");
+            return;
+        }
+
+        UserDetails targetDetails = new User(
+                target.get().getEmail(),
+                "",
+                List.of(new SimpleGrantedAuthority(target.get().getRole()))
+        );
+        UsernamePasswordAuthenticationToken impersonated =
+                new UsernamePasswordAuthenticationToken(targetDetails, null, targetDetails.getAuthorities());
+        impersonated.setDetails(caller.getDetails());
+        SecurityContextHolder.getContext().setAuthentication(impersonated);
+        request.setAttribute(SESSION_ATTRIBUTE, log);
+
+        if (isWrite) {
+            impersonationService.recordWrite(log);
+        }
+
+        filterChain.doFilter(request, response);
+    }
+
+    private static Long parseId(String value) {
+        if (value == null) return null;
+        try {
+            return Long.valueOf(value.trim());
+        } catch (NumberFormatException e) {
+            return null;
+        }
+    }
+
+    private static void reject(HttpServletResponse response, String message) throws IOException {
+        response.setStatus(HttpStatus.FORBIDDEN.value());
+        response.setContentType(MediaType.APPLICATION_JSON_VALUE);
+        objectMapper.writeValue(response.getOutputStream(), Map.of("error", "Forbidden", "message", message));
+    }
+}
@@ -0,0 +1,122 @@
+package com.incial.crm.service;
+
+import com.fasterxml.jackson.core.type.TypeReference;
+import com.fasterxml.jackson.databind.DeserializationFeature;
+import com.fasterxml.jackson.databind.ObjectMapper;
+import com.incial.crm.dto.AuditEntryDto;
+import com.incial.crm.entity.AuditEntry;
+import com.incial.crm.entity.ImpersonationLog;
+import com.incial.crm.entity.User;
+import com.incial.crm.repository.AuditEntryRepository;
+import com.incial.crm.repository.UserRepository;
+import com.incial.crm.security.ImpersonationFilter;
+import lombok.RequiredArgsConstructor;
+import org.springframework.beans.BeanWrapper;
+import org.springframework.beans.BeanWrapperImpl;
+import org.springframework.stereotype.Service;
+import org.springframework.web.context.request.RequestAttributes;
+import org.springframework.web.context.request.RequestContextHolder;
+
+import java.util.HashMap;
+import java.util.List;
+import java.util.Map;
+import java.util.Optional;
+import java.util.Set;
+import java.util.stream.Collectors;
+
+/**
+ * Change history for deals, tasks, meetings and users. Every create, update and delete stores the
+ * record as the API returned it; the client diffs consecutive snapshots and builds reverts from them.
+ */
+@Service
+@RequiredArgsConstructor
+public class AuditService {
+
+    // Identity, bookkeeping and series fields are never written back by a revert
+    public static final Set<String> UNRESTORABLE_FIELDS = Set.of(
+            "id", "createdAt", "lastUpdatedAt", "lastUpdatedBy",
+            "seriesId", "occurrenceIndex", "recurrence",
+            "passwordHash", "googleId", "tasksCompleted");
+
+    private static final TypeReference<Map<String, Object>> SNAPSHOT_TYPE = new TypeReference<>() {};
+
+    private final AuditEntryRepository auditEntryRepository;
+    private final UserRepository userRepository;
+    private final ObjectMapper objectMapper;
+
+    public List<AuditEntryDto> getAll() {
+        return auditEntryRepository.findAllByOrderByCreatedAtDesc().stream()
+                .map(this::convertToDto)
+                .collect(Collectors.toList());
+    }
+
+    public List<AuditEntryDto> getForRecord(String entity, Long recordId) {
+        return auditEntryRepository.findByEntityAndRecordIdOrderByCreatedAtAsc(entity, recordId).stream()
+                .map(this::convertToDto)
+                .collect(Collectors.toList());
+    }
+
+    /**
+     * Stores one change. During "view as" the change is attributed to the admin behind the session,
+     * not to the user being viewed as.
+     */
+    public void record(String entity, Long recordId, String recordLabel, String action, Object snapshot) {
+        String actorEmail = UserService.getCurrentUsername();
+        Long impersonationId = null;
+        RequestAttributes request = RequestContextHolder.getRequestAttributes();
+        if (request != null
+                && request.getAttribute(ImpersonationFilter.SESSION_ATTRIBUTE, RequestAttributes.SCOPE_REQUEST) instanceof ImpersonationLog session) {
+            actorEmail = session.getImpersonatorEmail();
+            impersonationId = session.getId();
+        }
+        Optional<User> actor = userRepository.findByEmail(actorEmail);
+
+        AuditEntry entry = AuditEntry.builder()
+                .entity(entity)
+                .recordId(recordId)
+                .recordLabel(recordLabel)
+                .action(action)
+                .actorId(actor.map(User::getId).orElse(null))
+                .actorName(actor.map(User::getName).orElse(actorEmail))
+                .impersonationId(impersonationId)
+                .snapshot(snapshot == null ? new HashMap<>() : objectMapper.convertValue(snapshot, SNAPSHOT_TYPE))
+                .build();
+        auditEntryRepository.save(entry);
+    }
+
+    /**
+     * Writes the given fields onto an entity exactly as sent, so a null or an empty list clears the
+     * field instead of being skipped like in a regular update. Values are read through the DTO type
+     * so they are parsed with the same formats the snapshots were written in.
+     */
+    public void applyRevert(Object entity, Map<String, Object> fields, Class<?> dtoType) {
+        Map<String, Object> restorable = new HashMap<>(fields);
+        restorable.keySet().removeAll(UNRESTORABLE_FIELDS);
+
+        Object values = objectMapper.copy()
+                .configure(DeserializationFeature.FAIL_ON_UNKNOWN_PROPERTIES, false)
+                .convertValue(restorable, dtoType);
+        BeanWrapper source = new BeanWrapperImpl(values);
+        BeanWrapper target = new BeanWrapperImpl(entity);
+        restorable.keySet().forEach(field -> {
+            if (source.isReadableProperty(field) && target.isWritableProperty(field)) {
+                target.setPropertyValue(field, source.getPropertyValue(field));
+            }
+        });
+    }
+
+    private AuditEntryDto convertToDto(AuditEntry entry) {
+        return AuditEntryDto.builder()
+                .id(entry.getId())
+                .entity(entry.getEntity())
+                .recordId(entry.getRecordId())
+                .recordLabel(entry.getRecordLabel())
+                .action(entry.getAction())
+                .actorId(entry.getActorId())
+                .actorName(entry.getActorName())
+                .impersonationId(entry.getImpersonationId())
+                .snapshot(entry.getSnapshot())
+                .createdAt(entry.getCreatedAt())
+                .build();
+    }
+}
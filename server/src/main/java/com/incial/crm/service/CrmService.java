@@ -6,6 +6,7 @@ import com.incial.crm.repository.CrmEntryRepository;
 import lombok.RequiredArgsConstructor;
 import org.springframework.stereotype.Service;
 
+import java.time.LocalDateTime;
 import java.util.HashMap;
 import java.util.List;
 import java.util.Map;
@@ -17,9 +18,16 @@ public class CrmService {
 
     private final CrmEntryRepository crmEntryRepository;
     private final UserService userService;
+    private final AuditService auditService;
 
     public Map<String, List<CrmEntryDto>> getAllEntries() {
-        List<CrmEntry> entries = crmEntryRepository.findAll();
+        return getAllEntries(null);
+    }
+
+    public Map<String, List<CrmEntryDto>> getAllEntries(LocalDateTime updatedSince) {
+        List<CrmEntry> entries = updatedSince == null
+                ? crmEntryRepository.findAll()
+                : crmEntryRepository.findByLastUpdatedAtGreaterThanEqual(updatedSince);
         List<CrmEntryDto> dtoList = entries.stream()
                 .map(this::convertToDto)
                 .collect(Collectors.toList());
@@ -32,23 +40,36 @@ public class CrmService {
     public CrmEntryDto createEntry(CrmEntryDto dto) {
         CrmEntry entry = convertToEntity(dto);
         CrmEntry saved = crmEntryRepository.save(entry);
-        return convertToDto(saved);
+        CrmEntryDto created = convertToDto(saved);
+        auditService.record("crm", created.getId(), created.getCompany(), "create", created);
+        return created;
     }
 
-    public CrmEntryDto updateEntry(Long id, CrmEntryDto dto) {
+    public CrmEntryDto updateEntry(Long id, CrmEntryDto dto, String version) {
         CrmEntry entry = crmEntryRepository.findById(id)
                 .orElseThrow(() -> new RuntimeException("CRM Entry not found with id: " + id));
-        
+        RecordVersion.check(version, entry.getLastUpdatedAt(), () -> convertToDto(entry));
+
         updateEntityFromDto(entry, dto);
-        CrmEntry updated = crmEntryRepository.save(entry);
-        return convertToDto(updated);
+        return saveUpdate(entry);
+    }
+
+    // Restores fields from an earlier version, clearing the ones that were empty in it
+    public CrmEntryDto revertEntry(Long id, Map<String, Object> fields, String version) {
+        CrmEntry entry = crmEntryRepository.findById(id)
+                .orElseThrow(() -> new RuntimeException("CRM Entry not found with id: " + id));
+        RecordVersion.check(version, entry.getLastUpdatedAt(), () -> convertToDto(entry));
+
+        auditService.applyRevert(entry, fields, CrmEntryDto.class);
+        entry.setLastUpdatedBy(UserService.getCurrentUsername());
+        return saveUpdate(entry);
     }
 
     public void deleteEntry(Long id) {
-        if (!crmEntryRepository.existsById(id)) {
-            throw new RuntimeException("CRM Entry not found with id: " + id);
-        }
+        CrmEntry entry = crmEntryRepository.findById(id)
+                .orElseThrow(() -> new RuntimeException("CRM Entry not found with id: " + id));
         crmEntryRepository.deleteById(id);
+        auditService.record("crm", id, entry.getCompany(), "delete", null);
     }
 
     public CrmEntryDto getCrmDetails(Long id) {
@@ -66,6 +87,12 @@ public class CrmService {
         return getCrmDetails(userDto.getClientCrmId());
     }
 
+    private CrmEntryDto saveUpdate(CrmEntry entry) {
+        CrmEntryDto updated = convertToDto(crmEntryRepository.save(entry));
+        auditService.record("crm", updated.getId(), updated.getCompany(), "update", updated);
+        return updated;
+    }
+
     private CrmEntryDto convertToDto(CrmEntry entity) {
         return CrmEntryDto.builder()
                 .id(entity.getId())
@@ -137,6 +164,6 @@ public class CrmService {
         if (dto.getLeadSources() != null) entity.setLeadSources(dto.getLeadSources());
         if (dto.getDriveLink() != null) entity.setDriveLink(dto.getDriveLink());
         if (dto.getSocials() != null) entity.setSocials(dto.getSocials());
-        if (dto.getLastUpdatedBy() != null) entity.setLastUpdatedBy(user);
+        entity.setLastUpdatedBy(user);
     }
 }
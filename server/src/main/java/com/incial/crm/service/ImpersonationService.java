@@ -0,0 +1,113 @@
+package com.incial.crm.service;
+
+import com.incial.crm.dto.ImpersonationLogDto;
+import com.incial.crm.dto.StartImpersonationRequest;
+import com.incial.crm.entity.ImpersonationLog;
+import com.incial.crm.entity.User;
+import com.incial.crm.repository.ImpersonationLogRepository;
+import com.incial.crm.repository.UserRepository;
+import lombok.RequiredArgsConstructor;
+import org.springframework.stereotype.Service;
+import org.springframework.transaction.annotation.Transactional;
+
+import java.time.LocalDateTime;
+import java.util.List;
+import java.util.Optional;
+import java.util.stream.Collectors;
+
+/**
+ * "View as user" sessions. Every session is recorded before it starts; requests made under it
+ * carry the log id and are only honoured while that record is open, belongs to the caller and
+ * names the same target.
+ */
+@Service
+@RequiredArgsConstructor
+public class ImpersonationService {
+
+    private final ImpersonationLogRepository impersonationLogRepository;
+    private final UserRepository userRepository;
+
+    public List<ImpersonationLogDto> getLogs() {
+        return impersonationLogRepository.findAllByOrderByStartedAtDesc().stream()
+                .map(this::convertToDto)
+                .collect(Collectors.toList());
+    }
+
+    public ImpersonationLogDto start(StartImpersonationRequest request) {
+        User impersonator = userRepository.findByEmail(UserService.getCurrentUsername())
+                .orElseThrow(() -> new RuntimeException("User not found with email: " + UserService.getCurrentUsername()));
+        User target = userRepository.findById(request.getTargetUserId())
+                .orElseThrow(() -> new RuntimeException("User not found with id: " + request.getTargetUserId()));
+
+        if (target.getId().equals(impersonator.getId())) {
+            throw new RuntimeException("You are already signed in as this user");
+        }
+        if ("ROLE_SUPER_ADMIN".equals(target.getRole())) {
+            throw new RuntimeException("Super admin accounts can't be viewed as");
+        }
+
+        ImpersonationLog log = ImpersonationLog.builder()
+                .impersonatorId(impersonator.getId())
+                .impersonatorEmail(impersonator.getEmail())
+                .impersonatorName(impersonator.getName())
+                .targetUserId(target.getId())
+                .targetUserName(target.getName())
+                .targetRole(target.getRole())
+                .reason(request.getReason())
+                .allowWrites(request.isAllowWrites())
+                .build();
+
+        return convertToDto(impersonationLogRepository.save(log));
+    }
+
+    public ImpersonationLogDto end(Long id) {
+        ImpersonationLog log = impersonationLogRepository.findById(id)
+                .orElseThrow(() -> new RuntimeException("Impersonation session not found with id: " + id));
+
+        if (!log.getImpersonatorEmail().equals(UserService.getCurrentUsername())) {
+            throw new RuntimeException("Only the admin who started this session can end it");
+        }
+        if (log.getEndedAt() == null) {
+            log.setEndedAt(LocalDateTime.now());
+            log = impersonationLogRepository.save(log);
+        }
+        return convertToDto(log);
+    }
+
+    /**
+     * The open session the caller claims to act under, or empty when the log is missing, closed,
+     * started by someone else or names a different target.
+     */
+    public Optional<ImpersonationLog> findActiveSession(Long logId, String impersonatorEmail, Long targetUserId) {
+        return impersonationLogRepository.findById(logId)
+                .filter(log -> log.getEndedAt() == null)
+                .filter(log -> log.getImpersonatorEmail().equals(impersonatorEmail))
+                .filter(log -> log.getTargetUserId().equals(targetUserId));
+    }
+
+    public Optional<User> findTarget(ImpersonationLog log) {
+        return userRepository.findById(log.getTargetUserId());
+    }
+
+    @Transactional
+    public void recordWrite(ImpersonationLog log) {
+        log.setWriteCount(log.getWriteCount() + 1);
+        impersonationLogRepository.save(log);
+    }
+
+    private ImpersonationLogDto convertToDto(ImpersonationLog log) {
+        return ImpersonationLogDto.builder()
+                .id(log.getId())
+                .impersonatorId(log.getImpersonatorId())
+                .impersonatorName(log.getImpersonatorName())
+                .targetUserId(log.getTargetUserId())
+                .targetUserName(log.getTargetUserName())
+                .targetRole(log.getTargetRole())
+                .reason(log.getReason())
+                .allowWrites(log.getAllowWrites())
+                .writeCount(log.getWriteCount())
+                .startedAt(log.getStartedAt())
+                .endedAt(log.getEndedAt())
+                .build();
+    }
+}
@@ -0,0 +1,155 @@
+package com.incial.crm.service;
+
+import com.incial.crm.dto.InvoiceDto;
+import com.incial.crm.entity.Invoice;
+import com.incial.crm.repository.InvoiceRepository;
+import lombok.RequiredArgsConstructor;
+import org.springframework.dao.DataIntegrityViolationException;
+import org.springframework.stereotype.Service;
+
+import java.time.LocalDate;
+import java.time.LocalDateTime;
+import java.util.List;
+import java.util.stream.Collectors;
+
+@Service
+@RequiredArgsConstructor
+public class InvoiceService {
+
+    // Two admins saving at once can both read the same highest number; the unique
+    // constraint rejects the loser, who simply takes the next one
+    private static final int NUMBERING_ATTEMPTS = 5;
+
+    private final InvoiceRepository invoiceRepository;
+
+    public List<InvoiceDto> getAllInvoices() {
+        return invoiceRepository.findAll().stream()
+                .map(this::convertToDto)
+                .collect(Collectors.toList());
+    }
+
+    public InvoiceDto createInvoice(InvoiceDto dto) {
+        Invoice invoice = convertToEntity(dto);
+        if (invoice.getDate() == null) invoice.setDate(LocalDate.now());
+        invoice.setLastUpdatedBy(UserService.getCurrentUsername());
+        if ("Paid".equals(invoice.getStatus())) invoice.setPaidAt(LocalDateTime.now());
+
+        for (int attempt = 1; ; attempt++) {
+            invoice.setNumber(nextNumber(invoice.getDate()));
+            try {
+                return convertToDto(invoiceRepository.saveAndFlush(invoice));
+            } catch (DataIntegrityViolationException e) {
+                if (attempt >= NUMBERING_ATTEMPTS) {
+                    throw new RuntimeException("Could not assign an invoice number, please try again");
+                }
+                invoice.setId(null);
+            }
+        }
+    }
+
+    public InvoiceDto updateInvoice(String id, InvoiceDto dto) {
+        Invoice invoice = invoiceRepository.findById(id)
+                .orElseThrow(() -> new RuntimeException("Invoice not found with id: " + id));
+
+        String oldStatus = invoice.getStatus();
+        updateEntityFromDto(invoice, dto);
+
+        // paidAt follows the status, so a reversed payment loses it again
+        if ("Paid".equals(invoice.getStatus()) && !"Paid".equals(oldStatus)) {
+            invoice.setPaidAt(LocalDateTime.now());
+        } else if (!"Paid".equals(invoice.getStatus())) {
+            invoice.setPaidAt(null);
+        }
+
+        Invoice updated = invoiceRepository.save(invoice);
+        return convertToDto(updated);
+    }
+
+    public void deleteInvoice(String id) {
+        if (!invoiceRepository.existsById(id)) {
+            throw new RuntimeException("Invoice not found with id: " + id);
+        }
+        invoiceRepository.deleteById(id);
+    }
+
+    // Numbers run per calendar year of the invoice date, e.g. INV-2026-0007
+    private String nextNumber(LocalDate date) {
+        String prefix = "INV-" + date.getYear() + "-";
+        int highest = invoiceRepository.findTopByNumberStartingWithOrderByNumberDesc(prefix)
+                .map(last -> parseSequence(last.getNumber().substring(prefix.length())))
+                .orElse(0);
+        return prefix + String.format("%04d", highest + 1);
+    }
+
+    private int parseSequence(String value) {
+        try {
+            return Integer.parseInt(value);
+        } catch (NumberFormatException e) {
+            return 0;
+        }
+    }
+
+    private InvoiceDto convertToDto(Invoice entity) {
+        return InvoiceDto.builder()
+                .id(entity.getId())
+                .number(entity.getNumber())
+                .date(entity.getDate())
+                .dueDate(entity.getDueDate())
+                .clientName(entity.getClientName())
+                .clientCompany(entity.getClientCompany())
+                .clientAddress(entity.getClientAddress())
+                .clientEmail(entity.getClientEmail())
+                .crmEntryId(entity.getCrmEntryId())
+                .items(entity.getItems())
+                .subtotal(entity.getSubtotal())
+                .taxRate(entity.getTaxRate())
+                .tax(entity.getTax())
+                .total(entity.getTotal())
+                .status(entity.getStatus())
+                .notes(entity.getNotes())
+                .paidAt(entity.getPaidAt())
+                .createdAt(entity.getCreatedAt())
+                .lastUpdatedBy(entity.getLastUpdatedBy())
+                .lastUpdatedAt(entity.getLastUpdatedAt())
+                .build();
+    }
+
+    private Invoice convertToEntity(InvoiceDto dto) {
+        return Invoice.builder()
+                .date(dto.getDate())
+                .dueDate(dto.getDueDate())
+                .clientName(dto.getClientName())
+                .clientCompany(dto.getClientCompany())
+                .clientAddress(dto.getClientAddress())
+                .clientEmail(dto.getClientEmail())
+                .crmEntryId(dto.getCrmEntryId())
+                .items(dto.getItems())
+                .subtotal(dto.getSubtotal())
+                .taxRate(dto.getTaxRate())
+                .tax(dto.getTax())
+                .total(dto.getTotal())
+                .status(dto.getStatus())
+                .notes(dto.getNotes())
+                .build();
+    }
+
+    private void updateEntityFromDto(Invoice entity, InvoiceDto dto) {
+        String user = UserService.getCurrentUsername();
+
+        if (dto.getDate() != null) entity.setDate(dto.getDate());
+        if (dto.getDueDate() != null) entity.setDueDate(dto.getDueDate());
+        if (dto.getClientName() != null) entity.setClientName(dto.getClientName());
+        if (dto.getClientCompany() != null) entity.setClientCompany(dto.getClientCompany());
+        if (dto.getClientAddress() != null) entity.setClientAddress(dto.getClientAddress());
+        if (dto.getClientEmail() != null) entity.setClientEmail(dto.getClientEmail());
+        if (dto.getCrmEntryId() != null) entity.setCrmEntryId(dto.getCrmEntryId());
+        if (dto.getItems() != null) entity.setItems(dto.getItems());
+        if (dto.getSubtotal() != null) entity.setSubtotal(dto.getSubtotal());
+        if (dto.getTaxRate() != null) entity.setTaxRate(dto.getTaxRate());
+        if (dto.getTax() != null) entity.setTax(dto.getTax());
+        if (dto.getTotal() != null) entity.setTotal(dto.getTotal());
+        if (dto.getStatus() != null) entity.setStatus(dto.getStatus());
+        if (dto.getNotes() != null) entity.setNotes(dto.getNotes());
+        entity.setLastUpdatedBy(user);
+    }
+}
@@ -4,9 +4,16 @@ import com.incial.crm.dto.MeetingDto;
 import com.incial.crm.entity.Meeting;
 import com.incial.crm.repository.MeetingRepository;
 import lombok.RequiredArgsConstructor;
+import org.springframework.dao.DataIntegrityViolationException;
 import org.springframework.stereotype.Service;
 
+import java.time.LocalDate;
+import java.time.LocalDateTime;
+import java.util.ArrayList;
+import java.util.Comparator;
 import java.util.List;
+import java.util.Map;
+import java.util.Set;
 import java.util.stream.Collectors;
 
 @Service
@@ -14,6 +21,7 @@ import java.util.stream.Collectors;
 public class MeetingService {
 
     private final MeetingRepository meetingRepository;
+    private final AuditService auditService;
 
     public List<MeetingDto> getAllMeetings() {
         return meetingRepository.findAll().stream()
@@ -21,26 +29,127 @@ public class MeetingService {
                 .collect(Collectors.toList());
     }
 
+    public List<MeetingDto> getMeetingsUpdatedSince(LocalDateTime since) {
+        return meetingRepository.findByLastUpdatedAtGreaterThanEqual(since).stream()
+                .map(this::convertToDto)
+                .collect(Collectors.toList());
+    }
+
     public MeetingDto createMeeting(MeetingDto dto) {
         Meeting meeting = convertToEntity(dto);
-        Meeting saved = meetingRepository.save(meeting);
-        return convertToDto(saved);
+        return saveCreated(meeting);
     }
 
-    public MeetingDto updateMeeting(Long id, MeetingDto dto) {
+    public MeetingDto updateMeeting(Long id, MeetingDto dto, String version) {
         Meeting meeting = meetingRepository.findById(id)
                 .orElseThrow(() -> new RuntimeException("Meeting not found with id: " + id));
-        
+        RecordVersion.check(version, meeting.getLastUpdatedAt(), () -> convertToDto(meeting));
+
         updateEntityFromDto(meeting, dto);
-        Meeting updated = meetingRepository.save(meeting);
-        return convertToDto(updated);
+        return saveUpdate(meeting);
     }
 
-    public void deleteMeeting(Long id) {
-        if (!meetingRepository.existsById(id)) {
-            throw new RuntimeException("Meeting not found with id: " + id);
+    // Restores fields from an earlier version, clearing the ones that were empty in it
+    public MeetingDto revertMeeting(Long id, Map<String, Object> fields, String version) {
+        Meeting meeting = meetingRepository.findById(id)
+                .orElseThrow(() -> new RuntimeException("Meeting not found with id: " + id));
+        RecordVersion.check(version, meeting.getLastUpdatedAt(), () -> convertToDto(meeting));
+
+        auditService.applyRevert(meeting, fields, MeetingDto.class);
+        meeting.setLastUpdatedBy(UserService.getCurrentUsername());
+        return saveUpdate(meeting);
+    }
+
+    // Keyed on (seriesId, occurrenceIndex): repeating it returns the occurrence already there instead of a duplicate
+    public MeetingDto saveOccurrence(String seriesId, Integer occurrenceIndex, MeetingDto dto) {
+        return meetingRepository.findBySeriesIdAndOccurrenceIndex(seriesId, occurrenceIndex)
+                .map(this::convertToDto)
+                .orElseGet(() -> {
+                    Meeting meeting = convertToEntity(dto);
+                    meeting.setSeriesId(seriesId);
+                    meeting.setOccurrenceIndex(occurrenceIndex);
+                    try {
+                        return saveCreated(meeting);
+                    } catch (DataIntegrityViolationException e) {
+                        // Created by a concurrent request in the meantime
+                        return meetingRepository.findBySeriesIdAndOccurrenceIndex(seriesId, occurrenceIndex)
+                                .map(this::convertToDto)
+                                .orElseThrow(() -> e);
+                    }
+                });
+    }
+
+    /**
+     * Creates the occurrences of a series that have come inside the scheduling horizon, copied from its
+     * latest occurrence at the same time of day. Works like TaskService.extendSeries.
+     */
+    public List<MeetingDto> extendSeries(String seriesId) {
+        List<Meeting> occurrences = meetingRepository.findBySeriesId(seriesId);
+        List<Meeting> scheduled = occurrences.stream()
+                .filter(meeting -> meeting.getRecurrence() != null && meeting.getRecurrence().getStartDate() != null)
+                .collect(Collectors.toList());
+        if (scheduled.isEmpty()) {
+            return List.of();
         }
+
+        // Only the newest schedule of a series keeps generating
+        LocalDate latestStart = scheduled.stream()
+                .map(meeting -> meeting.getRecurrence().getStartDate())
+                .max(Comparator.naturalOrder())
+                .get();
+        Meeting template = scheduled.stream()
+                .filter(meeting -> latestStart.equals(meeting.getRecurrence().getStartDate()))
+                .max(Comparator.comparing(meeting -> meeting.getOccurrenceIndex() != null ? meeting.getOccurrenceIndex() : -1))
+                .get();
+        int fromIndex = (template.getOccurrenceIndex() != null ? template.getOccurrenceIndex() : 0) + 1;
+        Set<Integer> taken = occurrences.stream().map(Meeting::getOccurrenceIndex).collect(Collectors.toSet());
+        String user = UserService.getCurrentUsername();
+
+        List<MeetingDto> created = new ArrayList<>();
+        RecurrenceSchedule.scheduleAfter(template.getRecurrence(), RecurrenceSchedule.horizon()).forEach((index, date) -> {
+            if (index < fromIndex || taken.contains(index)) return;
+            Meeting occurrence = Meeting.builder()
+                    .title(template.getTitle())
+                    .meetingLink(template.getMeetingLink())
+                    .assignedTo(template.getAssignedTo())
+                    .crmEntryId(template.getCrmEntryId())
+                    .durationMinutes(template.getDurationMinutes())
+                    .attendees(template.getAttendees())
+                    .clientContact(template.getClientContact())
+                    .status("Scheduled")
+                    .dateTime(date.atTime(template.getDateTime().toLocalTime()))
+                    .recurrence(template.getRecurrence())
+                    .seriesId(seriesId)
+                    .occurrenceIndex(index)
+                    .lastUpdatedBy(user)
+                    .build();
+            try {
+                created.add(saveCreated(occurrence));
+            } catch (DataIntegrityViolationException e) {
+                // Another request generated this slot first
+            }
+        });
+        return created;
+    }
+
+    public void deleteMeeting(Long id) {
+        Meeting meeting = meetingRepository.findById(id)
+                .orElseThrow(() -> new RuntimeException("Meeting not found with id: " + id));
         meetingRepository.deleteById(id);
+        auditService.record("meeting", id, meeting.getTitle(), "delete", null);
+    }
+
+    // Flushes so a duplicate series slot fails here, before the change is recorded
+    private MeetingDto saveCreated(Meeting meeting) {
+        MeetingDto created = convertToDto(meetingRepository.saveAndFlush(meeting));
+        auditService.record("meeting", created.getId(), created.getTitle(), "create", created);
+        return created;
+    }
+
+    private MeetingDto saveUpdate(Meeting meeting) {
+        MeetingDto updated = convertToDto(meetingRepository.save(meeting));
+        auditService.record("meeting", updated.getId(), updated.getTitle(), "update", updated);
+        return updated;
     }
 
     private MeetingDto convertToDto(Meeting entity) {
@@ -53,6 +162,12 @@ public class MeetingService {
                 .notes(entity.getNotes())
                 .crmEntryId(entity.getCrmEntryId())
                 .assignedTo(entity.getAssignedTo())
+                .durationMinutes(entity.getDurationMinutes())
+                .attendees(entity.getAttendees())
+                .clientContact(entity.getClientContact())
+                .recurrence(entity.getRecurrence())
+                .seriesId(entity.getSeriesId())
+                .occurrenceIndex(entity.getOccurrenceIndex())
                 .createdAt(entity.getCreatedAt())
                 .lastUpdatedBy(entity.getLastUpdatedBy())
                 .lastUpdatedAt(entity.getLastUpdatedAt())
@@ -68,6 +183,12 @@ public class MeetingService {
                 .notes(dto.getNotes())
                 .crmEntryId(dto.getCrmEntryId())
                 .assignedTo(dto.getAssignedTo())
+                .durationMinutes(dto.getDurationMinutes())
+                .attendees(dto.getAttendees())
+                .clientContact(dto.getClientContact())
+                .recurrence(dto.getRecurrence())
+                .seriesId(dto.getSeriesId())
+                .occurrenceIndex(dto.getOccurrenceIndex())
                 .build();
     }
 
@@ -81,6 +202,12 @@ public class MeetingService {
         if (dto.getNotes() != null) entity.setNotes(dto.getNotes());
         if (dto.getCrmEntryId() != null) entity.setCrmEntryId(dto.getCrmEntryId());
         if (dto.getAssignedTo() != null) entity.setAssignedTo(dto.getAssignedTo());
+        if (dto.getDurationMinutes() != null) entity.setDurationMinutes(dto.getDurationMinutes());
+        if (dto.getAttendees() != null) entity.setAttendees(dto.getAttendees());
+        if (dto.getClientContact() != null) entity.setClientContact(dto.getClientContact());
+        if (dto.getRecurrence() != null) entity.setRecurrence(dto.getRecurrence());
+        if (dto.getSeriesId() != null) entity.setSeriesId(dto.getSeriesId());
+        if (dto.getOccurrenceIndex() != null) entity.setOccurrenceIndex(dto.getOccurrenceIndex());
         entity.setLastUpdatedBy(user);
     }
 }
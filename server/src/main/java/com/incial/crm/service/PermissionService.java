@@ -0,0 +1,124 @@
+package com.incial.crm.service;
+
+import com.incial.crm.entity.RolePermission;
+import com.incial.crm.repository.RolePermissionRepository;
+import lombok.RequiredArgsConstructor;
+import org.springframework.security.core.Authentication;
+import org.springframework.security.core.GrantedAuthority;
+import org.springframework.stereotype.Service;
+import org.springframework.transaction.annotation.Transactional;
+
+import java.util.ArrayList;
+import java.util.LinkedHashMap;
+import java.util.List;
+import java.util.Map;
+import java.util.stream.Collectors;
+
+/**
+ * Role-to-capability matrix. Endpoints check it with
+ * {@code @PreAuthorize("@permissionService.has(authentication, '...')")}; until a super admin
+ * first saves it, every role has the access the app had before the matrix existed.
+ * Deal updates stay open to all staff because client trackers and playbooks write to deals, so
+ * crm.edit is checked when deals are created; the other grants without an endpoint of their own
+ * (workspace, portal, reports, timesheets, automations) only decide what the app shows.
+ */
+@Service
+@RequiredArgsConstructor
+public class PermissionService {
+
+    public static final List<String> ROLES = List.of("ROLE_SUPER_ADMIN", "ROLE_ADMIN", "ROLE_EMPLOYEE", "ROLE_CLIENT");
+
+    private static final List<String> ALL_PERMISSIONS = List.of(
+            "workspace.view", "portal.view",
+            "crm.view", "crm.edit", "crm.delete",
+            "invoices.manage",
+            "task.delete", "time.manage", "automations.manage",
+            "analytics.view", "analytics.export",
+            "users.manage", "users.impersonate",
+            "audit.view", "audit.revert",
+            "permissions.manage");
+
+    private static final List<String> STAFF_ONLY = List.of("users.manage", "users.impersonate", "permissions.manage");
+
+    private static final List<String> STAFF_CEILING = ALL_PERMISSIONS.stream()
+            .filter(p -> !p.equals("portal.view") && !STAFF_ONLY.contains(p))
+            .toList();
+
+    // The most each role can be granted; anything beyond it is dropped when the matrix is saved
+    private static final Map<String, List<String>> GRANTABLE = Map.of(
+            "ROLE_SUPER_ADMIN", ALL_PERMISSIONS.stream().filter(p -> !p.equals("portal.view")).toList(),
+            "ROLE_ADMIN", STAFF_CEILING,
+            "ROLE_EMPLOYEE", STAFF_CEILING,
+            "ROLE_CLIENT", List.of("portal.view"));
+
+    private static final Map<String, List<String>> DEFAULT_MATRIX = Map.of(
+            "ROLE_SUPER_ADMIN", GRANTABLE.get("ROLE_SUPER_ADMIN"),
+            "ROLE_ADMIN", List.of("workspace.view", "crm.view", "crm.edit", "crm.delete", "invoices.manage", "task.delete", "time.manage", "automations.manage"),
+            "ROLE_EMPLOYEE", List.of("workspace.view", "task.delete"),
+            "ROLE_CLIENT", List.of("portal.view"));
+
+    // Super admins always keep these, so a bad save can never lock everybody out of the matrix
+    private static final List<String> LOCKED = List.of("workspace.view", "permissions.manage");
+
+    private final RolePermissionRepository rolePermissionRepository;
+
+    public Map<String, List<String>> getMatrix() {
+        Map<String, List<String>> matrix = new LinkedHashMap<>();
+        if (rolePermissionRepository.count() == 0) {
+            ROLES.forEach(role -> matrix.put(role, new ArrayList<>(DEFAULT_MATRIX.get(role))));
+            return matrix;
+        }
+        ROLES.forEach(role -> matrix.put(role, new ArrayList<>()));
+        rolePermissionRepository.findAll().forEach(row -> {
+            List<String> granted = matrix.get(row.getRole());
+            if (granted != null && isGrantable(row.getRole(), row.getPermission())) granted.add(row.getPermission());
+        });
+        return matrix;
+    }
+
+    /**
+     * Replaces the stored matrix. Roles missing from the request keep what they had, grants beyond
+     * a role's ceiling are dropped and super admins keep the locked permissions.
+     */
+    @Transactional
+    public Map<String, List<String>> updateMatrix(Map<String, List<String>> requested) {
+        Map<String, List<String>> current = getMatrix();
+        List<RolePermission> rows = new ArrayList<>();
+        ROLES.forEach(role -> {
+            List<String> granted = requested.getOrDefault(role, current.get(role)).stream()
+                    .filter(permission -> isGrantable(role, permission))
+                    .distinct()
+                    .collect(Collectors.toCollection(ArrayList::new));
+            if (role.equals("ROLE_SUPER_ADMIN")) {
+                LOCKED.stream().filter(permission -> !granted.contains(permission)).forEach(granted::add);
+            }
+            granted.forEach(permission -> rows.add(RolePermission.builder().role(role).permission(permission).build()));
+        });
+
+        rolePermissionRepository.deleteAllInBatch();
+        rolePermissionRepository.saveAll(rows);
+        return getMatrix();
+    }
+
+    public boolean has(Authentication authentication, String permission) {
+        if (authentication == null || !authentication.isAuthenticated()) {
+            return false;
+        }
+        return authentication.getAuthorities().stream()
+                .map(GrantedAuthority::getAuthority)
+                .anyMatch(role -> roleHas(role, permission));
+    }
+
+    private boolean roleHas(String role, String permission) {
+        if (!isGrantable(role, permission)) return false;
+        if (role.equals("ROLE_SUPER_ADMIN") && LOCKED.contains(permission)) return true;
+        if (rolePermissionRepository.count() == 0) {
+            return DEFAULT_MATRIX.get(role).contains(permission);
+        }
+        return rolePermissionRepository.existsByRoleAndPermission(role, permission);
+    }
+
+    private boolean isGrantable(String role, String permission) {
+        return GRANTABLE.getOrDefault(role, List.of()).contains(permission);
+    }
+}
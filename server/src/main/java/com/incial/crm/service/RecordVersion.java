@@ -0,0 +1,30 @@
+package com.incial.crm.service;
+
+import com.incial.crm.exception.VersionConflictException;
+
+import java.time.LocalDateTime;
+import java.time.format.DateTimeFormatter;
+import java.util.function.Supplier;
+
+/**
+ * Optimistic concurrency for updates. The version is the record's lastUpdatedAt in the format the
+ * DTOs send it; clients echo it back in {@code If-Match} and the write is refused when the record
+ * has moved on. Requests without the header keep last-write-wins.
+ */
+public final class RecordVersion {
+
+    private static final DateTimeFormatter FORMAT = DateTimeFormatter.ofPattern("yyyy-MM-dd'T'HH:mm:ss'Z'");
+
+    private RecordVersion() {
+    }
+
+    public static void check(String expected, LocalDateTime lastUpdatedAt, Supplier<Object> current) {
+        if (expected == null || expected.isBlank() || lastUpdatedAt == null) {
+            return;
+        }
+        String version = expected.trim().replace("\"", "");
+        if (!version.equals(lastUpdatedAt.format(FORMAT))) {
+            throw new VersionConflictException("This record was changed by someone else since you opened it", current.get());
+        }
+    }
+}
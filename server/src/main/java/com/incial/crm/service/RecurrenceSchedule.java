@@ -0,0 +1,85 @@
+package com.incial.crm.service;
+
+import com.incial.crm.entity.RecurrenceRule;
+
+import java.time.LocalDate;
+import java.time.ZoneId;
+import java.util.ArrayList;
+import java.util.LinkedHashMap;
+import java.util.List;
+import java.util.Map;
+
+/**
+ * Expands a recurrence rule into dates. Occurrences of a series are real records created
+ * ahead of time up to a rolling horizon, so only the dates up to that horizon are listed.
+ */
+public final class RecurrenceSchedule {
+
+    private static final int RECURRENCE_HORIZON_DAYS = 60;
+    private static final int MAX_OCCURRENCES = 500;
+    private static final ZoneId BUSINESS_ZONE = ZoneId.of("Asia/Kolkata");
+
+    private RecurrenceSchedule() {
+    }
+
+    public static LocalDate horizon() {
+        return LocalDate.now(BUSINESS_ZONE).plusDays(RECURRENCE_HORIZON_DAYS);
+    }
+
+    // Every date the rule produces from its start date up to the horizon, capped by until/count
+    public static List<LocalDate> occurrenceDates(RecurrenceRule rule, LocalDate horizon) {
+        int limit = rule.getCount() != null && rule.getCount() > 0 ? Math.min(rule.getCount(), MAX_OCCURRENCES) : MAX_OCCURRENCES;
+        return listDates(rule, horizon, limit);
+    }
+
+    // Scheduled dates after the anchor occurrence on startDate, keyed by their position in the whole series
+    public static Map<Integer, LocalDate> scheduleAfter(RecurrenceRule rule, LocalDate horizon) {
+        int anchorIndex = rule.getStartIndex() != null ? rule.getStartIndex() : 0;
+        int remaining = rule.getCount() != null ? rule.getCount() - anchorIndex - 1 : MAX_OCCURRENCES;
+
+        Map<Integer, LocalDate> schedule = new LinkedHashMap<>();
+        for (LocalDate date : listDates(rule, horizon, MAX_OCCURRENCES)) {
+            if (schedule.size() >= remaining) break;
+            if (date.equals(rule.getStartDate())) continue;
+            schedule.put(anchorIndex + 1 + schedule.size(), date);
+        }
+        return schedule;
+    }
+
+    private static List<LocalDate> listDates(RecurrenceRule rule, LocalDate horizon, int limit) {
+        LocalDate start = rule.getStartDate();
+        int interval = Math.max(1, rule.getInterval() != null ? rule.getInterval() : 1);
+        LocalDate end = rule.getUntil() != null && rule.getUntil().isBefore(horizon) ? rule.getUntil() : horizon;
+        List<LocalDate> dates = new ArrayList<>();
+
+        for (int step = 0; dates.size() < limit; step++) {
+            if ("daily".equals(rule.getFrequency())) {
+                LocalDate date = start.plusDays((long) step * interval);
+                if (date.isAfter(end)) break;
+                add(dates, date, start, end, limit);
+            } else if ("weekly".equals(rule.getFrequency())) {
+                // Walk whole weeks from the start date's Sunday so weekday picks stay aligned
+                LocalDate weekStart = start.minusDays(start.getDayOfWeek().getValue() % 7).plusWeeks((long) step * interval);
+                if (weekStart.isAfter(end)) break;
+                List<Integer> weekdays = rule.getWeekdays() != null && !rule.getWeekdays().isEmpty()
+                        ? rule.getWeekdays().stream().sorted().toList()
+                        : List.of(start.getDayOfWeek().getValue() % 7);
+                for (int day : weekdays) {
+                    add(dates, weekStart.plusDays(day), start, end, limit);
+                }
+            } else {
+                // Clamp to the month's last day so the 31st still lands in shorter months
+                LocalDate target = start.withDayOfMonth(1).plusMonths((long) step * interval);
+                LocalDate date = target.withDayOfMonth(Math.min(start.getDayOfMonth(), target.lengthOfMonth()));
+                if (date.isAfter(end)) break;
+                add(dates, date, start, end, limit);
+            }
+        }
+        return dates;
+    }
+
+    private static void add(List<LocalDate> dates, LocalDate date, LocalDate start, LocalDate end, int limit) {
+        if (date.isBefore(start) || date.isAfter(end) || dates.size() >= limit) return;
+        dates.add(date);
+    }
+}
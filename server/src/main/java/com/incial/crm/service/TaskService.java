@@ -4,9 +4,16 @@ import com.incial.crm.dto.TaskDto;
 import com.incial.crm.entity.Task;
 import com.incial.crm.repository.TaskRepository;
 import lombok.RequiredArgsConstructor;
+import org.springframework.dao.DataIntegrityViolationException;
 import org.springframework.stereotype.Service;
 
+import java.time.LocalDate;
+import java.time.LocalDateTime;
+import java.util.ArrayList;
+import java.util.Comparator;
 import java.util.List;
+import java.util.Map;
+import java.util.Set;
 import java.util.stream.Collectors;
 
 @Service
@@ -15,6 +22,7 @@ public class TaskService {
 
     private final TaskRepository taskRepository;
     private final UserService userService;
+    private final AuditService auditService;
 
     public List<TaskDto> getAllTasks() {
         return taskRepository.findAll().stream()
@@ -22,6 +30,12 @@ public class TaskService {
                 .collect(Collectors.toList());
     }
 
+    public List<TaskDto> getTasksUpdatedSince(LocalDateTime since) {
+        return taskRepository.findByLastUpdatedAtGreaterThanEqual(since).stream()
+                .map(this::convertToDto)
+                .collect(Collectors.toList());
+    }
+
     public List<TaskDto> getTasksByAssignedTo(String assignedTo) {
         return taskRepository.findByAssignedTo(assignedTo).stream()
                 .map(this::convertToDto)
@@ -45,24 +59,37 @@ public class TaskService {
     }
 
     public List<TaskDto> getClientTasks(String userEmail) {
+        return getClientTasks(userEmail, null);
+    }
+
+    public List<TaskDto> getClientTasks(String userEmail, LocalDateTime updatedSince) {
         // Get user to find their linked CRM ID
         var userDto = userService.getUserByEmail(userEmail);
         if (userDto.getClientCrmId() == null) {
             throw new RuntimeException("Client user '" + userEmail + "' is not linked to any CRM entry. Please contact administrator.");
         }
-        return getTasksByCompanyId(userDto.getClientCrmId());
+        return taskRepository.findByCompanyId(userDto.getClientCrmId()).stream()
+                .filter(task -> updatedSince == null || (task.getLastUpdatedAt() != null && !task.getLastUpdatedAt().isBefore(updatedSince)))
+                .map(this::convertToDto)
+                .collect(Collectors.toList());
     }
 
     public TaskDto createTask(TaskDto dto) {
         Task task = convertToEntity(dto);
-        Task saved = taskRepository.save(task);
-        return convertToDto(saved);
+        return saveCreated(task);
     }
 
-    public TaskDto updateTask(Long id, TaskDto dto) {
+    public TaskDto getTaskById(Long id) {
         Task task = taskRepository.findById(id)
                 .orElseThrow(() -> new RuntimeException("Task not found with id: " + id));
-        
+        return convertToDto(task);
+    }
+
+    public TaskDto updateTask(Long id, TaskDto dto, String version) {
+        Task task = taskRepository.findById(id)
+                .orElseThrow(() -> new RuntimeException("Task not found with id: " + id));
+        RecordVersion.check(version, task.getLastUpdatedAt(), () -> convertToDto(task));
+
         // Check if task is being marked as completed
         String oldStatus = task.getStatus();
         boolean wasCompleted = "completed".equalsIgnoreCase(oldStatus);
@@ -87,15 +114,112 @@ public class TaskService {
             }
         }
         
-        Task updated = taskRepository.save(task);
-        return convertToDto(updated);
+        return saveUpdate(task);
     }
 
-    public void deleteTask(Long id) {
-        if (!taskRepository.existsById(id)) {
-            throw new RuntimeException("Task not found with id: " + id);
+    // Restores fields from an earlier version, clearing the ones that were empty in it
+    public TaskDto revertTask(Long id, Map<String, Object> fields, String version) {
+        Task task = taskRepository.findById(id)
+                .orElseThrow(() -> new RuntimeException("Task not found with id: " + id));
+        RecordVersion.check(version, task.getLastUpdatedAt(), () -> convertToDto(task));
+
+        auditService.applyRevert(task, fields, TaskDto.class);
+        task.setLastUpdatedBy(UserService.getCurrentUsername());
+        return saveUpdate(task);
+    }
+
+    // Keyed on (seriesId, occurrenceIndex): repeating it returns the occurrence already there instead of a duplicate
+    public TaskDto saveOccurrence(String seriesId, Integer occurrenceIndex, TaskDto dto) {
+        return taskRepository.findBySeriesIdAndOccurrenceIndex(seriesId, occurrenceIndex)
+                .map(this::convertToDto)
+                .orElseGet(() -> {
+                    Task task = convertToEntity(dto);
+                    task.setSeriesId(seriesId);
+                    task.setOccurrenceIndex(occurrenceIndex);
+                    try {
+                        return saveCreated(task);
+                    } catch (DataIntegrityViolationException e) {
+                        // Created by a concurrent request in the meantime
+                        return taskRepository.findBySeriesIdAndOccurrenceIndex(seriesId, occurrenceIndex)
+                                .map(this::convertToDto)
+                                .orElseThrow(() -> e);
+                    }
+                });
+    }
+
+    /**
+     * Creates the occurrences of a series that have come inside the scheduling horizon, copied from its
+     * latest occurrence. Only the newest schedule of a series keeps generating, and slots that already
+     * exist are left alone, so it is safe to call whenever a series is created, rescheduled or viewed.
+     */
+    public List<TaskDto> extendSeries(String seriesId) {
+        List<Task> occurrences = taskRepository.findBySeriesId(seriesId);
+        List<Task> scheduled = occurrences.stream()
+                .filter(task -> task.getRecurrence() != null && task.getRecurrence().getStartDate() != null)
+                .collect(Collectors.toList());
+        if (scheduled.isEmpty()) {
+            return List.of();
         }
+
+        LocalDate latestStart = scheduled.stream()
+                .map(task -> task.getRecurrence().getStartDate())
+                .max(Comparator.naturalOrder())
+                .get();
+        Task template = scheduled.stream()
+                .filter(task -> latestStart.equals(task.getRecurrence().getStartDate()))
+                .max(Comparator.comparing(task -> task.getOccurrenceIndex() != null ? task.getOccurrenceIndex() : -1))
+                .get();
+        int fromIndex = (template.getOccurrenceIndex() != null ? template.getOccurrenceIndex() : 0) + 1;
+        Set<Integer> taken = occurrences.stream().map(Task::getOccurrenceIndex).collect(Collectors.toSet());
+        String user = UserService.getCurrentUsername();
+
+        List<TaskDto> created = new ArrayList<>();
+        RecurrenceSchedule.scheduleAfter(template.getRecurrence(), RecurrenceSchedule.horizon()).forEach((index, date) -> {
+            if (index < fromIndex || taken.contains(index)) return;
+            // Each occurrence starts from scratch on its scheduled date
+            Task occurrence = Task.builder()
+                    .title(template.getTitle())
+                    .description(template.getDescription())
+                    .priority(template.getPriority())
+                    .taskType(template.getTaskType())
+                    .assignedTo(template.getAssignedTo())
+                    .taskLink(template.getTaskLink())
+                    .companyId(template.getCompanyId())
+                    .isVisibleOnMainBoard(template.getIsVisibleOnMainBoard())
+                    .status("Not Started")
+                    .dueDate(date)
+                    .recurrence(template.getRecurrence())
+                    .seriesId(seriesId)
+                    .occurrenceIndex(index)
+                    .lastUpdatedBy(user)
+                    .build();
+            try {
+                created.add(saveCreated(occurrence));
+            } catch (DataIntegrityViolationException e) {
+                // Another request generated this slot first
+            }
+        });
+        return created;
+    }
+
+    public void deleteTask(Long id) {
+        Task task = taskRepository.findById(id)
+                .orElseThrow(() -> new RuntimeException("Task not found with id: " + id));
         taskRepository.deleteById(id);
+        auditService.record("task", id, task.getTitle(), "delete", null);
+    }
+
+    // Flushes so a duplicate series slot fails here, before the change is recorded
+    private TaskDto saveCreated(Task task) {
+        TaskDto created = convertToDto(taskRepository.saveAndFlush(task));
+        auditService.record("task", created.getId(), created.getTitle(), "create", created);
+        return created;
+    }
+
+    private TaskDto saveUpdate(Task task) {
+        TaskDto updated = convertToDto(taskRepository.save(task));
+        auditService.record("task", updated.getId(), updated.getTitle(), "update", updated);
+        return updated;
     }
 
     private TaskDto convertToDto(Task entity) {
@@ -112,6 +236,9 @@ public class TaskService {
                 .attachments(entity.getAttachments())
                 .taskLink(entity.getTaskLink())
                 .isVisibleOnMainBoard(entity.getIsVisibleOnMainBoard())
+                .recurrence(entity.getRecurrence())
+                .seriesId(entity.getSeriesId())
+                .occurrenceIndex(entity.getOccurrenceIndex())
                 .createdAt(entity.getCreatedAt())
                 .lastUpdatedBy(entity.getLastUpdatedBy())
                 .lastUpdatedAt(entity.getLastUpdatedAt())
@@ -131,6 +258,9 @@ public class TaskService {
                 .attachments(dto.getAttachments())
                 .taskLink(dto.getTaskLink())
                 .isVisibleOnMainBoard(dto.getIsVisibleOnMainBoard())
+                .recurrence(dto.getRecurrence())
+                .seriesId(dto.getSeriesId())
+                .occurrenceIndex(dto.getOccurrenceIndex())
                 .lastUpdatedBy(dto.getLastUpdatedBy())
                 .build();
     }
@@ -149,6 +279,9 @@ public class TaskService {
         if (dto.getAttachments() != null) entity.setAttachments(dto.getAttachments());
         if (dto.getTaskLink() != null) entity.setTaskLink(dto.getTaskLink());
         if (dto.getIsVisibleOnMainBoard() != null) entity.setIsVisibleOnMainBoard(dto.getIsVisibleOnMainBoard());
+        if (dto.getRecurrence() != null) entity.setRecurrence(dto.getRecurrence());
+        if (dto.getSeriesId() != null) entity.setSeriesId(dto.getSeriesId());
+        if (dto.getOccurrenceIndex() != null) entity.setOccurrenceIndex(dto.getOccurrenceIndex());
         entity.setLastUpdatedBy(user);
     }
 }
@@ -9,6 +9,7 @@ import org.springframework.security.core.context.SecurityContextHolder;
 import org.springframework.stereotype.Service;
 
 import java.util.List;
+import java.util.Map;
 import java.util.Optional;
 import java.util.stream.Collectors;
 
@@ -17,6 +18,7 @@ import java.util.stream.Collectors;
 public class UserService {
 
     private final UserRepository userRepository;
+    private final AuditService auditService;
 
     public List<UserDto> getAllUsers() {
         return userRepository.findAll().stream()
@@ -62,6 +64,7 @@ public class UserService {
 
         if(user.isPresent()){
             userRepository.deleteById(id);
+            auditService.record("user", id, user.get().getName(), "delete", null);
         }
         return null;
     }
@@ -80,8 +83,22 @@ public class UserService {
                 .orElseThrow(() -> new RuntimeException("User not found with id: " + id));
 
         updateEntityFromDto(user, userDto);
-        User updated = userRepository.save(user);
-        return convertToDto(updated);
+        return saveUpdate(user);
+    }
+
+    // Restores fields from an earlier version, clearing the ones that were empty in it
+    public UserDto revertUser(Long id, Map<String, Object> fields) {
+        User user = userRepository.findById(id)
+                .orElseThrow(() -> new RuntimeException("User not found with id: " + id));
+
+        auditService.applyRevert(user, fields, UserDto.class);
+        return saveUpdate(user);
+    }
+
+    private UserDto saveUpdate(User user) {
+        UserDto updated = convertToDto(userRepository.save(user));
+        auditService.record("user", updated.getId(), updated.getName(), "update", updated);
+        return updated;
     }
 
     private void updateEntityFromDto(User user, UserDto dto) {